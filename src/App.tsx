@@ -1,20 +1,54 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState, useSyncExternalStore, type ReactNode } from "react";
 import { Canvas } from "@react-three/fiber";
 import { Header } from "./components/Header";
 import { Scene } from "./components/Scene";
-import { DrawingSurface } from "./components/DrawingSurface";
+import { DrawingSurface, type DrawTool } from "./components/DrawingSurface";
 import { StrokeEditor } from "./components/StrokeEditor";
-import { PanControls } from "./components/PanControls";
+import { PanControls, type CameraRequest } from "./components/PanControls";
 import { SqlWorkbench } from "./components/SqlWorkbench";
+import { LayerPanel } from "./components/LayerPanel";
+import { SelectionSurface } from "./components/SelectionSurface";
+import { AttributeTable } from "./components/AttributeTable";
+import { CoordinatePanel } from "./components/CoordinatePanel";
+import { TransformGizmo } from "./components/TransformGizmo";
+import { TransformPanel } from "./components/TransformPanel";
+import { CalibrationSurface, type CalibrationSegment } from "./components/CalibrationSurface";
+import { CalibrationPanel } from "./components/CalibrationPanel";
+import { ViewCommands, type CanvasOverlay, type FitTarget } from "./components/ViewCommands";
+import { BookmarkPanel } from "./components/BookmarkPanel";
+import { SpatialToolbox } from "./components/SpatialToolbox";
+import { CursorTracker } from "./components/CursorTracker";
+import { CanvasRulers, ScaleBar } from "./components/CanvasRulers";
+import { BackgroundGrid } from "./components/BackgroundGrid";
+import { ReferenceImageUnderlay } from "./components/ReferenceImageUnderlay";
+import { UnderlayPanel } from "./components/UnderlayPanel";
+import { LayerStylePanel } from "./components/LayerStylePanel";
+import type { Calibration } from "./domain/calibration";
+import { geometryVertices, type Point2D } from "./domain/geometryFeature";
+import type { ReferenceImage } from "./domain/referenceImage";
 import type { RenderableStroke } from "./domain/renderableStroke";
 import { useGeometryFeatures, type StorageStatus } from "./hooks/useGeometryFeatures";
-import type { Point2D } from "./domain/geometryFeature";
 import { useQueryWorkbench } from "./hooks/useQueryWorkbench";
+import { useFeatureSelection } from "./hooks/useFeatureSelection";
+import type { SelectionMode } from "./lib/featureSelection";
+import { historyShortcut } from "./lib/historyShortcut";
+import { DEFAULT_SHAPE_OPTIONS, type ShapeOptions } from "./lib/shapeTools";
+import { createSnapIndex, DEFAULT_SNAP_SETTINGS, type SnapSettings } from "./lib/snapping";
+import type { GridSettings } from "./lib/adaptiveGrid";
+import { formatCursorPosition } from "./lib/canvasOverlay";
+import { createValueStore, type ValueStore } from "./lib/valueStore";
+import { pointBounds, type CanvasFrame } from "./lib/viewportFit";
 
-type InteractionMode = "draw" | "pan" | "edit" | "measure";
+type InteractionMode = "draw" | "pan" | "edit" | "transform" | "measure" | "select" | "calibrate";
+
+const sameCursor = (a: Point2D | null, b: Point2D | null) => a === b || (!!a && !!b && a[0] === b[0] && a[1] === b[1]);
+const sameFrame = (a: CanvasFrame | null, b: CanvasFrame | null) =>
+  a === b ||
+  (!!a && !!b && sameCursor(a.center, b.center) && a.zoom === b.zoom && a.width === b.width && a.height === b.height);
 
 interface WorkspaceProps {
   interactionMode: InteractionMode;
+  drawTool: DrawTool;
   loading: boolean;
   operationNotice?: string;
   storageStatus: StorageStatus;
@@ -22,12 +56,36 @@ interface WorkspaceProps {
   strokeWidth: number;
   strokes: RenderableStroke[];
   temporaryStrokes: RenderableStroke[];
+  snapSettings: SnapSettings;
+  shapeOptions: ShapeOptions;
+  selectedIds: readonly string[];
+  onSelect: (ids: string[], mode: SelectionMode) => void;
+  onClearSelection: () => void;
   onFinishStroke: ReturnType<typeof useGeometryFeatures>["persistStroke"];
-  onUpdateStroke: (strokeId: string, newPtsPx: Point2D[]) => Promise<void>;
+  onUpdateStroke: ReturnType<typeof useGeometryFeatures>["updateStroke"];
+  transformTargetId: string | null;
+  onTransformTarget: (id: string | null) => void;
+  onTransformFeature: ReturnType<typeof useGeometryFeatures>["transformFeature"];
+  calibration: Calibration;
+  calibrationSegment: CalibrationSegment | null;
+  onCalibrationSegment: (segment: CalibrationSegment | null) => void;
+  onSaveCalibration: (calibration: Calibration) => Promise<unknown>;
+  onCloseCalibration: () => void;
+  cameraRequest: CameraRequest | null;
+  frameStore: ValueStore<CanvasFrame | null>;
+  cursorStore: ValueStore<Point2D | null>;
+  fitAvailable: Record<FitTarget, boolean>;
+  onFit: (target: FitTarget) => void;
+  overlays: Record<CanvasOverlay, boolean>;
+  onToggleOverlay: (overlay: CanvasOverlay) => void;
+  gridSettings: GridSettings;
+  referenceImage: ReferenceImage | null;
+  children?: ReactNode;
 }
 
 function Workspace({
   interactionMode,
+  drawTool,
   loading,
   operationNotice,
   storageStatus,
@@ -35,38 +93,134 @@ function Workspace({
   strokeWidth,
   strokes,
   temporaryStrokes,
+  snapSettings,
+  shapeOptions,
+  selectedIds,
+  onSelect,
+  onClearSelection,
   onFinishStroke,
   onUpdateStroke,
+  transformTargetId,
+  onTransformTarget,
+  onTransformFeature,
+  calibration,
+  calibrationSegment,
+  onCalibrationSegment,
+  onSaveCalibration,
+  onCloseCalibration,
+  cameraRequest,
+  frameStore,
+  cursorStore,
+  fitAvailable,
+  onFit,
+  overlays,
+  onToggleOverlay,
+  gridSettings,
+  referenceImage,
+  children,
 }: WorkspaceProps) {
+  const transformTarget =
+    interactionMode === "transform" ? strokes.find(({ id }) => id === transformTargetId) : undefined;
+  // 表示中の保存済み図形だけをスナップ対象にする。スナップを使わない mode では索引を作らない
+  const snapping = interactionMode === "draw" || interactionMode === "edit" || interactionMode === "calibrate";
+  const snapIndex = useMemo(() => (snapping ? createSnapIndex(strokes) : undefined), [snapping, strokes]);
+  // 配列を毎回作り直すと Scene の memo が効かないので、入力が変わったときだけ結合する
+  const sceneStrokes = useMemo(() => [...strokes, ...temporaryStrokes], [strokes, temporaryStrokes]);
   return (
-    <main data-testid="workspace" style={{ flex: 1, padding: 12, minHeight: 0 }}>
-      <div data-testid="canvas-workspace" style={{ position: "relative", width: "100%", height: "100%" }}>
+    <main
+      data-testid="workspace"
+      style={{ flex: 1, padding: 12, minHeight: 0, display: "flex", flexDirection: "column" }}
+    >
+      <div data-testid="canvas-workspace" style={{ position: "relative", width: "100%", flex: 1, minHeight: 0 }}>
         <div style={{ position: "absolute", inset: 0 }}>
           <Canvas
             data-testid="drawing-canvas"
             orthographic
             camera={{ position: [0, 0, 100], zoom: 1 }}
-            style={{ width: "100%", height: "100%" }}
+            style={{ width: "100%", height: "100%", touchAction: "none" }}
           >
             <color attach="background" args={["#ffffff"]} />
             <ambientLight intensity={0.5} />
-            <PanControls enabled={interactionMode === "pan"} />
+            <PanControls
+              enabled={interactionMode === "pan"}
+              cameraRequest={cameraRequest}
+              onViewChange={frameStore.set}
+            />
+            <CursorTracker onCursor={cursorStore.set} />
+            <ReferenceImageUnderlay image={referenceImage} />
+            <BackgroundGrid frame={frameStore} settings={gridSettings} />
 
             <Scene
-              strokes={[...strokes, ...temporaryStrokes]}
+              strokes={sceneStrokes}
               hideStrokes={interactionMode === "edit"}
               showMeasurements={interactionMode === "measure"}
+              selectedIds={selectedIds}
+              calibration={calibration}
+              frame={frameStore}
+            />
+            <SelectionSurface
+              strokes={strokes}
+              enabled={interactionMode === "select"}
+              onSelect={onSelect}
+              onClear={onClearSelection}
+            />
+            <StrokeEditor
+              strokes={strokes}
+              onUpdateStroke={onUpdateStroke}
+              enabled={interactionMode === "edit"}
+              snapIndex={snapIndex}
+              snapSettings={snapSettings}
+            />
+            <TransformGizmo
+              strokes={strokes}
+              enabled={interactionMode === "transform"}
+              targetId={transformTargetId}
+              onTarget={onTransformTarget}
+              onTransform={onTransformFeature}
             />
-            <StrokeEditor strokes={strokes} onUpdateStroke={onUpdateStroke} enabled={interactionMode === "edit"} />
             <DrawingSurface
               onFinish={onFinishStroke}
               color={strokeColor}
               width={strokeWidth}
               enabled={interactionMode === "draw"}
+              tool={drawTool}
+              snapIndex={snapIndex}
+              snapSettings={snapSettings}
+              shapeOptions={shapeOptions}
+              calibration={calibration}
+            />
+            <CalibrationSurface
+              enabled={interactionMode === "calibrate"}
+              segment={calibrationSegment}
+              onSegment={onCalibrationSegment}
+              snapIndex={snapIndex}
+              snapSettings={snapSettings}
             />
           </Canvas>
         </div>
 
+        {overlays.rulers && <CanvasRulers frame={frameStore} calibration={calibration} />}
+        {overlays.scaleBar && <ScaleBar frame={frameStore} calibration={calibration} />}
+        <ViewCommands available={fitAvailable} onFit={onFit} overlays={overlays} onToggleOverlay={onToggleOverlay} />
+        {transformTarget && (
+          <TransformPanel
+            key={transformTarget.id}
+            targetId={transformTarget.id}
+            onApply={(transform) => onTransformFeature(transformTarget.id, transform)}
+            onClose={() => onTransformTarget(null)}
+          />
+        )}
+        {interactionMode === "calibrate" && (
+          <CalibrationPanel
+            calibration={calibration}
+            segment={calibrationSegment}
+            onSave={async (next) => {
+              await onSaveCalibration(next);
+              onCalibrationSegment(null);
+            }}
+            onClose={onCloseCalibration}
+          />
+        )}
         {loading && (
           <div
             data-testid="loading-overlay"
@@ -109,48 +263,153 @@ function Workspace({
           }}
         />
       </div>
+      {children}
     </main>
   );
 }
 
-function StatusFooter({ storageStatus }: { storageStatus: StorageStatus }) {
+// cursor の移動ごとに再描画されるのはこの表示だけにする
+function CursorReadout({ cursor, calibration }: { cursor: ValueStore<Point2D | null>; calibration: Calibration }) {
+  const point = useSyncExternalStore(cursor.subscribe, cursor.get);
+  return (
+    <span data-testid="cursor-readout" className="cursor-readout">
+      {point ? formatCursorPosition(point, calibration) : "—"}
+    </span>
+  );
+}
+
+function StatusFooter({
+  storageStatus,
+  cursor,
+  calibration,
+}: {
+  storageStatus: StorageStatus;
+  cursor: ValueStore<Point2D | null>;
+  calibration: Calibration;
+}) {
   const storageLabel = storageStatus.opfs ? "OPFS" : "メモリ";
   const engineLabel = storageStatus.store === "spatial" ? "Spatial" : "JSON fallback";
   const persistenceLabel = storageStatus.opfs ? "永続ストレージ" : "一時ストレージ";
   return (
     <footer data-testid="status-footer" style={{ padding: 8, fontSize: 12, color: "#666", textAlign: "right" }}>
+      <CursorReadout cursor={cursor} calibration={calibration} />
       <span data-testid="storage-status" style={{ color: storageStatus.opfs ? "#16a34a" : "#b45309", marginRight: 8 }}>
         {persistenceLabel}: {storageLabel} / {engineLabel}
       </span>
-      Draw モード: クリックで点を追加・Escまたはダブルクリックで確定 | Measure モード: 長さ・面積・周長を表示 | Edit
-      モード: 点をドラッグで移動 | Pan モード: ドラッグで移動・ホイールでズーム | Undo・Clear はヘッダーから
+      Draw モード: クリックで点を追加・Escまたはダブルクリックで確定（Point
+      ツールは1クリックで保存、図形ツールはドラッグで作成・Shift で正方形/円、Freehand はドラッグした軌跡を保存） |
+      Draw・Edit モードでは頂点・辺・グリッドにスナップ（Alt で一時解除） | Measure モード: 長さ・面積・周長を表示 |
+      Edit モード: 点をドラッグで移動・中点ハンドルで挿入・Delete または右クリックで削除 | Transform モード:
+      図形をクリックして移動・回転（上の丸）・拡大縮小（四隅）、数値入力も可 | Pan モード:
+      ドラッグで移動・ホイールでズーム | 右上の Fit ボタンで全体・layer・選択・SQL 結果へズーム、Rulers・Scale bar
+      で目盛りと縮尺を表示 | Layer style パネル: 属性値による色分け・数値や面積・長さによる段階的な色と太さ・破線を
+      layer ごとに設定 | Bookmarks パネル: 現在の表示範囲を名前付きで保存し Go で移動 | Grid &amp; reference image
+      パネル: グリッドの間隔と、なぞり書き用の下絵画像の位置・縮尺・不透明度を設定 | Calibrate モード:
+      実長が分かる線分をドラッグして実長と単位を入力 | Select モード: クリック・ドラッグで選択（Shiftで追加） |
+      Coordinates パネル: 選択中の頂点を数値で編集・座標入力（x,y・@dx,dy・@長さ&lt;角度）で作図 |
+      Undo(Ctrl+Z)・Redo(Ctrl+Shift+Z)・Clear はヘッダーから | 新しい図形は Layers パネルで選択中の layer へ保存
     </footer>
   );
 }
 
 export default function App() {
   const [interactionMode, setInteractionMode] = useState<InteractionMode>("draw");
+  const [drawTool, setDrawTool] = useState<DrawTool>("path");
   const [strokeColor, setStrokeColor] = useState("#222222");
   const [strokeWidth, setStrokeWidth] = useState(4);
   const [simplifyOn, setSimplifyOn] = useState(true);
+  const [transformTargetId, setTransformTargetId] = useState<string | null>(null);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [shapeOptions, setShapeOptions] = useState<ShapeOptions>(DEFAULT_SHAPE_OPTIONS);
+  const [calibrationSegment, setCalibrationSegment] = useState<CalibrationSegment | null>(null);
+  // 表示範囲は毎フレーム変わりうるので store で持つ。canvas に描く feature もこの範囲の tile から読み込む
+  const [frameStore] = useState(() => createValueStore<CanvasFrame | null>(null, sameFrame));
   const {
+    activeLayerId,
+    bookmarks,
+    calibration,
     canExport,
-    features,
+    createBookmark,
+    createLayer,
+    deleteBookmark,
+    deleteLayer,
+    featureCounts,
+    featureSource,
+    gridSettings,
     handleClear,
     handleExportGeoJSON,
     handleImportGeoJSON,
     handleRefresh,
+    handleRedo,
     handleUndo,
+    history,
     loading,
+    layerExtent,
     layers,
+    loadReferenceImage,
+    moveLayer,
     operationNotice,
     promoteQueryResult,
+    referenceImage,
+    removeReferenceImage,
+    renameBookmark,
+    reprojectLayer,
     persistStroke,
+    saveCalibration,
+    saveGridSettings,
+    setActiveLayerId,
+    setLayerStyle,
     storageStatus,
     strokes,
+    updateLayer,
+    updateProperties,
+    updateReferenceImage,
+    transformFeature,
     updateStroke,
-  } = useGeometryFeatures(strokeColor, strokeWidth, simplifyOn);
-  const query = useQueryWorkbench(features, layers, loading);
+  } = useGeometryFeatures(strokeColor, strokeWidth, simplifyOn, frameStore);
+  const { selectedIds, selectedFeatures, select, clearSelection } = useFeatureSelection(featureSource);
+  const query = useQueryWorkbench(featureSource, layers, loading, selectedIds, calibration, bookmarks);
+  // SQL Workbench と Spatial operations はどちらも直近の query 結果を新しい layer として保存する
+  const promoteCurrentResult = (layerName: string) =>
+    query.result ? promoteQueryResult(query.result, layerName) : Promise.resolve({ status: "empty" as const });
+  // 表の行クリックは単一選択、Shift+クリックは追加/解除
+  const selectFeature = (id: string, additive: boolean) => select([id], additive ? "toggle" : "replace");
+  const activeLayer = layers.find(({ id }) => id === activeLayerId);
+
+  // ズーム対象ごとの範囲（model pixel）。全体は表示中の layer だけを対象にする
+  // canvas の stroke は表示範囲の分しか無いので、layer の範囲は repository の外接矩形の列から求める
+  const [cameraRequest, setCameraRequest] = useState<CameraRequest | null>(null);
+  const visibleLayerIds = layers.filter(({ visible }) => visible).map(({ id }) => id);
+  const fitLayerIds: Record<"all" | "layer", string[]> = { all: visibleLayerIds, layer: [activeLayerId] };
+  const fitAvailable: Record<FitTarget, boolean> = {
+    all: visibleLayerIds.some((id) => (featureCounts.get(id) ?? 0) > 0),
+    layer: (featureCounts.get(activeLayerId) ?? 0) > 0,
+    selection: selectedFeatures.length > 0,
+    query: query.temporaryStrokes.length > 0,
+  };
+  const fitTo = async (target: FitTarget) => {
+    const bounds =
+      target === "selection"
+        ? pointBounds(selectedFeatures.flatMap(({ geometry }) => geometryVertices(geometry)))
+        : target === "query"
+          ? pointBounds(query.temporaryStrokes.flatMap(({ ptsPx }) => ptsPx))
+          : await layerExtent(fitLayerIds[target]);
+    if (bounds) setCameraRequest((current) => ({ id: (current?.id ?? 0) + 1, bounds }));
+  };
+  // cursor 位置は毎フレーム変わりうるので、React state ではなく store で読む側だけを再描画する
+  const [cursorStore] = useState(() => createValueStore<Point2D | null>(null, sameCursor));
+  const [overlays, setOverlays] = useState<Record<CanvasOverlay, boolean>>({ rulers: false, scaleBar: true });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = historyShortcut(e);
+      if (!action) return;
+      e.preventDefault();
+      void (action === "undo" ? handleUndo() : handleRedo());
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleRedo, handleUndo]);
 
   return (
     <div
@@ -166,13 +425,21 @@ export default function App() {
       <Header
         interactionMode={interactionMode}
         setInteractionMode={setInteractionMode}
+        drawTool={drawTool}
+        setDrawTool={setDrawTool}
         strokeColor={strokeColor}
         setStrokeColor={setStrokeColor}
         strokeWidth={strokeWidth}
         setStrokeWidth={setStrokeWidth}
         simplifyOn={simplifyOn}
         setSimplifyOn={setSimplifyOn}
+        shapeOptions={shapeOptions}
+        setShapeOptions={setShapeOptions}
+        snapSettings={snapSettings}
+        setSnapSettings={setSnapSettings}
+        history={history}
         handleUndo={handleUndo}
+        handleRedo={handleRedo}
         handleRefresh={handleRefresh}
         handleClear={handleClear}
         handleExportGeoJSON={handleExportGeoJSON}
@@ -181,8 +448,21 @@ export default function App() {
       />
 
       <div className="workbench-layout">
+        <LayerPanel
+          layers={layers}
+          featureCounts={featureCounts}
+          activeLayerId={activeLayerId}
+          onSelectLayer={setActiveLayerId}
+          onCreateLayer={createLayer}
+          onUpdateLayer={updateLayer}
+          onDeleteLayer={deleteLayer}
+          onReprojectLayer={reprojectLayer}
+          onMoveLayer={moveLayer}
+          canReproject={storageStatus.spatial}
+        />
         <Workspace
           interactionMode={interactionMode}
+          drawTool={drawTool}
           loading={loading}
           operationNotice={operationNotice}
           storageStatus={storageStatus}
@@ -190,18 +470,90 @@ export default function App() {
           strokeWidth={strokeWidth}
           strokes={strokes}
           temporaryStrokes={query.temporaryStrokes}
+          snapSettings={snapSettings}
+          shapeOptions={shapeOptions}
+          selectedIds={selectedIds}
+          onSelect={select}
+          onClearSelection={clearSelection}
           onFinishStroke={persistStroke}
           onUpdateStroke={updateStroke}
-        />
+          transformTargetId={transformTargetId}
+          onTransformTarget={setTransformTargetId}
+          onTransformFeature={transformFeature}
+          calibration={calibration}
+          calibrationSegment={calibrationSegment}
+          onCalibrationSegment={setCalibrationSegment}
+          onSaveCalibration={saveCalibration}
+          onCloseCalibration={() => {
+            setCalibrationSegment(null);
+            setInteractionMode("draw");
+          }}
+          cameraRequest={cameraRequest}
+          frameStore={frameStore}
+          cursorStore={cursorStore}
+          fitAvailable={fitAvailable}
+          onFit={(target) => void fitTo(target)}
+          overlays={overlays}
+          onToggleOverlay={(overlay) => setOverlays((current) => ({ ...current, [overlay]: !current[overlay] }))}
+          gridSettings={gridSettings}
+          referenceImage={referenceImage}
+        >
+          <AttributeTable
+            layers={layers}
+            source={featureSource}
+            activeLayerId={activeLayerId}
+            selectedIds={selectedIds}
+            onSelectFeature={selectFeature}
+            onUpdateProperties={updateProperties}
+          />
+          {activeLayer && (
+            <LayerStylePanel
+              // 保存後や layer の切り替えでは draft を保存済みの style から作り直す
+              key={`${activeLayer.id}:${JSON.stringify(activeLayer.style ?? null)}`}
+              layer={activeLayer}
+              source={featureSource}
+              calibration={calibration}
+              onSave={(style) => setLayerStyle(activeLayer.id, style)}
+            />
+          )}
+          <CoordinatePanel selectedFeatures={selectedFeatures} onUpdateStroke={updateStroke} onCreate={persistStroke} />
+          <SpatialToolbox
+            layers={layers}
+            selectedIds={selectedIds}
+            selectedFeatures={selectedFeatures}
+            query={query}
+            onPromote={promoteCurrentResult}
+          />
+          <BookmarkPanel
+            bookmarks={bookmarks}
+            onCreate={async (name) => {
+              const frame = frameStore.get();
+              if (frame) await createBookmark(name, frame);
+            }}
+            onRename={renameBookmark}
+            onDelete={deleteBookmark}
+            onJump={({ center, zoom }) =>
+              setCameraRequest((current) => ({ id: (current?.id ?? 0) + 1, view: { center, zoom } }))
+            }
+          />
+          <UnderlayPanel
+            gridSettings={gridSettings}
+            onSaveGridSettings={saveGridSettings}
+            image={referenceImage}
+            onLoadImage={(file) => loadReferenceImage(file, frameStore.get()?.center ?? [0, 0])}
+            onUpdateImage={updateReferenceImage}
+            onRemoveImage={removeReferenceImage}
+          />
+        </Workspace>
         <SqlWorkbench
           query={query}
-          onPromote={(layerName) =>
-            query.result ? promoteQueryResult(query.result, layerName) : Promise.resolve({ status: "empty" as const })
-          }
+          selectedIds={selectedIds}
+          onSelectFeature={selectFeature}
+          onPromote={promoteCurrentResult}
         />
       </div>
 
-      <StatusFooter storageStatus={storageStatus} />
+      <StatusFooter storageStatus={storageStatus} cursor={cursorStore} calibration={calibration} />
     </div>
   );
 }
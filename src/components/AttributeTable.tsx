@@ -0,0 +1,210 @@
+import { useMemo, useRef, useState } from "react";
+import type { GeometryFeature, JsonValue, Layer } from "../domain/geometryFeature";
+import { useFeatureRequest } from "../hooks/useFeatureRequest";
+import type { FeatureSource } from "../hooks/useGeometryFeatures";
+import {
+  addAttributeColumn,
+  attributeColumnType,
+  attributeColumns,
+  attributeRows,
+  formatAttributeValue,
+  parseAttributeInput,
+  removeAttributeColumn,
+  setAttributeValue,
+  type AttributeColumnType,
+  type AttributeSort,
+  type PropertiesUpdate,
+} from "../lib/attributeTable";
+
+interface AttributeTableProps {
+  layers: Layer[];
+  source: FeatureSource;
+  activeLayerId: string;
+  selectedIds: readonly string[];
+  onSelectFeature: (id: string, additive: boolean) => void;
+  onUpdateProperties: (updates: PropertiesUpdate[]) => Promise<unknown>;
+}
+
+const NO_FEATURES: GeometryFeature[] = [];
+
+function AttributeCell({
+  value,
+  type,
+  onCommit,
+}: {
+  value: JsonValue | undefined;
+  /** 列の既存の値の型。文字列の列に入力した `123` や `true` は文字列のまま保存する */
+  type: AttributeColumnType | undefined;
+  onCommit: (value: JsonValue) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+  if (draft === null) {
+    return (
+      <td
+        title="ダブルクリックで編集（列の型に合わせて解釈）"
+        onDoubleClick={() => {
+          cancelledRef.current = false;
+          setDraft(formatAttributeValue(value));
+        }}
+      >
+        {formatAttributeValue(value)}
+      </td>
+    );
+  }
+  // Escape で取り消した場合と未変更の場合は保存しない
+  const commit = () => {
+    if (!cancelledRef.current && draft !== formatAttributeValue(value)) onCommit(parseAttributeInput(draft, type));
+    setDraft(null);
+  };
+  return (
+    <td>
+      <input
+        autoFocus
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onClick={(event) => event.stopPropagation()}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") event.currentTarget.blur();
+          if (event.key === "Escape") {
+            cancelledRef.current = true;
+            setDraft(null);
+          }
+        }}
+      />
+    </td>
+  );
+}
+
+export function AttributeTable({
+  layers,
+  source,
+  activeLayerId,
+  selectedIds,
+  onSelectFeature,
+  onUpdateProperties,
+}: AttributeTableProps) {
+  const [requestedLayerId, setRequestedLayerId] = useState<string>();
+  const [filter, setFilter] = useState("");
+  const [sort, setSort] = useState<AttributeSort>();
+  const [newColumn, setNewColumn] = useState("");
+  const [open, setOpen] = useState(false);
+
+  // 明示的に選んだ layer が削除されたら active layer を表示する
+  const layerId =
+    requestedLayerId && layers.some(({ id }) => id === requestedLayerId) ? requestedLayerId : activeLayerId;
+  // 表を開いている間だけ、表示する layer の feature を repository から読む
+  const request = useMemo(() => (open ? { layerId } : null), [layerId, open]);
+  const layerFeatures = useFeatureRequest(source, request) ?? NO_FEATURES;
+  const columns = useMemo(() => attributeColumns(layerFeatures), [layerFeatures]);
+  const columnTypes = useMemo(
+    () => new Map(columns.map((column) => [column, attributeColumnType(layerFeatures, column)])),
+    [columns, layerFeatures]
+  );
+  const rows = useMemo(() => attributeRows(layerFeatures, filter, sort), [layerFeatures, filter, sort]);
+  const selectedSet = new Set(selectedIds);
+
+  const toggleSort = (column: string) =>
+    setSort((current) =>
+      current?.column !== column
+        ? { column, direction: "asc" }
+        : current.direction === "asc"
+          ? { column, direction: "desc" }
+          : undefined
+    );
+
+  const addColumn = async () => {
+    const column = newColumn.trim();
+    if (!column || columns.includes(column)) return;
+    await onUpdateProperties(addAttributeColumn(layerFeatures, column));
+    setNewColumn("");
+  };
+
+  return (
+    <details
+      className="attribute-table"
+      data-testid="attribute-table"
+      onToggle={(event) => setOpen(event.currentTarget.open)}
+    >
+      <summary>Attributes</summary>
+      <div className="attribute-table__controls">
+        <select
+          aria-label="Attribute layer"
+          value={layerId}
+          onChange={(event) => setRequestedLayerId(event.target.value)}
+        >
+          {layers.map((layer) => (
+            <option key={layer.id} value={layer.id}>
+              {layer.name}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label="Filter attributes"
+          placeholder="Filter"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+        <input
+          aria-label="New column name"
+          placeholder="New column"
+          value={newColumn}
+          onChange={(event) => setNewColumn(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && void addColumn()}
+        />
+        <button
+          onClick={() => void addColumn()}
+          disabled={!newColumn.trim() || columns.includes(newColumn.trim()) || layerFeatures.length === 0}
+        >
+          Add column
+        </button>
+        <span>
+          {rows.length} / {layerFeatures.length} features
+        </span>
+      </div>
+      <div className="attribute-table__wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>id</th>
+              {columns.map((column) => (
+                <th key={column} aria-sort={sort?.column === column ? `${sort.direction}ending` : undefined}>
+                  <button className="attribute-table__sort" onClick={() => toggleSort(column)}>
+                    {column}
+                    {sort?.column === column ? (sort.direction === "asc" ? " ▲" : " ▼") : ""}
+                  </button>
+                  <button
+                    aria-label={`Remove column ${column}`}
+                    onClick={() => void onUpdateProperties(removeAttributeColumn(layerFeatures, column))}
+                  >
+                    ×
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((feature) => (
+              <tr
+                key={feature.id}
+                data-selected={selectedSet.has(feature.id) ? "true" : undefined}
+                onClick={(event) => onSelectFeature(feature.id, event.shiftKey)}
+              >
+                <td>{feature.id}</td>
+                {columns.map((column) => (
+                  <AttributeCell
+                    key={column}
+                    value={feature.properties[column]}
+                    type={columnTypes.get(column)}
+                    onCommit={(value) => void onUpdateProperties([setAttributeValue(feature, column, value)])}
+                  />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
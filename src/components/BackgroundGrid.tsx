@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { gridLines, type GridSettings } from "../lib/adaptiveGrid";
+import type { ValueStore } from "../lib/valueStore";
+import type { CanvasFrame } from "../lib/viewportFit";
+
+interface BackgroundGridProps {
+  frame: ValueStore<CanvasFrame | null>;
+  settings: GridSettings;
+}
+
+// 図形と参照画像の間に描く
+const GRID_Z = -0.02;
+const MINOR_COLOR = "#eef2f7";
+const MAJOR_COLOR = "#d5dde8";
+
+export function BackgroundGrid({ frame: store, settings }: BackgroundGridProps) {
+  const frame = useSyncExternalStore(store.subscribe, store.get);
+  const { size, viewport } = useThree();
+
+  // 表示範囲が変わるたびに見えている範囲だけの線を作り直す
+  const geometries = useMemo(() => {
+    const lines = frame && gridLines(frame, settings);
+    if (!lines) return null;
+    const toWorldX = (x: number) => (x / size.width) * viewport.width - viewport.width / 2;
+    const toWorldY = (y: number) => viewport.height / 2 - (y / size.height) * viewport.height;
+    const halfWidth = frame.width / 2 / frame.zoom;
+    const halfHeight = frame.height / 2 / frame.zoom;
+    const [left, right] = [frame.center[0] - halfWidth, frame.center[0] + halfWidth].map(toWorldX);
+    const [top, bottom] = [frame.center[1] - halfHeight, frame.center[1] + halfHeight].map(toWorldY);
+    const build = ({ x, y }: { x: number[]; y: number[] }) => {
+      const positions = [
+        ...x.flatMap((value) => [toWorldX(value), top, GRID_Z, toWorldX(value), bottom, GRID_Z]),
+        ...y.flatMap((value) => [left, toWorldY(value), GRID_Z, right, toWorldY(value), GRID_Z]),
+      ];
+      return new THREE.BufferGeometry().setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    };
+    return { minor: build(lines.minor), major: build(lines.major) };
+  }, [frame, settings, size, viewport]);
+
+  useEffect(
+    () => () => {
+      geometries?.minor.dispose();
+      geometries?.major.dispose();
+    },
+    [geometries]
+  );
+
+  if (!geometries) return null;
+  return (
+    <group>
+      <lineSegments geometry={geometries.minor} renderOrder={-1}>
+        <lineBasicMaterial color={MINOR_COLOR} depthWrite={false} />
+      </lineSegments>
+      <lineSegments geometry={geometries.major} renderOrder={-1}>
+        <lineBasicMaterial color={MAJOR_COLOR} depthWrite={false} />
+      </lineSegments>
+    </group>
+  );
+}
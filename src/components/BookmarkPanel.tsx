@@ -0,0 +1,97 @@
+import { useState } from "react";
+import type { ViewportBookmark } from "../domain/viewportBookmark";
+
+interface BookmarkPanelProps {
+  bookmarks: ViewportBookmark[];
+  onCreate: (name: string) => Promise<unknown>;
+  onRename: (id: string, name: string) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+  onJump: (bookmark: ViewportBookmark) => void;
+}
+
+const formatCoordinate = (value: number) => String(Number(value.toFixed(1)));
+
+function BookmarkNameInput({ bookmark, onRename }: { bookmark: ViewportBookmark; onRename: (name: string) => void }) {
+  const [draft, setDraft] = useState(bookmark.name);
+  // 空文字や未変更の名前は保存せず元に戻す
+  const commit = () => {
+    const name = draft.trim();
+    if (name && name !== bookmark.name) onRename(name);
+    else setDraft(bookmark.name);
+  };
+  return (
+    <input
+      aria-label={`Bookmark name: ${bookmark.name}`}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") event.currentTarget.blur();
+        if (event.key === "Escape") setDraft(bookmark.name);
+      }}
+    />
+  );
+}
+
+export function BookmarkPanel({ bookmarks, onCreate, onRename, onDelete, onJump }: BookmarkPanelProps) {
+  const [name, setName] = useState("");
+
+  return (
+    <details className="attribute-table bookmark-panel" data-testid="bookmark-panel">
+      <summary>Bookmarks ({bookmarks.length})</summary>
+      <form
+        className="attribute-table__controls"
+        onSubmit={async (event) => {
+          event.preventDefault();
+          await onCreate(name);
+          setName("");
+        }}
+      >
+        <input
+          aria-label="Bookmark name"
+          placeholder="Name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button type="submit" disabled={!name.trim()} title="現在の表示範囲を名前を付けて保存">
+          Save current view
+        </button>
+      </form>
+      <div className="attribute-table__wrap">
+        {bookmarks.length > 0 && (
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Center (px)</th>
+                <th>Zoom</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {bookmarks.map((bookmark) => (
+                <tr key={bookmark.id}>
+                  <td>
+                    <BookmarkNameInput
+                      key={bookmark.name}
+                      bookmark={bookmark}
+                      onRename={(next) => void onRename(bookmark.id, next)}
+                    />
+                  </td>
+                  <td>{bookmark.center.map(formatCoordinate).join(", ")}</td>
+                  <td>{Number(bookmark.zoom.toFixed(2))}×</td>
+                  <td>
+                    <button onClick={() => onJump(bookmark)}>Go</button>
+                    <button aria-label={`Delete bookmark ${bookmark.name}`} onClick={() => void onDelete(bookmark.id)}>
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </details>
+  );
+}
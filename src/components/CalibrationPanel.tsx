@@ -0,0 +1,91 @@
+import { useState } from "react";
+import {
+  MEASUREMENT_UNITS,
+  PIXEL_CALIBRATION,
+  calibrationFromReference,
+  convertCalibration,
+  isMeasurementUnit,
+  type Calibration,
+  type MeasurementUnit,
+} from "../domain/calibration";
+import type { CalibrationSegment } from "./CalibrationSurface";
+
+interface CalibrationPanelProps {
+  calibration: Calibration;
+  segment: CalibrationSegment | null;
+  onSave: (calibration: Calibration) => Promise<unknown>;
+  onClose: () => void;
+}
+
+const REAL_UNITS = MEASUREMENT_UNITS.filter((unit) => unit !== "px");
+
+/** 参照線分の実長から縮尺を求める。較正済みなら表示単位の変更と px への解除もここで行う */
+export function CalibrationPanel({ calibration, segment, onSave, onClose }: CalibrationPanelProps) {
+  const [realLength, setRealLength] = useState("");
+  const [unit, setUnit] = useState<MeasurementUnit>(calibration.unit === "px" ? "m" : calibration.unit);
+  const pixelLength = segment ? Math.hypot(segment[1][0] - segment[0][0], segment[1][1] - segment[0][1]) : 0;
+  const next = calibrationFromReference(pixelLength, Number(realLength), unit);
+  const calibrated = calibration.unit !== "px";
+
+  return (
+    <form
+      className="transform-panel calibration-panel"
+      data-testid="calibration-panel"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (!next || !realLength.trim()) return;
+        void onSave(next).then(() => setRealLength(""));
+      }}
+    >
+      <strong>Calibrate</strong>
+      <span>
+        {calibrated
+          ? `1 px = ${Number(calibration.unitsPerPixel.toPrecision(6))} ${calibration.unit}`
+          : "Uncalibrated (px)"}
+      </span>
+      <span>
+        {segment ? `Reference: ${pixelLength.toFixed(1)} px` : "Drag on the canvas to draw a reference line."}
+      </span>
+      <label>
+        Real length
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={realLength}
+          disabled={!segment}
+          onChange={(event) => setRealLength(event.target.value)}
+        />
+      </label>
+      <label>
+        Unit
+        <select
+          value={unit}
+          onChange={(event) => {
+            if (!isMeasurementUnit(event.target.value)) return;
+            setUnit(event.target.value);
+            // 参照線分がないときは既存の縮尺を新しい単位へ換算する
+            if (!segment && calibrated) void onSave(convertCalibration(calibration, event.target.value));
+          }}
+        >
+          {REAL_UNITS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="transform-panel__actions">
+        <button type="submit" disabled={!next || !realLength.trim()}>
+          Apply
+        </button>
+        <button type="button" disabled={!calibrated} onClick={() => void onSave(PIXEL_CALIBRATION)}>
+          Reset to px
+        </button>
+        <button type="button" onClick={onClose}>
+          Done
+        </button>
+      </div>
+    </form>
+  );
+}
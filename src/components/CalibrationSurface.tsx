@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+import type { Mesh } from "three";
+import type { Point2D } from "../domain/geometryFeature";
+import { pointerToModelPixel } from "../lib/canvasCoordinates";
+import { SNAP_TOLERANCE_PX, type SnapIndex, type SnapSettings } from "../lib/snapping";
+
+export type CalibrationSegment = [Point2D, Point2D];
+
+interface CalibrationSurfaceProps {
+  enabled: boolean;
+  segment: CalibrationSegment | null;
+  onSegment: (segment: CalibrationSegment | null) => void;
+  snapIndex?: SnapIndex;
+  snapSettings?: SnapSettings;
+}
+
+const CALIBRATION_COLOR = "#0891b2";
+
+/** 実長が分かっている参照線分をドラッグで引く（端点は既存の頂点・辺へスナップする） */
+export function CalibrationSurface({ enabled, segment, onSegment, snapIndex, snapSettings }: CalibrationSurfaceProps) {
+  const { camera, size, viewport } = useThree();
+  const [draft, setDraft] = useState<CalibrationSegment | null>(null);
+  const draftRef = useRef<CalibrationSegment | null>(null);
+  const interactionPlaneRef = useRef<Mesh>(null);
+
+  const planeArgs = useMemo<[number, number]>(() => [viewport.width, viewport.height], [viewport]);
+
+  useFrame(() => {
+    interactionPlaneRef.current?.position.set(camera.position.x, camera.position.y, 0.006);
+  });
+
+  useEffect(() => {
+    if (enabled) return;
+    draftRef.current = null;
+    setDraft(null);
+  }, [enabled]);
+
+  const pxToWorld = ([x, y]: Point2D): [number, number, number] => [
+    (x / size.width) * viewport.width - viewport.width / 2,
+    viewport.height / 2 - (y / size.height) * viewport.height,
+    0.004,
+  ];
+
+  // Alt を押している間はスナップしない
+  const toModelPixel = (e: ThreeEvent<PointerEvent>): Point2D => {
+    const point = pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom);
+    if (!snapIndex || !snapSettings || e.altKey) return point;
+    return snapIndex.snap(point, snapSettings, SNAP_TOLERANCE_PX / camera.zoom).point;
+  };
+
+  const updateDraft = (next: CalibrationSegment | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!enabled || e.button !== 0) return;
+    e.stopPropagation();
+    const point = toModelPixel(e);
+    updateDraft([point, point]);
+  };
+
+  const onPointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const current = draftRef.current;
+    if (!enabled || !current) return;
+    updateDraft([current[0], toModelPixel(e)]);
+  };
+
+  const onPointerUp = (e: ThreeEvent<PointerEvent>) => {
+    const current = draftRef.current;
+    if (!enabled || !current) return;
+    e.stopPropagation();
+    updateDraft(null);
+    const [start, end] = [current[0], toModelPixel(e)];
+    // 長さのない線分（クリックのみ）は参照を取り消す
+    onSegment(start[0] === end[0] && start[1] === end[1] ? null : [start, end]);
+  };
+
+  if (!enabled) return null;
+  const shown = draft ?? segment;
+  const handleRadius = ((4 / size.width) * viewport.width) / camera.zoom;
+
+  return (
+    <group>
+      {shown && (
+        <group>
+          <Line points={shown.map(pxToWorld)} color={CALIBRATION_COLOR} lineWidth={2} dashed={Boolean(draft)} />
+          {shown.map((point, index) => (
+            <mesh key={index} position={pxToWorld(point)}>
+              <circleGeometry args={[handleRadius, 16]} />
+              <meshBasicMaterial color={CALIBRATION_COLOR} />
+            </mesh>
+          ))}
+        </group>
+      )}
+      <mesh
+        ref={interactionPlaneRef}
+        position={[camera.position.x, camera.position.y, 0.006]}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+      >
+        <planeGeometry args={planeArgs} />
+        <meshBasicMaterial transparent opacity={0} />
+      </mesh>
+    </group>
+  );
+}
@@ -0,0 +1,57 @@
+import { useSyncExternalStore } from "react";
+import type { Calibration } from "../domain/calibration";
+import { formatStepValue, rulerTicks, scaleBar } from "../lib/canvasOverlay";
+import type { ValueStore } from "../lib/valueStore";
+import type { CanvasFrame } from "../lib/viewportFit";
+
+interface CanvasOverlayProps {
+  frame: ValueStore<CanvasFrame | null>;
+  calibration: Calibration;
+}
+
+function Ruler({ axis, frame, calibration }: { axis: "x" | "y"; frame: CanvasFrame; calibration: Calibration }) {
+  const length = axis === "x" ? frame.width : frame.height;
+  const ticks = rulerTicks(frame.center[axis === "x" ? 0 : 1], frame.zoom, length, calibration);
+  const labelled = ticks.filter((tick) => tick.labelled);
+  const step = labelled.length > 1 ? labelled[1].value - labelled[0].value : 1;
+  return (
+    <div className={`canvas-ruler canvas-ruler--${axis}`} data-testid={`canvas-ruler-${axis}`} aria-hidden>
+      {ticks.map(({ value, offset, labelled: major }) => (
+        <span
+          key={value}
+          className={major ? "canvas-ruler__tick canvas-ruler__tick--major" : "canvas-ruler__tick"}
+          style={axis === "x" ? { left: offset } : { top: offset }}
+        >
+          {major && <span className="canvas-ruler__label">{formatStepValue(value, step)}</span>}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/** canvas の上端と左端に、表示中の範囲の目盛りを較正済みの単位で表示する */
+export function CanvasRulers({ frame: store, calibration }: CanvasOverlayProps) {
+  const frame = useSyncExternalStore(store.subscribe, store.get);
+  if (!frame) return null;
+  return (
+    <>
+      <Ruler axis="x" frame={frame} calibration={calibration} />
+      <Ruler axis="y" frame={frame} calibration={calibration} />
+      <span className="canvas-ruler__corner" aria-hidden>
+        {calibration.unit}
+      </span>
+    </>
+  );
+}
+
+export function ScaleBar({ frame: store, calibration }: CanvasOverlayProps) {
+  const frame = useSyncExternalStore(store.subscribe, store.get);
+  const bar = frame && scaleBar(frame.zoom, calibration);
+  if (!bar) return null;
+  return (
+    <div className="scale-bar" data-testid="scale-bar">
+      <span className="scale-bar__bar" style={{ width: bar.width }} />
+      {bar.label}
+    </div>
+  );
+}
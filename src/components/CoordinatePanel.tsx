@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { geometryVertices, type GeometryFeature, type Point2D, type VertexEdit } from "../domain/geometryFeature";
+import { parseCoordinateEntry } from "../lib/coordinateEntry";
+
+interface CoordinatePanelProps {
+  /** 選択中の feature。1つだけ選ばれているときに頂点を編集できる */
+  selectedFeatures: GeometryFeature[];
+  onUpdateStroke: (strokeId: string, edit: VertexEdit) => Promise<void>;
+  onCreate: (points: Point2D[], type: "point" | "line" | "polygon", options: { tolerance: number }) => Promise<void>;
+}
+
+const formatCoordinate = (value: number) => String(Number(value.toFixed(3)));
+
+function VertexRow({
+  index,
+  point,
+  onMove,
+  onDelete,
+}: {
+  index: number;
+  point: Point2D;
+  onMove: (point: Point2D) => void;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState(() => point.map(formatCoordinate));
+  // 両方が数値で、どちらかが変わったときだけ保存する
+  const commit = () => {
+    const next: Point2D = [Number(draft[0]), Number(draft[1])];
+    const valid = draft.every((value) => value.trim() !== "") && next.every(Number.isFinite);
+    if (!valid) setDraft(point.map(formatCoordinate));
+    else if (next[0] !== point[0] || next[1] !== point[1]) onMove(next);
+  };
+  return (
+    <tr>
+      <td>{index}</td>
+      {([0, 1] as const).map((axis) => (
+        <td key={axis}>
+          <input
+            type="number"
+            aria-label={`Vertex ${index} ${axis === 0 ? "x" : "y"}`}
+            value={draft[axis]}
+            onChange={(event) =>
+              setDraft((current) => (axis === 0 ? [event.target.value, current[1]] : [current[0], event.target.value]))
+            }
+            onBlur={commit}
+            onKeyDown={(event) => event.key === "Enter" && event.currentTarget.blur()}
+          />
+        </td>
+      ))}
+      <td>
+        <button aria-label={`Delete vertex ${index}`} onClick={onDelete}>
+          ×
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export function CoordinatePanel({ selectedFeatures, onUpdateStroke, onCreate }: CoordinatePanelProps) {
+  const [entry, setEntry] = useState("");
+  const [entryError, setEntryError] = useState<string>();
+  const feature = selectedFeatures.length === 1 ? selectedFeatures[0] : undefined;
+  const vertices = feature ? geometryVertices(feature.geometry) : [];
+
+  // 入力どおりの座標で保存するため Simplify は掛けない
+  const draw = async () => {
+    const result = parseCoordinateEntry(entry);
+    if (result.status === "invalid") {
+      setEntryError(result.message);
+      return;
+    }
+    setEntryError(undefined);
+    await onCreate(result.points, result.type, { tolerance: 0 });
+    setEntry("");
+  };
+
+  return (
+    <details className="attribute-table coordinate-panel" data-testid="coordinate-panel">
+      <summary>Coordinates</summary>
+      <form
+        className="attribute-table__controls"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void draw();
+        }}
+      >
+        <input
+          aria-label="Draw by coordinates"
+          placeholder="0,0 @100,0 @50<90 c"
+          title="x,y は絶対座標、@dx,dy は相対座標、@長さ<角度 は極座標（反時計回り）、末尾の c で閉じる"
+          value={entry}
+          onChange={(event) => setEntry(event.target.value)}
+          style={{ flex: "1 1 240px" }}
+        />
+        <button type="submit" disabled={!entry.trim()}>
+          Draw
+        </button>
+        {entryError && <span role="alert">{entryError}</span>}
+      </form>
+      <div className="attribute-table__wrap">
+        {feature ? (
+          <table>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>x (px)</th>
+                <th>y (px)</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {vertices.map((point, index) => (
+                <VertexRow
+                  key={`${feature.id}-${index}-${point[0]}-${point[1]}`}
+                  index={index}
+                  point={point}
+                  onMove={(next) => void onUpdateStroke(feature.id, { type: "move", index, point: next })}
+                  onDelete={() => void onUpdateStroke(feature.id, { type: "delete", index })}
+                />
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="coordinate-panel__hint">Select one feature to edit its vertices.</p>
+        )}
+      </div>
+    </details>
+  );
+}
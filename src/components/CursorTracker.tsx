@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import type { Point2D } from "../domain/geometryFeature";
+import { pointerToModelPixel } from "../lib/canvasCoordinates";
+
+interface CursorTrackerProps {
+  /** canvas 上の cursor 位置（model pixel）。canvas 外に出たら null */
+  onCursor: (point: Point2D | null) => void;
+}
+
+export function CursorTracker({ onCursor }: CursorTrackerProps) {
+  const { gl } = useThree();
+  const insideRef = useRef(false);
+
+  useEffect(() => {
+    const element = gl.domElement;
+    const enter = () => {
+      insideRef.current = true;
+    };
+    const leave = () => {
+      insideRef.current = false;
+      onCursor(null);
+    };
+    element.addEventListener("pointermove", enter);
+    element.addEventListener("pointerleave", leave);
+    return () => {
+      element.removeEventListener("pointermove", enter);
+      element.removeEventListener("pointerleave", leave);
+    };
+  }, [gl, onCursor]);
+
+  // pan やズームでも cursor 下の座標は変わるので、pointer の移動ではなく毎フレーム求め直す
+  useFrame(({ pointer, size, viewport, camera }) => {
+    if (insideRef.current) onCursor(pointerToModelPixel(pointer, size, viewport, camera.position, camera.zoom));
+  });
+
+  return null;
+}
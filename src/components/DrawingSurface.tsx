@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
 import { useFrame, useThree } from "@react-three/fiber";
 import { Html, Line } from "@react-three/drei";
 import type { Mesh } from "three";
@@ -10,19 +10,68 @@ import {
   type Point2D,
 } from "../lib/geometry";
 import { pointerToModelPixel } from "../lib/canvasCoordinates";
+import { SNAP_TOLERANCE_PX, type SnapIndex, type SnapKind, type SnapResult, type SnapSettings } from "../lib/snapping";
+import { PIXEL_CALIBRATION, formatArea, formatLength, type Calibration } from "../domain/calibration";
+import { appendFreehandSample, finishFreehand, freehandTolerance } from "../lib/freehand";
+import { DEFAULT_SHAPE_OPTIONS, shapeRing, type ShapeKind, type ShapeOptions } from "../lib/shapeTools";
+import { SnapMarker } from "./SnapMarker";
+
+export type DrawTool = "path" | "point" | "freehand" | ShapeKind;
+
+const isShapeTool = (tool: DrawTool): tool is ShapeKind => tool !== "path" && tool !== "point" && tool !== "freehand";
 
 interface DrawingSurfaceProps {
-  onFinish: (ptsPx: Point2D[], type: "line" | "polygon") => void | Promise<void>;
+  onFinish: (
+    ptsPx: Point2D[],
+    type: "point" | "line" | "polygon",
+    options?: { tolerance?: number }
+  ) => void | Promise<void>;
   color: string;
   width: number;
   enabled: boolean;
+  tool?: DrawTool;
+  snapIndex?: SnapIndex;
+  snapSettings?: SnapSettings;
+  shapeOptions?: ShapeOptions;
+  calibration?: Calibration;
+}
+
+type CanvasPointerEvent = { pointer: { x: number; y: number }; altKey: boolean; shiftKey: boolean };
+type CanvasPointerDownEvent = CanvasPointerEvent & {
+  button: number;
+  pointerId: number;
+  target: EventTarget | null;
+  stopPropagation: () => void;
+};
+
+interface ShapeDrag {
+  start: Point2D;
+  end: Point2D;
+  constrain: boolean;
 }
 
-export function DrawingSurface({ onFinish, color, width, enabled }: DrawingSurfaceProps) {
-  const { camera, size, viewport } = useThree();
+export function DrawingSurface({
+  onFinish,
+  color,
+  width,
+  enabled,
+  tool = "path",
+  snapIndex,
+  snapSettings,
+  shapeOptions = DEFAULT_SHAPE_OPTIONS,
+  calibration = PIXEL_CALIBRATION,
+}: DrawingSurfaceProps) {
+  const { camera, gl, size, viewport } = useThree();
   const [currentPtsWorld, setCurrentPtsWorld] = useState<[number, number, number][]>([]);
   const [hoverWorld, setHoverWorld] = useState<[number, number, number] | null>(null);
+  const [snapHover, setSnapHover] = useState<{ world: [number, number, number]; kind: SnapKind } | null>(null);
+  const [shapeDrag, setShapeDrag] = useState<ShapeDrag | null>(null);
   const currentPtsPxRef = useRef<Point2D[]>([]);
+  const shapeDragRef = useRef<ShapeDrag | null>(null);
+  // 記録中のサンプルは ref に溜めて複製しない。描画はサンプルごとではなく1フレームに1回だけ進める
+  const freehandRef = useRef<Point2D[] | null>(null);
+  const [, setFreehandRevision] = useState(0);
+  const freehandFrameRef = useRef(0);
   const interactionPlaneRef = useRef<Mesh>(null);
 
   const worldToPx = useCallback(
@@ -56,6 +105,7 @@ export function DrawingSurface({ onFinish, color, width, enabled }: DrawingSurfa
     currentPtsPxRef.current = [];
     setCurrentPtsWorld([]);
     setHoverWorld(null);
+    setSnapHover(null);
 
     if (ptsPx.length < 2) return;
     const [startX, startY] = ptsPx[0];
@@ -76,30 +126,142 @@ export function DrawingSurface({ onFinish, color, width, enabled }: DrawingSurfa
   }, [enabled, finishStroke]);
 
   useEffect(() => {
-    if (enabled) return;
+    shapeDragRef.current = null;
+    setShapeDrag(null);
+    freehandRef.current = null;
+    setFreehandRevision((current) => current + 1);
+    if (!enabled) setSnapHover(null);
+    if (enabled && tool === "path") return;
     currentPtsPxRef.current = [];
     setCurrentPtsWorld([]);
     setHoverWorld(null);
-  }, [enabled]);
+  }, [enabled, tool]);
+
+  // ドラッグ中に pointer の捕捉が切れた（pointercancel やボタンを離さないままの focus 移動など）ら描きかけを捨てる
+  useEffect(() => {
+    const element = gl.domElement;
+    let frame = 0;
+    const cancel = () => {
+      shapeDragRef.current = null;
+      setShapeDrag(null);
+      freehandRef.current = null;
+      setFreehandRevision((current) => current + 1);
+    };
+    // lostpointercapture は pointerup の前に届くブラウザもあるので、pointerup の処理を待ってから破棄する
+    const lost = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(cancel);
+    };
+    element.addEventListener("pointercancel", cancel);
+    element.addEventListener("lostpointercapture", lost);
+    return () => {
+      cancelAnimationFrame(frame);
+      element.removeEventListener("pointercancel", cancel);
+      element.removeEventListener("lostpointercapture", lost);
+    };
+  }, [gl]);
+
+  useEffect(() => () => cancelAnimationFrame(freehandFrameRef.current), []);
 
-  const onClick = (e: { stopPropagation: () => void; pointer: { x: number; y: number } }) => {
+  const updateShapeDrag = (drag: ShapeDrag | null) => {
+    shapeDragRef.current = drag;
+    setShapeDrag(drag);
+  };
+
+  // Alt を押している間はスナップしない
+  const snapPointer = (e: CanvasPointerEvent): SnapResult => {
+    const pointPx = pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom);
+    if (!snapIndex || !snapSettings || e.altKey) return { point: pointPx, kind: null };
+    return snapIndex.snap(pointPx, snapSettings, SNAP_TOLERANCE_PX / camera.zoom);
+  };
+
+  const onClick = async (e: CanvasPointerEvent & { stopPropagation: () => void }) => {
     if (!enabled) return;
     e.stopPropagation();
-    const pointPx = pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom);
+    // 図形ツールとフリーハンドはドラッグで描くため、クリックでは何もしない
+    if (isShapeTool(tool) || tool === "freehand") return;
+    const { point: pointPx } = snapPointer(e);
+    // Point ツールは1クリックで即座に保存
+    if (tool === "point") {
+      await onFinish([pointPx], "point");
+      return;
+    }
     const nextWorld = pxToWorld(pointPx[0], pointPx[1]);
     currentPtsPxRef.current = [...currentPtsPxRef.current, pointPx];
     setCurrentPtsWorld((prev) => [...prev, nextWorld]);
     setHoverWorld(nextWorld);
   };
 
-  const onPointerMove = (e: { pointer: { x: number; y: number } }) => {
+  // 開始・終了はすぐに描き直し、記録中の追加は次のフレームでまとめて描き直す
+  const updateFreehand = (samples: Point2D[] | null) => {
+    freehandRef.current = samples;
+    cancelAnimationFrame(freehandFrameRef.current);
+    freehandFrameRef.current = 0;
+    setFreehandRevision((current) => current + 1);
+  };
+  const redrawFreehand = () => {
+    if (freehandFrameRef.current) return;
+    freehandFrameRef.current = requestAnimationFrame(() => {
+      freehandFrameRef.current = 0;
+      setFreehandRevision((current) => current + 1);
+    });
+  };
+
+  const onPointerMove = (e: CanvasPointerEvent) => {
     if (!enabled) return;
-    const pointPx = pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom);
-    setHoverWorld(pxToWorld(pointPx[0], pointPx[1]));
+    // フリーハンドはボタンを押している間のサンプルをそのまま記録する（スナップしない）
+    const samples = freehandRef.current;
+    if (samples) {
+      const pointPx = pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom);
+      if (appendFreehandSample(samples, pointPx, camera.zoom)) redrawFreehand();
+      return;
+    }
+    const { point: pointPx, kind } = snapPointer(e);
+    const world = pxToWorld(pointPx[0], pointPx[1]);
+    setSnapHover(kind ? { world, kind } : null);
+    if (tool === "path") setHoverWorld(world);
+    const drag = shapeDragRef.current;
+    if (drag) updateShapeDrag({ ...drag, end: pointPx, constrain: e.shiftKey });
+  };
+
+  // 図形ツール：押した点から離した点までのドラッグで Polygon を作る（Shift で正方形・円に制約）
+  // フリーハンド：ペン・タッチも同じ pointer イベントで扱う
+  // どちらも pointer を捕捉し、canvas の外でボタンを離しても pointerup を受け取る
+  const onPointerDown = (e: CanvasPointerDownEvent) => {
+    if (!enabled || e.button !== 0) return;
+    if (tool === "freehand") {
+      e.stopPropagation();
+      (e.target as Element | null)?.setPointerCapture(e.pointerId);
+      setSnapHover(null);
+      updateFreehand([pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom)]);
+      return;
+    }
+    if (!isShapeTool(tool)) return;
+    e.stopPropagation();
+    (e.target as Element | null)?.setPointerCapture(e.pointerId);
+    const { point } = snapPointer(e);
+    updateShapeDrag({ start: point, end: point, constrain: e.shiftKey });
+  };
+
+  const onPointerUp = async (e: CanvasPointerEvent & { stopPropagation: () => void }) => {
+    const samples = freehandRef.current;
+    if (enabled && samples) {
+      e.stopPropagation();
+      updateFreehand(null);
+      const stroke = finishFreehand(samples, camera.zoom);
+      if (stroke) await onFinish(stroke.points, stroke.type, { tolerance: freehandTolerance(camera.zoom) });
+      return;
+    }
+    const drag = shapeDragRef.current;
+    if (!enabled || !isShapeTool(tool) || !drag) return;
+    e.stopPropagation();
+    updateShapeDrag(null);
+    const ring = shapeRing(tool, drag.start, snapPointer(e).point, shapeOptions, e.shiftKey);
+    if (ring) await onFinish(ring, "polygon", { tolerance: 0 });
   };
 
   const onDoubleClick = async (e: { stopPropagation: () => void }) => {
-    if (!enabled) return;
+    if (!enabled || tool !== "path") return;
     e.stopPropagation();
     await finishStroke();
   };
@@ -119,8 +281,19 @@ export function DrawingSurface({ onFinish, color, width, enabled }: DrawingSurfa
   const previewLength = previewIsPolygon ? getPolygonPerimeter(previewPolygonPts) : getPolylineLength(previewPtsPx);
   const previewArea = previewIsPolygon ? getPolygonArea(previewPolygonPts) : undefined;
 
+  const shapePreview =
+    enabled && shapeDrag && isShapeTool(tool)
+      ? shapeRing(tool, shapeDrag.start, shapeDrag.end, shapeOptions, shapeDrag.constrain)
+      : null;
+  const shapePreviewWorld = shapePreview ? [...shapePreview, shapePreview[0]].map(([x, y]) => pxToWorld(x, y)) : null;
+  const freehandPtsPx = freehandRef.current;
+  const freehandWorld =
+    freehandPtsPx && freehandPtsPx.length >= 2 ? freehandPtsPx.map(([x, y]) => pxToWorld(x, y)) : null;
+  const shapeLabelWorld = shapeDrag ? pxToWorld(shapeDrag.end[0], shapeDrag.end[1]) : null;
+
   // 最後の点のハイライト用サイズ
   const dotRadius = Math.max(0.01, (width / Math.max(size.width, size.height)) * viewport.width * 0.8);
+  const snapMarkerRadius = ((6 / size.width) * viewport.width) / camera.zoom;
 
   return (
     <group>
@@ -137,29 +310,28 @@ export function DrawingSurface({ onFinish, color, width, enabled }: DrawingSurfa
         />
       )}
       {hasPreviewTarget && hoverWorld && previewPtsPx.length >= 2 && (
-        <Html position={[hoverWorld[0], hoverWorld[1], 0.002]} center style={{ pointerEvents: "none" }}>
-          <div
-            style={{
-              padding: "2px 5px",
-              borderRadius: 4,
-              background: "rgba(255, 255, 255, 0.85)",
-              color: "#333",
-              fontSize: 11,
-              whiteSpace: "nowrap",
-              pointerEvents: "none",
-              textAlign: "left",
-            }}
-          >
-            {previewIsPolygon ? (
-              <>
-                <div>Area: {previewArea?.toFixed(1)} px²</div>
-                <div>Perimeter: {previewLength.toFixed(1)} px</div>
-              </>
-            ) : (
-              <div>Length: {previewLength.toFixed(1)} px</div>
-            )}
-          </div>
-        </Html>
+        <PreviewLabel position={hoverWorld}>
+          {previewIsPolygon ? (
+            <>
+              <div>Area: {formatArea(previewArea ?? 0, calibration)}</div>
+              <div>Perimeter: {formatLength(previewLength, calibration)}</div>
+            </>
+          ) : (
+            <div>Length: {formatLength(previewLength, calibration)}</div>
+          )}
+        </PreviewLabel>
+      )}
+      {/* フリーハンドの記録中の線 */}
+      {enabled && freehandWorld && <Line points={freehandWorld} color={color} lineWidth={width} />}
+      {/* 図形ツールのプレビュー（半透明）と面積・周長 */}
+      {shapePreview && shapePreviewWorld && shapeLabelWorld && (
+        <>
+          <Line points={shapePreviewWorld} color={color} lineWidth={width} transparent opacity={0.6} />
+          <PreviewLabel position={shapeLabelWorld}>
+            <div>Area: {formatArea(getPolygonArea(shapePreview), calibration)}</div>
+            <div>Perimeter: {formatLength(getPolygonPerimeter(shapePreview), calibration)}</div>
+          </PreviewLabel>
+        </>
       )}
       {/* 最後の点のハイライト */}
       {enabled && lastPt && (
@@ -168,12 +340,19 @@ export function DrawingSurface({ onFinish, color, width, enabled }: DrawingSurfa
           <meshBasicMaterial color={color} />
         </mesh>
       )}
+      {/* スナップ先のインジケーター */}
+      {enabled && snapHover && (
+        <SnapMarker position={snapHover.world} kind={snapHover.kind} radius={snapMarkerRadius} />
+      )}
       <mesh
         ref={interactionPlaneRef}
         position={[camera.position.x, camera.position.y, -0.001]}
         onClick={onClick}
         onDoubleClick={onDoubleClick}
         onPointerMove={onPointerMove}
+        onPointerDown={onPointerDown}
+        onPointerUp={onPointerUp}
+        onPointerOut={() => setSnapHover(null)}
       >
         <planeGeometry args={planeArgs} />
         <meshBasicMaterial transparent opacity={0} />
@@ -181,3 +360,24 @@ export function DrawingSurface({ onFinish, color, width, enabled }: DrawingSurfa
     </group>
   );
 }
+
+function PreviewLabel({ position: [x, y], children }: { position: [number, number, number]; children: ReactNode }) {
+  return (
+    <Html position={[x, y, 0.002]} center style={{ pointerEvents: "none" }}>
+      <div
+        style={{
+          padding: "2px 5px",
+          borderRadius: 4,
+          background: "rgba(255, 255, 255, 0.85)",
+          color: "#333",
+          fontSize: 11,
+          whiteSpace: "nowrap",
+          pointerEvents: "none",
+          textAlign: "left",
+        }}
+      >
+        {children}
+      </div>
+    </Html>
+  );
+}
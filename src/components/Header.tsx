@@ -1,17 +1,45 @@
 import React from "react";
+import type { HistoryState } from "../db/geometryRepository";
+import { SHAPE_SEGMENT_RANGE, SHAPE_SIDE_RANGE, type ShapeOptions } from "../lib/shapeTools";
+import type { SnapSettings } from "../lib/snapping";
+import type { DrawTool } from "./DrawingSurface";
 
-type InteractionMode = "draw" | "pan" | "edit" | "measure";
+type InteractionMode = "draw" | "pan" | "edit" | "transform" | "measure" | "select" | "calibrate";
+
+const DRAW_TOOLS: Array<{ tool: DrawTool; label: string }> = [
+  { tool: "path", label: "Line / Polygon" },
+  { tool: "point", label: "Point" },
+  { tool: "freehand", label: "Freehand" },
+  { tool: "rectangle", label: "Rectangle" },
+  { tool: "circle", label: "Circle" },
+  { tool: "ellipse", label: "Ellipse" },
+  { tool: "regular-polygon", label: "Regular polygon" },
+];
+
+const SNAP_TARGETS: Array<{ key: "vertices" | "edges" | "grid"; label: string }> = [
+  { key: "vertices", label: "Vertex" },
+  { key: "edges", label: "Edge" },
+  { key: "grid", label: "Grid" },
+];
 
 interface HeaderProps {
   interactionMode: InteractionMode;
   setInteractionMode: (mode: InteractionMode) => void;
+  drawTool: DrawTool;
+  setDrawTool: (tool: DrawTool) => void;
   strokeColor: string;
   setStrokeColor: (color: string) => void;
   strokeWidth: number;
   setStrokeWidth: (width: number) => void;
   simplifyOn: boolean;
   setSimplifyOn: (on: boolean) => void;
+  shapeOptions: ShapeOptions;
+  setShapeOptions: (options: ShapeOptions) => void;
+  snapSettings: SnapSettings;
+  setSnapSettings: (settings: SnapSettings) => void;
+  history: HistoryState;
   handleUndo: () => void;
+  handleRedo: () => void;
   handleRefresh: () => void;
   handleClear: () => void;
   handleExportGeoJSON: () => void;
@@ -22,13 +50,21 @@ interface HeaderProps {
 export function Header({
   interactionMode,
   setInteractionMode,
+  drawTool,
+  setDrawTool,
   strokeColor,
   setStrokeColor,
   strokeWidth,
   setStrokeWidth,
   simplifyOn,
   setSimplifyOn,
+  shapeOptions,
+  setShapeOptions,
+  snapSettings,
+  setSnapSettings,
+  history,
   handleUndo,
+  handleRedo,
   handleRefresh,
   handleClear,
   handleExportGeoJSON,
@@ -122,6 +158,21 @@ export function Header({
           >
             Edit
           </button>
+          <button
+            aria-pressed={interactionMode === "transform"}
+            onClick={() => setInteractionMode("transform")}
+            style={{
+              padding: "4px 8px",
+              fontSize: 12,
+              backgroundColor: interactionMode === "transform" ? "#7c3aed" : "#f8f9fa",
+              color: interactionMode === "transform" ? "white" : "#212529",
+              border: "1px solid #dee2e6",
+              borderRadius: 4,
+              cursor: "pointer",
+            }}
+          >
+            Transform
+          </button>
           <button
             aria-pressed={interactionMode === "measure"}
             onClick={() => setInteractionMode("measure")}
@@ -137,6 +188,103 @@ export function Header({
           >
             Measure
           </button>
+          <button
+            aria-pressed={interactionMode === "select"}
+            onClick={() => setInteractionMode("select")}
+            style={{
+              padding: "4px 8px",
+              fontSize: 12,
+              backgroundColor: interactionMode === "select" ? "#d97706" : "#f8f9fa",
+              color: interactionMode === "select" ? "white" : "#212529",
+              border: "1px solid #dee2e6",
+              borderRadius: 4,
+              cursor: "pointer",
+            }}
+          >
+            Select
+          </button>
+          <button
+            aria-pressed={interactionMode === "calibrate"}
+            onClick={() => setInteractionMode("calibrate")}
+            style={{
+              padding: "4px 8px",
+              fontSize: 12,
+              backgroundColor: interactionMode === "calibrate" ? "#0891b2" : "#f8f9fa",
+              color: interactionMode === "calibrate" ? "white" : "#212529",
+              border: "1px solid #dee2e6",
+              borderRadius: 4,
+              cursor: "pointer",
+            }}
+          >
+            Calibrate
+          </button>
+        </div>
+
+        {/* Draw Tool */}
+        <div
+          data-testid="draw-tool-controls"
+          style={{
+            display: "flex",
+            gap: 4,
+            alignItems: "center",
+            flexWrap: "wrap",
+            marginRight: 16,
+            borderRight: "1px solid #e5e5e5",
+            paddingRight: 16,
+          }}
+        >
+          <span style={{ fontSize: 12, fontWeight: 600 }}>Tool:</span>
+          {DRAW_TOOLS.map(({ tool, label }) => {
+            const active = interactionMode === "draw" && drawTool === tool;
+            return (
+              <button
+                key={tool}
+                aria-pressed={active}
+                onClick={() => {
+                  setDrawTool(tool);
+                  setInteractionMode("draw");
+                }}
+                style={{
+                  padding: "4px 8px",
+                  fontSize: 12,
+                  backgroundColor: active ? "#007bff" : "#f8f9fa",
+                  color: active ? "white" : "#212529",
+                  border: "1px solid #dee2e6",
+                  borderRadius: 4,
+                  cursor: "pointer",
+                }}
+              >
+                {label}
+              </button>
+            );
+          })}
+          {/* 円・楕円は分割数、正多角形は辺の数 */}
+          {(drawTool === "circle" || drawTool === "ellipse") && (
+            <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 4 }}>
+              Segments
+              <input
+                type="number"
+                min={SHAPE_SEGMENT_RANGE.min}
+                max={SHAPE_SEGMENT_RANGE.max}
+                value={shapeOptions.segments}
+                onChange={(e) => setShapeOptions({ ...shapeOptions, segments: Number(e.target.value) })}
+                style={{ width: 52 }}
+              />
+            </label>
+          )}
+          {drawTool === "regular-polygon" && (
+            <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 4 }}>
+              Sides
+              <input
+                type="number"
+                min={SHAPE_SIDE_RANGE.min}
+                max={SHAPE_SIDE_RANGE.max}
+                value={shapeOptions.sides}
+                onChange={(e) => setShapeOptions({ ...shapeOptions, sides: Number(e.target.value) })}
+                style={{ width: 52 }}
+              />
+            </label>
+          )}
         </div>
 
         <label style={{ fontSize: 12 }}>色</label>
@@ -165,7 +313,51 @@ export function Header({
         >
           <input type="checkbox" checked={simplifyOn} onChange={(e) => setSimplifyOn(e.target.checked)} /> Simplify
         </label>
-        <button onClick={handleUndo}>Undo</button>
+        {/* Snap */}
+        <div
+          data-testid="snap-controls"
+          title="Alt を押している間はスナップしない"
+          style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, marginLeft: 8 }}
+        >
+          <span style={{ fontWeight: 600 }}>Snap:</span>
+          {SNAP_TARGETS.map(({ key, label }) => (
+            <label key={key} style={{ display: "flex", alignItems: "center", gap: 2 }}>
+              <input
+                type="checkbox"
+                checked={snapSettings[key]}
+                onChange={(e) => setSnapSettings({ ...snapSettings, [key]: e.target.checked })}
+              />
+              {label}
+            </label>
+          ))}
+          <input
+            type="number"
+            aria-label="Grid size"
+            min={1}
+            value={snapSettings.gridSize}
+            disabled={!snapSettings.grid}
+            onChange={(e) => {
+              const gridSize = Number(e.target.value);
+              if (gridSize > 0) setSnapSettings({ ...snapSettings, gridSize });
+            }}
+            style={{ width: 52 }}
+          />
+          px
+        </div>
+        <button
+          disabled={!history.canUndo}
+          onClick={handleUndo}
+          title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+        >
+          Undo
+        </button>
+        <button
+          disabled={!history.canRedo}
+          onClick={handleRedo}
+          title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+        >
+          Redo
+        </button>
         <button onClick={handleRefresh}>Refresh</button>
         <button onClick={handleClear} style={{ color: "#c00" }}>
           Clear
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { normalizeCrs } from "../domain/crs";
+import { DEFAULT_LAYER_ID, type Layer } from "../domain/geometryFeature";
+
+interface LayerPanelProps {
+  layers: Layer[];
+  /** layer ごとの feature 数。feature の無い layer は含まない */
+  featureCounts: ReadonlyMap<string, number>;
+  activeLayerId: string;
+  onSelectLayer: (id: string) => void;
+  onCreateLayer: (name: string) => Promise<void>;
+  onUpdateLayer: (id: string, changes: Partial<Pick<Layer, "name" | "visible">>) => Promise<unknown>;
+  onDeleteLayer: (id: string) => Promise<unknown>;
+  onReprojectLayer: (id: string, targetCrs: string) => Promise<unknown>;
+  onMoveLayer: (id: string, offset: -1 | 1) => Promise<void>;
+  /** Spatial extension が読み込まれている場合だけ ST_Transform で再投影できる */
+  canReproject: boolean;
+}
+
+function LayerNameInput({ layer, onRename }: { layer: Layer; onRename: (name: string) => void }) {
+  const [draft, setDraft] = useState(layer.name);
+  // 空文字や未変更の名前は保存せず元に戻す
+  const commit = () => {
+    const name = draft.trim();
+    if (name && name !== layer.name) onRename(name);
+    else setDraft(layer.name);
+  };
+  return (
+    <input
+      aria-label={`Layer name: ${layer.name}`}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onClick={(event) => event.stopPropagation()}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") event.currentTarget.blur();
+        if (event.key === "Escape") setDraft(layer.name);
+      }}
+    />
+  );
+}
+
+function LayerCrsInput({
+  layer,
+  crs: currentCrs,
+  disabled,
+  onReproject,
+}: {
+  layer: Layer;
+  crs: string;
+  disabled: boolean;
+  onReproject: (crs: string) => void;
+}) {
+  const [draft, setDraft] = useState(currentCrs);
+  // 解釈できない CRS や未変更の値は再投影せず元に戻す
+  const commit = () => {
+    const crs = normalizeCrs(draft);
+    if (crs && crs !== currentCrs) onReproject(crs);
+    else setDraft(currentCrs);
+  };
+  return (
+    <label className="layer-panel__crs" onClick={(event) => event.stopPropagation()}>
+      CRS
+      <input
+        aria-label={`CRS of ${layer.name}`}
+        title={disabled ? "再投影には DuckDB Spatial extension が必要です" : "EPSG コードを入力して Enter で再投影"}
+        disabled={disabled}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") event.currentTarget.blur();
+          if (event.key === "Escape") setDraft(currentCrs);
+        }}
+      />
+    </label>
+  );
+}
+
+export function LayerPanel({
+  layers,
+  featureCounts,
+  activeLayerId,
+  onSelectLayer,
+  onCreateLayer,
+  onUpdateLayer,
+  onDeleteLayer,
+  onReprojectLayer,
+  onMoveLayer,
+  canReproject,
+}: LayerPanelProps) {
+  const [newLayerName, setNewLayerName] = useState("");
+  // 一覧は手前に描画される layer（order が大きい）を上に表示する
+  const displayedLayers = [...layers].reverse();
+
+  const create = async () => {
+    const name = newLayerName.trim();
+    if (!name) return;
+    await onCreateLayer(name);
+    setNewLayerName("");
+  };
+
+  return (
+    <aside className="layer-panel" data-testid="layer-panel">
+      <h2>Layers</h2>
+      <ul>
+        {displayedLayers.map((layer, index) => {
+          const active = layer.id === activeLayerId;
+          return (
+            <li
+              key={layer.id}
+              className={active ? "layer-panel__layer layer-panel__layer--active" : "layer-panel__layer"}
+              data-testid={`layer-${layer.id}`}
+              aria-current={active}
+              onClick={() => onSelectLayer(layer.id)}
+            >
+              <input
+                type="checkbox"
+                aria-label={`Show ${layer.name}`}
+                checked={layer.visible}
+                onClick={(event) => event.stopPropagation()}
+                onChange={(event) => void onUpdateLayer(layer.id, { visible: event.target.checked })}
+              />
+              <LayerNameInput
+                key={layer.name}
+                layer={layer}
+                onRename={(name) => void onUpdateLayer(layer.id, { name })}
+              />
+              <span className="layer-panel__count">{featureCounts.get(layer.id) ?? 0}</span>
+              <div className="layer-panel__actions" onClick={(event) => event.stopPropagation()}>
+                <button
+                  aria-label={`Move ${layer.name} up`}
+                  disabled={index === 0}
+                  onClick={() => void onMoveLayer(layer.id, 1)}
+                >
+                  ↑
+                </button>
+                <button
+                  aria-label={`Move ${layer.name} down`}
+                  disabled={index === displayedLayers.length - 1}
+                  onClick={() => void onMoveLayer(layer.id, -1)}
+                >
+                  ↓
+                </button>
+                <button
+                  aria-label={`Delete ${layer.name}`}
+                  disabled={layer.id === DEFAULT_LAYER_ID}
+                  onClick={() => void onDeleteLayer(layer.id)}
+                >
+                  ×
+                </button>
+              </div>
+              {layer.crs !== undefined && (
+                <LayerCrsInput
+                  key={layer.crs}
+                  layer={layer}
+                  crs={layer.crs}
+                  disabled={!canReproject}
+                  onReproject={(crs) => void onReprojectLayer(layer.id, crs)}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="layer-panel__create">
+        <input
+          data-testid="new-layer-name"
+          placeholder="New layer"
+          value={newLayerName}
+          onChange={(event) => setNewLayerName(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && void create()}
+        />
+        <button onClick={() => void create()} disabled={newLayerName.trim().length === 0}>
+          Add
+        </button>
+      </div>
+      <small>
+        新しい図形は選択中の layer に保存されます。layer を削除するとその feature も削除されます。CRS 付きの layer は
+        EPSG コードを変えると再投影されます。
+      </small>
+    </aside>
+  );
+}
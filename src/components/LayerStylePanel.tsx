@@ -0,0 +1,464 @@
+import { useMemo, useState, type ReactNode } from "react";
+import type { Calibration } from "../domain/calibration";
+import { withGeodesicMeasures } from "../domain/crs";
+import type { GeometryFeature, Layer } from "../domain/geometryFeature";
+import { useFeatureRequest } from "../hooks/useFeatureRequest";
+import type { FeatureSource } from "../hooks/useGeometryFeatures";
+import {
+  categorizeValues,
+  equalIntervalBreaks,
+  interpolateColor,
+  isLayerStyle,
+  rampStops,
+  sourceValue,
+  type ColorRule,
+  type LayerStyle,
+  type StyleSource,
+  type StyleStop,
+  type WidthRule,
+} from "../domain/layerStyle";
+import { toRenderableStroke } from "../domain/renderableStroke";
+
+interface LayerStylePanelProps {
+  layer: Layer;
+  /** 分類に使う値を読むため、panel を開いている間だけ対象 layer の feature を読み込む */
+  source: FeatureSource;
+  calibration: Calibration;
+  onSave: (style: LayerStyle | null) => Promise<unknown>;
+}
+
+type ColorMode = "none" | "categorized" | "graduated";
+
+const NO_FEATURES: GeometryFeature[] = [];
+
+const DEFAULT_CLASSES = 5;
+const DEFAULT_RAMP: [string, string] = ["#fee08b", "#d73027"];
+const DEFAULT_WIDTHS: [number, number] = [1, 8];
+const DEFAULT_DASH = { dashSize: 8, gapSize: 4 };
+
+const MEASURE_SOURCES: Array<{ key: string; label: string }> = [
+  { key: "measure:area", label: "Area (measured)" },
+  { key: "measure:length", label: "Length (measured)" },
+];
+
+const sourceKey = (source: StyleSource) =>
+  "property" in source ? `property:${source.property}` : `measure:${source.measure}`;
+
+const parseSourceKey = (key: string): StyleSource =>
+  key.startsWith("measure:") ? { measure: key === "measure:area" ? "area" : "length" } : { property: key.slice(9) };
+
+// rule を外すときは key ごと消して、保存される JSON に undefined を残さない
+const withRule = <K extends keyof LayerStyle>(style: LayerStyle, key: K, rule: LayerStyle[K]): LayerStyle => {
+  const next = { ...style };
+  if (rule === undefined) delete next[key];
+  else next[key] = rule;
+  return next;
+};
+
+const formatStopValue = (value: number) => String(Number(value.toPrecision(6)));
+
+function StopTable<T>({
+  label,
+  stops,
+  renderStyle,
+}: {
+  label: string;
+  stops: StyleStop<T>[];
+  renderStyle: (stop: StyleStop<T>, index: number) => ReactNode;
+}) {
+  return (
+    <table>
+      <thead>
+        <tr>
+          <th>From (≥)</th>
+          <th>{label}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {stops.map((stop, index) => (
+          <tr key={index}>
+            <td>{formatStopValue(stop.value)}</td>
+            <td>{renderStyle(stop, index)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * 編集は draft に溜めて Apply でまとめて保存する（色を選ぶたびに Undo 履歴が増えないように）。
+ * 分類の設定を変えると該当する rule を作り直し、その後で個別の色を調整できる。
+ */
+export function LayerStylePanel({ layer, source, calibration, onSave }: LayerStylePanelProps) {
+  const [open, setOpen] = useState(false);
+  const request = useMemo(() => (open ? { layerId: layer.id } : null), [layer.id, open]);
+  const features = useFeatureRequest(source, request) ?? NO_FEATURES;
+  const saved = layer.style;
+  const [draft, setDraft] = useState<LayerStyle>(saved ?? {});
+  const initialColor = saved?.color;
+  const initialWidth = saved?.width;
+  const [classes, setClasses] = useState(
+    initialColor?.type === "graduated" ? initialColor.stops.length : (initialWidth?.stops.length ?? DEFAULT_CLASSES)
+  );
+  const [ramp, setRamp] = useState<[string, string]>(
+    initialColor?.type === "graduated"
+      ? [initialColor.stops[0].style, initialColor.stops.at(-1)?.style ?? DEFAULT_RAMP[1]]
+      : DEFAULT_RAMP
+  );
+  const [widths, setWidths] = useState<[number, number]>(
+    initialWidth ? [initialWidth.stops[0].style, initialWidth.stops.at(-1)?.style ?? DEFAULT_WIDTHS[1]] : DEFAULT_WIDTHS
+  );
+
+  const propertyKeys = useMemo(
+    () => [...new Set(features.flatMap(({ properties }) => Object.keys(properties)))].sort(),
+    [features]
+  );
+  // 計測値は Scene のラベルと同じく測地線・校正単位で分類する
+  const measuredStrokes = useMemo(
+    () =>
+      features.map((feature) => ({ feature, stroke: withGeodesicMeasures(toRenderableStroke(feature), layer.crs) })),
+    [features, layer.crs]
+  );
+  const valuesFor = (source: StyleSource) =>
+    measuredStrokes.flatMap(({ feature, stroke }) => {
+      const value = sourceValue(source, feature.properties, stroke, calibration);
+      return value === undefined ? [] : [value];
+    });
+
+  const defaultSource: StyleSource = propertyKeys.length ? { property: propertyKeys[0] } : { measure: "area" };
+  const colorMode: ColorMode = draft.color?.type ?? "none";
+
+  const categorized = (property: string): ColorRule => ({
+    type: "categorized",
+    property,
+    categories: categorizeValues(
+      features.flatMap(({ properties }) => (Object.hasOwn(properties, property) ? [properties[property]] : []))
+    ),
+  });
+  const graduatedColor = (source: StyleSource, count = classes, [from, to] = ramp): ColorRule => ({
+    type: "graduated",
+    source,
+    stops: rampStops(equalIntervalBreaks(valuesFor(source), count), (t) => interpolateColor(from, to, t)),
+  });
+  const graduatedWidth = (source: StyleSource, count = classes, [min, max] = widths): WidthRule => ({
+    type: "graduated",
+    source,
+    stops: rampStops(equalIntervalBreaks(valuesFor(source), count), (t) => Number((min + (max - min) * t).toFixed(1))),
+  });
+
+  const setColorMode = (mode: ColorMode) => {
+    const source = draft.color?.type === "graduated" ? draft.color.source : defaultSource;
+    setDraft((current) =>
+      withRule(
+        current,
+        "color",
+        mode === "none"
+          ? undefined
+          : mode === "categorized"
+            ? categorized(propertyKeys[0] ?? "")
+            : graduatedColor(source)
+      )
+    );
+  };
+  const reclassify = (count: number, nextRamp = ramp, nextWidths = widths) => {
+    setDraft((current) => ({
+      ...current,
+      ...(current.color?.type === "graduated" ? { color: graduatedColor(current.color.source, count, nextRamp) } : {}),
+      ...(current.width ? { width: graduatedWidth(current.width.source, count, nextWidths) } : {}),
+    }));
+  };
+  const setCategoryColor = (index: number, color: string) =>
+    setDraft((current) =>
+      current.color?.type === "categorized"
+        ? {
+            ...current,
+            color: {
+              ...current.color,
+              categories: current.color.categories.map((category, at) =>
+                at === index ? { ...category, color } : category
+              ),
+            },
+          }
+        : current
+    );
+  const setStopColor = (index: number, color: string) =>
+    setDraft((current) =>
+      current.color?.type === "graduated"
+        ? {
+            ...current,
+            color: {
+              ...current.color,
+              stops: current.color.stops.map((stop, at) => (at === index ? { ...stop, style: color } : stop)),
+            },
+          }
+        : current
+    );
+
+  const sourceOptions = [
+    ...propertyKeys.map((key) => ({ key: `property:${key}`, label: key })),
+    ...MEASURE_SOURCES,
+  ].map(({ key, label }) => (
+    <option key={key} value={key}>
+      {label}
+    </option>
+  ));
+  // 空の rule（分類できる値が無い）は保存できないので Apply を無効にする
+  const valid = isLayerStyle(draft);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved ?? {});
+
+  return (
+    <details
+      className="attribute-table layer-style-panel"
+      data-testid="layer-style-panel"
+      onToggle={(event) => setOpen(event.currentTarget.open)}
+    >
+      <summary>Layer style: {layer.name}</summary>
+      <div className="attribute-table__controls">
+        <label>
+          Color by
+          <select value={colorMode} onChange={(event) => setColorMode(event.target.value as ColorMode)}>
+            <option value="none">Feature style</option>
+            <option value="categorized" disabled={propertyKeys.length === 0}>
+              Categories
+            </option>
+            <option value="graduated">Graduated</option>
+          </select>
+        </label>
+        {draft.color?.type === "categorized" && (
+          <label>
+            Property
+            <select
+              value={draft.color.property}
+              onChange={(event) => setDraft((current) => ({ ...current, color: categorized(event.target.value) }))}
+            >
+              {propertyKeys.map((key) => (
+                <option key={key} value={key}>
+                  {key}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {draft.color?.type === "categorized" && (
+          <label>
+            Other
+            <input
+              type="checkbox"
+              checked={draft.color.otherColor !== undefined}
+              title="どの分類にも当てはまらない feature の色を指定する"
+              onChange={(event) =>
+                setDraft((current) => {
+                  if (current.color?.type !== "categorized") return current;
+                  const rule: ColorRule = { ...current.color, otherColor: "#999999" };
+                  if (!event.target.checked) delete rule.otherColor;
+                  return { ...current, color: rule };
+                })
+              }
+            />
+            {draft.color.otherColor !== undefined && (
+              <input
+                type="color"
+                aria-label="Other category color"
+                value={draft.color.otherColor}
+                onChange={(event) =>
+                  setDraft((current) =>
+                    current.color?.type === "categorized"
+                      ? { ...current, color: { ...current.color, otherColor: event.target.value } }
+                      : current
+                  )
+                }
+              />
+            )}
+          </label>
+        )}
+        {draft.color?.type === "graduated" && (
+          <>
+            <label>
+              Value
+              <select
+                value={sourceKey(draft.color.source)}
+                onChange={(event) =>
+                  setDraft((current) => ({ ...current, color: graduatedColor(parseSourceKey(event.target.value)) }))
+                }
+              >
+                {sourceOptions}
+              </select>
+            </label>
+            <label>
+              Ramp
+              <input
+                type="color"
+                aria-label="Lowest class color"
+                value={ramp[0]}
+                onChange={(event) => {
+                  const next: [string, string] = [event.target.value, ramp[1]];
+                  setRamp(next);
+                  reclassify(classes, next);
+                }}
+              />
+              <input
+                type="color"
+                aria-label="Highest class color"
+                value={ramp[1]}
+                onChange={(event) => {
+                  const next: [string, string] = [ramp[0], event.target.value];
+                  setRamp(next);
+                  reclassify(classes, next);
+                }}
+              />
+            </label>
+          </>
+        )}
+        {(draft.color?.type === "graduated" || draft.width) && (
+          <label>
+            Classes
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={classes}
+              onChange={(event) => {
+                const next = Math.min(12, Math.max(1, Math.round(Number(event.target.value) || 1)));
+                setClasses(next);
+                reclassify(next);
+              }}
+            />
+          </label>
+        )}
+      </div>
+      <div className="attribute-table__wrap">
+        {draft.color?.type === "categorized" && draft.color.categories.length > 0 && (
+          <table>
+            <thead>
+              <tr>
+                <th>{draft.color.property}</th>
+                <th>Color</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.color.categories.map((category, index) => (
+                <tr key={category.value}>
+                  <td>{category.value}</td>
+                  <td>
+                    <input
+                      type="color"
+                      aria-label={`Color for ${category.value}`}
+                      value={category.color}
+                      onChange={(event) => setCategoryColor(index, event.target.value)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {draft.color?.type === "graduated" && (
+          <StopTable
+            label="Color"
+            stops={draft.color.stops}
+            renderStyle={(stop, index) => (
+              <input
+                type="color"
+                aria-label={`Color from ${formatStopValue(stop.value)}`}
+                value={stop.style}
+                onChange={(event) => setStopColor(index, event.target.value)}
+              />
+            )}
+          />
+        )}
+      </div>
+      <div className="attribute-table__controls">
+        <label>
+          <input
+            type="checkbox"
+            checked={draft.width !== undefined}
+            onChange={(event) =>
+              setDraft((current) =>
+                withRule(current, "width", event.target.checked ? graduatedWidth(defaultSource) : undefined)
+              )
+            }
+          />
+          Width by
+        </label>
+        {draft.width && (
+          <>
+            <select
+              aria-label="Width value"
+              value={sourceKey(draft.width.source)}
+              onChange={(event) =>
+                setDraft((current) => ({ ...current, width: graduatedWidth(parseSourceKey(event.target.value)) }))
+              }
+            >
+              {sourceOptions}
+            </select>
+            {(["Min", "Max"] as const).map((label, index) => (
+              <label key={label}>
+                {label} (px)
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={widths[index]}
+                  onChange={(event) => {
+                    const value = Math.max(0.5, Number(event.target.value) || 0.5);
+                    const next: [number, number] = index === 0 ? [value, widths[1]] : [widths[0], value];
+                    setWidths(next);
+                    reclassify(classes, ramp, next);
+                  }}
+                />
+              </label>
+            ))}
+          </>
+        )}
+      </div>
+      {draft.width && (
+        <div className="attribute-table__wrap">
+          <StopTable label="Width (px)" stops={draft.width.stops} renderStyle={(stop) => stop.style} />
+        </div>
+      )}
+      <div className="attribute-table__controls">
+        <label>
+          <input
+            type="checkbox"
+            checked={draft.dash !== undefined}
+            onChange={(event) =>
+              setDraft((current) => withRule(current, "dash", event.target.checked ? DEFAULT_DASH : undefined))
+            }
+          />
+          Dashed
+        </label>
+        {draft.dash &&
+          (["dashSize", "gapSize"] as const).map((key) => (
+            <label key={key}>
+              {key === "dashSize" ? "Dash" : "Gap"} (px)
+              <input
+                type="number"
+                min={1}
+                value={draft.dash?.[key]}
+                onChange={(event) =>
+                  setDraft((current) =>
+                    current.dash
+                      ? { ...current, dash: { ...current.dash, [key]: Math.max(1, Number(event.target.value) || 1) } }
+                      : current
+                  )
+                }
+              />
+            </label>
+          ))}
+      </div>
+      <div className="attribute-table__controls">
+        <button
+          disabled={!dirty || !valid}
+          title={valid ? undefined : "分類できる値が無い rule は保存できません"}
+          onClick={() => void onSave(Object.keys(draft).length > 0 ? draft : null)}
+        >
+          Apply
+        </button>
+        <button disabled={!dirty} onClick={() => setDraft(saved ?? {})}>
+          Revert
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -1,16 +1,43 @@
-import { useLayoutEffect, useRef, type ComponentRef } from "react";
-import { useThree } from "@react-three/fiber";
+import { useEffect, useLayoutEffect, useRef, type ComponentRef } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls } from "@react-three/drei";
 import * as THREE from "three";
-import { loadViewportState, saveViewportState } from "../lib/viewportState";
+import type { PixelBox } from "../lib/featureSelection";
+import {
+  FIT_ANIMATION_MS,
+  fitViewportToBounds,
+  interpolateViewport,
+  viewFromViewport,
+  viewportForView,
+  type CanvasFrame,
+  type CanvasView,
+} from "../lib/viewportFit";
+import { loadViewportState, saveViewportState, type ViewportState } from "../lib/viewportState";
+
+/** 範囲へのズームまたは bookmark した view への移動要求。同じ内容でも `id` が変われば再度アニメーションする */
+export type CameraRequest = { id: number } & ({ bounds: PixelBox } | { view: CanvasView });
 
 interface PanControlsProps {
   enabled: boolean;
+  cameraRequest?: CameraRequest | null;
+  /** 操作やアニメーションで表示範囲が変わるたびに、canvas 中央の model pixel・zoom・canvas の大きさを通知する */
+  onViewChange?: (frame: CanvasFrame) => void;
 }
 
-export function PanControls({ enabled }: PanControlsProps) {
-  const camera = useThree((state) => state.camera);
+export function PanControls({ enabled, cameraRequest, onViewChange }: PanControlsProps) {
+  const { camera, size, viewport } = useThree();
   const controlsRef = useRef<ComponentRef<typeof OrbitControls>>(null);
+  const animationRef = useRef<{ from: ViewportState; to: ViewportState; startedAt: number } | null>(null);
+
+  const applyViewport = (state: ViewportState) => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+    camera.position.set(state.cameraX, state.cameraY, camera.position.z);
+    camera.zoom = state.zoom;
+    camera.updateProjectionMatrix();
+    controls.target.set(state.targetX, state.targetY, controls.target.z);
+    controls.update();
+  };
 
   useLayoutEffect(() => {
     const controls = controlsRef.current;
@@ -26,19 +53,74 @@ export function PanControls({ enabled }: PanControlsProps) {
     controls.update();
   }, [camera]);
 
+  // 復元直後と canvas のリサイズ後も、中央の model pixel が変わるので通知する
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!controls || !onViewChange) return;
+    onViewChange({
+      ...viewFromViewport(
+        {
+          cameraX: camera.position.x,
+          cameraY: camera.position.y,
+          targetX: controls.target.x,
+          targetY: controls.target.y,
+          zoom: camera.zoom,
+        },
+        size,
+        viewport
+      ),
+      width: size.width,
+      height: size.height,
+    });
+  }, [camera, onViewChange, size, viewport]);
+
+  // 同じ要求は一度だけ処理し、canvas のリサイズで再びアニメーションしない
+  const handledRequestRef = useRef<number | null>(null);
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!cameraRequest || !controls || handledRequestRef.current === cameraRequest.id) return;
+    handledRequestRef.current = cameraRequest.id;
+    animationRef.current = {
+      from: {
+        cameraX: camera.position.x,
+        cameraY: camera.position.y,
+        targetX: controls.target.x,
+        targetY: controls.target.y,
+        zoom: camera.zoom,
+      },
+      to:
+        "bounds" in cameraRequest
+          ? fitViewportToBounds(cameraRequest.bounds, size, viewport, camera.zoom)
+          : viewportForView(cameraRequest.view, size, viewport),
+      startedAt: performance.now(),
+    };
+  }, [camera, cameraRequest, size, viewport]);
+
   const persistViewport = () => {
     const controls = controlsRef.current;
     if (!controls) return;
 
-    saveViewportState(window.localStorage, {
+    const state = {
       cameraX: camera.position.x,
       cameraY: camera.position.y,
       targetX: controls.target.x,
       targetY: controls.target.y,
       zoom: camera.zoom,
-    });
+    };
+    saveViewportState(window.localStorage, state);
+    onViewChange?.({ ...viewFromViewport(state, size, viewport), width: size.width, height: size.height });
   };
 
+  useFrame(() => {
+    const animation = animationRef.current;
+    if (!animation) return;
+    const t = (performance.now() - animation.startedAt) / FIT_ANIMATION_MS;
+    applyViewport(t >= 1 ? animation.to : interpolateViewport(animation.from, animation.to, t));
+    if (t < 1) return;
+    animationRef.current = null;
+    persistViewport();
+  });
+
   return (
     <OrbitControls
       ref={controlsRef}
@@ -47,6 +129,10 @@ export function PanControls({ enabled }: PanControlsProps) {
       enabled={enabled}
       mouseButtons={{ LEFT: THREE.MOUSE.PAN, MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.PAN }}
       onChange={persistViewport}
+      onStart={() => {
+        // ユーザーが操作を始めたらズームのアニメーションを止める
+        animationRef.current = null;
+      }}
     />
   );
 }
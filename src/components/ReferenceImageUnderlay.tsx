@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import type { ReferenceImage } from "../domain/referenceImage";
+
+// grid よりさらに奥に描き、図形の操作を邪魔しない
+const IMAGE_Z = -0.04;
+
+export function ReferenceImageUnderlay({ image }: { image: ReferenceImage | null }) {
+  const { size, viewport } = useThree();
+  const [loaded, setLoaded] = useState<{ dataUrl: string; texture: THREE.Texture } | null>(null);
+  const dataUrl = image?.dataUrl;
+
+  useEffect(() => {
+    if (!dataUrl) return;
+    let active = true;
+    const texture = new THREE.TextureLoader().load(dataUrl, () => {
+      if (active) setLoaded({ dataUrl, texture });
+    });
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return () => {
+      active = false;
+      texture.dispose();
+    };
+  }, [dataUrl]);
+
+  // 差し替え直後は古い texture を描かない
+  if (!image?.visible || loaded?.dataUrl !== image.dataUrl) return null;
+  const width = image.width * image.scale;
+  const height = image.height * image.scale;
+  const centerX = image.x + width / 2;
+  const centerY = image.y + height / 2;
+  return (
+    <mesh
+      position={[
+        (centerX / size.width) * viewport.width - viewport.width / 2,
+        viewport.height / 2 - (centerY / size.height) * viewport.height,
+        IMAGE_Z,
+      ]}
+      renderOrder={-2}
+    >
+      <planeGeometry args={[(width / size.width) * viewport.width, (height / size.height) * viewport.height]} />
+      <meshBasicMaterial
+        map={loaded.texture}
+        transparent
+        opacity={image.opacity}
+        depthWrite={false}
+        toneMapped={false}
+      />
+    </mesh>
+  );
+}
@@ -1,89 +1,162 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
 import { useThree } from "@react-three/fiber";
 import { Html, Line } from "@react-three/drei";
 import * as THREE from "three";
+import { PIXEL_CALIBRATION, formatArea, formatLength, meterCalibration, type Calibration } from "../domain/calibration";
 import type { RenderableStroke } from "../domain/renderableStroke";
 import { getCentroid } from "../lib/geometry";
+import { strokeOutlines } from "../lib/strokeBatches";
+import { createLevelOfDetail, cullWindow, sameCullWindow, type CullWindow } from "../lib/levelOfDetail";
+import { createValueStore, type ValueStore } from "../lib/valueStore";
+import type { CanvasFrame } from "../lib/viewportFit";
+import { StrokeBatches } from "./StrokeBatches";
 
 interface SceneProps {
   strokes: RenderableStroke[];
   hideStrokes?: boolean;
   showMeasurements?: boolean;
+  selectedIds?: readonly string[];
+  calibration?: Calibration;
+  /** 渡されると表示範囲外の stroke を間引き、ズームに応じて簡略化して描画する */
+  frame?: ValueStore<CanvasFrame | null>;
 }
 
-export function Scene({ strokes, hideStrokes = false, showMeasurements = false }: SceneProps) {
+// 選択中の feature は背面にハイライト色の太線を重ねて示す
+const SELECTION_COLOR = "#f59e0b";
+
+export function Scene({
+  strokes,
+  hideStrokes = false,
+  showMeasurements = false,
+  selectedIds = [],
+  calibration = PIXEL_CALIBRATION,
+  frame,
+}: SceneProps) {
   const { size, viewport } = useThree();
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
 
-  const renderedStrokes = useMemo(() => {
-    const pxToWorld = (x: number, y: number): [number, number, number] => {
-      const wx = (x / size.width) * viewport.width - viewport.width / 2;
-      const wy = viewport.height / 2 - (y / size.height) * viewport.height;
-      return [wx, wy, 0];
+  // カメラは毎フレーム動くが、cull window が変わったときだけ stroke を選び直す
+  const [cullStore] = useState(() => createValueStore<CullWindow | null>(null, sameCullWindow));
+  useEffect(() => {
+    if (!frame) return;
+    const update = () => {
+      const current = frame.get();
+      cullStore.set(current && cullWindow(current));
     };
+    update();
+    return frame.subscribe(update);
+  }, [cullStore, frame]);
+  const cull = useSyncExternalStore(cullStore.subscribe, cullStore.get);
+  const [levelOfDetail] = useState(createLevelOfDetail);
+  const visibleStrokes = useMemo(() => levelOfDetail(strokes, cull), [cull, levelOfDetail, strokes]);
 
-    return strokes.map((s) => {
-      const ptsPx = s.ptsPx.filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
-      const points = ptsPx.map(([x, y]) => pxToWorld(x, y));
-      const isRenderable = points.length >= 2;
-      const isPolygon = s.geomType === "polygon" && points.length >= 3;
-      const shape = isPolygon ? new THREE.Shape(points.map(([x, y]) => new THREE.Vector2(x, y))) : undefined;
-      const centroidWorld = pxToWorld(...getCentroid(ptsPx));
-      const measurementPosition = isPolygon
-        ? ([centroidWorld[0], centroidWorld[1], 0.002] as [number, number, number])
-        : points[points.length - 1];
-      return {
-        ...s,
-        isRenderable,
-        points: isPolygon ? [...points, points[0]] : points,
-        shape,
-        measurementPosition,
-      };
-    });
-  }, [strokes, size, viewport]);
+  // selection と計測ラベルだけは stroke ごとに model pixel で置く
+  const overlays = useMemo(
+    () =>
+      visibleStrokes
+        .filter((s) => showMeasurements || selectedSet.has(s.id))
+        .map((s) => {
+          const ptsPx = s.ptsPx.filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
+          const lastPart = s.parts.at(-1)?.ptsPx ?? [];
+          const [cx, cy] = getCentroid(ptsPx);
+          const measurementPosition: [number, number, number] | undefined =
+            s.geomType === "line" && s.parts.length === 1 && lastPart.length > 0
+              ? [...lastPart[lastPart.length - 1], 0]
+              : s.geomType === "point" && ptsPx.length === 1
+                ? [...ptsPx[0], 0]
+                : Number.isFinite(cx) && Number.isFinite(cy)
+                  ? [cx, cy, 0.002]
+                  : undefined;
+          return { ...s, outlines: strokeOutlines(s), measurementPosition };
+        }),
+    [selectedSet, showMeasurements, visibleStrokes]
+  );
 
+  // batch の buffer は model pixel のまま持ち、描画時にこの group で world 座標へ写す（y は下向き）
   return (
-    <group>
-      {!hideStrokes &&
-        renderedStrokes.map((s) => (
-          <group key={s.id}>
-            {!s.isRenderable ? null : (
-              <>
-                {s.shape && (
-                  <mesh position={[0, 0, -0.001]}>
-                    <shapeGeometry args={[s.shape]} />
-                    <meshBasicMaterial color={s.color} transparent opacity={0.25} side={THREE.DoubleSide} />
-                  </mesh>
-                )}
-                <Line points={s.points} color={s.color} lineWidth={s.width} />
-                {showMeasurements && s.measurementPosition && (
-                  <Html position={s.measurementPosition} center style={{ pointerEvents: "none" }}>
-                    <div
-                      style={{
-                        padding: "2px 5px",
-                        borderRadius: 4,
-                        background: "rgba(255, 255, 255, 0.85)",
-                        color: "#333",
-                        fontSize: 11,
-                        whiteSpace: "nowrap",
-                        pointerEvents: "none",
-                        textAlign: "left",
-                      }}
-                    >
-                      {s.geomType === "polygon" ? (
-                        <>
-                          {Number.isFinite(s.area) && <div>Area: {s.area?.toFixed(1)} px²</div>}
-                          {Number.isFinite(s.perimeter) && <div>Perimeter: {s.perimeter?.toFixed(1)} px</div>}
-                        </>
-                      ) : (
-                        Number.isFinite(s.length) && <div>Length: {s.length?.toFixed(1)} px</div>
+    <group
+      position={[-viewport.width / 2, viewport.height / 2, 0]}
+      scale={[viewport.width / size.width, -viewport.height / size.height, 1]}
+    >
+      {!hideStrokes && (
+        <>
+          <StrokeBatches strokes={visibleStrokes} />
+          {overlays.map((s) => (
+            <group key={s.id}>
+              {selectedSet.has(s.id) && (
+                <>
+                  {s.outlines.map(({ points, closed }, index) => (
+                    <Line
+                      key={`selection-${index}`}
+                      points={(closed ? [...points, points[0]] : points).map(
+                        ([x, y]) => [x, y, -0.0005] as [number, number, number]
                       )}
-                    </div>
-                  </Html>
-                )}
-              </>
-            )}
-          </group>
-        ))}
+                      color={SELECTION_COLOR}
+                      lineWidth={s.width + 6}
+                    />
+                  ))}
+                  {s.parts
+                    .filter((part) => part.geomType === "point")
+                    .flatMap((part) => part.ptsPx)
+                    .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
+                    .map(([x, y], index) => (
+                      <mesh key={`selection-point-${index}`} position={[x, y, -0.0005]}>
+                        <circleGeometry args={[Math.max(0.01, s.width) * 1.8, 24]} />
+                        <meshBasicMaterial color={SELECTION_COLOR} side={THREE.DoubleSide} />
+                      </mesh>
+                    ))}
+                </>
+              )}
+              {showMeasurements && s.measurementPosition && (
+                <Html position={s.measurementPosition} center style={{ pointerEvents: "none" }}>
+                  <div
+                    style={{
+                      padding: "2px 5px",
+                      borderRadius: 4,
+                      background: "rgba(255, 255, 255, 0.85)",
+                      color: "#333",
+                      fontSize: 11,
+                      whiteSpace: "nowrap",
+                      pointerEvents: "none",
+                      textAlign: "left",
+                    }}
+                  >
+                    {s.geomType === "point" ? (
+                      s.ptsPx.length === 1 ? (
+                        <div>
+                          Point: ({s.ptsPx[0][0].toFixed(1)}, {s.ptsPx[0][1].toFixed(1)}) px
+                        </div>
+                      ) : (
+                        <div>Points: {s.ptsPx.length}</div>
+                      )
+                    ) : (
+                      <>
+                        {s.parts.length > 1 && <div>Parts: {s.parts.length}</div>}
+                        {s.area !== undefined && Number.isFinite(s.area) && (
+                          <div>
+                            Area: {formatArea(s.area, s.geodesic ? meterCalibration(calibration) : calibration)}
+                          </div>
+                        )}
+                        {s.perimeter !== undefined && Number.isFinite(s.perimeter) && (
+                          <div>
+                            Perimeter:{" "}
+                            {formatLength(s.perimeter, s.geodesic ? meterCalibration(calibration) : calibration)}
+                          </div>
+                        )}
+                        {s.length !== undefined && Number.isFinite(s.length) && (
+                          <div>
+                            Length: {formatLength(s.length, s.geodesic ? meterCalibration(calibration) : calibration)}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </Html>
+              )}
+            </group>
+          ))}
+        </>
+      )}
     </group>
   );
 }
@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+import type { Mesh } from "three";
+import type { Point2D } from "../domain/geometryFeature";
+import type { RenderableStroke } from "../domain/renderableStroke";
+import { pointerToModelPixel } from "../lib/canvasCoordinates";
+import { boxFromCorners, strokeAtPoint, strokesInBox, type SelectionMode } from "../lib/featureSelection";
+
+interface SelectionSurfaceProps {
+  strokes: RenderableStroke[];
+  enabled: boolean;
+  onSelect: (ids: string[], mode: SelectionMode) => void;
+  onClear: () => void;
+}
+
+// クリックとみなす移動量とヒット判定半径（画面px）
+const CLICK_DISTANCE_PX = 4;
+const HIT_TOLERANCE_PX = 6;
+
+export function SelectionSurface({ strokes, enabled, onSelect, onClear }: SelectionSurfaceProps) {
+  const { camera, size, viewport } = useThree();
+  const [dragPx, setDragPx] = useState<{ start: Point2D; end: Point2D } | null>(null);
+  const dragStartRef = useRef<Point2D | null>(null);
+  const interactionPlaneRef = useRef<Mesh>(null);
+
+  const planeArgs = useMemo<[number, number]>(() => [viewport.width, viewport.height], [viewport]);
+
+  useFrame(() => {
+    interactionPlaneRef.current?.position.set(camera.position.x, camera.position.y, 0.005);
+  });
+
+  // Escapeキーで選択解除
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClear();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, onClear]);
+
+  useEffect(() => {
+    if (enabled) return;
+    dragStartRef.current = null;
+    setDragPx(null);
+  }, [enabled]);
+
+  const toModelPixel = (e: ThreeEvent<PointerEvent>) =>
+    pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom);
+
+  const pxToWorld = ([x, y]: Point2D): [number, number, number] => [
+    (x / size.width) * viewport.width - viewport.width / 2,
+    viewport.height / 2 - (y / size.height) * viewport.height,
+    0.004,
+  ];
+
+  const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!enabled) return;
+    e.stopPropagation();
+    dragStartRef.current = toModelPixel(e);
+  };
+
+  const onPointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const start = dragStartRef.current;
+    if (!enabled || !start) return;
+    setDragPx({ start, end: toModelPixel(e) });
+  };
+
+  const onPointerUp = (e: ThreeEvent<PointerEvent>) => {
+    const start = dragStartRef.current;
+    if (!enabled || !start) return;
+    e.stopPropagation();
+    dragStartRef.current = null;
+    setDragPx(null);
+    const end = toModelPixel(e);
+    // Shift でクリックは追加/解除のトグル、ボックスは既存選択への追加
+    const additive = e.shiftKey;
+    if (Math.hypot(end[0] - start[0], end[1] - start[1]) * camera.zoom <= CLICK_DISTANCE_PX) {
+      const id = strokeAtPoint(strokes, end, HIT_TOLERANCE_PX / camera.zoom);
+      if (id) onSelect([id], additive ? "toggle" : "replace");
+      else if (!additive) onClear();
+      return;
+    }
+    onSelect(strokesInBox(strokes, boxFromCorners(start, end)), additive ? "add" : "replace");
+  };
+
+  const box = dragPx ? boxFromCorners(dragPx.start, dragPx.end) : null;
+
+  return (
+    <group>
+      {enabled && box && (
+        <Line
+          points={[
+            pxToWorld([box.minX, box.minY]),
+            pxToWorld([box.maxX, box.minY]),
+            pxToWorld([box.maxX, box.maxY]),
+            pxToWorld([box.minX, box.maxY]),
+            pxToWorld([box.minX, box.minY]),
+          ]}
+          color="#2563eb"
+          lineWidth={1}
+        />
+      )}
+      {enabled && (
+        <mesh
+          ref={interactionPlaneRef}
+          position={[camera.position.x, camera.position.y, 0.005]}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          <planeGeometry args={planeArgs} />
+          <meshBasicMaterial transparent opacity={0} />
+        </mesh>
+      )}
+    </group>
+  );
+}
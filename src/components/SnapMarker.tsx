@@ -0,0 +1,56 @@
+import { Line } from "@react-three/drei";
+import type { SnapKind } from "../lib/snapping";
+
+interface SnapMarkerProps {
+  position: [number, number, number];
+  kind: SnapKind;
+  /** Half of the marker size in world units. */
+  radius: number;
+}
+
+// 頂点は四角、辺は菱形、グリッドは十字で示す
+const SNAP_COLORS: Record<SnapKind, string> = { vertex: "#dc2626", edge: "#ea580c", grid: "#0891b2" };
+
+export function SnapMarker({ position: [x, y], kind, radius }: SnapMarkerProps) {
+  const z = 0.003;
+  const color = SNAP_COLORS[kind];
+  if (kind === "grid") {
+    return (
+      <group>
+        <Line
+          points={[
+            [x - radius, y, z],
+            [x + radius, y, z],
+          ]}
+          color={color}
+          lineWidth={1.5}
+        />
+        <Line
+          points={[
+            [x, y - radius, z],
+            [x, y + radius, z],
+          ]}
+          color={color}
+          lineWidth={1.5}
+        />
+      </group>
+    );
+  }
+  const outline: Array<[number, number, number]> =
+    kind === "vertex"
+      ? [
+          [x - radius, y - radius, z],
+          [x + radius, y - radius, z],
+          [x + radius, y + radius, z],
+          [x - radius, y + radius, z],
+          [x - radius, y - radius, z],
+        ]
+      : [
+          [x, y - radius, z],
+          [x + radius, y, z],
+          [x, y + radius, z],
+          [x - radius, y, z],
+          [x, y - radius, z],
+        ];
+  return <Line points={outline} color={color} lineWidth={2} />;
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import type { GeometryFeature, Layer } from "../domain/geometryFeature";
+import type { QueryPromotionResult } from "../hooks/useGeometryFeatures";
+import type { useQueryWorkbench } from "../hooks/useQueryWorkbench";
+import {
+  SPATIAL_OPERATIONS,
+  spatialOperation,
+  spatialOperationSql,
+  type SpatialOperationId,
+} from "../lib/spatialOperations";
+
+interface SpatialToolboxProps {
+  layers: Layer[];
+  selectedIds: readonly string[];
+  /** combine の対象が同じ CRS かを確かめるために使う */
+  selectedFeatures: GeometryFeature[];
+  query: ReturnType<typeof useQueryWorkbench>;
+  onPromote: (layerName: string) => Promise<QueryPromotionResult>;
+}
+
+const promotionText = (promotion: QueryPromotionResult) =>
+  promotion.status === "saved"
+    ? `Saved ${promotion.count} features to “${promotion.layerName}”.`
+    : promotion.status === "invalid-name"
+      ? "Enter a layer name."
+      : promotion.status === "empty"
+        ? "The preview has no geometry to save."
+        : "Save failed. No partial layer was kept.";
+
+/**
+ * 選択中の feature か layer に DuckDB Spatial の操作をかける。生成した SQL は SQL Workbench と同じ runtime で実行し、
+ * 結果を temporary strokes として確認してから新しい layer に保存する。元の feature は変更しない。
+ */
+export function SpatialToolbox({ layers, selectedIds, selectedFeatures, query, onPromote }: SpatialToolboxProps) {
+  const [operationId, setOperationId] = useState<SpatialOperationId>("buffer");
+  const [sourceKind, setSourceKind] = useState<"selection" | "layer">("selection");
+  const [layerId, setLayerId] = useState<string>();
+  // 操作ごとに入力中の値を残し、切り替えて戻っても消えないようにする
+  const [parameters, setParameters] = useState<Partial<Record<SpatialOperationId, string>>>({});
+  const [combine, setCombine] = useState(false);
+  const [layerName, setLayerName] = useState("");
+  const [message, setMessage] = useState<string>();
+  const [saving, setSaving] = useState(false);
+
+  // DuckDB Spatial の関数は query sandbox で実行するため、sandbox に Spatial extension が読み込めた場合だけ使える
+  const available = query.spatial;
+  const operation = spatialOperation(operationId);
+  const parameterText = parameters[operationId] ?? String(operation.parameter?.defaultValue ?? "");
+  const sourceLayerId = layers.some(({ id }) => id === layerId) ? layerId : layers[0]?.id;
+  const layerCrs = new Map(layers.map(({ id, crs }) => [id, crs]));
+  const generated =
+    sourceKind === "layer" && !sourceLayerId
+      ? ({ status: "invalid", message: "Create a layer first." } as const)
+      : spatialOperationSql({
+          operation: operationId,
+          source:
+            sourceKind === "layer" && sourceLayerId ? { kind: "layer", layerId: sourceLayerId } : { kind: "selection" },
+          parameter: operation.parameter
+            ? parameterText.trim() === ""
+              ? Number.NaN
+              : Number(parameterText)
+            : undefined,
+          combine,
+          sourceCrs: sourceKind === "selection" ? selectedFeatures.map(({ layerId }) => layerCrs.get(layerId)) : [],
+        });
+  const sql = generated.status === "ok" ? generated.sql : null;
+  const noSelection = sourceKind === "selection" && selectedIds.length === 0;
+  const running = query.status === "initializing" || query.status === "running";
+  // 保存できるのは今の SQL で作った preview だけ。SQL Workbench で別の query を流した後は保存しない
+  const ranCurrentSql = sql !== null && query.lastRunSql === sql;
+  const previewed = available && ranCurrentSql && query.temporaryStrokes.length > 0;
+  const defaultLayerName = `${operation.label} result`;
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(undefined);
+    const promotion = await onPromote(layerName.trim() || defaultLayerName);
+    setSaving(false);
+    setMessage(promotionText(promotion));
+  };
+
+  return (
+    <details className="attribute-table spatial-toolbox" data-testid="spatial-toolbox">
+      <summary>Spatial operations</summary>
+      <div className="attribute-table__controls">
+        <label>
+          Operation
+          <select
+            aria-label="Spatial operation"
+            value={operationId}
+            onChange={(event) => setOperationId(event.target.value as SpatialOperationId)}
+          >
+            {SPATIAL_OPERATIONS.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="spatial-toolbox-source"
+            checked={sourceKind === "selection"}
+            onChange={() => setSourceKind("selection")}
+          />{" "}
+          Selection ({selectedIds.length})
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="spatial-toolbox-source"
+            checked={sourceKind === "layer"}
+            onChange={() => setSourceKind("layer")}
+          />{" "}
+          Layer
+        </label>
+        <select
+          aria-label="Source layer"
+          value={sourceLayerId ?? ""}
+          disabled={sourceKind !== "layer"}
+          onChange={(event) => setLayerId(event.target.value)}
+        >
+          {layers.map((layer) => (
+            <option key={layer.id} value={layer.id}>
+              {layer.name}
+            </option>
+          ))}
+        </select>
+        {operation.parameter && (
+          <label title="元の feature と同じ座標単位（通常は model pixel）">
+            {operation.parameter.label}
+            <input
+              type="number"
+              value={parameterText}
+              min={operation.parameter.min}
+              step="any"
+              onChange={(event) => setParameters((current) => ({ ...current, [operationId]: event.target.value }))}
+            />
+          </label>
+        )}
+        <label title="対象をまとめて1つの geometry として処理する">
+          <input type="checkbox" checked={combine} onChange={(event) => setCombine(event.target.checked)} /> Combine
+        </label>
+      </div>
+      {!available && query.status !== "initializing" && (
+        <p className="spatial-toolbox__message" role="status">
+          Spatial operations need the DuckDB Spatial extension, which is not loaded.
+        </p>
+      )}
+      {generated.status === "invalid" ? (
+        <p className="spatial-toolbox__message" role="alert">
+          {generated.message}
+        </p>
+      ) : (
+        <pre className="spatial-toolbox__sql" data-testid="spatial-toolbox-sql">
+          {generated.sql}
+        </pre>
+      )}
+      <div className="attribute-table__controls">
+        <button
+          type="button"
+          disabled={!available || sql === null || noSelection || running}
+          title={noSelection ? "対象の feature を選択してください" : undefined}
+          onClick={() => {
+            setMessage(undefined);
+            if (sql) void query.run(sql);
+          }}
+        >
+          Preview
+        </button>
+        <input
+          aria-label="Output layer name"
+          placeholder={defaultLayerName}
+          value={layerName}
+          onChange={(event) => setLayerName(event.target.value)}
+        />
+        <button type="button" disabled={!previewed || saving} onClick={() => void save()}>
+          {saving ? "Saving…" : "Save as layer"}
+        </button>
+        {previewed && <span>{query.temporaryStrokes.length} geometries previewed</span>}
+      </div>
+      {ranCurrentSql && query.error && (
+        <p className="spatial-toolbox__message" role="alert">
+          {query.error}
+        </p>
+      )}
+      {message && (
+        <p className="spatial-toolbox__message" role="status">
+          {message}
+        </p>
+      )}
+    </details>
+  );
+}
@@ -5,13 +5,21 @@ import type { QueryPromotionResult } from "../hooks/useGeometryFeatures";
 const displayValue = (value: unknown) =>
   value === null ? "NULL" : typeof value === "object" ? JSON.stringify(value) : String(value);
 
+// geometry_features 由来の id 列を持つ行だけが canvas 上の feature と対応する
+const rowFeatureId = (row: Record<string, unknown>) => (typeof row.id === "string" ? row.id : undefined);
+
 export function SqlWorkbench({
   query,
   onPromote,
+  selectedIds,
+  onSelectFeature,
 }: {
   query: ReturnType<typeof useQueryWorkbench>;
   onPromote: (layerName: string) => Promise<QueryPromotionResult>;
+  selectedIds: readonly string[];
+  onSelectFeature: (id: string, additive: boolean) => void;
 }) {
+  const selectedSet = new Set(selectedIds);
   const renderedRowIndexes = new Set(query.temporaryStrokes.map(({ id }) => Number(id.replace("query-result-", ""))));
   const [layerName, setLayerName] = useState("Query result");
   const [promotionMessage, setPromotionMessage] = useState<string>();
@@ -122,13 +130,22 @@ export function SqlWorkbench({
                 </tr>
               </thead>
               <tbody>
-                {query.result.rows.map((row, index) => (
-                  <tr key={index} data-query-geometry={renderedRowIndexes.has(index) ? "rendered" : undefined}>
-                    {query.result!.columns.map((column) => (
-                      <td key={column.name}>{displayValue(row[column.name])}</td>
-                    ))}
-                  </tr>
-                ))}
+                {query.result.rows.map((row, index) => {
+                  const featureId = rowFeatureId(row);
+                  return (
+                    <tr
+                      key={index}
+                      data-query-geometry={renderedRowIndexes.has(index) ? "rendered" : undefined}
+                      data-selected={featureId && selectedSet.has(featureId) ? "true" : undefined}
+                      className={featureId ? "query-row--selectable" : undefined}
+                      onClick={(event) => featureId && onSelectFeature(featureId, event.shiftKey)}
+                    >
+                      {query.result!.columns.map((column) => (
+                        <td key={column.name}>{displayValue(row[column.name])}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { LineMaterial } from "three/examples/jsm/lines/LineMaterial.js";
+import { LineSegments2 } from "three/examples/jsm/lines/LineSegments2.js";
+import { LineSegmentsGeometry } from "three/examples/jsm/lines/LineSegmentsGeometry.js";
+import type { RenderableStroke } from "../domain/renderableStroke";
+import type { BatchRange } from "../lib/batchBuffer";
+import { createStrokeBatcher, type StrokeBatch } from "../lib/strokeBatches";
+
+interface StrokeBatchesProps {
+  /** 座標は model pixel のまま。親の group が world 座標へ変換する */
+  strokes: RenderableStroke[];
+}
+
+interface BatchObject {
+  object: THREE.Object3D;
+  /** 書き換えた範囲だけを GPU へ送り直す */
+  update: (ranges: BatchRange[], size: number) => void;
+  dispose: () => void;
+}
+
+// 要素の範囲を attribute の float 範囲に直して転送対象に加える
+const markRanges = (
+  attribute: { addUpdateRange: (start: number, count: number) => void; needsUpdate: boolean },
+  ranges: BatchRange[],
+  stride: number
+) => {
+  if (ranges.length === 0) return;
+  for (const { start, count } of ranges) attribute.addUpdateRange(start * stride, count * stride);
+  attribute.needsUpdate = true;
+};
+
+const createLines = (batch: Extract<StrokeBatch, { kind: "lines" }>, resolution: THREE.Vector2): BatchObject => {
+  const { position, color, distance } = batch.buffer.arrays;
+  const positions = new THREE.InstancedInterleavedBuffer(position, 6, 1);
+  const colors = new THREE.InstancedInterleavedBuffer(color, 6, 1);
+  const distances = new THREE.InstancedInterleavedBuffer(distance, 2, 1);
+  const geometry = new LineSegmentsGeometry();
+  geometry.setAttribute("instanceStart", new THREE.InterleavedBufferAttribute(positions, 3, 0));
+  geometry.setAttribute("instanceEnd", new THREE.InterleavedBufferAttribute(positions, 3, 3));
+  geometry.setAttribute("instanceColorStart", new THREE.InterleavedBufferAttribute(colors, 3, 0));
+  geometry.setAttribute("instanceColorEnd", new THREE.InterleavedBufferAttribute(colors, 3, 3));
+  geometry.setAttribute("instanceDistanceStart", new THREE.InterleavedBufferAttribute(distances, 1, 0));
+  geometry.setAttribute("instanceDistanceEnd", new THREE.InterleavedBufferAttribute(distances, 1, 1));
+  geometry.instanceCount = batch.buffer.size;
+  // 線幅は screen pixel、破線の長さは model pixel の距離 attribute に対して効く
+  const material = new LineMaterial({
+    vertexColors: true,
+    linewidth: batch.width,
+    dashed: Boolean(batch.dash),
+    dashSize: batch.dash?.dashSize ?? 1,
+    gapSize: batch.dash?.gapSize ?? 1,
+  });
+  material.resolution.copy(resolution);
+  const object = new LineSegments2(geometry, material);
+  object.frustumCulled = false;
+  return {
+    object,
+    update: (ranges, size) => {
+      markRanges(positions, ranges, 6);
+      markRanges(colors, ranges, 6);
+      markRanges(distances, ranges, 2);
+      geometry.instanceCount = size;
+    },
+    dispose: () => {
+      geometry.dispose();
+      material.dispose();
+    },
+  };
+};
+
+const createFills = (batch: Extract<StrokeBatch, { kind: "fills" }>): BatchObject => {
+  const positions = new THREE.BufferAttribute(batch.buffer.arrays.position, 3);
+  const colors = new THREE.BufferAttribute(batch.buffer.arrays.color, 4);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", positions);
+  geometry.setAttribute("color", colors);
+  geometry.setDrawRange(0, batch.buffer.size * 3);
+  // 親 group の y 反転で裏返るので両面を描く
+  const material = new THREE.MeshBasicMaterial({
+    vertexColors: true,
+    transparent: true,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  });
+  const object = new THREE.Mesh(geometry, material);
+  object.position.z = -0.001;
+  object.frustumCulled = false;
+  return {
+    object,
+    update: (ranges, size) => {
+      markRanges(positions, ranges, 9);
+      markRanges(colors, ranges, 12);
+      geometry.setDrawRange(0, size * 3);
+    },
+    dispose: () => {
+      geometry.dispose();
+      material.dispose();
+    },
+  };
+};
+
+const createPoints = (batch: Extract<StrokeBatch, { kind: "points" }>): BatchObject => {
+  const geometry = new THREE.CircleGeometry(1, 24);
+  const material = new THREE.MeshBasicMaterial({ side: THREE.DoubleSide });
+  const object = new THREE.InstancedMesh(geometry, material, batch.buffer.capacity);
+  object.instanceMatrix = new THREE.InstancedBufferAttribute(batch.buffer.arrays.matrix, 16);
+  object.instanceColor = new THREE.InstancedBufferAttribute(batch.buffer.arrays.color, 3);
+  object.count = batch.buffer.size;
+  object.frustumCulled = false;
+  return {
+    object,
+    update: (ranges, size) => {
+      markRanges(object.instanceMatrix, ranges, 16);
+      if (object.instanceColor) markRanges(object.instanceColor, ranges, 3);
+      object.count = size;
+    },
+    dispose: () => {
+      geometry.dispose();
+      material.dispose();
+      object.dispose();
+    },
+  };
+};
+
+const createBatchObject = (batch: StrokeBatch, resolution: THREE.Vector2): BatchObject =>
+  batch.kind === "lines"
+    ? createLines(batch, resolution)
+    : batch.kind === "fills"
+      ? createFills(batch)
+      : createPoints(batch);
+
+/**
+ * stroke を layer ごとの共有 buffer にまとめて描画する。stroke の追加・変更・削除は buffer の該当範囲だけを書き換え、
+ * 配列の拡張が必要になった batch だけ object を作り直す。
+ */
+export function StrokeBatches({ strokes }: StrokeBatchesProps) {
+  const get = useThree((state) => state.get);
+  const invalidate = useThree((state) => state.invalidate);
+  const size = useThree((state) => state.size);
+  const [batcher] = useState(createStrokeBatcher);
+  const [group] = useState(() => new THREE.Group());
+  const [objects] = useState(() => new Map<StrokeBatch, BatchObject>());
+
+  useEffect(() => {
+    const batches = batcher.sync(strokes);
+    const current = new Set(batches);
+    for (const [batch, entry] of objects) {
+      if (current.has(batch)) continue;
+      group.remove(entry.object);
+      entry.dispose();
+      objects.delete(batch);
+    }
+    const { width, height } = get().size;
+    for (const batch of batches) {
+      const changes = batch.buffer.takeChanges();
+      let entry = objects.get(batch);
+      if (entry && changes.reallocated) {
+        group.remove(entry.object);
+        entry.dispose();
+        entry = undefined;
+      }
+      if (entry) {
+        entry.update(changes.ranges, batch.buffer.size);
+      } else {
+        entry = createBatchObject(batch, new THREE.Vector2(width, height));
+        objects.set(batch, entry);
+        group.add(entry.object);
+      }
+      // layer の順に塗り・線・点を重ねる
+      entry.object.renderOrder = batch.order * 3 + (batch.kind === "fills" ? 0 : batch.kind === "lines" ? 1 : 2);
+    }
+    invalidate();
+  }, [batcher, get, group, invalidate, objects, strokes]);
+
+  useEffect(() => {
+    for (const { object } of objects.values()) {
+      if (object instanceof LineSegments2) object.material.resolution.set(size.width, size.height);
+    }
+    invalidate();
+  }, [invalidate, objects, size]);
+
+  useEffect(
+    () => () => {
+      for (const entry of objects.values()) {
+        group.remove(entry.object);
+        entry.dispose();
+      }
+      objects.clear();
+    },
+    [group, objects]
+  );
+
+  return <primitive object={group} />;
+}
@@ -1,20 +1,37 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { useThree } from "@react-three/fiber";
+import { useThree, type ThreeEvent } from "@react-three/fiber";
 import { Line } from "@react-three/drei";
-import type { RenderableStroke } from "../domain/renderableStroke";
+import type { VertexEdit } from "../domain/geometryFeature";
+import { strokeSegments, withStrokeVertices, type RenderableStroke } from "../domain/renderableStroke";
+import { isEditableTarget } from "../lib/historyShortcut";
+import { SNAP_TOLERANCE_PX, type SnapIndex, type SnapKind, type SnapResult, type SnapSettings } from "../lib/snapping";
+import { SnapMarker } from "./SnapMarker";
 
 interface StrokeEditorProps {
   strokes: RenderableStroke[];
-  onUpdateStroke: (strokeId: string, newPtsPx: [number, number][]) => Promise<void>;
+  onUpdateStroke: (strokeId: string, edit: VertexEdit) => Promise<void>;
   enabled: boolean;
+  snapIndex?: SnapIndex;
+  snapSettings?: SnapSettings;
 }
 
-export function StrokeEditor({ strokes, onUpdateStroke, enabled }: StrokeEditorProps) {
-  const { size, viewport } = useThree();
+/** 中点ハンドルのドラッグで挿入する頂点: afterIndex の直後、segment の両端点の間に入る */
+interface PendingInsertion {
+  strokeId: string;
+  afterIndex: number;
+  endIndex: number;
+}
+
+export function StrokeEditor({ strokes, onUpdateStroke, enabled, snapIndex, snapSettings }: StrokeEditorProps) {
+  const { camera, size, viewport } = useThree();
   const [selected, setSelected] = useState<{ strokeId: string; ptIndex: number } | null>(null);
   const [dragWorld, setDragWorld] = useState<[number, number, number] | null>(null);
+  const [snapKind, setSnapKind] = useState<SnapKind | null>(null);
+  const [insertion, setInsertion] = useState<PendingInsertion | null>(null);
   const draggingRef = useRef(false);
+  const movedRef = useRef(false);
   const selectedRef = useRef<{ strokeId: string; ptIndex: number } | null>(null);
+  const insertionRef = useRef<PendingInsertion | null>(null);
 
   const pxToWorld = (x: number, y: number): [number, number, number] => {
     const wx = (x / size.width) * viewport.width - viewport.width / 2;
@@ -39,11 +56,40 @@ export function StrokeEditor({ strokes, onUpdateStroke, enabled }: StrokeEditorP
     if (!enabled) {
       setSelected(null);
       selectedRef.current = null;
+      setInsertion(null);
+      insertionRef.current = null;
       setDragWorld(null);
+      setSnapKind(null);
       draggingRef.current = false;
     }
   }, [enabled]);
 
+  const selectVertex = (vertex: { strokeId: string; ptIndex: number } | null) => {
+    setSelected(vertex);
+    selectedRef.current = vertex;
+  };
+
+  const deleteVertex = (strokeId: string, index: number) => {
+    selectVertex(null);
+    void onUpdateStroke(strokeId, { type: "delete", index });
+  };
+
+  // Delete / Backspace で選択中の頂点を削除（入力欄でのキー操作は除く）
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.key !== "Delete" && e.key !== "Backspace") || isEditableTarget(e.target)) return;
+      const current = selectedRef.current;
+      if (!current || draggingRef.current) return;
+      e.preventDefault();
+      selectedRef.current = null;
+      setSelected(null);
+      void onUpdateStroke(current.strokeId, { type: "delete", index: current.ptIndex });
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, onUpdateStroke]);
+
   // 選択点をドラッグ中は表示座標をオーバーライド
   const displayStrokes = useMemo(() => {
     const selId = selected?.strokeId;
@@ -54,19 +100,12 @@ export function StrokeEditor({ strokes, onUpdateStroke, enabled }: StrokeEditorP
       const newPtsPx: [number, number][] = s.ptsPx.map((pt, i) =>
         i === selIdx ? worldToPx(dragWorld[0], dragWorld[1]) : pt
       );
-      return { ...s, ptsPx: newPtsPx };
+      return withStrokeVertices(s, newPtsPx);
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [strokes, selected, dragWorld, size, viewport]);
 
-  const onPlanePointerDown = (e: { stopPropagation: () => void; point: { x: number; y: number; z: number } }) => {
-    if (!enabled) return;
-    e.stopPropagation();
-
-    const cx = e.point.x;
-    const cy = e.point.y;
-
-    // クリック位置に最も近い点を探す
+  const nearestVertex = (cx: number, cy: number) => {
     let nearest: { strokeId: string; ptIndex: number; dist: number } | null = null;
     for (const s of strokes) {
       for (let i = 0; i < s.ptsPx.length; i++) {
@@ -77,54 +116,140 @@ export function StrokeEditor({ strokes, onUpdateStroke, enabled }: StrokeEditorP
         }
       }
     }
+    return nearest && { strokeId: nearest.strokeId, ptIndex: nearest.ptIndex };
+  };
 
-    if (nearest) {
-      const sel = { strokeId: nearest.strokeId, ptIndex: nearest.ptIndex };
-      setSelected(sel);
-      selectedRef.current = sel;
-      draggingRef.current = true;
-    } else {
-      setSelected(null);
-      selectedRef.current = null;
+  const nearestMidpoint = (cx: number, cy: number): PendingInsertion | null => {
+    let nearest: (PendingInsertion & { dist: number }) | null = null;
+    for (const s of strokes) {
+      for (const [start, end] of strokeSegments(s)) {
+        const [wx, wy] = pxToWorld(
+          (s.ptsPx[start][0] + s.ptsPx[end][0]) / 2,
+          (s.ptsPx[start][1] + s.ptsPx[end][1]) / 2
+        );
+        const dist = Math.hypot(wx - cx, wy - cy);
+        if (dist <= hitRadius && (!nearest || dist < nearest.dist)) {
+          nearest = { strokeId: s.id, afterIndex: start, endIndex: end, dist };
+        }
+      }
     }
+    return nearest && { strokeId: nearest.strokeId, afterIndex: nearest.afterIndex, endIndex: nearest.endIndex };
+  };
+
+  // ドラッグ中の頂点自身（挿入時は分割する segment）には吸着させない。Alt を押している間はスナップしない
+  const snapDrag = (e: ThreeEvent<PointerEvent>): SnapResult => {
+    const pointPx = worldToPx(e.point.x, e.point.y);
+    if (!snapIndex || !snapSettings || e.altKey) return { point: pointPx, kind: null };
+    const insertionTarget = insertionRef.current;
+    const selectedTarget = selectedRef.current;
+    const exclude = insertionTarget
+      ? { strokeId: insertionTarget.strokeId, vertexIndex: insertionTarget.afterIndex }
+      : selectedTarget
+        ? { strokeId: selectedTarget.strokeId, vertexIndex: selectedTarget.ptIndex }
+        : undefined;
+    return snapIndex.snap(pointPx, snapSettings, SNAP_TOLERANCE_PX / camera.zoom, exclude);
   };
 
-  const onPlanePointerMove = (e: { point: { x: number; y: number; z: number } }) => {
+  const onPlanePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!enabled || e.button !== 0) return;
+    e.stopPropagation();
+    movedRef.current = false;
+
+    // 頂点を優先し、外れたら中点ハンドルを探す
+    const vertex = nearestVertex(e.point.x, e.point.y);
+    const midpoint = vertex ? null : nearestMidpoint(e.point.x, e.point.y);
+    selectVertex(vertex);
+    setInsertion(midpoint);
+    insertionRef.current = midpoint;
+    draggingRef.current = Boolean(vertex || midpoint);
+  };
+
+  const onPlanePointerMove = (e: ThreeEvent<PointerEvent>) => {
     if (!enabled || !draggingRef.current) return;
-    setDragWorld([e.point.x, e.point.y, 0]);
+    movedRef.current = true;
+    const { point, kind } = snapDrag(e);
+    setDragWorld(pxToWorld(point[0], point[1]));
+    setSnapKind(kind);
   };
 
-  const onPlanePointerUp = async (e: { point: { x: number; y: number; z: number } }) => {
+  const onPlanePointerUp = async (e: ThreeEvent<PointerEvent>) => {
     if (!enabled || !draggingRef.current) return;
     draggingRef.current = false;
 
     const currentSelected = selectedRef.current;
-    const finalPx = worldToPx(e.point.x, e.point.y);
+    const currentInsertion = insertionRef.current;
+    const finalPx = snapDrag(e).point;
 
     setDragWorld(null);
+    setSnapKind(null);
+    setInsertion(null);
+    insertionRef.current = null;
 
-    if (!currentSelected) return;
-
-    const stroke = strokes.find((s) => s.id === currentSelected.strokeId);
-    if (!stroke) return;
+    if (currentInsertion) {
+      // クリックだけなら segment の中点に挿入し、挿入した頂点を選択状態にする
+      const stroke = strokes.find((s) => s.id === currentInsertion.strokeId);
+      if (!stroke) return;
+      const [sx, sy] = stroke.ptsPx[currentInsertion.afterIndex];
+      const [ex, ey] = stroke.ptsPx[currentInsertion.endIndex];
+      const point: [number, number] = movedRef.current ? finalPx : [(sx + ex) / 2, (sy + ey) / 2];
+      selectVertex({ strokeId: currentInsertion.strokeId, ptIndex: currentInsertion.afterIndex + 1 });
+      await onUpdateStroke(currentInsertion.strokeId, {
+        type: "insert",
+        afterIndex: currentInsertion.afterIndex,
+        point,
+      });
+      return;
+    }
 
-    const newPtsPx: [number, number][] = stroke.ptsPx.map((pt, i) => (i === currentSelected.ptIndex ? finalPx : pt));
+    // 動かさずに離した場合は選択のみ（履歴に空の編集を残さない）
+    if (!currentSelected || !movedRef.current) return;
+    await onUpdateStroke(currentSelected.strokeId, { type: "move", index: currentSelected.ptIndex, point: finalPx });
+  };
 
-    await onUpdateStroke(currentSelected.strokeId, newPtsPx);
+  // 右クリックで頂点を削除
+  const onPlaneContextMenu = (e: ThreeEvent<MouseEvent>) => {
+    if (!enabled) return;
+    const vertex = nearestVertex(e.point.x, e.point.y);
+    if (!vertex) return;
+    e.stopPropagation();
+    e.nativeEvent.preventDefault();
+    deleteVertex(vertex.strokeId, vertex.ptIndex);
   };
 
+  const insertionGuide = (() => {
+    if (!insertion || !dragWorld) return null;
+    const stroke = strokes.find((s) => s.id === insertion.strokeId);
+    if (!stroke) return null;
+    const [sx, sy] = stroke.ptsPx[insertion.afterIndex];
+    const [ex, ey] = stroke.ptsPx[insertion.endIndex];
+    return [pxToWorld(sx, sy), dragWorld, pxToWorld(ex, ey)];
+  })();
+
   if (!enabled) return null;
 
   return (
     <group>
       {/* ストロークの線（ドラッグ中は選択点の座標をオーバーライド） */}
       {displayStrokes.map((s) => {
-        const points = s.ptsPx
-          .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y))
-          .map(([x, y]) => pxToWorld(x, y));
-        if (points.length < 2) return null;
-        const displayPoints = s.geomType === "polygon" ? [...points, points[0]] : points;
-        return <Line key={s.id} points={displayPoints} color={s.color} lineWidth={s.width} />;
+        const toWorld = (points: [number, number][]) =>
+          points.filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y)).map(([x, y]) => pxToWorld(x, y));
+        // part ごとに線を引き、polygon は外周と hole を閉じて表示する
+        const outlines = s.parts.flatMap((part) => {
+          if (part.geomType === "point") return [];
+          const points = toWorld(part.ptsPx);
+          if (part.geomType === "line") return points.length >= 2 ? [points] : [];
+          return [points, ...(part.holes ?? []).map(toWorld)]
+            .filter((ring) => ring.length >= 2)
+            .map((ring) => [...ring, ring[0]]);
+        });
+        if (outlines.length === 0) return null;
+        return (
+          <group key={s.id}>
+            {outlines.map((points, index) => (
+              <Line key={index} points={points} color={s.color} lineWidth={s.width} />
+            ))}
+          </group>
+        );
       })}
 
       {/* 各点のハンドル（外枠 + 塗り） */}
@@ -152,12 +277,38 @@ export function StrokeEditor({ strokes, onUpdateStroke, enabled }: StrokeEditorP
           })
       )}
 
+      {/* 中点ハンドル：ドラッグまたはクリックで頂点を挿入 */}
+      {!dragWorld &&
+        displayStrokes.map((s) =>
+          strokeSegments(s).map(([start, end]) => {
+            const [wx, wy] = pxToWorld(
+              (s.ptsPx[start][0] + s.ptsPx[end][0]) / 2,
+              (s.ptsPx[start][1] + s.ptsPx[end][1]) / 2
+            );
+            return (
+              <mesh key={`${s.id}-mid-${start}-${end}`} position={[wx, wy, 0.001]}>
+                <circleGeometry args={[dotRadius * 0.6, 12]} />
+                <meshBasicMaterial color="#60a5fa" transparent opacity={0.8} />
+              </mesh>
+            );
+          })
+        )}
+
+      {/* 挿入中の頂点と隣接する2辺のプレビュー */}
+      {insertionGuide && <Line points={insertionGuide} color="#2563eb" lineWidth={1} dashed dashSize={4} gapSize={3} />}
+
+      {/* スナップ先のインジケーター */}
+      {dragWorld && snapKind && (
+        <SnapMarker position={dragWorld} kind={snapKind} radius={((6 / size.width) * viewport.width) / camera.zoom} />
+      )}
+
       {/* 全面の透明プレーン：ポインターイベントを一括受信して近傍点を探す */}
       <mesh
         position={[0, 0, 0.01]}
         onPointerDown={onPlanePointerDown}
         onPointerMove={onPlanePointerMove}
         onPointerUp={onPlanePointerUp}
+        onContextMenu={onPlaneContextMenu}
       >
         <planeGeometry args={planeArgs} />
         <meshBasicMaterial transparent opacity={0} />
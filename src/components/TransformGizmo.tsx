@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+import type { Mesh } from "three";
+import type { Point2D } from "../domain/geometryFeature";
+import { withStrokeVertices, type RenderableStroke } from "../domain/renderableStroke";
+import { pointerToModelPixel } from "../lib/canvasCoordinates";
+import { strokeAtPoint } from "../lib/featureSelection";
+import {
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  rotationAngle,
+  scaleFactor,
+  transformPoint,
+  type FeatureTransform,
+} from "../lib/featureTransform";
+import { getCentroid } from "../lib/geometry";
+
+interface TransformGizmoProps {
+  strokes: RenderableStroke[];
+  enabled: boolean;
+  targetId: string | null;
+  onTarget: (id: string | null) => void;
+  onTransform: (id: string, transform: FeatureTransform) => Promise<void>;
+}
+
+type HandleKind = "move" | "rotate" | "scale";
+
+// ハンドル半径・ヒット判定半径・回転ハンドルの bbox からの距離（画面px）
+const HANDLE_PX = 5;
+const HIT_TOLERANCE_PX = 8;
+const ROTATE_OFFSET_PX = 28;
+const GIZMO_COLOR = "#7c3aed";
+
+export function TransformGizmo({ strokes, enabled, targetId, onTarget, onTransform }: TransformGizmoProps) {
+  const { camera, size, viewport } = useThree();
+  const [drag, setDrag] = useState<{ kind: HandleKind; start: Point2D; current: Point2D } | null>(null);
+  const dragRef = useRef<{ kind: HandleKind; start: Point2D } | null>(null);
+  const interactionPlaneRef = useRef<Mesh>(null);
+
+  const planeArgs = useMemo<[number, number]>(() => [viewport.width, viewport.height], [viewport]);
+  const target = strokes.find(({ id }) => id === targetId);
+
+  useFrame(() => {
+    interactionPlaneRef.current?.position.set(camera.position.x, camera.position.y, 0.006);
+  });
+
+  useEffect(() => {
+    if (enabled) return;
+    dragRef.current = null;
+    setDrag(null);
+  }, [enabled]);
+
+  const toModelPixel = (e: ThreeEvent<PointerEvent>) =>
+    pointerToModelPixel(e.pointer, size, viewport, camera.position, camera.zoom);
+
+  const pxToWorld = ([x, y]: Point2D, z = 0.004): [number, number, number] => [
+    (x / size.width) * viewport.width - viewport.width / 2,
+    viewport.height / 2 - (y / size.height) * viewport.height,
+    z,
+  ];
+
+  // 回転・拡大縮小の中心は getCentroid（頂点の重心）
+  const center = target ? getCentroid(target.ptsPx) : null;
+  const bounds = target
+    ? {
+        minX: Math.min(...target.ptsPx.map(([x]) => x)),
+        minY: Math.min(...target.ptsPx.map(([, y]) => y)),
+        maxX: Math.max(...target.ptsPx.map(([x]) => x)),
+        maxY: Math.max(...target.ptsPx.map(([, y]) => y)),
+      }
+    : null;
+  const corners: Point2D[] = bounds
+    ? [
+        [bounds.minX, bounds.minY],
+        [bounds.maxX, bounds.minY],
+        [bounds.maxX, bounds.maxY],
+        [bounds.minX, bounds.maxY],
+      ]
+    : [];
+  const rotateHandle: Point2D | null = bounds
+    ? [(bounds.minX + bounds.maxX) / 2, bounds.minY - ROTATE_OFFSET_PX / camera.zoom]
+    : null;
+
+  const dragTransform = (kind: HandleKind, start: Point2D, current: Point2D): FeatureTransform => {
+    if (!center) return IDENTITY_TRANSFORM;
+    if (kind === "rotate") return { ...IDENTITY_TRANSFORM, angle: rotationAngle(center, start, current) };
+    if (kind === "scale") return { ...IDENTITY_TRANSFORM, scale: scaleFactor(center, start, current) };
+    return { ...IDENTITY_TRANSFORM, dx: current[0] - start[0], dy: current[1] - start[1] };
+  };
+
+  const handleAt = (point: Point2D): HandleKind | null => {
+    if (!target || !bounds || !rotateHandle) return null;
+    const tolerance = HIT_TOLERANCE_PX / camera.zoom;
+    const near = ([x, y]: Point2D) => Math.hypot(x - point[0], y - point[1]) <= tolerance;
+    if (near(rotateHandle)) return "rotate";
+    if (corners.some(near)) return "scale";
+    const [x, y] = point;
+    const inBounds = x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+    return inBounds || strokeAtPoint([target], point, tolerance) ? "move" : null;
+  };
+
+  const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!enabled || e.button !== 0) return;
+    e.stopPropagation();
+    const point = toModelPixel(e);
+    const kind = handleAt(point);
+    if (kind) {
+      dragRef.current = { kind, start: point };
+      setDrag({ kind, start: point, current: point });
+      return;
+    }
+    // ハンドル外のクリックは対象 feature の切り替え
+    onTarget(strokeAtPoint(strokes, point, HIT_TOLERANCE_PX / camera.zoom) ?? null);
+  };
+
+  const onPointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const current = dragRef.current;
+    if (!enabled || !current) return;
+    setDrag({ ...current, current: toModelPixel(e) });
+  };
+
+  const onPointerUp = async (e: ThreeEvent<PointerEvent>) => {
+    const current = dragRef.current;
+    if (!enabled || !current) return;
+    e.stopPropagation();
+    dragRef.current = null;
+    setDrag(null);
+    const transform = dragTransform(current.kind, current.start, toModelPixel(e));
+    if (target && !isIdentityTransform(transform)) await onTransform(target.id, transform);
+  };
+
+  const preview =
+    target && center && drag
+      ? withStrokeVertices(
+          target,
+          target.ptsPx.map((point) => transformPoint(point, center, dragTransform(drag.kind, drag.start, drag.current)))
+        )
+      : target;
+  const outlines = (preview?.parts ?? []).flatMap((part) => {
+    if (part.geomType === "point") return [];
+    const rings = part.geomType === "polygon" ? [part.ptsPx, ...(part.holes ?? [])] : [part.ptsPx];
+    return rings
+      .filter((ring) => ring.length >= 2)
+      .map((ring) => (part.geomType === "polygon" ? [...ring, ring[0]] : ring).map((point) => pxToWorld(point)));
+  });
+  const handleRadius = ((HANDLE_PX / size.width) * viewport.width) / camera.zoom;
+
+  return (
+    <group>
+      {enabled && target && bounds && center && rotateHandle && (
+        <group>
+          {outlines.map((points, index) => (
+            <Line key={index} points={points} color={GIZMO_COLOR} lineWidth={2} dashed={Boolean(drag)} />
+          ))}
+          {preview?.parts
+            .filter((part) => part.geomType === "point")
+            .map((part, index) => (
+              <mesh key={`point-${index}`} position={pxToWorld(part.ptsPx[0])}>
+                <circleGeometry args={[handleRadius, 16]} />
+                <meshBasicMaterial color={GIZMO_COLOR} />
+              </mesh>
+            ))}
+          {!drag && (
+            <>
+              <Line
+                points={[...corners, corners[0]].map((point) => pxToWorld(point))}
+                color={GIZMO_COLOR}
+                lineWidth={1}
+                dashed
+              />
+              <Line
+                points={[pxToWorld([rotateHandle[0], bounds.minY]), pxToWorld(rotateHandle)]}
+                color={GIZMO_COLOR}
+                lineWidth={1}
+              />
+              {/* 四隅は拡大縮小、上の丸は回転、中心は重心 */}
+              {corners.map((corner, index) => (
+                <mesh key={`corner-${index}`} position={pxToWorld(corner, 0.005)}>
+                  <planeGeometry args={[handleRadius * 2, handleRadius * 2]} />
+                  <meshBasicMaterial color={GIZMO_COLOR} />
+                </mesh>
+              ))}
+              <mesh position={pxToWorld(rotateHandle, 0.005)}>
+                <circleGeometry args={[handleRadius * 1.2, 20]} />
+                <meshBasicMaterial color={GIZMO_COLOR} />
+              </mesh>
+              <mesh position={pxToWorld(center, 0.005)}>
+                <circleGeometry args={[handleRadius * 0.6, 12]} />
+                <meshBasicMaterial color={GIZMO_COLOR} />
+              </mesh>
+            </>
+          )}
+        </group>
+      )}
+      {enabled && (
+        <mesh
+          ref={interactionPlaneRef}
+          position={[camera.position.x, camera.position.y, 0.006]}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          <planeGeometry args={planeArgs} />
+          <meshBasicMaterial transparent opacity={0} />
+        </mesh>
+      )}
+    </group>
+  );
+}
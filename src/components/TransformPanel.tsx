@@ -0,0 +1,70 @@
+import { useState } from "react";
+import type { FeatureTransform } from "../lib/featureTransform";
+
+interface TransformPanelProps {
+  targetId: string;
+  onApply: (transform: FeatureTransform) => Promise<void>;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ key: keyof FeatureTransform; label: string; step: number }> = [
+  { key: "dx", label: "ΔX (px)", step: 1 },
+  { key: "dy", label: "ΔY (px)", step: 1 },
+  { key: "angle", label: "Angle (°, clockwise)", step: 1 },
+  { key: "scale", label: "Scale (×)", step: 0.1 },
+];
+
+const INITIAL_DRAFT: Record<keyof FeatureTransform, string> = { dx: "0", dy: "0", angle: "0", scale: "1" };
+
+/** 数値入力による移動・回転・拡大縮小。回転と拡大縮小の中心は feature の重心 */
+export function TransformPanel({ targetId, onApply, onClose }: TransformPanelProps) {
+  const [draft, setDraft] = useState(INITIAL_DRAFT);
+  const transform: FeatureTransform = {
+    dx: Number(draft.dx),
+    dy: Number(draft.dy),
+    angle: Number(draft.angle),
+    scale: Number(draft.scale),
+  };
+  const valid =
+    Object.values(draft).every((value) => value.trim() !== "") &&
+    Object.values(transform).every(Number.isFinite) &&
+    transform.scale > 0;
+
+  const apply = async () => {
+    if (!valid) return;
+    await onApply(transform);
+    setDraft(INITIAL_DRAFT);
+  };
+
+  return (
+    <form
+      className="transform-panel"
+      data-testid="transform-panel"
+      onSubmit={(event) => {
+        event.preventDefault();
+        void apply();
+      }}
+    >
+      <strong title={targetId}>Transform</strong>
+      {FIELDS.map(({ key, label, step }) => (
+        <label key={key}>
+          {label}
+          <input
+            type="number"
+            step={step}
+            value={draft[key]}
+            onChange={(event) => setDraft((current) => ({ ...current, [key]: event.target.value }))}
+          />
+        </label>
+      ))}
+      <div className="transform-panel__actions">
+        <button type="submit" disabled={!valid}>
+          Apply
+        </button>
+        <button type="button" onClick={onClose}>
+          Done
+        </button>
+      </div>
+    </form>
+  );
+}
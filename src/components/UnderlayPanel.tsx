@@ -0,0 +1,145 @@
+import { useState, type ChangeEvent } from "react";
+import type { ReferenceImage, ReferenceImagePlacement } from "../domain/referenceImage";
+import type { GridSettings } from "../lib/adaptiveGrid";
+
+interface UnderlayPanelProps {
+  gridSettings: GridSettings;
+  onSaveGridSettings: (settings: GridSettings) => Promise<unknown>;
+  image: ReferenceImage | null;
+  onLoadImage: (file: File) => Promise<unknown>;
+  onUpdateImage: (changes: Partial<ReferenceImagePlacement>) => Promise<unknown>;
+  onRemoveImage: () => Promise<unknown>;
+}
+
+/** 数値入力は blur か Enter で確定し、不正な値は元に戻す */
+function NumberField({
+  label,
+  value,
+  min,
+  step,
+  onCommit,
+}: {
+  label: string;
+  value: number;
+  min?: number;
+  step?: number;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(String(value));
+  const commit = () => {
+    const next = Number(draft);
+    if (draft.trim() === "" || !Number.isFinite(next) || (min !== undefined && next < min)) setDraft(String(value));
+    else if (next !== value) onCommit(next);
+  };
+  return (
+    <label>
+      {label}
+      <input
+        type="number"
+        value={draft}
+        min={min}
+        step={step}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => event.key === "Enter" && event.currentTarget.blur()}
+      />
+    </label>
+  );
+}
+
+export function UnderlayPanel({
+  gridSettings,
+  onSaveGridSettings,
+  image,
+  onLoadImage,
+  onUpdateImage,
+  onRemoveImage,
+}: UnderlayPanelProps) {
+  const loadImage = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) void onLoadImage(file);
+  };
+  const roundForInput = (value: number) => Number(value.toFixed(3));
+
+  return (
+    <details className="attribute-table underlay-panel" data-testid="underlay-panel">
+      <summary>Grid & reference image</summary>
+      <div className="attribute-table__controls">
+        <label>
+          <input
+            type="checkbox"
+            checked={gridSettings.visible}
+            onChange={(event) => void onSaveGridSettings({ ...gridSettings, visible: event.target.checked })}
+          />{" "}
+          Grid
+        </label>
+        <NumberField
+          key={`spacing-${gridSettings.spacing}`}
+          label="Spacing (px)"
+          value={gridSettings.spacing}
+          min={Number.MIN_VALUE}
+          onCommit={(spacing) => void onSaveGridSettings({ ...gridSettings, spacing })}
+        />
+        <NumberField
+          key={`major-${gridSettings.majorEvery}`}
+          label="Major every"
+          value={gridSettings.majorEvery}
+          min={2}
+          step={1}
+          onCommit={(majorEvery) =>
+            void onSaveGridSettings({ ...gridSettings, majorEvery: Math.max(2, Math.round(majorEvery)) })
+          }
+        />
+      </div>
+      <div className="attribute-table__controls">
+        <label className="underlay-panel__file">
+          {image ? "Replace image" : "Load image"}
+          <input type="file" accept="image/*" aria-label="Reference image file" onChange={loadImage} />
+        </label>
+        {image && (
+          <>
+            <span title={`${image.width} × ${image.height}`}>{image.name}</span>
+            <label>
+              <input
+                type="checkbox"
+                checked={image.visible}
+                onChange={(event) => void onUpdateImage({ visible: event.target.checked })}
+              />{" "}
+              Visible
+            </label>
+            <NumberField
+              key={`x-${image.id}-${image.x}`}
+              label="x"
+              value={roundForInput(image.x)}
+              onCommit={(x) => void onUpdateImage({ x })}
+            />
+            <NumberField
+              key={`y-${image.id}-${image.y}`}
+              label="y"
+              value={roundForInput(image.y)}
+              onCommit={(y) => void onUpdateImage({ y })}
+            />
+            <NumberField
+              key={`scale-${image.id}-${image.scale}`}
+              label="Scale"
+              value={roundForInput(image.scale)}
+              min={Number.MIN_VALUE}
+              step={0.1}
+              onCommit={(scale) => void onUpdateImage({ scale })}
+            />
+            <NumberField
+              key={`opacity-${image.id}-${image.opacity}`}
+              label="Opacity (%)"
+              value={Math.round(image.opacity * 100)}
+              min={0}
+              step={5}
+              onCommit={(percent) => void onUpdateImage({ opacity: Math.min(100, percent) / 100 })}
+            />
+            <button onClick={() => void onRemoveImage()}>Remove</button>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,40 @@
+export type FitTarget = "all" | "layer" | "selection" | "query";
+
+export type CanvasOverlay = "rulers" | "scaleBar";
+
+const FIT_COMMANDS: Array<{ target: FitTarget; label: string; title: string }> = [
+  { target: "all", label: "Fit all", title: "表示中の全 feature が収まるようにズーム" },
+  { target: "layer", label: "Fit layer", title: "選択中の layer の feature が収まるようにズーム" },
+  { target: "selection", label: "Zoom to selection", title: "選択中の feature が収まるようにズーム" },
+  { target: "query", label: "Zoom to result", title: "SQL 結果の geometry が収まるようにズーム" },
+];
+
+const OVERLAY_TOGGLES: Array<{ overlay: CanvasOverlay; label: string; title: string }> = [
+  { overlay: "rulers", label: "Rulers", title: "canvas の上端と左端に目盛りを表示" },
+  { overlay: "scaleBar", label: "Scale bar", title: "canvas の左下に縮尺を表示" },
+];
+
+interface ViewCommandsProps {
+  /** 範囲が空の対象はボタンを無効にする */
+  available: Record<FitTarget, boolean>;
+  onFit: (target: FitTarget) => void;
+  overlays: Record<CanvasOverlay, boolean>;
+  onToggleOverlay: (overlay: CanvasOverlay) => void;
+}
+
+export function ViewCommands({ available, onFit, overlays, onToggleOverlay }: ViewCommandsProps) {
+  return (
+    <div className="view-commands" data-testid="view-commands">
+      {FIT_COMMANDS.map(({ target, label, title }) => (
+        <button key={target} title={title} disabled={!available[target]} onClick={() => onFit(target)}>
+          {label}
+        </button>
+      ))}
+      {OVERLAY_TOGGLES.map(({ overlay, label, title }) => (
+        <button key={overlay} title={title} aria-pressed={overlays[overlay]} onClick={() => onToggleOverlay(overlay)}>
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -6,9 +6,14 @@ import {
   createGeometryFeature,
   type FeatureGeometry,
 } from "../domain/geometryFeature";
+import type { LayerStyle } from "../domain/layerStyle";
+import type { ReferenceImage } from "../domain/referenceImage";
+import type { ViewportBookmark } from "../domain/viewportBookmark";
+import { DEFAULT_GRID_SETTINGS } from "../lib/adaptiveGrid";
 import {
   CURRENT_SCHEMA_VERSION,
   GeometryRepository,
+  OPERATION_SNAPSHOT_LIMIT,
   PersistenceCheckpointError,
   mapSpatialFeatureRow,
   mergeLegacyFeatures,
@@ -51,11 +56,26 @@ describe("geometry repository row mapping", () => {
     });
   });
 
+  it("Spatial/JSON rowsからPointを同じcanonical geometryへ変換する", () => {
+    const common = {
+      id: "point-1",
+      properties: "{}",
+      style: '{"strokeColor":"#123456","strokeWidth":5}',
+      layer_id: DEFAULT_LAYER_ID,
+      created_at: "2026-07-18T00:00:00.000Z",
+    };
+    const spatial = mapSpatialFeatureRow({ ...common, geometry: '{"type":"Point","coordinates":[1,2]}' });
+    const json = mapJsonFeatureRow({ ...common, geom_type: "Point", coordinates: "[1,2]" });
+
+    expect(spatial.geometry).toEqual({ type: "Point", coordinates: [1, 2] });
+    expect(json).toEqual(spatial);
+  });
+
   it("未知のgeometry typeをLineStringへ暗黙変換せずrejectする", () => {
     expect(() =>
       mapJsonFeatureRow({
-        id: "point-1",
-        geom_type: "Point",
+        id: "curve-1",
+        geom_type: "CircularString",
         coordinates: "[[0,0],[2,2]]",
         properties: "{}",
         style: '{"strokeColor":"#123456","strokeWidth":5}',
@@ -65,33 +85,127 @@ describe("geometry repository row mapping", () => {
     ).toThrow("Unsupported geometry type");
   });
 
-  it("hole付きSpatial Polygonを外周だけへ縮退させずrejectする", () => {
-    expect(() =>
-      mapSpatialFeatureRow({
-        id: "polygon-with-hole",
-        geometry: JSON.stringify({
-          type: "Polygon",
+  it("hole付きSpatial Polygonを外周だけへ縮退させずinterior ringを保持する", () => {
+    const common = {
+      id: "polygon-with-hole",
+      properties: "{}",
+      style: '{"strokeColor":"#123456","strokeWidth":5}',
+      layer_id: DEFAULT_LAYER_ID,
+      created_at: "2026-07-18T00:00:00.000Z",
+    };
+    const spatial = mapSpatialFeatureRow({
+      ...common,
+      geometry: JSON.stringify({
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [4, 0],
+            [4, 4],
+            [0, 0],
+          ],
+          [
+            [1, 1],
+            [2, 1],
+            [1, 2],
+            [1, 1],
+          ],
+        ],
+      }),
+    });
+    const json = mapJsonFeatureRow({
+      ...common,
+      geom_type: "Polygon",
+      coordinates: "[[[0,0],[4,0],[4,4]],[[1,1],[2,1],[1,2]]]",
+    });
+
+    expect(spatial.geometry).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [0, 0],
+        [4, 0],
+        [4, 4],
+      ],
+      holes: [
+        [
+          [1, 1],
+          [2, 1],
+          [1, 2],
+        ],
+      ],
+    });
+    expect(json).toEqual(spatial);
+  });
+
+  it("Spatial/JSON rowsからMultiPolygonとGeometryCollectionを同じcanonical geometryへ変換する", () => {
+    const common = {
+      properties: "{}",
+      style: '{"strokeColor":"#123456","strokeWidth":5}',
+      layer_id: DEFAULT_LAYER_ID,
+      created_at: "2026-07-18T00:00:00.000Z",
+    };
+    const multiPolygon = {
+      spatial: mapSpatialFeatureRow({
+        ...common,
+        id: "multi-polygon",
+        geometry: '{"type":"MultiPolygon","coordinates":[[[[0,0],[2,0],[2,2],[0,0]]],[[[5,5],[7,5],[7,7],[5,5]]]]}',
+      }),
+      json: mapJsonFeatureRow({
+        ...common,
+        id: "multi-polygon",
+        geom_type: "MultiPolygon",
+        coordinates: '[{"coordinates":[[0,0],[2,0],[2,2]]},{"coordinates":[[5,5],[7,5],[7,7]]}]',
+      }),
+    };
+    const collection = {
+      spatial: mapSpatialFeatureRow({
+        ...common,
+        id: "collection",
+        geometry:
+          '{"type":"GeometryCollection","geometries":[{"type":"Point","coordinates":[1,2]},{"type":"LineString","coordinates":[[0,0],[3,4]]}]}',
+      }),
+      json: mapJsonFeatureRow({
+        ...common,
+        id: "collection",
+        geom_type: "GeometryCollection",
+        coordinates: '[{"type":"Point","coordinates":[1,2]},{"type":"LineString","coordinates":[[0,0],[3,4]]}]',
+      }),
+    };
+
+    expect(multiPolygon.spatial.geometry).toEqual({
+      type: "MultiPolygon",
+      polygons: [
+        {
           coordinates: [
-            [
-              [0, 0],
-              [4, 0],
-              [4, 4],
-              [0, 0],
-            ],
-            [
-              [1, 1],
-              [2, 1],
-              [1, 2],
-              [1, 1],
-            ],
+            [0, 0],
+            [2, 0],
+            [2, 2],
           ],
-        }),
-        properties: "{}",
-        style: '{"strokeColor":"#123456","strokeWidth":5}',
-        layer_id: DEFAULT_LAYER_ID,
-        created_at: "2026-07-18T00:00:00.000Z",
-      })
-    ).toThrow("Polygon holes are not supported");
+        },
+        {
+          coordinates: [
+            [5, 5],
+            [7, 5],
+            [7, 7],
+          ],
+        },
+      ],
+    });
+    expect(multiPolygon.json).toEqual(multiPolygon.spatial);
+    expect(collection.spatial.geometry).toEqual({
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Point", coordinates: [1, 2] },
+        {
+          type: "LineString",
+          coordinates: [
+            [0, 0],
+            [3, 4],
+          ],
+        },
+      ],
+    });
+    expect(collection.json).toEqual(collection.spatial);
   });
 });
 
@@ -109,10 +223,14 @@ describe("geometry repository store parity", () => {
     const query = vi.fn().mockResolvedValue(result());
     const close = vi.fn().mockResolvedValue(undefined);
     const prepare = vi.fn(async (sql: string) => ({
-      query: sql.startsWith("SELECT 1 AS present") ? vi.fn().mockResolvedValue(result([{ present: 1 }])) : query,
+      query: sql.startsWith("SELECT 1 AS present")
+        ? vi.fn().mockResolvedValue(result([{ present: 1 }]))
+        : sql.startsWith("UPDATE features")
+          ? query
+          : vi.fn().mockResolvedValue(result()),
       close,
     }));
-    const connection = { prepare } as unknown as AsyncDuckDBConnection;
+    const connection = { prepare, query: vi.fn().mockResolvedValue(result()) } as unknown as AsyncDuckDBConnection;
     const repository = new GeometryRepository(connection, {
       opfs: false,
       spatial: store === "spatial",
@@ -121,13 +239,22 @@ describe("geometry repository store parity", () => {
 
     await repository.updateGeometry("feature-1", geometry);
 
-    expect(prepare).toHaveBeenCalledTimes(2);
-    expect(prepare.mock.calls[1][0]).not.toContain("ST_Simplify");
+    const updates = prepare.mock.calls.map(([sql]) => sql).filter((sql) => sql.startsWith("UPDATE features"));
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).not.toContain("ST_Simplify");
     expect(query).toHaveBeenCalledOnce();
     if (store === "spatial") {
-      expect(query).toHaveBeenCalledWith("LINESTRING(0 0, 1 0.25, 2 0)", "feature-1");
+      expect(query).toHaveBeenCalledWith("LINESTRING(0 0, 1 0.25, 2 0)", 0, 0, 2, 0.25, "feature-1");
     } else {
-      expect(query).toHaveBeenCalledWith("LineString", JSON.stringify(geometry.coordinates), "feature-1");
+      expect(query).toHaveBeenCalledWith(
+        "LineString",
+        JSON.stringify(geometry.coordinates),
+        0,
+        0,
+        2,
+        0.25,
+        "feature-1"
+      );
     }
   });
 
@@ -142,10 +269,200 @@ describe("geometry repository store parity", () => {
     };
     const query = vi.fn().mockResolvedValue(result());
     const prepare = vi.fn(async (sql: string) => ({
-      query: sql.startsWith("SELECT 1 AS present") ? vi.fn().mockResolvedValue(result([{ present: 1 }])) : query,
+      query: sql.startsWith("SELECT 1 AS present")
+        ? vi.fn().mockResolvedValue(result([{ present: 1 }]))
+        : sql.startsWith("UPDATE features")
+          ? query
+          : vi.fn().mockResolvedValue(result()),
+      close: vi.fn().mockResolvedValue(undefined),
+    }));
+    const connection = { prepare, query: vi.fn().mockResolvedValue(result()) } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, {
+      opfs: false,
+      spatial: store === "spatial",
+      store,
+    });
+
+    await repository.updateGeometry("polygon-1", polygon);
+
+    if (store === "spatial") {
+      expect(query).toHaveBeenCalledWith("POLYGON((0 0, 3 0, 3 2, 0 0))", 0, 0, 3, 2, "polygon-1");
+    } else {
+      expect(query).toHaveBeenCalledWith("Polygon", JSON.stringify(polygon.coordinates), 0, 0, 3, 2, "polygon-1");
+    }
+  });
+
+  it.each(["spatial", "json"] as const)("%s insertはPointとMultiPointを保存する", async (store) => {
+    const inserted: unknown[][] = [];
+    const connection = {
+      query: vi.fn().mockResolvedValue(result([{ next_order: 1 }])),
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          if (sql.startsWith("SELECT 1 AS present")) return result([{ present: 1 }]);
+          if (sql.startsWith("INSERT INTO features")) inserted.push(args);
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, {
+      opfs: false,
+      spatial: store === "spatial",
+      store,
+    });
+
+    await repository.insertFeature(
+      createGeometryFeature({ id: "point", geometry: { type: "Point", coordinates: [1, 2] } })
+    );
+    await repository.insertFeature(
+      createGeometryFeature({
+        id: "multi-point",
+        geometry: {
+          type: "MultiPoint",
+          coordinates: [
+            [1, 2],
+            [3, 4],
+          ],
+        },
+      })
+    );
+
+    if (store === "spatial") {
+      expect(inserted.map((args) => args[1])).toEqual(["POINT(1 2)", "MULTIPOINT((1 2), (3 4))"]);
+    } else {
+      expect(inserted.map((args) => args.slice(1, 3))).toEqual([
+        ["Point", "[1,2]"],
+        ["MultiPoint", "[[1,2],[3,4]]"],
+      ]);
+    }
+  });
+
+  it.each(["spatial", "json"] as const)("%s insertはmulti-part geometryを保存する", async (store) => {
+    const inserted: unknown[][] = [];
+    const connection = {
+      query: vi.fn().mockResolvedValue(result([{ next_order: 1 }])),
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          if (sql.startsWith("SELECT 1 AS present")) return result([{ present: 1 }]);
+          if (sql.startsWith("INSERT INTO features")) inserted.push(args);
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, {
+      opfs: false,
+      spatial: store === "spatial",
+      store,
+    });
+    const geometries: FeatureGeometry[] = [
+      {
+        type: "MultiLineString",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 1],
+          ],
+          [
+            [2, 2],
+            [3, 3],
+          ],
+        ],
+      },
+      {
+        type: "MultiPolygon",
+        polygons: [
+          {
+            coordinates: [
+              [0, 0],
+              [2, 0],
+              [2, 2],
+            ],
+          },
+          {
+            coordinates: [
+              [5, 5],
+              [9, 5],
+              [9, 9],
+            ],
+            holes: [
+              [
+                [6, 6],
+                [7, 6],
+                [7, 7],
+              ],
+            ],
+          },
+        ],
+      },
+      {
+        type: "GeometryCollection",
+        geometries: [
+          { type: "Point", coordinates: [1, 2] },
+          {
+            type: "Polygon",
+            coordinates: [
+              [0, 0],
+              [1, 0],
+              [1, 1],
+            ],
+          },
+        ],
+      },
+    ];
+
+    for (const [index, geometry] of geometries.entries()) {
+      await repository.insertFeature(createGeometryFeature({ id: `multi-${index}`, geometry }));
+    }
+
+    if (store === "spatial") {
+      expect(inserted.map((args) => args[1])).toEqual([
+        "MULTILINESTRING((0 0, 1 1), (2 2, 3 3))",
+        "MULTIPOLYGON(((0 0, 2 0, 2 2, 0 0)), ((5 5, 9 5, 9 9, 5 5), (6 6, 7 6, 7 7, 6 6)))",
+        "GEOMETRYCOLLECTION(POINT(1 2), POLYGON((0 0, 1 0, 1 1, 0 0)))",
+      ]);
+    } else {
+      expect(inserted.map((args) => args.slice(1, 3))).toEqual([
+        ["MultiLineString", "[[[0,0],[1,1]],[[2,2],[3,3]]]"],
+        [
+          "MultiPolygon",
+          '[{"coordinates":[[0,0],[2,0],[2,2]]},{"coordinates":[[5,5],[9,5],[9,9]],"holes":[[[6,6],[7,6],[7,7]]]}]',
+        ],
+        [
+          "GeometryCollection",
+          '[{"type":"Point","coordinates":[1,2]},{"type":"Polygon","coordinates":[[0,0],[1,0],[1,1]]}]',
+        ],
+      ]);
+    }
+  });
+
+  it.each(["spatial", "json"] as const)("%s updateはPolygonのholeを保存する", async (store) => {
+    const polygon: FeatureGeometry = {
+      type: "Polygon",
+      coordinates: [
+        [0, 0],
+        [4, 0],
+        [4, 4],
+      ],
+      holes: [
+        [
+          [1, 1],
+          [2, 1],
+          [1, 2],
+        ],
+      ],
+    };
+    const query = vi.fn().mockResolvedValue(result());
+    const prepare = vi.fn(async (sql: string) => ({
+      query: sql.startsWith("SELECT 1 AS present")
+        ? vi.fn().mockResolvedValue(result([{ present: 1 }]))
+        : sql.startsWith("UPDATE features")
+          ? query
+          : vi.fn().mockResolvedValue(result()),
       close: vi.fn().mockResolvedValue(undefined),
     }));
-    const repository = new GeometryRepository({ prepare } as unknown as AsyncDuckDBConnection, {
+    const connection = { prepare, query: vi.fn().mockResolvedValue(result()) } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, {
       opfs: false,
       spatial: store === "spatial",
       store,
@@ -154,9 +471,24 @@ describe("geometry repository store parity", () => {
     await repository.updateGeometry("polygon-1", polygon);
 
     if (store === "spatial") {
-      expect(query).toHaveBeenCalledWith("POLYGON((0 0, 3 0, 3 2, 0 0))", "polygon-1");
+      expect(query).toHaveBeenCalledWith(
+        "POLYGON((0 0, 4 0, 4 4, 0 0), (1 1, 2 1, 1 2, 1 1))",
+        0,
+        0,
+        4,
+        4,
+        "polygon-1"
+      );
     } else {
-      expect(query).toHaveBeenCalledWith("Polygon", JSON.stringify(polygon.coordinates), "polygon-1");
+      expect(query).toHaveBeenCalledWith(
+        "Polygon",
+        "[[[0,0],[4,0],[4,4]],[[1,1],[2,1],[1,2]]]",
+        0,
+        0,
+        4,
+        4,
+        "polygon-1"
+      );
     }
   });
 
@@ -276,6 +608,60 @@ describe("transactional GeoJSON import", () => {
     expect(connection.query).toHaveBeenCalledWith("ROLLBACK;");
     expect(connection.query).not.toHaveBeenCalledWith("COMMIT;");
   });
+
+  it("Spatial読み込み時は経緯度layerをST_TransformでWeb Mercatorへ再投影して保存する", async () => {
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const connection = {
+      query: vi.fn().mockResolvedValue(result()),
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          if (sql.startsWith("SELECT 1 AS present")) return result([{ present: 1 }]);
+          if (sql.includes("ST_Transform")) return result([{ geometry: '{"type":"Point","coordinates":[1000,2000]}' }]);
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: true, store: "spatial" });
+    const layer = { ...DEFAULT_LAYER, id: "wgs84", name: "Imported EPSG:4326", crs: "EPSG:4326" };
+    const feature = createGeometryFeature({
+      id: "tokyo",
+      geometry: { type: "Point", coordinates: [139.7, -35.6] },
+      layerId: layer.id,
+    });
+
+    await repository.importGeoJSON([layer], [feature]);
+
+    const transform = statements.find(({ sql }) => sql.includes("ST_Transform"));
+    expect(transform?.args).toEqual(["POINT(139.7 35.6)", "EPSG:4326", "EPSG:3857"]);
+    expect(statements.find(({ sql }) => sql.startsWith("INSERT INTO layers"))?.args[5]).toBe("EPSG:3857");
+    expect(statements.find(({ sql }) => sql.startsWith("INSERT INTO features"))?.args[1]).toBe("POINT(1000 -2000)");
+  });
+
+  it("Spatialが無い場合とCRSの無いlayerの再投影をrejectする", async () => {
+    const connection = {
+      query: vi.fn(async (sql: string) =>
+        sql.startsWith("SELECT id, name, visible")
+          ? result([{ id: DEFAULT_LAYER_ID, name: "Default", visible: true, sort_order: 0, created_at: "2026-07-18" }])
+          : result()
+      ),
+      prepare: vi.fn(),
+    } as unknown as AsyncDuckDBConnection;
+
+    await expect(
+      new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" }).reprojectLayer(
+        DEFAULT_LAYER_ID,
+        "EPSG:3857"
+      )
+    ).rejects.toThrow("Reprojection requires the DuckDB Spatial extension");
+    await expect(
+      new GeometryRepository(connection, { opfs: false, spatial: true, store: "spatial" }).reprojectLayer(
+        DEFAULT_LAYER_ID,
+        "EPSG:3857"
+      )
+    ).rejects.toThrow('Layer "Default" has no CRS to reproject from');
+  });
 });
 
 describe("OPFS durability", () => {
@@ -861,21 +1247,7 @@ describe("legacy migration row isolation", () => {
   });
 });
 
-describe("undo insertion order", () => {
-  it.each(["spatial", "json"] as const)("%s Undoはinsertion_orderを使う", async (store) => {
-    const query = vi.fn().mockResolvedValue(result());
-    const repository = new GeometryRepository({ query } as unknown as AsyncDuckDBConnection, {
-      opfs: false,
-      spatial: store === "spatial",
-      store,
-    });
-
-    await repository.deleteLatestFeature();
-
-    expect(String(query.mock.calls[0][0])).toContain("ORDER BY insertion_order DESC");
-    expect(String(query.mock.calls[0][0])).not.toContain("ORDER BY created_at DESC");
-  });
-
+describe("insertion order", () => {
   it.each(["spatial", "json"] as const)("%s 複数feature importへfile順のorderを割り当てる", async (store) => {
     let nextOrder = 1;
     const insertedOrders: number[] = [];
@@ -914,13 +1286,18 @@ describe("undo insertion order", () => {
 });
 
 describe("transactional clear", () => {
+  const journalPrepare = () => vi.fn(async () => ({ query: vi.fn().mockResolvedValue(result()), close: vi.fn() }));
+
   it.each(["spatial", "json"] as const)("%s Clearはfeatureとcustom layerを同じtransactionで削除する", async (store) => {
     const query = vi.fn().mockResolvedValue(result());
-    const repository = new GeometryRepository({ query } as unknown as AsyncDuckDBConnection, {
-      opfs: false,
-      spatial: store === "spatial",
-      store,
-    });
+    const repository = new GeometryRepository(
+      { query, prepare: journalPrepare() } as unknown as AsyncDuckDBConnection,
+      {
+        opfs: false,
+        spatial: store === "spatial",
+        store,
+      }
+    );
 
     await repository.clearFeatures();
 
@@ -932,16 +1309,45 @@ describe("transactional clear", () => {
     ]);
   });
 
+  it("上限を超えるfeatureのClearはsnapshotを書かずに履歴を破棄する", async () => {
+    const ids = Array.from({ length: OPERATION_SNAPSHOT_LIMIT + 1 }, (_, index) => ({ id: `f-${index}` }));
+    const statements: string[] = [];
+    const repository = new GeometryRepository(
+      {
+        query: vi.fn().mockResolvedValue(result()),
+        prepare: vi.fn(async (sql: string) => ({
+          query: vi.fn(async () => {
+            statements.push(sql);
+            return result(sql === "SELECT id FROM features_json;" ? ids : []);
+          }),
+          close: vi.fn(),
+        })),
+      } as unknown as AsyncDuckDBConnection,
+      { opfs: false, spatial: false, store: "json" }
+    );
+
+    await repository.clearFeatures();
+
+    expect(statements).toEqual([
+      "SELECT id FROM features_json;",
+      "SELECT id FROM layers;",
+      "DELETE FROM operation_journal;",
+    ]);
+  });
+
   it("layer削除失敗時はfeature削除もrollbackする", async () => {
     const query = vi.fn(async (sql: string) => {
       if (sql.startsWith("DELETE FROM layers")) throw new Error("layer delete failed");
       return result();
     });
-    const repository = new GeometryRepository({ query } as unknown as AsyncDuckDBConnection, {
-      opfs: false,
-      spatial: false,
-      store: "json",
-    });
+    const repository = new GeometryRepository(
+      { query, prepare: journalPrepare() } as unknown as AsyncDuckDBConnection,
+      {
+        opfs: false,
+        spatial: false,
+        store: "json",
+      }
+    );
 
     await expect(repository.clearFeatures()).rejects.toThrow("layer delete failed");
 
@@ -953,6 +1359,7 @@ describe("transactional clear", () => {
 describe("layer invariant", () => {
   it.each(["spatial", "json"] as const)("%s insertは存在しないlayerをrejectする", async (store) => {
     const connection = {
+      query: vi.fn().mockResolvedValue(result()),
       prepare: vi.fn(async () => ({
         query: vi.fn().mockResolvedValue(result()),
         close: vi.fn(),
@@ -1012,6 +1419,7 @@ describe("layer invariant", () => {
 
   it.each(["spatial", "json"] as const)("%s updateはorphan featureをrejectする", async (store) => {
     const connection = {
+      query: vi.fn().mockResolvedValue(result()),
       prepare: vi.fn().mockResolvedValue({
         query: vi.fn().mockResolvedValue(result()),
         close: vi.fn(),
@@ -1034,3 +1442,837 @@ describe("layer invariant", () => {
     ).rejects.toThrow('Feature "orphan" does not reference an existing layer');
   });
 });
+
+describe("layer management", () => {
+  const layerConnection = (layerIds: string[] = [DEFAULT_LAYER_ID, "roads"]) => {
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const query = vi.fn(async (sql: string) =>
+      sql.startsWith("SELECT id, name, visible")
+        ? result(
+            layerIds.map((id, index) => ({
+              id,
+              name: id,
+              visible: true,
+              sort_order: index,
+              created_at: "2026-07-18T00:00:00.000Z",
+            }))
+          )
+        : result()
+    );
+    const connection = {
+      query,
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          if (sql.startsWith("SELECT 1 AS present"))
+            return result(layerIds.includes(String(args[0])) ? [{ present: 1 }] : []);
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    return { connection, query, statements };
+  };
+
+  it("updateLayerは指定されたfieldだけを更新し空の名前をrejectする", async () => {
+    const { connection, statements } = layerConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await repository.updateLayer("roads", { name: "  Streets " });
+    await repository.updateLayer("roads", { visible: false });
+
+    expect(statements.filter(({ sql }) => sql.startsWith("UPDATE layers")).map(({ args }) => args)).toEqual([
+      ["Streets", null, "roads"],
+      [null, false, "roads"],
+    ]);
+    await expect(repository.updateLayer("roads", { name: " " })).rejects.toThrow("Layer name must not be empty");
+    await expect(repository.updateLayer("missing", { visible: true })).rejects.toThrow(
+      'Layer "missing" does not exist'
+    );
+  });
+
+  it("setLayerStyleはstyleをJSONで保存し、nullで解除して不正なruleをrejectする", async () => {
+    const { connection, statements } = layerConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+    const style: LayerStyle = { dash: { dashSize: 8, gapSize: 4 } };
+
+    await repository.setLayerStyle("roads", style);
+    await repository.setLayerStyle("roads", null);
+
+    expect(statements.filter(({ sql }) => sql.startsWith("UPDATE layers")).map(({ args }) => args)).toEqual([
+      [JSON.stringify(style), "roads"],
+      [null, "roads"],
+    ]);
+    await expect(
+      repository.setLayerStyle("roads", { width: { type: "graduated", source: { measure: "area" }, stops: [] } })
+    ).rejects.toThrow("Invalid layer style");
+    await expect(repository.setLayerStyle("missing", style)).rejects.toThrow('Layer "missing" does not exist');
+  });
+
+  it.each(["spatial", "json"] as const)("%s deleteLayerはfeatureとlayerを単一transactionで削除する", async (store) => {
+    const { connection, query, statements } = layerConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+
+    await repository.deleteLayer("roads");
+
+    const table = store === "spatial" ? "features" : "features_json";
+    const deletes = statements.filter(({ sql }) => sql.startsWith("DELETE") && !sql.includes("operation_journal"));
+    expect(deletes.map(({ sql, args }) => [sql, args])).toEqual([
+      [`DELETE FROM ${table} WHERE layer_id = ?;`, ["roads"]],
+      ["DELETE FROM layers WHERE id = ?;", ["roads"]],
+    ]);
+    expect(query.mock.calls.map(([sql]) => sql)).toEqual(["BEGIN TRANSACTION;", "COMMIT;"]);
+  });
+
+  it("Default layerと存在しないlayerの削除をrejectしrollbackする", async () => {
+    const { connection, query } = layerConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await expect(repository.deleteLayer(DEFAULT_LAYER_ID)).rejects.toThrow("The Default layer cannot be deleted");
+    expect(query).not.toHaveBeenCalled();
+    await expect(repository.deleteLayer("missing")).rejects.toThrow('Layer "missing" does not exist');
+    expect(query).toHaveBeenCalledWith("ROLLBACK;");
+  });
+
+  it("reorderLayersは全layerのsort_orderを振り直し、不完全な順序をrejectする", async () => {
+    const { connection, query, statements } = layerConnection([DEFAULT_LAYER_ID, "roads", "parcels"]);
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await repository.reorderLayers(["roads", DEFAULT_LAYER_ID, "parcels"]);
+
+    expect(statements.filter(({ sql }) => sql.startsWith("UPDATE layers")).map(({ args }) => args)).toEqual([
+      [0, "roads"],
+      [1, DEFAULT_LAYER_ID],
+      [2, "parcels"],
+    ]);
+    expect(query).toHaveBeenCalledWith("COMMIT;");
+    await expect(repository.reorderLayers(["roads", "roads", "parcels"])).rejects.toThrow(
+      "Layer order must list every layer exactly once"
+    );
+    expect(query).toHaveBeenLastCalledWith("ROLLBACK;");
+  });
+});
+
+describe("properties update", () => {
+  it.each(["spatial", "json"] as const)(
+    "%s updatePropertiesは複数featureを単一transactionで更新する",
+    async (store) => {
+      const updates: unknown[][] = [];
+      const connection = {
+        query: vi.fn().mockResolvedValue(result()),
+        prepare: vi.fn(async (sql: string) => ({
+          query: vi.fn(async (...args: unknown[]) => {
+            if (sql.startsWith("SELECT 1 AS present")) return result([{ present: 1 }]);
+            if (sql.startsWith("UPDATE")) updates.push([sql, ...args]);
+            return result();
+          }),
+          close: vi.fn(),
+        })),
+      } as unknown as AsyncDuckDBConnection;
+      const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+
+      await repository.updateProperties([
+        { id: "a", properties: { name: "Oak", height: 12 } },
+        { id: "b", properties: {} },
+      ]);
+
+      const table = store === "spatial" ? "features" : "features_json";
+      const sql = `UPDATE ${table} SET properties = CAST(? AS JSON) WHERE id = ?;`;
+      expect(updates).toEqual([
+        [sql, '{"name":"Oak","height":12}', "a"],
+        [sql, "{}", "b"],
+      ]);
+      expect(connection.query).toHaveBeenNthCalledWith(1, "BEGIN TRANSACTION;");
+      expect(connection.query).toHaveBeenLastCalledWith("COMMIT;");
+    }
+  );
+
+  it("存在しないfeatureを含む場合はrollbackし、空のupdateでは何もしない", async () => {
+    const connection = {
+      query: vi.fn().mockResolvedValue(result()),
+      prepare: vi.fn(async () => ({ query: vi.fn().mockResolvedValue(result()), close: vi.fn() })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await repository.updateProperties([]);
+    expect(connection.query).not.toHaveBeenCalled();
+
+    await expect(repository.updateProperties([{ id: "missing", properties: {} }])).rejects.toThrow(
+      'Feature "missing" does not reference an existing layer'
+    );
+    expect(connection.query).toHaveBeenLastCalledWith("ROLLBACK;");
+  });
+});
+
+describe("operation journal", () => {
+  const line: FeatureGeometry = {
+    type: "LineString",
+    coordinates: [
+      [0, 0],
+      [1, 1],
+    ],
+  };
+  const journalConnection = (store: "spatial" | "json", entry?: Record<string, unknown>) => {
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const featureRow = (id: string) =>
+      store === "spatial"
+        ? {
+            id,
+            geometry: JSON.stringify(line),
+            properties: "{}",
+            style: "{}",
+            layer_id: DEFAULT_LAYER_ID,
+            created_at: "",
+          }
+        : {
+            id,
+            geom_type: "LineString",
+            coordinates: JSON.stringify(line.coordinates),
+            properties: "{}",
+            style: "{}",
+            layer_id: DEFAULT_LAYER_ID,
+            created_at: "",
+          };
+    const connection = {
+      query: vi.fn(async (sql: string) =>
+        sql.includes("MAX(insertion_order)") ? result([{ next_order: 1 }]) : result()
+      ),
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          if (sql.startsWith("SELECT 1 AS present")) return result([{ present: 1 }]);
+          if (sql.startsWith("SELECT seq")) return result(entry ? [entry] : []);
+          // 挿入後に読み直すと行が見える
+          if (sql.startsWith("SELECT id,") && statements.some(({ sql }) => sql.startsWith("INSERT INTO features"))) {
+            return result([featureRow(String(args[0]))]);
+          }
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    return { connection, statements };
+  };
+
+  it.each(["spatial", "json"] as const)("%s insertは前後のstateを記録し、redo branchを破棄する", async (store) => {
+    const { connection, statements } = journalConnection(store);
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+
+    await repository.insertFeature(createGeometryFeature({ id: "drawn", geometry: line }));
+
+    const journal = statements.filter(({ sql }) => sql.includes("operation_journal"));
+    expect(journal.map(({ sql }) => sql.split(" ")[0])).toEqual(["DELETE", "INSERT", "DELETE"]);
+    expect(journal[0].sql).toContain("WHERE undone");
+    const [label, before, after] = journal[1].args as [string, string, string];
+    expect(label).toBe("Add feature");
+    expect(JSON.parse(before)).toEqual({ featureIds: ["drawn"], layerIds: [], features: [], layers: [] });
+    expect(JSON.parse(after)).toMatchObject({ features: [{ id: "drawn", geometry: line }] });
+    expect(connection.query).toHaveBeenNthCalledWith(1, "BEGIN TRANSACTION;");
+    expect(connection.query).toHaveBeenLastCalledWith("COMMIT;");
+  });
+
+  it.each(["spatial", "json"] as const)("%s undoはbefore stateを復元しentryをundoneにする", async (store) => {
+    const kept = createGeometryFeature({ id: "kept", geometry: line, layerId: "roads" });
+    const roads = { ...DEFAULT_LAYER, id: "roads", name: "Roads", order: 1 };
+    const state = {
+      featureIds: ["kept", "added"],
+      layerIds: ["roads", "added-layer"],
+      features: [kept],
+      layers: [roads],
+    };
+    const { connection, statements } = journalConnection(store, { seq: 7, state: JSON.stringify(state) });
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+
+    await expect(repository.undo()).resolves.toBe(true);
+
+    const table = store === "spatial" ? "features" : "features_json";
+    const writes = statements.filter(({ sql }) => !sql.startsWith("SELECT"));
+    expect(writes.map(({ sql, args }) => [sql.split("(")[0].trim(), args[0]])).toEqual([
+      ["INSERT INTO layers", "roads"],
+      [`DELETE FROM ${table} WHERE id = ?;`, "added"],
+      [`INSERT INTO ${table}`, "kept"],
+      ["DELETE FROM layers WHERE id = ?;", "added-layer"],
+      ["UPDATE operation_journal SET undone = ? WHERE seq = ?;", true],
+    ]);
+    expect(writes[0].sql).toContain("ON CONFLICT (id) DO UPDATE");
+    expect(writes[2].sql).toContain("ON CONFLICT (id) DO UPDATE");
+    expect(writes.at(-1)?.args).toEqual([true, 7]);
+    expect(statements.find(({ sql }) => sql.startsWith("SELECT seq"))?.sql).toContain("before_state");
+  });
+
+  it("redoはafter stateを適用し、entryがなければfalseを返す", async () => {
+    const state = { featureIds: ["gone"], layerIds: [], features: [], layers: [] };
+    const { connection, statements } = journalConnection("json", { seq: 2, state: JSON.stringify(state) });
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await expect(repository.redo()).resolves.toBe(true);
+
+    expect(statements.find(({ sql }) => sql.startsWith("SELECT seq"))?.sql).toContain("after_state");
+    expect(statements.filter(({ sql }) => !sql.startsWith("SELECT")).map(({ args }) => args)).toEqual([
+      ["gone"],
+      [false, 2],
+    ]);
+
+    const empty = journalConnection("json");
+    const emptyRepository = new GeometryRepository(empty.connection, { opfs: false, spatial: false, store: "json" });
+    await expect(emptyRepository.undo()).resolves.toBe(false);
+    expect(empty.connection.query).toHaveBeenLastCalledWith("COMMIT;");
+  });
+
+  it("DuckDBがBIGINTのseqをbigintで返しても、UPDATEのparameterはserializeできる", async () => {
+    const state = { featureIds: ["gone"], layerIds: [], features: [], layers: [] };
+    const { connection, statements } = journalConnection("json", { seq: 9n, state: JSON.stringify(state) });
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await expect(repository.undo()).resolves.toBe(true);
+
+    const update = statements.find(({ sql }) => sql.startsWith("UPDATE operation_journal"));
+    // duckdb-wasm は prepared statement の parameter を JSON.stringify で渡す
+    expect(() => JSON.stringify(update?.args)).not.toThrow();
+    expect(update?.args).toEqual([true, 9]);
+  });
+
+  it("historyStateは次にUndo/Redoされる操作のlabelを返す", async () => {
+    const query = vi.fn().mockResolvedValue(result([{ undo_label: "Edit geometry", redo_label: null }]));
+    const repository = new GeometryRepository({ query } as unknown as AsyncDuckDBConnection, {
+      opfs: false,
+      spatial: false,
+      store: "json",
+    });
+
+    await expect(repository.historyState()).resolves.toEqual({
+      canUndo: true,
+      canRedo: false,
+      undoLabel: "Edit geometry",
+      redoLabel: undefined,
+    });
+  });
+});
+
+describe("calibration", () => {
+  it("縮尺と単位をapp_metadataへ保存し、CHECKPOINT後に読み戻せる", async () => {
+    const metadata = new Map<string, string>();
+    const query = vi.fn().mockResolvedValue(result());
+    const connection = {
+      query,
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          if (sql.startsWith("SELECT value")) {
+            const value = metadata.get(String(args[0]));
+            return result(value === undefined ? [] : [{ value }]);
+          }
+          if (sql.startsWith("INSERT INTO app_metadata")) metadata.set(String(args[0]), String(args[1]));
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: true, spatial: false, store: "json" });
+
+    await expect(repository.calibration()).resolves.toEqual({ unitsPerPixel: 1, unit: "px" });
+    await repository.saveCalibration({ unitsPerPixel: 0.0625, unit: "m" });
+
+    expect(query).toHaveBeenCalledWith("CHECKPOINT;");
+    await expect(repository.calibration()).resolves.toEqual({ unitsPerPixel: 0.0625, unit: "m" });
+  });
+});
+
+describe("viewport bookmarks", () => {
+  const bookmarkConnection = (existingIds: string[] = ["site"]) => {
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const query = vi.fn(async (sql: string) =>
+      sql.startsWith("SELECT id, name, center_x")
+        ? result([
+            { id: "site", name: "Site", center_x: 120, center_y: 80, zoom: 2, created_at: "2026-07-18 00:00:00" },
+          ])
+        : result()
+    );
+    const connection = {
+      query,
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          if (sql.startsWith("UPDATE viewport_bookmarks")) {
+            return result(existingIds.includes(String(args[1])) ? [{ id: args[1] }] : []);
+          }
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    return { connection, query, statements };
+  };
+
+  it("bookmarkを中心座標とzoomで保存・改名・削除し、journalを使わずCHECKPOINTする", async () => {
+    const { connection, query, statements } = bookmarkConnection();
+    const repository = new GeometryRepository(connection, { opfs: true, spatial: false, store: "json" });
+
+    await expect(repository.listBookmarks()).resolves.toEqual([
+      { id: "site", name: "Site", center: [120, 80], zoom: 2, createdAt: "2026-07-18T00:00:00.000Z" },
+    ]);
+    await repository.createBookmark({
+      id: "north",
+      name: " North ",
+      center: [10, 20],
+      zoom: 1.5,
+      createdAt: "2026-07-19T00:00:00.000Z",
+    });
+    await repository.renameBookmark("site", "  Survey site ");
+    await repository.deleteBookmark("site");
+
+    expect(statements.map(({ args }) => args)).toEqual([
+      ["north", "North", 10, 20, 1.5, "2026-07-19T00:00:00.000Z"],
+      ["Survey site", "site"],
+      ["site"],
+    ]);
+    expect(statements.some(({ sql }) => sql.includes("operation_journal"))).toBe(false);
+    expect(query.mock.calls.filter(([sql]) => sql === "CHECKPOINT;")).toHaveLength(3);
+  });
+
+  it("空の名前と存在しないbookmarkの改名をrejectする", async () => {
+    const { connection } = bookmarkConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await expect(repository.renameBookmark("site", " ")).rejects.toThrow("Bookmark name must not be empty");
+    await expect(
+      repository.createBookmark({ id: "blank", name: "", center: [0, 0], zoom: 1, createdAt: "2026-07-19T00:00:00Z" })
+    ).rejects.toThrow("Bookmark name must not be empty");
+    await expect(repository.renameBookmark("missing", "Elsewhere")).rejects.toThrow(
+      'Bookmark "missing" does not exist'
+    );
+  });
+
+  it("importGeoJSONはbookmarkを同じtransactionで追加し、既存IDのbookmarkは上書きしない", async () => {
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const query = vi.fn().mockResolvedValue(result());
+    const connection = {
+      query,
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          return sql.startsWith("SELECT 1 AS present") ? result([{ present: 1 }]) : result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+    const bookmark: ViewportBookmark = {
+      id: "site",
+      name: "Site",
+      center: [1, 2],
+      zoom: 3,
+      createdAt: "2026-07-18T00:00:00Z",
+    };
+
+    await repository.importGeoJSON([DEFAULT_LAYER], [], [bookmark]);
+
+    const insert = statements.find(({ sql }) => sql.includes("INSERT INTO viewport_bookmarks"));
+    expect(insert?.sql).toContain("ON CONFLICT DO NOTHING");
+    expect(insert?.args).toEqual(["site", "Site", 1, 2, 3, "2026-07-18T00:00:00Z"]);
+    expect(query.mock.calls.map(([sql]) => sql)).toEqual(["BEGIN TRANSACTION;", "COMMIT;"]);
+  });
+});
+
+describe("grid settings and reference image", () => {
+  const image: ReferenceImage = {
+    id: "plan",
+    name: "plan.png",
+    dataUrl: "data:image/png;base64,iVBORw0KGgo=",
+    width: 800,
+    height: 600,
+    x: -400,
+    y: -300,
+    scale: 1,
+    opacity: 0.5,
+    visible: true,
+    createdAt: "2026-07-18T00:00:00.000Z",
+  };
+
+  const imageConnection = () => {
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const metadata = new Map<string, string>();
+    const query = vi.fn(async (sql: string) =>
+      sql.includes("FROM reference_images")
+        ? result([
+            {
+              ...image,
+              data_url: image.dataUrl,
+              created_at: "2026-07-18 00:00:00",
+            },
+          ])
+        : result()
+    );
+    const connection = {
+      query,
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          if (sql.startsWith("SELECT value")) {
+            const value = metadata.get(String(args[0]));
+            return result(value === undefined ? [] : [{ value }]);
+          }
+          if (sql.startsWith("INSERT INTO app_metadata")) metadata.set(String(args[0]), String(args[1]));
+          if (sql.startsWith("UPDATE reference_images")) return result(args.at(-1) === "plan" ? [{ id: "plan" }] : []);
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    return { connection, query, statements };
+  };
+
+  it("grid設定をapp_metadataへ保存し、未設定なら既定値を返す", async () => {
+    const { connection, query } = imageConnection();
+    const repository = new GeometryRepository(connection, { opfs: true, spatial: false, store: "json" });
+
+    await expect(repository.gridSettings()).resolves.toEqual(DEFAULT_GRID_SETTINGS);
+    await repository.saveGridSettings({ visible: false, spacing: 50, majorEvery: 4 });
+
+    expect(query).toHaveBeenCalledWith("CHECKPOINT;");
+    await expect(repository.gridSettings()).resolves.toEqual({ visible: false, spacing: 50, majorEvery: 4 });
+  });
+
+  it("参照画像を1枚だけ保存し、配置の変更はdata URLを書き換えずに行う", async () => {
+    const { connection, query, statements } = imageConnection();
+    const repository = new GeometryRepository(connection, { opfs: true, spatial: false, store: "json" });
+
+    await expect(repository.referenceImage()).resolves.toEqual(image);
+    await repository.saveReferenceImage(image);
+    await repository.updateReferenceImage("plan", { x: 10, opacity: 0.25 });
+    await repository.deleteReferenceImage("plan");
+
+    expect(statements.map(({ sql, args }) => [sql.trim().split(/\s+/).slice(0, 3).join(" "), args])).toEqual([
+      [
+        "INSERT INTO reference_images(id,",
+        ["plan", "plan.png", image.dataUrl, 800, 600, -400, -300, 1, 0.5, true, "2026-07-18T00:00:00.000Z"],
+      ],
+      ["DELETE FROM reference_images", ["plan"]],
+      ["UPDATE reference_images SET", [10, null, null, 0.25, null, "plan"]],
+      ["DELETE FROM reference_images", ["plan"]],
+    ]);
+    expect(statements[1].sql).toContain("id <> ?");
+    expect(query.mock.calls.filter(([sql]) => sql === "CHECKPOINT;")).toHaveLength(3);
+  });
+
+  it("描画できない配置と存在しない画像の更新をrejectする", async () => {
+    const { connection } = imageConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await expect(repository.saveReferenceImage({ ...image, scale: 0 })).rejects.toThrow(
+      "Reference image scale must be greater than zero"
+    );
+    await expect(repository.updateReferenceImage("plan", { opacity: 1.5 })).rejects.toThrow(
+      "Reference image opacity must be between 0 and 1"
+    );
+    await expect(repository.updateReferenceImage("missing", { visible: false })).rejects.toThrow(
+      'Reference image "missing" does not exist'
+    );
+  });
+});
+
+describe("bounding-box feature loading", () => {
+  const boundsConnection = () => {
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const connection = {
+      query: vi.fn().mockResolvedValue(result([{ next_order: 1 }])),
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          if (sql.startsWith("SELECT 1 AS present")) return result([{ present: 1 }]);
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    return { connection, statements };
+  };
+
+  it.each(["spatial", "json"] as const)("%s 範囲とzoomで絞り込むqueryを発行する", async (store) => {
+    const { connection, statements } = boundsConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+
+    await repository.listFeaturesInBounds({ minX: 0, minY: 10, maxX: 100, maxY: 200 }, 2);
+
+    const [{ sql, args }] = statements;
+    if (store === "spatial") {
+      expect(sql).toContain("ST_Intersects(geom, ST_MakeEnvelope(?, ?, ?, ?))");
+      expect(args).toEqual([0, 10, 100, 200, 0.25, 0.25]);
+    } else {
+      expect(sql).toContain("min_x <= ? AND max_x >= ? AND min_y <= ? AND max_y >= ?");
+      expect(args).toEqual([100, 0, 200, 10, 0.25, 0.25]);
+    }
+    // 縮小しても残す geometry の種類は両方の store で同じ一覧で判定する（点だけの GeometryCollection も同じ扱い）
+    expect(sql).toContain(
+      store === "spatial"
+        ? "CAST(ST_GeometryType(geom) AS VARCHAR) IN ('POINT', 'MULTIPOINT')"
+        : "upper(geom_type) IN ('POINT', 'MULTIPOINT')"
+    );
+    expect(sql).not.toContain("ST_Dimension");
+    await expect(repository.listFeaturesInBounds({ minX: 5, minY: 0, maxX: 0, maxY: 1 }, 1)).rejects.toThrow(
+      "Invalid feature bounds query"
+    );
+    await expect(repository.listFeaturesInBounds({ minX: 0, minY: 0, maxX: 1, maxY: 1 }, 0)).rejects.toThrow(
+      "Invalid feature bounds query"
+    );
+  });
+
+  it.each(["spatial", "json"] as const)("%s insertとupdateで外接矩形の列を書く", async (store) => {
+    const { connection, statements } = boundsConnection();
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+    const line: FeatureGeometry = {
+      type: "LineString",
+      coordinates: [
+        [-1, 2],
+        [6, 8],
+      ],
+    };
+
+    await repository.insertFeature(createGeometryFeature({ id: "line", geometry: line }));
+    await repository.updateGeometry("line", { type: "Point", coordinates: [3, -4] });
+
+    const table = store === "spatial" ? "features" : "features_json";
+    const insert = statements.find(({ sql }) => sql.startsWith(`INSERT INTO ${table}(`));
+    expect(insert?.sql).toContain("min_x, min_y, max_x, max_y");
+    expect(insert?.args.slice(-5)).toEqual([-1, 2, 6, 8, 1]);
+    const update = statements.find(({ sql }) => sql.startsWith(`UPDATE ${table} SET`));
+    expect(update?.sql).toContain("min_x = ?, min_y = ?, max_x = ?, max_y = ?");
+    expect(update?.args.slice(-5)).toEqual([3, -4, 3, -4, "line"]);
+  });
+
+  it.each(["spatial", "json"] as const)("%s layerの範囲は外接矩形の列からまとめて求める", async (store) => {
+    const extents: Record<string, Record<string, unknown>> = {
+      a: { min_x: 0, min_y: 5, max_x: 10, max_y: 20 },
+      b: { min_x: -4, min_y: 8, max_x: 6, max_y: 30 },
+      empty: { min_x: null, min_y: null, max_x: null, max_y: null },
+    };
+    const statements: Array<{ sql: string; args: unknown[] }> = [];
+    const connection = {
+      query: vi.fn().mockResolvedValue(result()),
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          statements.push({ sql, args });
+          return result([extents[String(args[0])]]);
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+
+    await expect(repository.layerExtent(["a", "empty", "b"])).resolves.toEqual({
+      minX: -4,
+      minY: 5,
+      maxX: 10,
+      maxY: 30,
+    });
+    await expect(repository.layerExtent(["empty"])).resolves.toBeNull();
+    expect(statements[0].sql).toContain(
+      `FROM ${store === "spatial" ? "features" : "features_json"} WHERE layer_id = ?`
+    );
+  });
+
+  it("layerごとのfeature数をbigintから数値に直して返す", async () => {
+    const connection = {
+      query: vi.fn().mockResolvedValue(
+        result([
+          { layer_id: "a", count: 3n },
+          { layer_id: "b", count: 1n },
+        ])
+      ),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await expect(repository.featureCounts()).resolves.toEqual(
+      new Map([
+        ["a", 3],
+        ["b", 1],
+      ])
+    );
+    expect(connection.query).toHaveBeenCalledWith(expect.stringContaining("FROM features_json GROUP BY layer_id"));
+  });
+
+  it("次のundoとredoで変わるfeatureの外接矩形を前後のstateから返す", async () => {
+    const state = (coordinates: Array<[number, number]>) =>
+      JSON.stringify({
+        featureIds: ["line"],
+        layerIds: [],
+        features: [createGeometryFeature({ id: "line", geometry: { type: "LineString", coordinates } })],
+        layers: [],
+      });
+    const statements: string[] = [];
+    const connection = {
+      query: vi.fn().mockResolvedValue(result()),
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async () => {
+          statements.push(sql);
+          return sql.includes("WHERE NOT undone")
+            ? result([
+                {
+                  before_state: state([
+                    [0, 0],
+                    [2, 3],
+                  ]),
+                  after_state: state([
+                    [10, 10],
+                    [12, 14],
+                  ]),
+                },
+              ])
+            : result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: false, store: "json" });
+
+    await expect(repository.historyFeatureBounds("undo")).resolves.toEqual([
+      { minX: 0, minY: 0, maxX: 2, maxY: 3 },
+      { minX: 10, minY: 10, maxX: 12, maxY: 14 },
+    ]);
+    await expect(repository.historyFeatureBounds("redo")).resolves.toEqual([]);
+    expect(statements[1]).toContain("WHERE undone ORDER BY seq ASC");
+  });
+
+  it.each(["spatial", "json"] as const)("%s idを指定してfeatureを読み、無いidは飛ばす", async (store) => {
+    const rows: Record<string, Record<string, unknown>> = {
+      b:
+        store === "spatial"
+          ? {
+              id: "b",
+              geometry: JSON.stringify({ type: "Point", coordinates: [1, 2] }),
+              properties: "{}",
+              style: "{}",
+              layer_id: DEFAULT_LAYER_ID,
+              created_at: "",
+            }
+          : {
+              id: "b",
+              geom_type: "Point",
+              coordinates: "[1,2]",
+              properties: "{}",
+              style: "{}",
+              layer_id: DEFAULT_LAYER_ID,
+              created_at: "",
+            },
+    };
+    const prepared: string[] = [];
+    const connection = {
+      query: vi.fn().mockResolvedValue(result()),
+      prepare: vi.fn(async (sql: string) => {
+        prepared.push(sql);
+        return {
+          query: vi.fn(async (id: string) => result(rows[id] ? [rows[id]] : [])),
+          close: vi.fn(),
+        };
+      }),
+    } as unknown as AsyncDuckDBConnection;
+    const repository = new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store });
+
+    const features = await repository.listFeaturesById(["a", "b"]);
+
+    expect(features.map(({ id, geometry }) => [id, geometry])).toEqual([["b", { type: "Point", coordinates: [1, 2] }]]);
+    expect(prepared).toHaveLength(1);
+  });
+});
+
+describe("schema version 4 and 5 migrations", () => {
+  const migrationConnection = (store: "spatial" | "json", version: number, options: { rtree?: boolean } = {}) => {
+    const metadata = new Map<string, string>([
+      ["schema_version", String(version)],
+      ["active_feature_store", store],
+      ["legacy_strokes_migrated", "true"],
+    ]);
+    const updates: unknown[][] = [];
+    const query = vi.fn(async (sql: string) => {
+      if (sql.includes("USING RTREE") && options.rtree === false) throw new Error("Unrecognized index type RTREE");
+      if (sql.includes("WHERE min_x IS NULL") && sql.startsWith("SELECT")) {
+        return result([
+          { id: "old", geom_type: "Polygon", coordinates: "[[0,0],[4,-2],[3,5]]" },
+          { id: "broken", geom_type: "Curve", coordinates: "[]" },
+        ]);
+      }
+      return result();
+    });
+    const connection = {
+      query,
+      prepare: vi.fn(async (sql: string) => ({
+        query: vi.fn(async (...args: unknown[]) => {
+          if (sql.startsWith("SELECT value")) {
+            const value = metadata.get(String(args[0]));
+            return result(value === undefined ? [] : [{ value }]);
+          }
+          if (sql.startsWith("INSERT INTO app_metadata")) metadata.set(String(args[0]), String(args[1]));
+          if (sql.startsWith("UPDATE features_json SET min_x")) updates.push(args);
+          return result();
+        }),
+        close: vi.fn(),
+      })),
+    } as unknown as AsyncDuckDBConnection;
+    return { connection, metadata, query, updates };
+  };
+  const sqlCalls = (query: ReturnType<typeof vi.fn>) => query.mock.calls.map(([sql]) => String(sql).trim());
+
+  it.each(["spatial", "json"] as const)("%s version 3 のtableへ外接矩形の列を足して既存rowを埋める", async (store) => {
+    const { connection, metadata, query, updates } = migrationConnection(store, 3);
+
+    await new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store }).initialize();
+
+    const table = store === "spatial" ? "features" : "features_json";
+    expect(sqlCalls(query)).toEqual(
+      expect.arrayContaining(
+        ["min_x", "min_y", "max_x", "max_y"].map(
+          (column) => `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column} DOUBLE;`
+        )
+      )
+    );
+    if (store === "spatial") {
+      expect(sqlCalls(query).find((sql) => sql.startsWith("UPDATE features"))).toContain("min_x = ST_XMin(geom)");
+      expect(updates).toEqual([]);
+    } else {
+      // 読めない row は null のまま残す
+      expect(updates).toEqual([[0, -2, 4, 5, "old"]]);
+    }
+    expect(metadata.get("schema_version")).toBe(String(CURRENT_SCHEMA_VERSION));
+  });
+
+  it.each(["spatial", "json"] as const)("%s 最新versionでは外接矩形を埋め直さない", async (store) => {
+    const { connection, query, updates } = migrationConnection(store, CURRENT_SCHEMA_VERSION);
+
+    await new GeometryRepository(connection, { opfs: false, spatial: store === "spatial", store }).initialize();
+
+    expect(sqlCalls(query).filter((sql) => sql.includes("min_x IS NULL"))).toEqual([]);
+    expect(updates).toEqual([]);
+  });
+
+  it("version 4 のlayersへCRSとstyleの列を足し、最新versionでは足さない", async () => {
+    const layerColumns = [
+      "ALTER TABLE layers ADD COLUMN IF NOT EXISTS crs TEXT;",
+      "ALTER TABLE layers ADD COLUMN IF NOT EXISTS style JSON;",
+    ];
+    const previous = migrationConnection("json", 4);
+    await new GeometryRepository(previous.connection, { opfs: false, spatial: false, store: "json" }).initialize();
+    expect(sqlCalls(previous.query)).toEqual(expect.arrayContaining(layerColumns));
+    expect(sqlCalls(previous.query).filter((sql) => sql.includes("min_x IS NULL"))).toEqual([]);
+    expect(previous.metadata.get("schema_version")).toBe("5");
+
+    const current = migrationConnection("json", CURRENT_SCHEMA_VERSION);
+    await new GeometryRepository(current.connection, { opfs: false, spatial: false, store: "json" }).initialize();
+    expect(sqlCalls(current.query).filter((sql) => sql.startsWith("ALTER TABLE layers"))).toEqual([]);
+  });
+
+  it("Spatial storeではR-treeを作り、未対応のextensionでも初期化を続ける", async () => {
+    const supported = migrationConnection("spatial", CURRENT_SCHEMA_VERSION);
+    await new GeometryRepository(supported.connection, { opfs: false, spatial: true, store: "spatial" }).initialize();
+    expect(sqlCalls(supported.query)).toContain(
+      "CREATE INDEX IF NOT EXISTS features_geom_rtree ON features USING RTREE (geom);"
+    );
+
+    const unsupported = migrationConnection("spatial", CURRENT_SCHEMA_VERSION, { rtree: false });
+    await expect(
+      new GeometryRepository(unsupported.connection, { opfs: false, spatial: true, store: "spatial" }).initialize()
+    ).resolves.toEqual({});
+
+    const json = migrationConnection("json", CURRENT_SCHEMA_VERSION);
+    await new GeometryRepository(json.connection, { opfs: false, spatial: false, store: "json" }).initialize();
+    expect(sqlCalls(json.query).filter((sql) => sql.includes("RTREE"))).toEqual([]);
+  });
+});
@@ -3,20 +3,67 @@ import {
   DEFAULT_LAYER,
   DEFAULT_LAYER_ID,
   createDefaultStyle,
+  geometryVertices,
   isFeatureGeometry,
+  isFeatureGeometryType,
   type FeatureGeometry,
   type FeatureStyle,
   type GeometryFeature,
   type JsonValue,
   type Layer,
   type Point2D,
+  type PolygonPart,
 } from "../domain/geometryFeature";
+import { parseCalibration, type Calibration } from "../domain/calibration";
+import { WEB_MERCATOR, flipGeometryNorthing, isGeographicCrs } from "../domain/crs";
+import { isLayerStyle, type LayerStyle } from "../domain/layerStyle";
+import type { ViewportBookmark } from "../domain/viewportBookmark";
+import { validatePlacement, type ReferenceImage, type ReferenceImagePlacement } from "../domain/referenceImage";
+import { parseGridSettings, type GridSettings } from "../lib/adaptiveGrid";
+import type { PixelBox } from "../lib/featureSelection";
+import { canonicalGeometry } from "../lib/geojson";
+import { LOD_SCREEN_TOLERANCE } from "../lib/levelOfDetail";
+import { pointBounds } from "../lib/viewportFit";
 import type { DuckDBCapabilities } from "./createDuckDB";
 
 type Row = Record<string, unknown>;
 type InsertConflictPolicy = "error" | "ignore" | "replace";
 
-export const CURRENT_SCHEMA_VERSION = 3;
+/** Features and layers an operation may touch; the journal snapshots exactly these rows before and after it runs. */
+interface OperationScope {
+  featureIds: string[];
+  layerIds: string[];
+}
+
+interface OperationState extends OperationScope {
+  features: GeometryFeature[];
+  layers: Layer[];
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+/** Older journal entries are discarded so the history table stays bounded. */
+export const OPERATION_JOURNAL_LIMIT = 100;
+
+/**
+ * Most features one journal entry may snapshot. A larger operation, such as clearing a big drawing, runs without a
+ * journal entry and discards the history instead of writing an unbounded JSON row.
+ */
+export const OPERATION_SNAPSHOT_LIMIT = 10_000;
+
+export const CURRENT_SCHEMA_VERSION = 5;
+
+/**
+ * Geometry types that `listFeaturesInBounds` returns at any zoom, as upper-case type names so the Spatial store's
+ * `ST_GeometryType` and the JSON store's `geom_type` are compared with the same list. Collections are culled by
+ * extent like lines and polygons in both stores, even when they hold only points.
+ */
+const LOD_KEPT_TYPES = "('POINT', 'MULTIPOINT')";
 
 export class PersistenceCheckpointError extends Error {
   constructor(cause: unknown) {
@@ -58,38 +105,73 @@ const isoTimestamp = (value: unknown): string => {
   return (value instanceof Date ? value : new Date(stringValue(value))).toISOString();
 };
 
+const LEGACY_GEOMETRY_TYPES: Record<string, FeatureGeometry["type"]> = {
+  line: "LineString",
+  polygon: "Polygon",
+};
+
+const isRingList = (coordinates: unknown): coordinates is unknown[][] =>
+  Array.isArray(coordinates) &&
+  coordinates.length > 0 &&
+  Array.isArray(coordinates[0]) &&
+  Array.isArray(coordinates[0][0]);
+
+/**
+ * JSON-store coordinates keep the original flat exterior ring for hole-free polygons, so existing rows stay valid;
+ * polygons with holes store `[exterior, ...holes]`. MultiPolygon stores its `polygons` and GeometryCollection its
+ * `geometries` in canonical form.
+ */
+const storedCoordinates = (geometry: FeatureGeometry): unknown => {
+  switch (geometry.type) {
+    case "Polygon":
+      return geometry.holes?.length ? [geometry.coordinates, ...geometry.holes] : geometry.coordinates;
+    case "MultiPolygon":
+      return geometry.polygons;
+    case "GeometryCollection":
+      return geometry.geometries;
+    default:
+      return geometry.coordinates;
+  }
+};
+
+/** Envelope columns of a feature row, in `min_x, min_y, max_x, max_y` order; nulls for a geometry without vertices. */
+const storedBounds = (geometry: FeatureGeometry): Array<number | null> => {
+  const bounds = pointBounds(geometryVertices(geometry));
+  return bounds ? [bounds.minX, bounds.minY, bounds.maxX, bounds.maxY] : [null, null, null, null];
+};
+
 const geometryFromParts = (type: unknown, coordinates: unknown): FeatureGeometry => {
   const rawType = stringValue(type);
-  if (rawType !== "LineString" && rawType !== "line" && rawType !== "Polygon" && rawType !== "polygon") {
+  const geometryType = LEGACY_GEOMETRY_TYPES[rawType] ?? rawType;
+  if (!isFeatureGeometryType(geometryType)) {
     throw new Error(`Unsupported geometry type: ${rawType}`);
   }
-  const geometry = {
-    type: rawType === "Polygon" || rawType === "polygon" ? "Polygon" : "LineString",
-    coordinates: coordinates as Point2D[],
-  } as FeatureGeometry;
+  let geometry: unknown;
+  if (geometryType === "MultiPolygon") {
+    geometry = { type: geometryType, polygons: coordinates };
+  } else if (geometryType === "GeometryCollection") {
+    geometry = { type: geometryType, geometries: coordinates };
+  } else if (geometryType === "Polygon" && isRingList(coordinates)) {
+    geometry = {
+      type: geometryType,
+      coordinates: coordinates[0],
+      ...(coordinates.length > 1 ? { holes: coordinates.slice(1) } : {}),
+    };
+  } else {
+    geometry = { type: geometryType, coordinates };
+  }
   if (!isFeatureGeometry(geometry)) throw new Error("Invalid geometry row");
   return geometry;
 };
 
 const geometryFromGeoJson = (value: unknown): FeatureGeometry => {
-  const parsed = jsonValue<{ type: string; coordinates: Point2D[] | Point2D[][] }>(value);
-  if (parsed.type === "Polygon") {
-    if (!Array.isArray(parsed.coordinates)) throw new Error("Invalid Polygon coordinates");
-    if (parsed.coordinates.length > 1) throw new Error("Polygon holes are not supported");
-    if (parsed.coordinates.length !== 1 || !Array.isArray(parsed.coordinates[0])) {
-      throw new Error("Invalid Polygon coordinates");
-    }
-  }
-  const coordinates =
-    parsed.type === "Polygon" ? (parsed.coordinates[0] as Point2D[]) : (parsed.coordinates as Point2D[]);
-  const openCoordinates =
-    parsed.type === "Polygon" &&
-    coordinates.length > 1 &&
-    coordinates[0][0] === coordinates.at(-1)?.[0] &&
-    coordinates[0][1] === coordinates.at(-1)?.[1]
-      ? coordinates.slice(0, -1)
-      : coordinates;
-  return geometryFromParts(parsed.type, openCoordinates);
+  const parsed = jsonValue<{ type: string; coordinates: unknown }>(value);
+  const geometry = canonicalGeometry(parsed);
+  if (!geometry) {
+    if (!isFeatureGeometryType(parsed.type)) throw new Error(`Unsupported geometry type: ${parsed.type}`);
+    throw new Error(`Invalid ${parsed.type} coordinates`);
+  }
+  return geometry;
 };
 
 export const mapJsonFeatureRow = (row: JsonFeatureRow): GeometryFeature => ({
@@ -128,11 +210,62 @@ export const mapSpatialFeatureRow = (row: Row): GeometryFeature => ({
   createdAt: isoTimestamp(row.created_at),
 });
 
+const mapLayerRow = (row: Row): Layer => ({
+  id: stringValue(row.id),
+  name: stringValue(row.name),
+  visible: Boolean(row.visible),
+  order: Number(row.sort_order),
+  createdAt: isoTimestamp(row.created_at),
+  ...(row.crs === null || row.crs === undefined ? {} : { crs: stringValue(row.crs) }),
+  ...(row.style === null || row.style === undefined ? {} : { style: jsonValue<LayerStyle>(row.style) }),
+});
+
+const layerStyleJson = ({ style }: Layer): string | null => (style ? JSON.stringify(style) : null);
+
+const mapBookmarkRow = (row: Row): ViewportBookmark => ({
+  id: stringValue(row.id),
+  name: stringValue(row.name),
+  center: [Number(row.center_x), Number(row.center_y)],
+  zoom: Number(row.zoom),
+  createdAt: isoTimestamp(row.created_at),
+});
+
+const mapReferenceImageRow = (row: Row): ReferenceImage => ({
+  id: stringValue(row.id),
+  name: stringValue(row.name),
+  dataUrl: stringValue(row.data_url),
+  width: Number(row.width),
+  height: Number(row.height),
+  x: Number(row.x),
+  y: Number(row.y),
+  scale: Number(row.scale),
+  opacity: Number(row.opacity),
+  visible: Boolean(row.visible),
+  createdAt: isoTimestamp(row.created_at),
+});
+
+const wktPosition = ([x, y]: Point2D): string => `${x} ${y}`;
+const wktPositions = (points: Point2D[]): string => `(${points.map(wktPosition).join(", ")})`;
+const wktPolygon = ({ coordinates, holes }: PolygonPart): string =>
+  `(${[coordinates, ...(holes ?? [])].map((ring) => wktPositions([...ring, ring[0]])).join(", ")})`;
+
 const geometryToWkt = (geometry: FeatureGeometry): string => {
-  const points =
-    geometry.type === "Polygon" ? [...geometry.coordinates, geometry.coordinates[0]] : geometry.coordinates;
-  const body = points.map(([x, y]) => `${x} ${y}`).join(", ");
-  return geometry.type === "Polygon" ? `POLYGON((${body}))` : `LINESTRING(${body})`;
+  switch (geometry.type) {
+    case "Point":
+      return `POINT(${wktPosition(geometry.coordinates)})`;
+    case "MultiPoint":
+      return `MULTIPOINT(${geometry.coordinates.map((point) => `(${wktPosition(point)})`).join(", ")})`;
+    case "LineString":
+      return `LINESTRING${wktPositions(geometry.coordinates)}`;
+    case "MultiLineString":
+      return `MULTILINESTRING(${geometry.coordinates.map(wktPositions).join(", ")})`;
+    case "Polygon":
+      return `POLYGON${wktPolygon(geometry)}`;
+    case "MultiPolygon":
+      return `MULTIPOLYGON(${geometry.polygons.map(wktPolygon).join(", ")})`;
+    case "GeometryCollection":
+      return `GEOMETRYCOLLECTION(${geometry.geometries.map(geometryToWkt).join(", ")})`;
+  }
 };
 
 export class GeometryRepository {
@@ -158,6 +291,45 @@ export class GeometryRepository {
         name TEXT NOT NULL,
         visible BOOLEAN NOT NULL,
         sort_order INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL,
+        crs TEXT,
+        style JSON
+      );
+    `);
+    // The journal, bookmark and reference image tables are part of schema version 5; older databases gain them here
+    await this.connection.query(`
+      CREATE TABLE IF NOT EXISTS operation_journal (
+        seq BIGINT PRIMARY KEY,
+        label TEXT NOT NULL,
+        before_state JSON NOT NULL,
+        after_state JSON NOT NULL,
+        undone BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+    `);
+    await this.connection.query(`
+      CREATE TABLE IF NOT EXISTS viewport_bookmarks (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        center_x DOUBLE NOT NULL,
+        center_y DOUBLE NOT NULL,
+        zoom DOUBLE NOT NULL,
+        created_at TIMESTAMP NOT NULL
+      );
+    `);
+    // The encoded image is kept as a data URL so that it persists in OPFS with the rest of the project
+    await this.connection.query(`
+      CREATE TABLE IF NOT EXISTS reference_images (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        data_url TEXT NOT NULL,
+        width DOUBLE NOT NULL,
+        height DOUBLE NOT NULL,
+        x DOUBLE NOT NULL,
+        y DOUBLE NOT NULL,
+        scale DOUBLE NOT NULL,
+        opacity DOUBLE NOT NULL,
+        visible BOOLEAN NOT NULL,
         created_at TIMESTAMP NOT NULL
       );
     `);
@@ -171,7 +343,11 @@ export class GeometryRepository {
           layer_id TEXT NOT NULL,
           created_at TIMESTAMP NOT NULL,
           inserted_at TIMESTAMP NOT NULL DEFAULT now(),
-          insertion_order BIGINT NOT NULL
+          insertion_order BIGINT NOT NULL,
+          min_x DOUBLE,
+          min_y DOUBLE,
+          max_x DOUBLE,
+          max_y DOUBLE
         );
       `);
     } else {
@@ -185,7 +361,11 @@ export class GeometryRepository {
           layer_id TEXT NOT NULL,
           created_at TIMESTAMP NOT NULL,
           inserted_at TIMESTAMP NOT NULL DEFAULT now(),
-          insertion_order BIGINT NOT NULL
+          insertion_order BIGINT NOT NULL,
+          min_x DOUBLE,
+          min_y DOUBLE,
+          max_x DOUBLE,
+          max_y DOUBLE
         );
       `);
     }
@@ -206,10 +386,26 @@ export class GeometryRepository {
         WHERE ${table}.id = ordered.id AND ${table}.insertion_order IS NULL;
       `);
       await this.connection.query(`ALTER TABLE ${table} ALTER COLUMN insertion_order SET NOT NULL;`);
+    }
+    if (previousSchemaVersion < 4) {
+      // Version 4 stores each feature's envelope, so bounding-box queries and hit tests need not parse geometry
+      const table = this.capabilities.store === "spatial" ? "features" : "features_json";
+      for (const column of ["min_x", "min_y", "max_x", "max_y"]) {
+        await this.connection.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column} DOUBLE;`);
+      }
+      await this.fillMissingBounds();
+    }
+    if (previousSchemaVersion < 5) {
+      // Version 5 gives layers a CRS and styling rules; both are nullable, so older layers stay plain model pixels
+      await this.connection.query("ALTER TABLE layers ADD COLUMN IF NOT EXISTS crs TEXT;");
+      await this.connection.query("ALTER TABLE layers ADD COLUMN IF NOT EXISTS style JSON;");
+    }
+    if (previousSchemaVersion < CURRENT_SCHEMA_VERSION) {
       await this.setMetadata("schema_version", String(CURRENT_SCHEMA_VERSION));
     }
+    if (this.capabilities.store === "spatial") await this.createSpatialIndex();
     await this.initializeActiveStore();
-    await this.insertLayers([DEFAULT_LAYER], true);
+    await this.writeLayers([DEFAULT_LAYER]);
 
     await this.connection.query("BEGIN TRANSACTION;");
     let committed = false;
@@ -234,7 +430,7 @@ export class GeometryRepository {
               const value = row.toJSON() as LegacyJsonRow;
               const feature = mapLegacyJsonRow(value);
               if (!isValidTimestamp(value.created_at)) replacedCreatedAtValues += 1;
-              await this.insertFeature(feature, "ignore", true);
+              await this.writeFeature(feature, "ignore");
             } catch {
               skippedRows += 1;
             }
@@ -262,7 +458,7 @@ export class GeometryRepository {
                 createdAt: isoTimestamp(value.created_at),
               };
               if (!isValidTimestamp(value.created_at)) replacedCreatedAtValues += 1;
-              await this.insertFeature(feature, "replace", true);
+              await this.writeFeature(feature, "replace");
             } catch {
               skippedRows += 1;
             }
@@ -325,11 +521,140 @@ export class GeometryRepository {
     return rows.toArray().map((row) => mapJsonFeatureRow(row.toJSON() as JsonFeatureRow));
   }
 
-  async insertFeature(
-    feature: GeometryFeature,
-    conflictPolicy: InsertConflictPolicy = "error",
-    deferCheckpoint = false
-  ): Promise<void> {
+  /**
+   * Features whose geometry meets `bounds` (model pixels), for loading the canvas a region at a time. Lines and
+   * polygons whose envelope is under the level-of-detail tolerance at `zoom` in both directions would draw as
+   * nothing and are left out; Points and MultiPoints are always returned.
+   */
+  async listFeaturesInBounds(bounds: PixelBox, zoom: number): Promise<GeometryFeature[]> {
+    const { minX, minY, maxX, maxY } = bounds;
+    if (![minX, minY, maxX, maxY].every(Number.isFinite) || minX > maxX || minY > maxY || !(zoom > 0)) {
+      throw new Error("Invalid feature bounds query");
+    }
+    const minimumExtent = LOD_SCREEN_TOLERANCE / zoom;
+    if (this.capabilities.store === "spatial") {
+      const rows = await this.runStatement(
+        `SELECT id, ST_AsGeoJSON(geom) AS geometry, properties, style, layer_id, created_at
+         FROM features
+         WHERE ST_Intersects(geom, ST_MakeEnvelope(?, ?, ?, ?))
+           AND (CAST(ST_GeometryType(geom) AS VARCHAR) IN ${LOD_KEPT_TYPES} OR max_x - min_x >= ? OR max_y - min_y >= ?)
+         ORDER BY created_at ASC;`,
+        minX,
+        minY,
+        maxX,
+        maxY,
+        minimumExtent,
+        minimumExtent
+      );
+      return rows.map(mapSpatialFeatureRow);
+    }
+    const rows = await this.runStatement(
+      `SELECT id, geom_type, coordinates, properties, style, layer_id, created_at
+       FROM features_json
+       WHERE min_x <= ? AND max_x >= ? AND min_y <= ? AND max_y >= ?
+         AND (upper(geom_type) IN ${LOD_KEPT_TYPES} OR max_x - min_x >= ? OR max_y - min_y >= ?)
+       ORDER BY created_at ASC;`,
+      maxX,
+      minX,
+      maxY,
+      minY,
+      minimumExtent,
+      minimumExtent
+    );
+    return rows.map((row) => mapJsonFeatureRow(row as JsonFeatureRow));
+  }
+
+  /** Features with the given ids, in `ids` order; ids without a feature are skipped. */
+  async listFeaturesById(ids: readonly string[]): Promise<GeometryFeature[]> {
+    const statement = await this.connection.prepare(
+      this.capabilities.store === "spatial"
+        ? "SELECT id, ST_AsGeoJSON(geom) AS geometry, properties, style, layer_id, created_at FROM features WHERE id = ?;"
+        : "SELECT id, geom_type, coordinates, properties, style, layer_id, created_at FROM features_json WHERE id = ?;"
+    );
+    const features: GeometryFeature[] = [];
+    try {
+      for (const id of ids) {
+        for (const row of (await statement.query(id)).toArray()) {
+          const value = row.toJSON() as Row;
+          features.push(
+            this.capabilities.store === "spatial"
+              ? mapSpatialFeatureRow(value)
+              : mapJsonFeatureRow(value as JsonFeatureRow)
+          );
+        }
+      }
+    } finally {
+      await statement.close();
+    }
+    return features;
+  }
+
+  /** One layer's features in creation order. */
+  async listLayerFeatures(layerId: string): Promise<GeometryFeature[]> {
+    if (this.capabilities.store === "spatial") {
+      const rows = await this.runStatement(
+        `SELECT id, ST_AsGeoJSON(geom) AS geometry, properties, style, layer_id, created_at
+         FROM features WHERE layer_id = ? ORDER BY created_at ASC;`,
+        layerId
+      );
+      return rows.map(mapSpatialFeatureRow);
+    }
+    const rows = await this.runStatement(
+      `SELECT id, geom_type, coordinates, properties, style, layer_id, created_at
+       FROM features_json WHERE layer_id = ? ORDER BY created_at ASC;`,
+      layerId
+    );
+    return rows.map((row) => mapJsonFeatureRow(row as JsonFeatureRow));
+  }
+
+  /** Number of features on each layer; layers without features are absent. */
+  async featureCounts(): Promise<Map<string, number>> {
+    const table = this.capabilities.store === "spatial" ? "features" : "features_json";
+    const rows = await this.connection.query(`SELECT layer_id, count(*) AS count FROM ${table} GROUP BY layer_id;`);
+    return new Map(
+      rows.toArray().map((row) => {
+        const value = row.toJSON() as Row;
+        return [stringValue(value.layer_id), Number(value.count)] as const;
+      })
+    );
+  }
+
+  /** Envelope (model pixels) of every feature on `layerIds`, read from the stored envelope columns. */
+  async layerExtent(layerIds: readonly string[]): Promise<PixelBox | null> {
+    const table = this.capabilities.store === "spatial" ? "features" : "features_json";
+    let extent: PixelBox | null = null;
+    for (const layerId of layerIds) {
+      const [row] = await this.runStatement(
+        `SELECT min(min_x) AS min_x, min(min_y) AS min_y, max(max_x) AS max_x, max(max_y) AS max_y
+         FROM ${table} WHERE layer_id = ?;`,
+        layerId
+      );
+      if (row?.min_x == null) continue;
+      const [minX, minY, maxX, maxY] = [row.min_x, row.min_y, row.max_x, row.max_y].map(Number);
+      extent = extent
+        ? {
+            minX: Math.min(extent.minX, minX),
+            minY: Math.min(extent.minY, minY),
+            maxX: Math.max(extent.maxX, maxX),
+            maxY: Math.max(extent.maxY, maxY),
+          }
+        : { minX, minY, maxX, maxY };
+    }
+    return extent;
+  }
+
+  /** Inserts one feature as a journaled operation. */
+  async insertFeature(feature: GeometryFeature, conflictPolicy: InsertConflictPolicy = "error"): Promise<void> {
+    await this.recordOperation("Add feature", { featureIds: [feature.id], layerIds: [] }, () =>
+      this.writeFeature(feature, conflictPolicy)
+    );
+  }
+
+  /**
+   * Writes one feature row without journaling or checkpointing, for callers that already run inside an operation,
+   * a migration or an Undo/Redo replay.
+   */
+  private async writeFeature(feature: GeometryFeature, conflictPolicy: InsertConflictPolicy): Promise<void> {
     await this.assertLayerExists(feature.layerId);
     const insertionOrder = await this.nextInsertionOrder();
     const conflict =
@@ -342,21 +667,32 @@ export class GeometryRepository {
                  properties = EXCLUDED.properties,
                  style = EXCLUDED.style,
                  layer_id = EXCLUDED.layer_id,
-                 created_at = EXCLUDED.created_at`
+                 created_at = EXCLUDED.created_at,
+                 min_x = EXCLUDED.min_x,
+                 min_y = EXCLUDED.min_y,
+                 max_x = EXCLUDED.max_x,
+                 max_y = EXCLUDED.max_y`
             : ` ON CONFLICT (id) DO UPDATE SET
                  geom_type = EXCLUDED.geom_type,
                  coordinates = EXCLUDED.coordinates,
                  properties = EXCLUDED.properties,
                  style = EXCLUDED.style,
                  layer_id = EXCLUDED.layer_id,
-                 created_at = EXCLUDED.created_at`
+                 created_at = EXCLUDED.created_at,
+                 min_x = EXCLUDED.min_x,
+                 min_y = EXCLUDED.min_y,
+                 max_x = EXCLUDED.max_x,
+                 max_y = EXCLUDED.max_y`
           : "";
     const sql =
       this.capabilities.store === "spatial"
-        ? `INSERT INTO features(id, geom, properties, style, layer_id, created_at, insertion_order)
-           VALUES (?, ST_GeomFromText(CAST(? AS VARCHAR)), CAST(? AS JSON), CAST(? AS JSON), ?, CAST(? AS TIMESTAMP), ?)${conflict};`
-        : `INSERT INTO features_json(id, geom_type, coordinates, properties, style, layer_id, created_at, insertion_order)
-           VALUES (?, ?, CAST(? AS JSON), CAST(? AS JSON), CAST(? AS JSON), ?, CAST(? AS TIMESTAMP), ?)${conflict};`;
+        ? `INSERT INTO features(id, geom, properties, style, layer_id, created_at, min_x, min_y, max_x, max_y,
+             insertion_order)
+           VALUES (?, ST_GeomFromText(CAST(? AS VARCHAR)), CAST(? AS JSON), CAST(? AS JSON), ?, CAST(? AS TIMESTAMP),
+             ?, ?, ?, ?, ?)${conflict};`
+        : `INSERT INTO features_json(id, geom_type, coordinates, properties, style, layer_id, created_at,
+             min_x, min_y, max_x, max_y, insertion_order)
+           VALUES (?, ?, CAST(? AS JSON), CAST(? AS JSON), CAST(? AS JSON), ?, CAST(? AS TIMESTAMP), ?, ?, ?, ?, ?)${conflict};`;
     const statement = await this.connection.prepare(sql);
     try {
       if (this.capabilities.store === "spatial") {
@@ -367,122 +703,560 @@ export class GeometryRepository {
           JSON.stringify(feature.style),
           feature.layerId,
           feature.createdAt,
+          ...storedBounds(feature.geometry),
           insertionOrder
         );
       } else {
         await statement.query(
           feature.id,
           feature.geometry.type,
-          JSON.stringify(feature.geometry.coordinates),
+          JSON.stringify(storedCoordinates(feature.geometry)),
           JSON.stringify(feature.properties),
           JSON.stringify(feature.style),
           feature.layerId,
           feature.createdAt,
+          ...storedBounds(feature.geometry),
           insertionOrder
         );
       }
     } finally {
       await statement.close();
     }
-    if (!deferCheckpoint) await this.checkpoint();
   }
 
   async updateGeometry(id: string, geometry: FeatureGeometry): Promise<void> {
-    await this.assertFeatureLayerExists(id);
-    if (this.capabilities.store === "spatial") {
-      const statement = await this.connection.prepare(
-        "UPDATE features SET geom = ST_GeomFromText(CAST(? AS VARCHAR)) WHERE id = ?;"
-      );
-      try {
-        await statement.query(geometryToWkt(geometry), id);
-      } finally {
-        await statement.close();
-      }
-    } else {
-      const statement = await this.connection.prepare(
-        "UPDATE features_json SET geom_type = ?, coordinates = CAST(? AS JSON) WHERE id = ?;"
-      );
-      try {
-        await statement.query(geometry.type, JSON.stringify(geometry.coordinates), id);
-      } finally {
-        await statement.close();
+    await this.recordOperation("Edit geometry", { featureIds: [id], layerIds: [] }, async () => {
+      await this.assertFeatureLayerExists(id);
+      if (this.capabilities.store === "spatial") {
+        await this.runStatement(
+          `UPDATE features SET geom = ST_GeomFromText(CAST(? AS VARCHAR)), min_x = ?, min_y = ?, max_x = ?, max_y = ?
+           WHERE id = ?;`,
+          geometryToWkt(geometry),
+          ...storedBounds(geometry),
+          id
+        );
+      } else {
+        await this.runStatement(
+          `UPDATE features_json SET geom_type = ?, coordinates = CAST(? AS JSON), min_x = ?, min_y = ?, max_x = ?, max_y = ?
+           WHERE id = ?;`,
+          geometry.type,
+          JSON.stringify(storedCoordinates(geometry)),
+          ...storedBounds(geometry),
+          id
+        );
       }
-    }
-    await this.checkpoint();
+    });
   }
 
-  async deleteLatestFeature(): Promise<void> {
+  /** Replaces the properties of several features in one transaction. */
+  async updateProperties(updates: Array<{ id: string; properties: Record<string, JsonValue> }>): Promise<void> {
+    if (updates.length === 0) return;
     const table = this.capabilities.store === "spatial" ? "features" : "features_json";
-    await this.connection.query(
-      `DELETE FROM ${table} WHERE id IN (SELECT id FROM ${table} ORDER BY insertion_order DESC, id DESC LIMIT 1);`
+    await this.recordOperation(
+      "Edit properties",
+      { featureIds: updates.map(({ id }) => id), layerIds: [] },
+      async () => {
+        const statement = await this.connection.prepare(
+          `UPDATE ${table} SET properties = CAST(? AS JSON) WHERE id = ?;`
+        );
+        try {
+          for (const { id, properties } of updates) {
+            await this.assertFeatureLayerExists(id);
+            await statement.query(JSON.stringify(properties), id);
+          }
+        } finally {
+          await statement.close();
+        }
+      }
     );
-    await this.checkpoint();
   }
 
   async clearFeatures(): Promise<void> {
     const table = this.capabilities.store === "spatial" ? "features" : "features_json";
-    await this.connection.query("BEGIN TRANSACTION;");
-    try {
-      await this.connection.query(`DELETE FROM ${table};`);
-      await this.connection.query(`DELETE FROM layers WHERE id <> '${DEFAULT_LAYER_ID}';`);
-      await this.connection.query("COMMIT;");
-    } catch (error) {
-      try {
-        await this.connection.query("ROLLBACK;");
-      } catch {
-        // Preserve the clear failure; rollback is best-effort.
+    await this.recordOperation(
+      "Clear",
+      async () => ({
+        featureIds: await this.selectIds(`SELECT id FROM ${table};`),
+        layerIds: await this.selectIds("SELECT id FROM layers;"),
+      }),
+      async () => {
+        await this.connection.query(`DELETE FROM ${table};`);
+        await this.connection.query(`DELETE FROM layers WHERE id <> '${DEFAULT_LAYER_ID}';`);
       }
-      throw error;
-    }
-    await this.checkpoint();
+    );
   }
 
   async listLayers(): Promise<Layer[]> {
     const rows = await this.connection.query(
-      "SELECT id, name, visible, sort_order, created_at FROM layers ORDER BY sort_order ASC, created_at ASC;"
+      "SELECT id, name, visible, sort_order, created_at, crs, style FROM layers ORDER BY sort_order ASC, created_at ASC;"
+    );
+    return rows.toArray().map((row) => mapLayerRow(row.toJSON() as Row));
+  }
+
+  /** Inserts layers as one journaled operation; layers whose id already exists are left as they are. */
+  async insertLayers(layers: Layer[]): Promise<void> {
+    await this.recordOperation("Add layer", { featureIds: [], layerIds: layers.map(({ id }) => id) }, () =>
+      this.writeLayers(layers)
     );
-    return rows.toArray().map((row) => {
-      const value = row.toJSON() as Row;
-      return {
-        id: stringValue(value.id),
-        name: stringValue(value.name),
-        visible: Boolean(value.visible),
-        order: Number(value.sort_order),
-        createdAt: isoTimestamp(value.created_at),
-      };
-    });
   }
 
-  async insertLayers(layers: Layer[], deferCheckpoint = false): Promise<void> {
+  /** Writes layer rows without journaling or checkpointing, like `writeFeature`. */
+  private async writeLayers(layers: Layer[]): Promise<void> {
     const statement = await this.connection.prepare(
-      `INSERT INTO layers(id, name, visible, sort_order, created_at)
-       VALUES (?, ?, ?, ?, CAST(? AS TIMESTAMP)) ON CONFLICT DO NOTHING;`
+      `INSERT INTO layers(id, name, visible, sort_order, created_at, crs, style)
+       VALUES (?, ?, ?, ?, CAST(? AS TIMESTAMP), ?, ?) ON CONFLICT DO NOTHING;`
     );
     try {
       for (const layer of layers) {
-        await statement.query(layer.id, layer.name, layer.visible, layer.order, layer.createdAt);
+        await statement.query(
+          layer.id,
+          layer.name,
+          layer.visible,
+          layer.order,
+          layer.createdAt,
+          layer.crs ?? null,
+          layerStyleJson(layer)
+        );
       }
     } finally {
       await statement.close();
     }
-    if (!deferCheckpoint) await this.checkpoint();
   }
 
-  async importGeoJSON(layers: Layer[], features: GeometryFeature[]): Promise<void> {
+  async updateLayer(id: string, changes: Partial<Pick<Layer, "name" | "visible">>): Promise<void> {
+    const name = changes.name?.trim();
+    if (changes.name !== undefined && !name) throw new Error("Layer name must not be empty");
+    const label = changes.name !== undefined ? "Rename layer" : "Change layer visibility";
+    await this.recordOperation(label, { featureIds: [], layerIds: [id] }, async () => {
+      await this.assertLayerExists(id);
+      await this.runStatement(
+        "UPDATE layers SET name = COALESCE(?, name), visible = COALESCE(?, visible) WHERE id = ?;",
+        name ?? null,
+        changes.visible ?? null,
+        id
+      );
+    });
+  }
+
+  /** Replaces the styling rules of a layer; `null` goes back to plain per-feature styles. */
+  async setLayerStyle(id: string, style: LayerStyle | null): Promise<void> {
+    if (style !== null && !isLayerStyle(style)) throw new Error("Invalid layer style");
+    await this.recordOperation("Change layer style", { featureIds: [], layerIds: [id] }, async () => {
+      await this.assertLayerExists(id);
+      await this.runStatement(
+        "UPDATE layers SET style = ? WHERE id = ?;",
+        style && Object.keys(style).length > 0 ? JSON.stringify(style) : null,
+        id
+      );
+    });
+  }
+
+  /** Deletes a layer together with its features; the built-in Default layer cannot be deleted. */
+  async deleteLayer(id: string): Promise<void> {
+    if (id === DEFAULT_LAYER_ID) throw new Error("The Default layer cannot be deleted");
+    const table = this.capabilities.store === "spatial" ? "features" : "features_json";
+    await this.recordOperation(
+      "Delete layer",
+      async () => ({
+        featureIds: await this.selectIds(`SELECT id FROM ${table} WHERE layer_id = ?;`, id),
+        layerIds: [id],
+      }),
+      async () => {
+        await this.assertLayerExists(id);
+        for (const sql of [`DELETE FROM ${table} WHERE layer_id = ?;`, "DELETE FROM layers WHERE id = ?;"]) {
+          await this.runStatement(sql, id);
+        }
+      }
+    );
+  }
+
+  /** Rewrites `sort_order` so that layers follow `layerIds`, which must list every layer exactly once. */
+  async reorderLayers(layerIds: string[]): Promise<void> {
+    await this.recordOperation("Reorder layers", { featureIds: [], layerIds }, async () => {
+      const existing = (await this.listLayers()).map(({ id }) => id);
+      if (
+        layerIds.length !== existing.length ||
+        new Set(layerIds).size !== layerIds.length ||
+        !existing.every((id) => layerIds.includes(id))
+      ) {
+        throw new Error("Layer order must list every layer exactly once");
+      }
+      const statement = await this.connection.prepare("UPDATE layers SET sort_order = ? WHERE id = ?;");
+      try {
+        for (const [order, id] of layerIds.entries()) await statement.query(order, id);
+      } finally {
+        await statement.close();
+      }
+    });
+  }
+
+  /**
+   * Inserts imported layers and features as one operation. With the Spatial extension loaded, geographic layers are
+   * reprojected to Web Mercator on the way in so that they render at map scale instead of a few pixels of degrees.
+   * Bookmarks are added in the same transaction, keeping any existing bookmark with the same id; like other
+   * bookmark changes they are not part of the journal, so undoing the import leaves them in place.
+   */
+  async importGeoJSON(layers: Layer[], features: GeometryFeature[], bookmarks: ViewportBookmark[] = []): Promise<void> {
+    const scope = { featureIds: features.map(({ id }) => id), layerIds: layers.map(({ id }) => id) };
+    const reprojected = new Map(
+      layers.flatMap((layer) =>
+        this.capabilities.spatial && layer.crs && isGeographicCrs(layer.crs) ? [[layer.id, layer.crs] as const] : []
+      )
+    );
+    await this.recordOperation("Import GeoJSON", scope, async () => {
+      await this.writeLayers(
+        layers.map((layer) => (reprojected.has(layer.id) ? { ...layer, crs: WEB_MERCATOR } : layer))
+      );
+      for (const feature of features) {
+        const source = reprojected.get(feature.layerId);
+        const geometry = source ? await this.transformGeometry(feature.geometry, source, WEB_MERCATOR) : undefined;
+        await this.writeFeature(geometry ? { ...feature, geometry } : feature, "error");
+      }
+      for (const bookmark of bookmarks) await this.insertBookmark(bookmark, "ignore");
+    });
+  }
+
+  /** Reprojects every feature of a georeferenced layer to `targetCrs` with `ST_Transform`; needs DuckDB Spatial. */
+  async reprojectLayer(id: string, targetCrs: string): Promise<void> {
+    if (!this.capabilities.spatial) throw new Error("Reprojection requires the DuckDB Spatial extension");
+    const layer = (await this.listLayers()).find((candidate) => candidate.id === id);
+    if (!layer) throw new Error(`Layer "${id}" does not exist`);
+    if (!layer.crs) throw new Error(`Layer "${layer.name}" has no CRS to reproject from`);
+    const sourceCrs = layer.crs;
+    if (sourceCrs === targetCrs) return;
+    const features = (await this.listFeatures()).filter(({ layerId }) => layerId === id);
+    await this.recordOperation(
+      "Reproject layer",
+      { featureIds: features.map((feature) => feature.id), layerIds: [id] },
+      async () => {
+        for (const feature of features) {
+          const geometry = await this.transformGeometry(feature.geometry, sourceCrs, targetCrs);
+          await this.writeFeature({ ...feature, geometry }, "replace");
+        }
+        await this.runStatement("UPDATE layers SET crs = ? WHERE id = ?;", targetCrs, id);
+      }
+    );
+  }
+
+  /** Project-level measurement scale from `app_metadata`; pixels when the project was never calibrated. */
+  async calibration(): Promise<Calibration> {
+    return parseCalibration(await this.metadataValue("calibration"));
+  }
+
+  /** Stores the measurement scale. Calibration is a project setting, so it is not recorded in the journal. */
+  async saveCalibration(calibration: Calibration): Promise<void> {
+    await this.setMetadata("calibration", JSON.stringify(calibration));
+    await this.checkpoint();
+  }
+
+  async listBookmarks(): Promise<ViewportBookmark[]> {
+    const rows = await this.connection.query(
+      "SELECT id, name, center_x, center_y, zoom, created_at FROM viewport_bookmarks ORDER BY created_at ASC, id ASC;"
+    );
+    return rows.toArray().map((row) => mapBookmarkRow(row.toJSON() as Row));
+  }
+
+  /** Saves a named view. Bookmarks are navigation aids rather than drawing, so they are not recorded in the journal. */
+  async createBookmark(bookmark: ViewportBookmark): Promise<void> {
+    const name = bookmark.name.trim();
+    if (!name) throw new Error("Bookmark name must not be empty");
+    await this.insertBookmark({ ...bookmark, name }, "error");
+    await this.checkpoint();
+  }
+
+  async renameBookmark(id: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("Bookmark name must not be empty");
+    const updated = await this.runStatement(
+      "UPDATE viewport_bookmarks SET name = ? WHERE id = ? RETURNING id;",
+      trimmed,
+      id
+    );
+    if (updated.length === 0) throw new Error(`Bookmark "${id}" does not exist`);
+    await this.checkpoint();
+  }
+
+  async deleteBookmark(id: string): Promise<void> {
+    await this.runStatement("DELETE FROM viewport_bookmarks WHERE id = ?;", id);
+    await this.checkpoint();
+  }
+
+  /** Background grid settings from `app_metadata`; the defaults when they were never changed. */
+  async gridSettings(): Promise<GridSettings> {
+    return parseGridSettings(await this.metadataValue("grid"));
+  }
+
+  /** Stores the background grid settings, a project setting like calibration that is not recorded in the journal. */
+  async saveGridSettings(settings: GridSettings): Promise<void> {
+    await this.setMetadata("grid", JSON.stringify(settings));
+    await this.checkpoint();
+  }
+
+  /** The reference image drawn beneath the features, or null when none has been loaded. */
+  async referenceImage(): Promise<ReferenceImage | null> {
+    const rows = await this.connection.query(
+      `SELECT id, name, data_url, width, height, x, y, scale, opacity, visible, created_at
+       FROM reference_images ORDER BY created_at DESC LIMIT 1;`
+    );
+    const row = rows.toArray()[0];
+    return row ? mapReferenceImageRow(row.toJSON() as Row) : null;
+  }
+
+  /**
+   * Replaces the reference image. The underlay is tracing support rather than drawing, so like bookmarks it is not
+   * recorded in the journal.
+   */
+  async saveReferenceImage(image: ReferenceImage): Promise<void> {
+    const invalid = validatePlacement(image);
+    if (invalid) throw new Error(invalid);
+    if (!(image.width > 0 && image.height > 0)) throw new Error("Reference image must have a size");
+    await this.runStatement(
+      `INSERT INTO reference_images(id, name, data_url, width, height, x, y, scale, opacity, visible, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CAST(? AS TIMESTAMP))
+       ON CONFLICT (id) DO UPDATE SET
+         name = excluded.name, data_url = excluded.data_url, width = excluded.width, height = excluded.height,
+         x = excluded.x, y = excluded.y, scale = excluded.scale, opacity = excluded.opacity,
+         visible = excluded.visible, created_at = excluded.created_at;`,
+      image.id,
+      image.name,
+      image.dataUrl,
+      image.width,
+      image.height,
+      image.x,
+      image.y,
+      image.scale,
+      image.opacity,
+      image.visible,
+      image.createdAt
+    );
+    // Only the newest image is shown, so older ones would only take up OPFS space
+    await this.runStatement("DELETE FROM reference_images WHERE id <> ?;", image.id);
+    await this.checkpoint();
+  }
+
+  /** Moves, scales, fades or hides the reference image without rewriting its data. */
+  async updateReferenceImage(id: string, changes: Partial<ReferenceImagePlacement>): Promise<void> {
+    const invalid = validatePlacement(changes);
+    if (invalid) throw new Error(invalid);
+    const updated = await this.runStatement(
+      `UPDATE reference_images SET
+         x = COALESCE(?, x), y = COALESCE(?, y), scale = COALESCE(?, scale),
+         opacity = COALESCE(?, opacity), visible = COALESCE(?, visible)
+       WHERE id = ? RETURNING id;`,
+      changes.x ?? null,
+      changes.y ?? null,
+      changes.scale ?? null,
+      changes.opacity ?? null,
+      changes.visible ?? null,
+      id
+    );
+    if (updated.length === 0) throw new Error(`Reference image "${id}" does not exist`);
+    await this.checkpoint();
+  }
+
+  async deleteReferenceImage(id: string): Promise<void> {
+    await this.runStatement("DELETE FROM reference_images WHERE id = ?;", id);
+    await this.checkpoint();
+  }
+
+  /** Labels of the operations that Undo and Redo would apply next. */
+  async historyState(): Promise<HistoryState> {
+    const rows = await this.connection.query(`
+      SELECT
+        (SELECT label FROM operation_journal WHERE NOT undone ORDER BY seq DESC LIMIT 1) AS undo_label,
+        (SELECT label FROM operation_journal WHERE undone ORDER BY seq ASC LIMIT 1) AS redo_label;
+    `);
+    const row = rows.toArray()[0]?.toJSON() as Row | undefined;
+    const undoLabel = row?.undo_label == null ? undefined : stringValue(row.undo_label);
+    const redoLabel = row?.redo_label == null ? undefined : stringValue(row.redo_label);
+    return { canUndo: undoLabel !== undefined, canRedo: redoLabel !== undefined, undoLabel, redoLabel };
+  }
+
+  /**
+   * Envelopes of the features the next Undo or Redo would change, as they are on both sides of the operation, so a
+   * caller that caches features by region knows which regions to reload.
+   */
+  async historyFeatureBounds(direction: "undo" | "redo"): Promise<PixelBox[]> {
+    const [entry] = await this.runStatement(
+      direction === "undo"
+        ? "SELECT before_state, after_state FROM operation_journal WHERE NOT undone ORDER BY seq DESC LIMIT 1;"
+        : "SELECT before_state, after_state FROM operation_journal WHERE undone ORDER BY seq ASC LIMIT 1;"
+    );
+    if (!entry) return [];
+    return [entry.before_state, entry.after_state].flatMap((state) =>
+      jsonValue<OperationState>(state).features.flatMap(({ geometry }) => pointBounds(geometryVertices(geometry)) ?? [])
+    );
+  }
+
+  /** Restores the state before the latest journaled operation; resolves to `false` when there is nothing to undo. */
+  async undo(): Promise<boolean> {
+    return this.replayOperation("undo");
+  }
+
+  /** Re-applies the earliest undone operation; resolves to `false` when there is nothing to redo. */
+  async redo(): Promise<boolean> {
+    return this.replayOperation("redo");
+  }
+
+  /**
+   * Runs `mutate` in one transaction and journals the scoped rows as they were before and after it, so Undo and Redo
+   * can restore either side. Recording a new operation discards the undone entries it branches away from. A scope of
+   * more than `OPERATION_SNAPSHOT_LIMIT` features is not snapshotted: the operation runs unjournaled and the whole
+   * history is discarded, because older entries could no longer be replayed consistently across it.
+   */
+  private async recordOperation(
+    label: string,
+    scope: OperationScope | (() => Promise<OperationScope>),
+    mutate: () => Promise<void>
+  ): Promise<void> {
+    await this.connection.query("BEGIN TRANSACTION;");
+    try {
+      const resolvedScope = typeof scope === "function" ? await scope() : scope;
+      if (resolvedScope.featureIds.length > OPERATION_SNAPSHOT_LIMIT) {
+        await mutate();
+        await this.runStatement("DELETE FROM operation_journal;");
+      } else {
+        const before = await this.readOperationState(resolvedScope);
+        await mutate();
+        const after = await this.readOperationState(resolvedScope);
+        await this.runStatement("DELETE FROM operation_journal WHERE undone;");
+        await this.runStatement(
+          `INSERT INTO operation_journal(seq, label, before_state, after_state)
+           SELECT COALESCE(MAX(seq), 0) + 1, ?, CAST(? AS JSON), CAST(? AS JSON) FROM operation_journal;`,
+          label,
+          JSON.stringify(before),
+          JSON.stringify(after)
+        );
+        await this.runStatement(
+          "DELETE FROM operation_journal WHERE seq <= (SELECT MAX(seq) FROM operation_journal) - ?;",
+          OPERATION_JOURNAL_LIMIT
+        );
+      }
+      await this.connection.query("COMMIT;");
+    } catch (error) {
+      try {
+        await this.connection.query("ROLLBACK;");
+      } catch {
+        // Preserve the operation failure; rollback is best-effort.
+      }
+      throw error;
+    }
+    await this.checkpoint();
+  }
+
+  private async replayOperation(direction: "undo" | "redo"): Promise<boolean> {
     await this.connection.query("BEGIN TRANSACTION;");
     try {
-      await this.insertLayers(layers, true);
-      for (const feature of features) await this.insertFeature(feature, "error", true);
+      const [entry] = await this.runStatement(
+        direction === "undo"
+          ? "SELECT seq, before_state AS state FROM operation_journal WHERE NOT undone ORDER BY seq DESC LIMIT 1;"
+          : "SELECT seq, after_state AS state FROM operation_journal WHERE undone ORDER BY seq ASC LIMIT 1;"
+      );
+      if (entry) {
+        await this.restoreOperationState(jsonValue<OperationState>(entry.state));
+        await this.runStatement(
+          "UPDATE operation_journal SET undone = ? WHERE seq = ?;",
+          direction === "undo",
+          // BIGINT columns come back as bigint, which prepared-statement parameters cannot serialize
+          Number(entry.seq)
+        );
+      }
       await this.connection.query("COMMIT;");
+      if (!entry) return false;
     } catch (error) {
       try {
         await this.connection.query("ROLLBACK;");
       } catch {
-        // Preserve the import failure; rollback is best-effort.
+        // Preserve the history failure; rollback is best-effort.
       }
       throw error;
     }
     await this.checkpoint();
+    return true;
+  }
+
+  private async readOperationState(scope: OperationScope): Promise<OperationState> {
+    const features = await this.listFeaturesById(scope.featureIds);
+    const layers: Layer[] = [];
+    for (const id of scope.layerIds) {
+      const rows = await this.runStatement(
+        "SELECT id, name, visible, sort_order, created_at, crs, style FROM layers WHERE id = ?;",
+        id
+      );
+      layers.push(...rows.map(mapLayerRow));
+    }
+    return { ...scope, features, layers };
+  }
+
+  /** Makes the scoped rows match `state`: rows it lacks are deleted, the rest are written back as recorded. */
+  private async restoreOperationState(state: OperationState): Promise<void> {
+    const table = this.capabilities.store === "spatial" ? "features" : "features_json";
+    const featureIds = new Set(state.features.map(({ id }) => id));
+    const layerIds = new Set(state.layers.map(({ id }) => id));
+    for (const layer of state.layers) {
+      await this.runStatement(
+        `INSERT INTO layers(id, name, visible, sort_order, created_at, crs, style)
+         VALUES (?, ?, ?, ?, CAST(? AS TIMESTAMP), ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = EXCLUDED.name,
+           visible = EXCLUDED.visible,
+           sort_order = EXCLUDED.sort_order,
+           created_at = EXCLUDED.created_at,
+           crs = EXCLUDED.crs,
+           style = EXCLUDED.style;`,
+        layer.id,
+        layer.name,
+        layer.visible,
+        layer.order,
+        layer.createdAt,
+        layer.crs ?? null,
+        layerStyleJson(layer)
+      );
+    }
+    for (const id of state.featureIds) {
+      if (!featureIds.has(id)) await this.runStatement(`DELETE FROM ${table} WHERE id = ?;`, id);
+    }
+    for (const feature of state.features) await this.writeFeature(feature, "replace");
+    for (const id of state.layerIds) {
+      if (!layerIds.has(id)) await this.runStatement("DELETE FROM layers WHERE id = ?;", id);
+    }
+  }
+
+  /** Runs `ST_Transform` on model-pixel geometry, flipping northing around the call as the layer convention needs. */
+  private async transformGeometry(geometry: FeatureGeometry, sourceCrs: string, targetCrs: string) {
+    const [row] = await this.runStatement(
+      "SELECT ST_AsGeoJSON(ST_Transform(ST_GeomFromText(CAST(? AS VARCHAR)), ?, ?, true)) AS geometry;",
+      geometryToWkt(flipGeometryNorthing(geometry)),
+      sourceCrs,
+      targetCrs
+    );
+    return flipGeometryNorthing(geometryFromGeoJson(row?.geometry));
+  }
+
+  private async insertBookmark(bookmark: ViewportBookmark, conflict: "error" | "ignore"): Promise<void> {
+    await this.runStatement(
+      `INSERT INTO viewport_bookmarks(id, name, center_x, center_y, zoom, created_at)
+       VALUES (?, ?, ?, ?, ?, CAST(? AS TIMESTAMP))${conflict === "ignore" ? " ON CONFLICT DO NOTHING" : ""};`,
+      bookmark.id,
+      bookmark.name,
+      bookmark.center[0],
+      bookmark.center[1],
+      bookmark.zoom,
+      bookmark.createdAt
+    );
+  }
+
+  private async runStatement(sql: string, ...params: unknown[]): Promise<Row[]> {
+    const statement = await this.connection.prepare(sql);
+    try {
+      return (await statement.query(...params)).toArray().map((row) => row.toJSON() as Row);
+    } finally {
+      await statement.close();
+    }
+  }
+
+  private async selectIds(sql: string, ...params: unknown[]): Promise<string[]> {
+    return (await this.runStatement(sql, ...params)).map((row) => stringValue(row.id));
   }
 
   private async checkpoint(): Promise<void> {
@@ -522,11 +1296,52 @@ export class GeometryRepository {
       await this.setMetadata("schema_version", String(CURRENT_SCHEMA_VERSION));
       return CURRENT_SCHEMA_VERSION;
     }
-    if (version === 1 || version === 2) return version;
+    if (version === 1 || version === 2 || version === 3 || version === 4) return version;
     if (version !== CURRENT_SCHEMA_VERSION) throw new Error(`Unsupported schema version: ${version}`);
     return version;
   }
 
+  /** Computes the envelope columns of rows written before they existed; unreadable JSON-store rows stay null. */
+  private async fillMissingBounds(): Promise<void> {
+    if (this.capabilities.store === "spatial") {
+      await this.connection.query(`
+        UPDATE features
+        SET min_x = ST_XMin(geom), min_y = ST_YMin(geom), max_x = ST_XMax(geom), max_y = ST_YMax(geom)
+        WHERE min_x IS NULL;
+      `);
+      return;
+    }
+    const rows = await this.connection.query(
+      "SELECT id, geom_type, coordinates FROM features_json WHERE min_x IS NULL;"
+    );
+    for (const row of rows.toArray()) {
+      const value = row.toJSON() as Row;
+      let bounds: Array<number | null>;
+      try {
+        bounds = storedBounds(geometryFromParts(value.geom_type, jsonValue<unknown>(value.coordinates)));
+      } catch {
+        continue;
+      }
+      await this.runStatement(
+        "UPDATE features_json SET min_x = ?, min_y = ?, max_x = ?, max_y = ? WHERE id = ?;",
+        ...bounds,
+        stringValue(value.id)
+      );
+    }
+  }
+
+  /**
+   * Indexes feature geometry with an R-tree so `ST_Intersects` against a constant envelope can skip distant rows.
+   * Spatial releases without R-tree support reject the statement; bounding-box queries then scan the table instead.
+   */
+  private async createSpatialIndex(): Promise<void> {
+    try {
+      await this.connection.query("CREATE INDEX IF NOT EXISTS features_geom_rtree ON features USING RTREE (geom);");
+    } catch {
+      // The index only speeds queries up; nothing depends on it existing.
+    }
+  }
+
   private async initializeActiveStore(): Promise<void> {
     const stored = await this.metadataValue("active_feature_store");
     if (stored === undefined) {
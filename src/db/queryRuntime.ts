@@ -1,6 +1,6 @@
 import * as duckdb from "@duckdb/duckdb-wasm";
 import { bundle } from "../dbBundles";
-import { initializeQueryViews, type QuerySnapshot } from "./queryViews";
+import { initializeQueryViews, synchronizeQuerySelection, type QuerySnapshot } from "./queryViews";
 
 const QUERY_ROW_LIMIT = 1000;
 const PROHIBITED_KEYWORDS =
@@ -120,15 +120,22 @@ export class QueryRuntime {
   private readonly database: QueryDatabase;
   private readonly cleanupAdmin: () => Promise<void>;
   private readonly synchronize?: (snapshot: QuerySnapshot) => Promise<void>;
+  private readonly synchronizeSelection?: (selectedIds: readonly string[]) => Promise<void>;
+  /** Whether the Spatial extension loaded in this sandbox, which is independent of the main store's. */
+  readonly spatial: boolean;
 
   constructor(
     database: QueryDatabase,
     cleanupAdmin: () => Promise<void> = async () => undefined,
-    synchronize?: (snapshot: QuerySnapshot) => Promise<void>
+    synchronize?: (snapshot: QuerySnapshot) => Promise<void>,
+    synchronizeSelection?: (selectedIds: readonly string[]) => Promise<void>,
+    spatial = false
   ) {
     this.database = database;
     this.cleanupAdmin = cleanupAdmin;
     this.synchronize = synchronize;
+    this.synchronizeSelection = synchronizeSelection;
+    this.spatial = spatial;
   }
 
   async execute(sql: string): Promise<QueryResult | null> {
@@ -195,6 +202,12 @@ export class QueryRuntime {
     await this.synchronize(snapshot);
   }
 
+  /** Updates the `selected_features` view without cancelling the running query or rebuilding the snapshot. */
+  async refreshSelection(selectedIds: readonly string[]): Promise<void> {
+    if (!this.synchronizeSelection) throw new Error("Query selection refresh is unavailable.");
+    await this.synchronizeSelection(selectedIds);
+  }
+
   async dispose(): Promise<void> {
     if (this.disposed) return;
     this.disposed = true;
@@ -211,9 +224,11 @@ export const createQueryRuntime = async (snapshot: QuerySnapshot): Promise<Query
   try {
     await database.instantiate(bundle.mainModule, bundle.pthreadWorker);
     admin = await database.connect();
+    let spatial = false;
     try {
       await admin.query("INSTALL spatial;");
       await admin.query("LOAD spatial;");
+      spatial = true;
     } catch (error) {
       console.warn("Spatial extension load failed in query sandbox:", error);
     }
@@ -224,7 +239,9 @@ export const createQueryRuntime = async (snapshot: QuerySnapshot): Promise<Query
     return new QueryRuntime(
       database,
       () => ownedAdmin.close(),
-      (nextSnapshot) => initializeQueryViews(ownedAdmin, nextSnapshot)
+      (nextSnapshot) => initializeQueryViews(ownedAdmin, nextSnapshot),
+      (selectedIds) => synchronizeQuerySelection(ownedAdmin, selectedIds),
+      spatial
     );
   } catch (error) {
     await admin?.close().catch(() => undefined);
@@ -1,8 +1,18 @@
 import type { AsyncDuckDBConnection } from "@duckdb/duckdb-wasm";
 import { describe, expect, it, vi } from "vitest";
 import type { Layer } from "../domain/geometryFeature";
-import { QUERY_FEATURES_VIEW, QUERY_LAYERS_VIEW, initializeQueryViews, type QuerySnapshot } from "./queryViews";
+import {
+  QUERY_BOOKMARKS_VIEW,
+  QUERY_FEATURES_VIEW,
+  QUERY_LAYERS_VIEW,
+  QUERY_SELECTED_FEATURES_VIEW,
+  initializeQueryViews,
+  synchronizeQuerySelection,
+  type QuerySnapshot,
+} from "./queryViews";
 import { mapJsonFeatureRow, mapSpatialFeatureRow } from "./geometryRepository";
+import type { QueryResult } from "./queryRuntime";
+import { queryResultCrs, queryResultFeatures, queryResultStrokes } from "../lib/queryResultGeometry";
 
 const emptyResult = () => ({ toArray: () => [] });
 
@@ -80,7 +90,7 @@ describe("query views", () => {
     const layerInsert = [...fixture.prepared.entries()].find(([statement]) =>
       statement.includes("INSERT INTO query_snapshot_layers")
     )?.[1];
-    expect(layerInsert).toHaveBeenCalledWith("layer-1", "Imported", true, 4, "2026-07-23T00:00:00.000Z");
+    expect(layerInsert).toHaveBeenCalledWith("layer-1", "Imported", true, 4, "2026-07-23T00:00:00.000Z", null, null);
 
     const featureInsert = [...fixture.prepared.entries()].find(([statement]) =>
       statement.includes("INSERT INTO query_snapshot_features")
@@ -93,8 +103,13 @@ describe("query views", () => {
       '{"category":"road"}',
       '{"strokeColor":"#112233","strokeWidth":2}',
       "layer-1",
+      null,
       "2026-07-24T00:00:00.000Z",
-      1
+      1,
+      "px",
+      Math.hypot(2, 2),
+      null,
+      null
     );
     expect(featureInsert).toHaveBeenNthCalledWith(
       2,
@@ -104,9 +119,121 @@ describe("query views", () => {
       '{"category":"parcel"}',
       '{"strokeColor":"#445566","strokeWidth":3,"fillColor":"#abcdef","fillOpacity":0.4}',
       "layer-1",
+      null,
       "2026-07-24T00:01:00.000Z",
-      2
+      2,
+      "px",
+      null,
+      2,
+      4 + Math.hypot(2, 2)
+    );
+  });
+
+  it("計測列を較正済みの単位へ換算し、measurement_unitとして公開する", async () => {
+    const fixture = createConnection();
+
+    await initializeQueryViews(fixture.connection, { ...snapshot, calibration: { unitsPerPixel: 0.5, unit: "m" } });
+
+    const featureInsert = [...fixture.prepared.entries()].find(([statement]) =>
+      statement.includes("INSERT INTO query_snapshot_features")
+    )?.[1];
+    expect(featureInsert?.mock.calls[0].slice(-4)).toEqual(["m", Math.hypot(2, 2) / 2, null, null]);
+    expect(featureInsert?.mock.calls[1].slice(-4)).toEqual(["m", null, 0.5, (4 + Math.hypot(2, 2)) / 2]);
+    const featureView = fixture.query.mock.calls
+      .map(([statement]) => String(statement))
+      .find((statement) => statement.includes(`CREATE OR REPLACE VIEW ${QUERY_FEATURES_VIEW}`));
+    expect(featureView).toContain("length, area, perimeter, measurement_unit");
+  });
+
+  it("経緯度layerのfeatureは測地線で計測し、未較正ならmで公開する", async () => {
+    const fixture = createConnection();
+    const layers: Layer[] = [{ ...snapshot.layers[0], crs: "EPSG:4326" }];
+    const line = {
+      ...snapshot.features[0],
+      geometry: {
+        type: "LineString" as const,
+        coordinates: [
+          [0, 0],
+          [1, 0],
+        ] as [number, number][],
+      },
+    };
+
+    await initializeQueryViews(fixture.connection, { features: [line], layers });
+
+    const layerInsert = [...fixture.prepared.entries()].find(([statement]) =>
+      statement.includes("INSERT INTO query_snapshot_layers")
+    )?.[1];
+    expect(layerInsert).toHaveBeenCalledWith(
+      "layer-1",
+      "Imported",
+      true,
+      4,
+      "2026-07-23T00:00:00.000Z",
+      "EPSG:4326",
+      null
     );
+    const featureInsert = [...fixture.prepared.entries()].find(([statement]) =>
+      statement.includes("INSERT INTO query_snapshot_features")
+    )?.[1];
+    const [unit, length] = featureInsert?.mock.calls[0].slice(-4) ?? [];
+    expect(unit).toBe("m");
+    expect(length).toBeCloseTo(111195, 0);
+  });
+
+  it("CRSを持つlayerのgeometryはnorthingを戻してそのCRSの座標で公開する", async () => {
+    const fixture = createConnection();
+    const layers: Layer[] = [{ ...snapshot.layers[0], crs: "EPSG:3857" }];
+
+    await initializeQueryViews(fixture.connection, { features: [snapshot.features[0]], layers });
+
+    const featureInsert = [...fixture.prepared.entries()].find(([statement]) =>
+      statement.includes("INSERT INTO query_snapshot_features")
+    )?.[1];
+    expect(featureInsert?.mock.calls[0][2]).toBe('{"type":"LineString","coordinates":[[0,-1],[2,-3]]}');
+  });
+
+  it("CRSを持つlayerのfeatureはcrs列と一緒に公開され、previewと保存でmodel pixelへ戻る", async () => {
+    const fixture = createConnection();
+    const layers: Layer[] = [{ ...snapshot.layers[0], crs: "EPSG:3857" }];
+
+    await initializeQueryViews(fixture.connection, { features: [snapshot.features[0]], layers });
+
+    const view = fixture.query.mock.calls
+      .map(([statement]) => String(statement))
+      .find((statement) => statement.includes(`CREATE OR REPLACE VIEW ${QUERY_FEATURES_VIEW}`));
+    expect(view).toContain("geometry_geojson, crs,");
+    const selectedView = fixture.query.mock.calls
+      .map(([statement]) => String(statement))
+      .find((statement) => statement.includes(`CREATE OR REPLACE VIEW ${QUERY_SELECTED_FEATURES_VIEW}`));
+    expect(selectedView).toContain("geometry_geojson, crs,");
+    const featureInsert = [...fixture.prepared.entries()].find(([statement]) =>
+      statement.includes("INSERT INTO query_snapshot_features")
+    )?.[1];
+    const [id, , geometryGeojson, , , layerId, crs] = featureInsert?.mock.calls[0] ?? [];
+    expect(crs).toBe("EPSG:3857");
+
+    // 既定の example query と同じ列を返した結果として preview し、新しい layer へ保存する
+    const result: QueryResult = {
+      status: "success",
+      columns: [
+        { name: "id", type: "VARCHAR" },
+        { name: "geometry_geojson", type: "VARCHAR", geometryRole: "geojson" },
+        { name: "crs", type: "VARCHAR" },
+        { name: "layer_id", type: "VARCHAR" },
+      ],
+      rows: [{ id, geometry_geojson: geometryGeojson, crs, layer_id: layerId }],
+      rowCount: 1,
+      truncated: false,
+    };
+    const [preview] = queryResultStrokes(result);
+    expect(preview.ptsPx).toEqual([
+      [0, 1],
+      [2, 3],
+    ]);
+    const [promoted] = queryResultFeatures(result, "promoted");
+    expect(promoted.geometry).toEqual(snapshot.features[0].geometry);
+    expect(queryResultCrs(result)).toBe("EPSG:3857");
   });
 
   it("Spatial/JSON repository rowsから同じcanonical view valuesを作る", async () => {
@@ -147,12 +274,31 @@ describe("query views", () => {
       .filter((statement) => statement.includes("CREATE OR REPLACE VIEW"));
     expect(viewSql).toEqual([
       expect.stringContaining(
-        "id, geometry_type, geometry_geojson, properties, style, layer_id, created_at, feature_order"
+        "id, geometry_type, geometry_geojson, crs, properties, style, layer_id, created_at, feature_order"
       ),
       expect.stringContaining("id, name, visible, layer_order, created_at"),
+      expect.stringContaining(`FROM ${QUERY_FEATURES_VIEW}`),
+      expect.stringContaining("id, name, center_x, center_y, zoom, created_at"),
     ]);
   });
 
+  it("bookmarkをmodel pixelの中心座標でgeometry_bookmarks viewへ同期する", async () => {
+    const fixture = createConnection();
+
+    await initializeQueryViews(fixture.connection, {
+      ...snapshot,
+      bookmarks: [{ id: "site", name: "Site", center: [120, 80], zoom: 2.5, createdAt: "2026-07-24T00:00:00.000Z" }],
+    });
+
+    const sql = fixture.query.mock.calls.map(([statement]) => String(statement));
+    expect(sql).toContain("DELETE FROM query_snapshot_bookmarks;");
+    expect(sql.some((statement) => statement.includes(`CREATE OR REPLACE VIEW ${QUERY_BOOKMARKS_VIEW}`))).toBe(true);
+    const bookmarkInsert = [...fixture.prepared.entries()].find(([statement]) =>
+      statement.includes("INSERT INTO query_snapshot_bookmarks")
+    )?.[1];
+    expect(bookmarkInsert).toHaveBeenCalledWith("site", "Site", 120, 80, 2.5, "2026-07-24T00:00:00.000Z");
+  });
+
   it("snapshot同期失敗時はrollbackしてcommitしない", async () => {
     const fixture = createConnection();
     fixture.prepare.mockImplementation(async (sql: string) => ({
@@ -168,4 +314,30 @@ describe("query views", () => {
     expect(fixture.query).toHaveBeenCalledWith("ROLLBACK;");
     expect(fixture.query).not.toHaveBeenCalledWith("COMMIT;");
   });
+
+  it("selected IDsをselected_features viewへ同期し、選択だけの更新もtransactionalに行う", async () => {
+    const fixture = createConnection();
+
+    await initializeQueryViews(fixture.connection, { ...snapshot, selectedIds: ["polygon-1"] });
+
+    const sql = fixture.query.mock.calls.map(([statement]) => String(statement));
+    expect(sql.some((statement) => statement.includes(`CREATE OR REPLACE VIEW ${QUERY_SELECTED_FEATURES_VIEW}`))).toBe(
+      true
+    );
+    const selectionInsert = () =>
+      [...fixture.prepared.entries()].find(([statement]) =>
+        statement.includes("INSERT INTO query_snapshot_selection")
+      )?.[1];
+    expect(selectionInsert()?.mock.calls).toEqual([["polygon-1"]]);
+
+    fixture.query.mockClear();
+    await synchronizeQuerySelection(fixture.connection, ["line-1", "polygon-1"]);
+
+    expect(fixture.query.mock.calls.map(([statement]) => statement)).toEqual([
+      "BEGIN TRANSACTION;",
+      "DELETE FROM query_snapshot_selection;",
+      "COMMIT;",
+    ]);
+    expect(selectionInsert()?.mock.calls).toEqual([["line-1"], ["polygon-1"]]);
+  });
 });
@@ -1,29 +1,74 @@
 import type { AsyncDuckDBConnection } from "@duckdb/duckdb-wasm";
-import type { FeatureGeometry, GeometryFeature, Layer, Point2D } from "../domain/geometryFeature";
+import {
+  PIXEL_CALIBRATION,
+  meterCalibration,
+  toCalibratedArea,
+  toCalibratedLength,
+  type Calibration,
+} from "../domain/calibration";
+import { flipGeometryNorthing, withGeodesicMeasures } from "../domain/crs";
+import type { GeometryFeature, Layer } from "../domain/geometryFeature";
+import { toRenderableStroke } from "../domain/renderableStroke";
+import type { ViewportBookmark } from "../domain/viewportBookmark";
+import { toGeoJSONGeometry } from "../lib/geojson";
 
 export const QUERY_FEATURES_VIEW = "geometry_features";
 export const QUERY_LAYERS_VIEW = "geometry_layers";
+export const QUERY_SELECTED_FEATURES_VIEW = "selected_features";
+export const QUERY_BOOKMARKS_VIEW = "geometry_bookmarks";
 
 export interface QuerySnapshot {
   features: GeometryFeature[];
   layers: Layer[];
+  selectedIds?: readonly string[];
+  /**
+   * Unit of the `length`, `area` and `perimeter` view columns; pixels when omitted. Features on geographic layers
+   * are measured geodesically and reported in metres unless the calibration names another real-world unit.
+   */
+  calibration?: Calibration;
+  /**
+   * Named views; `center_x` and `center_y` are model pixels. Feature geometry on a georeferenced layer is exposed in
+   * that layer's CRS coordinates instead.
+   */
+  bookmarks?: ViewportBookmark[];
 }
 
-const closePolygon = (coordinates: Point2D[]): Point2D[] => [
-  ...coordinates.map(([x, y]) => [x, y] as Point2D),
-  [...coordinates[0]] as Point2D,
-];
+// crs は geometry_geojson の座標系。結果にこの列を含めると、preview と保存で model pixel に戻せる
+const FEATURE_COLUMNS =
+  "id, geometry_type, geometry_geojson, crs, properties, style, layer_id, created_at, feature_order, length, area, perimeter, measurement_unit";
 
-const geometryGeoJson = (geometry: FeatureGeometry): string =>
-  JSON.stringify(
-    geometry.type === "Polygon"
-      ? { type: geometry.type, coordinates: [closePolygon(geometry.coordinates)] }
-      : { type: geometry.type, coordinates: geometry.coordinates }
-  );
+const replaceSelectionRows = async (connection: AsyncDuckDBConnection, selectedIds: readonly string[]) => {
+  await connection.query("DELETE FROM query_snapshot_selection;");
+  const statement = await connection.prepare("INSERT INTO query_snapshot_selection(id) VALUES (?);");
+  try {
+    for (const id of selectedIds) await statement.query(id);
+  } finally {
+    await statement.close();
+  }
+};
+
+/** Replaces only the selected feature IDs behind the `selected_features` view. */
+export const synchronizeQuerySelection = async (
+  connection: AsyncDuckDBConnection,
+  selectedIds: readonly string[]
+): Promise<void> => {
+  await connection.query("BEGIN TRANSACTION;");
+  try {
+    await replaceSelectionRows(connection, selectedIds);
+    await connection.query("COMMIT;");
+  } catch (error) {
+    try {
+      await connection.query("ROLLBACK;");
+    } catch {
+      // Preserve the selection synchronization failure; rollback is best-effort.
+    }
+    throw error;
+  }
+};
 
 export const initializeQueryViews = async (
   connection: AsyncDuckDBConnection,
-  { features, layers }: QuerySnapshot
+  { features, layers, selectedIds = [], calibration = PIXEL_CALIBRATION, bookmarks = [] }: QuerySnapshot
 ): Promise<void> => {
   await connection.query("BEGIN TRANSACTION;");
   try {
@@ -35,8 +80,13 @@ export const initializeQueryViews = async (
         properties JSON NOT NULL,
         style JSON NOT NULL,
         layer_id VARCHAR NOT NULL,
+        crs VARCHAR,
         created_at TIMESTAMP NOT NULL,
-        feature_order BIGINT NOT NULL
+        feature_order BIGINT NOT NULL,
+        measurement_unit VARCHAR NOT NULL,
+        length DOUBLE,
+        area DOUBLE,
+        perimeter DOUBLE
       );
     `);
     await connection.query(`
@@ -45,24 +95,63 @@ export const initializeQueryViews = async (
         name VARCHAR NOT NULL,
         visible BOOLEAN NOT NULL,
         layer_order INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL,
+        crs VARCHAR,
+        style JSON
+      );
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS query_snapshot_selection (
+        id VARCHAR NOT NULL
+      );
+    `);
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS query_snapshot_bookmarks (
+        id VARCHAR NOT NULL,
+        name VARCHAR NOT NULL,
+        center_x DOUBLE NOT NULL,
+        center_y DOUBLE NOT NULL,
+        zoom DOUBLE NOT NULL,
         created_at TIMESTAMP NOT NULL
       );
     `);
     await connection.query("DELETE FROM query_snapshot_features;");
     await connection.query("DELETE FROM query_snapshot_layers;");
+    await connection.query("DELETE FROM query_snapshot_bookmarks;");
+    await replaceSelectionRows(connection, selectedIds);
 
     const layerStatement = await connection.prepare(`
-      INSERT INTO query_snapshot_layers(id, name, visible, layer_order, created_at)
-      VALUES (?, ?, ?, ?, CAST(? AS TIMESTAMP));
+      INSERT INTO query_snapshot_layers(id, name, visible, layer_order, created_at, crs, style)
+      VALUES (?, ?, ?, ?, CAST(? AS TIMESTAMP), ?, ?);
     `);
     try {
       for (const layer of layers) {
-        await layerStatement.query(layer.id, layer.name, layer.visible, layer.order, layer.createdAt);
+        await layerStatement.query(
+          layer.id,
+          layer.name,
+          layer.visible,
+          layer.order,
+          layer.createdAt,
+          layer.crs ?? null,
+          layer.style ? JSON.stringify(layer.style) : null
+        );
       }
     } finally {
       await layerStatement.close();
     }
 
+    const bookmarkStatement = await connection.prepare(`
+      INSERT INTO query_snapshot_bookmarks(id, name, center_x, center_y, zoom, created_at)
+      VALUES (?, ?, ?, ?, ?, CAST(? AS TIMESTAMP));
+    `);
+    try {
+      for (const { id, name, center, zoom, createdAt } of bookmarks) {
+        await bookmarkStatement.query(id, name, center[0], center[1], zoom, createdAt);
+      }
+    } finally {
+      await bookmarkStatement.close();
+    }
+
     const featureStatement = await connection.prepare(`
       INSERT INTO query_snapshot_features(
         id,
@@ -71,22 +160,38 @@ export const initializeQueryViews = async (
         properties,
         style,
         layer_id,
+        crs,
         created_at,
-        feature_order
+        feature_order,
+        measurement_unit,
+        length,
+        area,
+        perimeter
       )
-      VALUES (?, ?, ?, CAST(? AS JSON), CAST(? AS JSON), ?, CAST(? AS TIMESTAMP), ?);
+      VALUES (?, ?, ?, CAST(? AS JSON), CAST(? AS JSON), ?, ?, CAST(? AS TIMESTAMP), ?, ?, ?, ?, ?);
     `);
+    const layerCrs = new Map(layers.map(({ id, crs }) => [id, crs]));
     try {
       for (const [index, feature] of features.entries()) {
+        const crs = layerCrs.get(feature.layerId);
+        // 計測値は canvas のラベルと同じ計算を較正済みの単位で持たせる
+        const { length, area, perimeter, geodesic } = withGeodesicMeasures(toRenderableStroke(feature), crs);
+        const scale = geodesic ? meterCalibration(calibration) : calibration;
         await featureStatement.query(
           feature.id,
           feature.geometry.type,
-          geometryGeoJson(feature.geometry),
+          // CRS を持つ layer の geometry は model pixel の northing を戻し、その CRS の座標で公開する
+          JSON.stringify(toGeoJSONGeometry(crs ? flipGeometryNorthing(feature.geometry) : feature.geometry)),
           JSON.stringify(feature.properties),
           JSON.stringify(feature.style),
           feature.layerId,
+          crs ?? null,
           feature.createdAt,
-          index + 1
+          index + 1,
+          scale.unit,
+          length === undefined ? null : toCalibratedLength(length, scale),
+          area === undefined ? null : toCalibratedArea(area, scale),
+          perimeter === undefined ? null : toCalibratedLength(perimeter, scale)
         );
       }
     } finally {
@@ -95,14 +200,25 @@ export const initializeQueryViews = async (
 
     await connection.query(`
       CREATE OR REPLACE VIEW ${QUERY_FEATURES_VIEW} AS
-      SELECT id, geometry_type, geometry_geojson, properties, style, layer_id, created_at, feature_order
+      SELECT ${FEATURE_COLUMNS}
       FROM query_snapshot_features;
     `);
     await connection.query(`
       CREATE OR REPLACE VIEW ${QUERY_LAYERS_VIEW} AS
-      SELECT id, name, visible, layer_order, created_at
+      SELECT id, name, visible, layer_order, created_at, crs, style
       FROM query_snapshot_layers;
     `);
+    await connection.query(`
+      CREATE OR REPLACE VIEW ${QUERY_SELECTED_FEATURES_VIEW} AS
+      SELECT ${FEATURE_COLUMNS}
+      FROM ${QUERY_FEATURES_VIEW}
+      WHERE id IN (SELECT id FROM query_snapshot_selection);
+    `);
+    await connection.query(`
+      CREATE OR REPLACE VIEW ${QUERY_BOOKMARKS_VIEW} AS
+      SELECT id, name, center_x, center_y, zoom, created_at
+      FROM query_snapshot_bookmarks;
+    `);
     await connection.query("COMMIT;");
   } catch (error) {
     try {
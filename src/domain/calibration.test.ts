@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  PIXEL_CALIBRATION,
+  calibrationFromReference,
+  convertCalibration,
+  formatArea,
+  formatLength,
+  parseCalibration,
+} from "./calibration";
+
+describe("calibration", () => {
+  it("参照線分のpx長と実長から1pxあたりの長さを求める", () => {
+    expect(calibrationFromReference(200, 12.5, "m")).toEqual({ unitsPerPixel: 0.0625, unit: "m" });
+    expect(calibrationFromReference(0, 12.5, "m")).toBeUndefined();
+    expect(calibrationFromReference(200, -1, "m")).toBeUndefined();
+    expect(calibrationFromReference(200, 12.5, "px")).toEqual(PIXEL_CALIBRATION);
+  });
+
+  it("単位を変えても物理的な縮尺は保ち、px へ戻すと未較正になる", () => {
+    const converted = convertCalibration({ unitsPerPixel: 0.3048, unit: "m" }, "ft");
+    expect(converted.unit).toBe("ft");
+    expect(converted.unitsPerPixel).toBeCloseTo(1);
+    expect(convertCalibration({ unitsPerPixel: 2, unit: "km" }, "px")).toEqual(PIXEL_CALIBRATION);
+    expect(convertCalibration(PIXEL_CALIBRATION, "m")).toEqual(PIXEL_CALIBRATION);
+  });
+
+  it("保存値が壊れている場合は px として扱う", () => {
+    expect(parseCalibration('{"unitsPerPixel":0.5,"unit":"ft"}')).toEqual({ unitsPerPixel: 0.5, unit: "ft" });
+    expect(parseCalibration(undefined)).toEqual(PIXEL_CALIBRATION);
+    expect(parseCalibration("not json")).toEqual(PIXEL_CALIBRATION);
+    expect(parseCalibration('{"unitsPerPixel":0,"unit":"m"}')).toEqual(PIXEL_CALIBRATION);
+    expect(parseCalibration('{"unitsPerPixel":1,"unit":"furlong"}')).toEqual(PIXEL_CALIBRATION);
+  });
+
+  it("長さは1乗、面積は2乗で換算して単位付きで表示する", () => {
+    const calibration = { unitsPerPixel: 0.5, unit: "m" as const };
+    expect(formatLength(25, calibration)).toBe("12.50 m");
+    expect(formatArea(100, calibration)).toBe("25.00 m²");
+    expect(formatLength(12.34, PIXEL_CALIBRATION)).toBe("12.3 px");
+    expect(formatArea(12.34, PIXEL_CALIBRATION)).toBe("12.3 px²");
+  });
+});
@@ -0,0 +1,86 @@
+/** Units a measurement can be reported in; `px` means uncalibrated model pixels. */
+export const MEASUREMENT_UNITS = ["px", "mm", "cm", "m", "km", "in", "ft", "yd", "mi"] as const;
+export type MeasurementUnit = (typeof MEASUREMENT_UNITS)[number];
+
+const METERS_PER_UNIT: Record<Exclude<MeasurementUnit, "px">, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  km: 1000,
+  in: 0.0254,
+  ft: 0.3048,
+  yd: 0.9144,
+  mi: 1609.344,
+};
+
+/** Project-level scale: one model pixel measures `unitsPerPixel` of `unit`. */
+export interface Calibration {
+  unitsPerPixel: number;
+  unit: MeasurementUnit;
+}
+
+export const PIXEL_CALIBRATION: Calibration = { unitsPerPixel: 1, unit: "px" };
+
+export const isMeasurementUnit = (value: unknown): value is MeasurementUnit =>
+  typeof value === "string" && (MEASUREMENT_UNITS as readonly string[]).includes(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/** Scale from a reference segment of `pixelLength` model pixels that really measures `realLength` `unit`. */
+export const calibrationFromReference = (
+  pixelLength: number,
+  realLength: number,
+  unit: MeasurementUnit
+): Calibration | undefined => {
+  if (unit === "px") return PIXEL_CALIBRATION;
+  if (!isPositive(pixelLength) || !isPositive(realLength)) return undefined;
+  return { unitsPerPixel: realLength / pixelLength, unit };
+};
+
+/**
+ * Re-expresses a calibration in another real-world unit without changing the physical scale. Converting to `px`
+ * drops the calibration; an uncalibrated scale cannot be converted and stays in pixels.
+ */
+export const convertCalibration = (calibration: Calibration, unit: MeasurementUnit): Calibration => {
+  if (unit === "px" || calibration.unit === "px") return PIXEL_CALIBRATION;
+  return {
+    unitsPerPixel: (calibration.unitsPerPixel * METERS_PER_UNIT[calibration.unit]) / METERS_PER_UNIT[unit],
+    unit,
+  };
+};
+
+/** Reads a stored calibration, falling back to pixels for missing or malformed values. */
+export const parseCalibration = (value: string | undefined): Calibration => {
+  if (value === undefined) return PIXEL_CALIBRATION;
+  try {
+    const parsed = JSON.parse(value) as Partial<Calibration>;
+    if (!isMeasurementUnit(parsed.unit) || parsed.unit === "px" || !isPositive(parsed.unitsPerPixel)) {
+      return PIXEL_CALIBRATION;
+    }
+    return { unitsPerPixel: parsed.unitsPerPixel, unit: parsed.unit };
+  } catch {
+    return PIXEL_CALIBRATION;
+  }
+};
+
+export const toCalibratedLength = (pixels: number, { unitsPerPixel }: Calibration) => pixels * unitsPerPixel;
+
+export const toCalibratedArea = (squarePixels: number, { unitsPerPixel }: Calibration) =>
+  squarePixels * unitsPerPixel * unitsPerPixel;
+
+/**
+ * Scale for values that are already in metres, such as geodesic measurements: they are reported in the project unit
+ * when it is a real-world unit, and in metres when the project is uncalibrated.
+ */
+export const meterCalibration = ({ unit }: Calibration): Calibration =>
+  unit === "px" ? { unitsPerPixel: 1, unit: "m" } : { unitsPerPixel: 1 / METERS_PER_UNIT[unit], unit };
+
+// pixels keep the historical one decimal; real units show centimetre-level detail for metres
+const formatValue = (value: number, unit: MeasurementUnit) => value.toFixed(unit === "px" ? 1 : 2);
+
+export const formatLength = (pixels: number, calibration: Calibration) =>
+  `${formatValue(toCalibratedLength(pixels, calibration), calibration.unit)} ${calibration.unit}`;
+
+export const formatArea = (squarePixels: number, calibration: Calibration) =>
+  `${formatValue(toCalibratedArea(squarePixels, calibration), calibration.unit)} ${calibration.unit}²`;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { toRenderableStroke } from "./renderableStroke";
+import { createGeometryFeature } from "./geometryFeature";
+import {
+  WEB_MERCATOR,
+  WGS84,
+  flipNorthing,
+  geodesicArea,
+  geodesicLength,
+  isGeographicCrs,
+  looksLikeLonLat,
+  modelPixelToLonLat,
+  normalizeCrs,
+  withGeodesicMeasures,
+} from "./crs";
+
+describe("crs", () => {
+  it("EPSGコード・OGC URN・CRS84をEPSG:<code>へ正規化する", () => {
+    expect(normalizeCrs("EPSG:3857")).toBe(WEB_MERCATOR);
+    expect(normalizeCrs("urn:ogc:def:crs:EPSG::4326")).toBe(WGS84);
+    expect(normalizeCrs("urn:ogc:def:crs:EPSG:6.6:27700")).toBe("EPSG:27700");
+    expect(normalizeCrs("http://www.opengis.net/def/crs/EPSG/0/2193")).toBe("EPSG:2193");
+    expect(normalizeCrs("urn:ogc:def:crs:OGC:1.3:CRS84")).toBe(WGS84);
+    expect(normalizeCrs("local")).toBeUndefined();
+    expect(normalizeCrs(4326)).toBeUndefined();
+  });
+
+  it("経緯度CRSと経緯度らしい座標を判定する", () => {
+    expect(isGeographicCrs(WGS84)).toBe(true);
+    expect(isGeographicCrs(WEB_MERCATOR)).toBe(false);
+    expect(isGeographicCrs(undefined)).toBe(false);
+    expect(
+      looksLikeLonLat([
+        [139.7, 35.6],
+        [-0.1, 51.5],
+      ])
+    ).toBe(true);
+    expect(looksLikeLonLat([[640, 480]])).toBe(false);
+  });
+
+  it("model pixelはnorthingを反転し、Web Mercatorから経緯度へ戻せる", () => {
+    expect(flipNorthing([3, 4])).toEqual([3, -4]);
+    expect(modelPixelToLonLat([139.7, -35.6], WGS84)).toEqual([139.7, 35.6]);
+    const [lon, lat] = modelPixelToLonLat([20037508.342789244, -0], WEB_MERCATOR) ?? [];
+    expect(lon).toBeCloseTo(180);
+    expect(lat).toBeCloseTo(0);
+    expect(modelPixelToLonLat([1, 1], "EPSG:27700")).toBeUndefined();
+  });
+
+  it("測地線の長さと面積を求める", () => {
+    expect(
+      geodesicLength([
+        [0, 0],
+        [0, 1],
+      ])
+    ).toBeCloseTo(111195, 0);
+    const square: [number, number][] = [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+    ];
+    // 赤道付近の1度四方は約 1.2364e10 m²
+    expect(geodesicArea(square) / 1e10).toBeCloseTo(1.2364, 3);
+    expect(geodesicLength(square, true)).toBeCloseTo(4 * 111195, -2);
+  });
+
+  it("経緯度layerのstrokeは計測値を測地線のmへ置き換え、px layerは変えない", () => {
+    const stroke = toRenderableStroke(
+      createGeometryFeature({
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [0, 0],
+            [1, 0],
+          ],
+        },
+      })
+    );
+    const geodesic = withGeodesicMeasures(stroke, WGS84);
+    expect(geodesic.geodesic).toBe(true);
+    expect(geodesic.length).toBeCloseTo(111195, 0);
+    expect(withGeodesicMeasures(stroke, undefined)).toBe(stroke);
+  });
+});
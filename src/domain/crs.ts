@@ -0,0 +1,111 @@
+import { withGeometryVertices, geometryVertices, type FeatureGeometry, type Point2D } from "./geometryFeature";
+import type { RenderableStroke } from "./renderableStroke";
+
+/** WGS 84 longitude/latitude in degrees. */
+export const WGS84 = "EPSG:4326";
+
+/** Web Mercator metres; geographic layers are reprojected into it so they render at map scale. */
+export const WEB_MERCATOR = "EPSG:3857";
+
+// Geographic CRSs whose coordinates are longitude/latitude degrees on (nearly) the WGS 84 ellipsoid.
+const GEOGRAPHIC_CRS = new Set([WGS84, "EPSG:4258", "EPSG:4269", "EPSG:4283", "EPSG:4612", "EPSG:6668"]);
+
+const MEAN_EARTH_RADIUS_M = 6371008.8;
+const MERCATOR_RADIUS_M = 6378137;
+const RADIANS = Math.PI / 180;
+
+/**
+ * Normalizes a CRS name to `EPSG:<code>`. Accepts `EPSG:4326`, OGC URNs such as `urn:ogc:def:crs:EPSG::3857`,
+ * OpenGIS URLs, and `CRS84`, which is WGS 84 in longitude/latitude order. Returns undefined for anything else.
+ */
+export const normalizeCrs = (name: unknown): string | undefined => {
+  if (typeof name !== "string") return undefined;
+  const trimmed = name.trim();
+  if (/^(urn:ogc:def:crs:OGC:(1\.3)?:)?CRS84$/i.test(trimmed) || /\/OGC\/1\.3\/CRS84$/i.test(trimmed)) return WGS84;
+  const code =
+    /^EPSG:(\d+)$/i.exec(trimmed)?.[1] ??
+    /^urn:ogc:def:crs:EPSG:[\d.]*:(\d+)$/i.exec(trimmed)?.[1] ??
+    /^https?:\/\/www\.opengis\.net\/def\/crs\/EPSG\/\d+\/(\d+)$/i.exec(trimmed)?.[1];
+  return code === undefined ? undefined : `EPSG:${Number(code)}`;
+};
+
+export const isGeographicCrs = (crs: string | undefined): boolean => crs !== undefined && GEOGRAPHIC_CRS.has(crs);
+
+/** True when every point could be a longitude/latitude pair, the usual sign of an undeclared WGS 84 file. */
+export const looksLikeLonLat = (points: readonly Point2D[]): boolean =>
+  points.length > 0 && points.every(([x, y]) => Math.abs(x) <= 180 && Math.abs(y) <= 90);
+
+/**
+ * Converts between CRS coordinates and model pixels of a georeferenced layer. Model pixels use the CRS units with
+ * the y axis flipped, because screen y grows downwards while northing grows upwards; the mapping is its own inverse.
+ */
+export const flipNorthing = ([x, y]: Point2D): Point2D => [x, y === 0 ? 0 : -y];
+
+export const flipGeometryNorthing = (geometry: FeatureGeometry): FeatureGeometry =>
+  withGeometryVertices(geometry, geometryVertices(geometry).map(flipNorthing));
+
+/** Longitude/latitude of a model pixel on a layer in `crs`, or undefined when the CRS has no analytic inverse here. */
+export const modelPixelToLonLat = (point: Point2D, crs: string | undefined): Point2D | undefined => {
+  const [x, y] = flipNorthing(point);
+  if (isGeographicCrs(crs)) return [x, y];
+  if (crs === WEB_MERCATOR) {
+    return [x / MERCATOR_RADIUS_M / RADIANS, (2 * Math.atan(Math.exp(y / MERCATOR_RADIUS_M)) - Math.PI / 2) / RADIANS];
+  }
+  return undefined;
+};
+
+/** Great-circle length in metres of a longitude/latitude polyline (haversine on the mean Earth radius). */
+export const geodesicLength = (points: readonly Point2D[], closed = false): number => {
+  let total = 0;
+  const count = closed ? points.length : points.length - 1;
+  for (let index = 0; index < count; index += 1) {
+    const [lon1, lat1] = points[index];
+    const [lon2, lat2] = points[(index + 1) % points.length];
+    const a =
+      Math.sin(((lat2 - lat1) * RADIANS) / 2) ** 2 +
+      Math.cos(lat1 * RADIANS) * Math.cos(lat2 * RADIANS) * Math.sin(((lon2 - lon1) * RADIANS) / 2) ** 2;
+    total += 2 * MEAN_EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+  return total;
+};
+
+const sphericalRingArea = (ring: readonly Point2D[]): number => {
+  let total = 0;
+  for (let index = 0; index < ring.length; index += 1) {
+    const [lon1, lat1] = ring[index];
+    const [lon2, lat2] = ring[(index + 1) % ring.length];
+    total += (lon2 - lon1) * RADIANS * (2 + Math.sin(lat1 * RADIANS) + Math.sin(lat2 * RADIANS));
+  }
+  return Math.abs((total * MEAN_EARTH_RADIUS_M * MEAN_EARTH_RADIUS_M) / 2);
+};
+
+/** Area in square metres of an open longitude/latitude ring on the sphere, minus its holes. */
+export const geodesicArea = (ring: readonly Point2D[], holes: readonly Point2D[][] = []): number =>
+  Math.max(0, sphericalRingArea(ring) - holes.reduce((total, hole) => total + sphericalRingArea(hole), 0));
+
+/**
+ * Replaces the planar pixel measurements of a stroke on a layer in `crs` with geodesic metres. Strokes on layers
+ * without a geographic interpretation are returned unchanged.
+ */
+export const withGeodesicMeasures = (stroke: RenderableStroke, crs: string | undefined): RenderableStroke => {
+  if (!isGeographicCrs(crs) && crs !== WEB_MERCATOR) return stroke;
+  const toLonLat = (points: Point2D[]) => points.map((point) => modelPixelToLonLat(point, crs) as Point2D);
+  const lines = stroke.parts.filter(({ geomType }) => geomType === "line");
+  const polygons = stroke.parts.filter(({ geomType }) => geomType === "polygon");
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return {
+    ...stroke,
+    geodesic: true,
+    length: lines.length ? sum(lines.map(({ ptsPx }) => geodesicLength(toLonLat(ptsPx)))) : undefined,
+    area: polygons.length
+      ? sum(polygons.map(({ ptsPx, holes = [] }) => geodesicArea(toLonLat(ptsPx), holes.map(toLonLat))))
+      : undefined,
+    perimeter: polygons.length
+      ? sum(
+          polygons.map(({ ptsPx, holes = [] }) =>
+            sum([ptsPx, ...holes].map((ring) => geodesicLength(toLonLat(ring), true)))
+          )
+        )
+      : undefined,
+  };
+};
@@ -1,5 +1,14 @@
 import { describe, expect, it } from "vitest";
-import { DEFAULT_LAYER_ID, createDefaultStyle, createGeometryFeature, isFeatureGeometry } from "./geometryFeature";
+import {
+  DEFAULT_LAYER_ID,
+  applyVertexEdit,
+  createDefaultStyle,
+  createGeometryFeature,
+  geometryVertices,
+  isFeatureGeometry,
+  withGeometryVertices,
+  type FeatureGeometry,
+} from "./geometryFeature";
 
 describe("canonical feature model", () => {
   it("default layerとstyleを設定してfeatureを作る", () => {
@@ -34,11 +43,14 @@ describe("canonical feature model", () => {
         ],
       },
     });
-    expect(feature.geometry.coordinates).toEqual([
-      [0, 0],
-      [10, 0],
-      [0, 10],
-    ]);
+    expect(feature.geometry).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [0, 0],
+        [10, 0],
+        [0, 10],
+      ],
+    });
   });
 
   it("有限値でない座標と点不足を拒否する", () => {
@@ -62,4 +74,220 @@ describe("canonical feature model", () => {
       })
     ).toBe(false);
   });
+
+  it("PointとMultiPointの座標を検証する", () => {
+    expect(isFeatureGeometry({ type: "Point", coordinates: [1, 2] })).toBe(true);
+    expect(isFeatureGeometry({ type: "Point", coordinates: [[1, 2]] })).toBe(false);
+    expect(isFeatureGeometry({ type: "MultiPoint", coordinates: [[1, 2]] })).toBe(true);
+    expect(isFeatureGeometry({ type: "MultiPoint", coordinates: [] })).toBe(false);
+  });
+
+  it("geometryVerticesとwithGeometryVerticesでPointの頂点を置き換える", () => {
+    const point: FeatureGeometry = { type: "Point", coordinates: [1, 2] };
+    const vertices = geometryVertices(point);
+    expect(vertices).toEqual([[1, 2]]);
+    expect(withGeometryVertices(point, [[3, 4]])).toEqual({ type: "Point", coordinates: [3, 4] });
+  });
+
+  it("multi-part geometryとnestedでないGeometryCollectionだけを受け付ける", () => {
+    const line = {
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [1, 1],
+      ],
+    };
+    expect(isFeatureGeometry({ type: "MultiLineString", coordinates: [line.coordinates] })).toBe(true);
+    expect(isFeatureGeometry({ type: "MultiLineString", coordinates: [[[0, 0]]] })).toBe(false);
+    expect(isFeatureGeometry({ type: "MultiPolygon", polygons: [] })).toBe(false);
+    expect(isFeatureGeometry({ type: "GeometryCollection", geometries: [line] })).toBe(true);
+    expect(isFeatureGeometry({ type: "GeometryCollection", geometries: [] })).toBe(false);
+    expect(
+      isFeatureGeometry({
+        type: "GeometryCollection",
+        geometries: [{ type: "GeometryCollection", geometries: [line] }],
+      })
+    ).toBe(false);
+  });
+
+  it("withGeometryVerticesでmulti-part geometryのpartとring境界を保って頂点を置き換える", () => {
+    const geometry: FeatureGeometry = {
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Point", coordinates: [0, 0] },
+        {
+          type: "MultiPolygon",
+          polygons: [
+            {
+              coordinates: [
+                [0, 0],
+                [4, 0],
+                [4, 4],
+              ],
+              holes: [
+                [
+                  [1, 1],
+                  [2, 1],
+                  [2, 2],
+                ],
+              ],
+            },
+            {
+              coordinates: [
+                [5, 5],
+                [6, 5],
+                [6, 6],
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    const vertices = geometryVertices(geometry);
+    expect(vertices).toHaveLength(10);
+
+    const moved = withGeometryVertices(
+      geometry,
+      vertices.map(([x, y]) => [x + 10, y])
+    );
+    expect(moved).toEqual({
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Point", coordinates: [10, 0] },
+        {
+          type: "MultiPolygon",
+          polygons: [
+            {
+              coordinates: [
+                [10, 0],
+                [14, 0],
+                [14, 4],
+              ],
+              holes: [
+                [
+                  [11, 1],
+                  [12, 1],
+                  [12, 2],
+                ],
+              ],
+            },
+            {
+              coordinates: [
+                [15, 5],
+                [16, 5],
+                [16, 6],
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe("applyVertexEdit", () => {
+  const line: FeatureGeometry = {
+    type: "LineString",
+    coordinates: [
+      [0, 0],
+      [10, 0],
+    ],
+  };
+  const polygonWithHole: FeatureGeometry = {
+    type: "Polygon",
+    coordinates: [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+    ],
+    holes: [
+      [
+        [2, 2],
+        [4, 2],
+        [4, 4],
+      ],
+    ],
+  };
+
+  it("vertexを同じlineの直後へ挿入し、移動する", () => {
+    expect(applyVertexEdit(line, { type: "insert", afterIndex: 0, point: [5, 1] })).toEqual({
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [5, 1],
+        [10, 0],
+      ],
+    });
+    expect(applyVertexEdit(line, { type: "move", index: 1, point: [9, 9] })).toEqual({
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [9, 9],
+      ],
+    });
+  });
+
+  it("holeのvertexはholeへ挿入・削除し、外周は変えない", () => {
+    const inserted = applyVertexEdit(polygonWithHole, { type: "insert", afterIndex: 6, point: [3, 5] });
+    expect(inserted).toHaveProperty("coordinates", (polygonWithHole as { coordinates: unknown }).coordinates);
+    expect(inserted).toHaveProperty("holes", [
+      [
+        [2, 2],
+        [4, 2],
+        [4, 4],
+        [3, 5],
+      ],
+    ]);
+    const deleted = applyVertexEdit(polygonWithHole, { type: "delete", index: 0 });
+    expect(deleted).toHaveProperty("coordinates", [
+      [10, 0],
+      [10, 10],
+      [0, 10],
+    ]);
+  });
+
+  it("最小頂点数を下回る削除、point への挿入、範囲外の index は undefined を返す", () => {
+    expect(applyVertexEdit(line, { type: "delete", index: 0 })).toBeUndefined();
+    expect(applyVertexEdit(polygonWithHole, { type: "delete", index: 5 })).toBeUndefined();
+    expect(applyVertexEdit({ type: "Point", coordinates: [1, 1] }, { type: "delete", index: 0 })).toBeUndefined();
+    expect(
+      applyVertexEdit({ type: "Point", coordinates: [1, 1] }, { type: "insert", afterIndex: 0, point: [2, 2] })
+    ).toBeUndefined();
+    expect(applyVertexEdit(line, { type: "move", index: 2, point: [1, 1] })).toBeUndefined();
+    expect(
+      applyVertexEdit(
+        {
+          type: "MultiPoint",
+          coordinates: [
+            [1, 1],
+            [2, 2],
+          ],
+        },
+        { type: "delete", index: 1 }
+      )
+    ).toEqual({ type: "MultiPoint", coordinates: [[1, 1]] });
+  });
+
+  it("GeometryCollectionではmemberごとのvertex順で編集する", () => {
+    const collection: FeatureGeometry = {
+      type: "GeometryCollection",
+      geometries: [{ type: "Point", coordinates: [0, 0] }, line],
+    };
+
+    expect(applyVertexEdit(collection, { type: "insert", afterIndex: 1, point: [5, 5] })).toEqual({
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Point", coordinates: [0, 0] },
+        {
+          type: "LineString",
+          coordinates: [
+            [0, 0],
+            [5, 5],
+            [10, 0],
+          ],
+        },
+      ],
+    });
+  });
 });
@@ -1,12 +1,31 @@
 import { createId } from "../lib/id";
+import type { LayerStyle } from "./layerStyle";
 
 export type JsonPrimitive = string | number | boolean | null;
 export type JsonValue = JsonPrimitive | JsonValue[] | { [key: string]: JsonValue };
 export type Point2D = [number, number];
 
-export type FeatureGeometry =
+/** One polygon: an open exterior ring plus optional open interior rings. */
+export interface PolygonPart {
+  coordinates: Point2D[];
+  holes?: Point2D[][];
+}
+
+export type SimpleGeometry =
+  | { type: "Point"; coordinates: Point2D }
+  | { type: "MultiPoint"; coordinates: Point2D[] }
   | { type: "LineString"; coordinates: Point2D[] }
-  | { type: "Polygon"; coordinates: Point2D[] };
+  | { type: "MultiLineString"; coordinates: Point2D[][] }
+  | ({ type: "Polygon" } & PolygonPart)
+  | { type: "MultiPolygon"; polygons: PolygonPart[] };
+
+export type FeatureGeometry = SimpleGeometry | { type: "GeometryCollection"; geometries: SimpleGeometry[] };
+
+export type FeatureGeometryType = FeatureGeometry["type"];
+export type SimpleGeometryType = SimpleGeometry["type"];
+
+/** A single-part geometry; every canonical geometry decomposes into these. */
+export type GeometryPart = Extract<SimpleGeometry, { type: "Point" | "LineString" | "Polygon" }>;
 
 export interface FeatureStyle {
   strokeColor: string;
@@ -30,6 +49,10 @@ export interface Layer {
   visible: boolean;
   order: number;
   createdAt: string;
+  /** `EPSG:<code>` of a georeferenced layer; layers without it are drawn directly in model pixels. */
+  crs?: string;
+  /** Data-driven styling rules applied on top of each feature's own style. */
+  style?: LayerStyle;
 }
 
 export interface CreateGeometryFeatureInput {
@@ -63,26 +86,252 @@ const isPoint2D = (value: unknown): value is Point2D =>
   typeof value[1] === "number" &&
   Number.isFinite(value[1]);
 
+/** Minimum vertex count of each part (each ring, for polygons). */
+export const MINIMUM_VERTEX_COUNT: Record<SimpleGeometryType, number> = {
+  Point: 1,
+  MultiPoint: 1,
+  LineString: 2,
+  MultiLineString: 2,
+  Polygon: 3,
+  MultiPolygon: 3,
+};
+
+export const isFeatureGeometryType = (value: unknown): value is FeatureGeometryType =>
+  typeof value === "string" && (value === "GeometryCollection" || Object.hasOwn(MINIMUM_VERTEX_COUNT, value));
+
+const isPointList = (value: unknown, minimum: number): value is Point2D[] =>
+  Array.isArray(value) && value.length >= minimum && value.every(isPoint2D);
+
+const isPolygonPart = (value: unknown): value is PolygonPart => {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as { coordinates?: unknown; holes?: unknown };
+  return (
+    isPointList(candidate.coordinates, MINIMUM_VERTEX_COUNT.Polygon) &&
+    (candidate.holes === undefined ||
+      (Array.isArray(candidate.holes) &&
+        candidate.holes.every((hole) => isPointList(hole, MINIMUM_VERTEX_COUNT.Polygon))))
+  );
+};
+
+const isSimpleGeometry = (value: unknown): value is SimpleGeometry => {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as { type?: unknown; coordinates?: unknown; polygons?: unknown };
+  switch (candidate.type) {
+    case "Point":
+      return isPoint2D(candidate.coordinates);
+    case "MultiPoint":
+    case "LineString":
+      return isPointList(candidate.coordinates, MINIMUM_VERTEX_COUNT[candidate.type]);
+    case "MultiLineString":
+      return (
+        Array.isArray(candidate.coordinates) &&
+        candidate.coordinates.length > 0 &&
+        candidate.coordinates.every((line) => isPointList(line, MINIMUM_VERTEX_COUNT.MultiLineString))
+      );
+    case "Polygon":
+      return isPolygonPart(candidate);
+    case "MultiPolygon":
+      return (
+        Array.isArray(candidate.polygons) && candidate.polygons.length > 0 && candidate.polygons.every(isPolygonPart)
+      );
+    default:
+      return false;
+  }
+};
+
 export const isFeatureGeometry = (value: unknown): value is FeatureGeometry => {
   if (!value || typeof value !== "object") return false;
-  const candidate = value as { type?: unknown; coordinates?: unknown };
-  if (!Array.isArray(candidate.coordinates) || !candidate.coordinates.every(isPoint2D)) return false;
-  if (candidate.type === "LineString") return candidate.coordinates.length >= 2;
-  if (candidate.type === "Polygon") return candidate.coordinates.length >= 3;
-  return false;
+  const candidate = value as { type?: unknown; geometries?: unknown };
+  if (candidate.type !== "GeometryCollection") return isSimpleGeometry(value);
+  return (
+    Array.isArray(candidate.geometries) &&
+    candidate.geometries.length > 0 &&
+    candidate.geometries.every(isSimpleGeometry)
+  );
 };
 
-const normalizeGeometry = (geometry: FeatureGeometry): FeatureGeometry => {
-  const coordinates = geometry.coordinates.map(([x, y]) => [x, y] as Point2D);
-  if (
-    geometry.type === "Polygon" &&
-    coordinates.length > 1 &&
-    coordinates[0][0] === coordinates.at(-1)?.[0] &&
-    coordinates[0][1] === coordinates.at(-1)?.[1]
-  ) {
-    coordinates.pop();
+const copyPoint = ([x, y]: Point2D): Point2D => [x, y];
+
+/** Drops a repeated closing position so the ring is stored open. */
+export const openRing = (ring: Point2D[]): Point2D[] => {
+  const open = ring.map(copyPoint);
+  if (open.length > 1 && open[0][0] === open.at(-1)?.[0] && open[0][1] === open.at(-1)?.[1]) open.pop();
+  return open;
+};
+
+const copyPolygonPart = ({ coordinates, holes }: PolygonPart): PolygonPart =>
+  holes?.length
+    ? { coordinates: coordinates.map(copyPoint), holes: holes.map((hole) => hole.map(copyPoint)) }
+    : { coordinates: coordinates.map(copyPoint) };
+
+/** Decomposes a geometry into copied single-part Points, LineStrings and Polygons in storage order. */
+export const geometryParts = (geometry: FeatureGeometry): GeometryPart[] => {
+  switch (geometry.type) {
+    case "Point":
+      return [{ type: "Point", coordinates: copyPoint(geometry.coordinates) }];
+    case "MultiPoint":
+      return geometry.coordinates.map((point) => ({ type: "Point", coordinates: copyPoint(point) }));
+    case "LineString":
+      return [{ type: "LineString", coordinates: geometry.coordinates.map(copyPoint) }];
+    case "MultiLineString":
+      return geometry.coordinates.map((line) => ({ type: "LineString", coordinates: line.map(copyPoint) }));
+    case "Polygon":
+      return [{ type: "Polygon", ...copyPolygonPart(geometry) }];
+    case "MultiPolygon":
+      return geometry.polygons.map((polygon) => ({ type: "Polygon", ...copyPolygonPart(polygon) }));
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(geometryParts);
+  }
+};
+
+/**
+ * Returns copies of every vertex in storage order: points, line vertices, and each polygon's open exterior ring
+ * followed by its holes. This is the vertex list used for editing handles.
+ */
+export const geometryVertices = (geometry: FeatureGeometry): Point2D[] =>
+  geometryParts(geometry).flatMap((part) =>
+    part.type === "Point"
+      ? [part.coordinates]
+      : part.type === "Polygon"
+        ? [...part.coordinates, ...(part.holes ?? []).flat()]
+        : part.coordinates
+  );
+
+const hasSingleVertexList = (
+  geometry: FeatureGeometry
+): geometry is Extract<FeatureGeometry, { type: "MultiPoint" | "LineString" | "Polygon" }> =>
+  geometry.type === "MultiPoint" ||
+  geometry.type === "LineString" ||
+  (geometry.type === "Polygon" && !geometry.holes?.length);
+
+/**
+ * Builds a geometry of the same structure from a replacement vertex list, as produced by `geometryVertices`.
+ * MultiPoints, LineStrings and hole-free Polygons take the whole list, so their vertex count may change; other
+ * geometries consume vertices part by part and ring by ring, keeping their existing counts.
+ */
+export const withGeometryVertices = (geometry: FeatureGeometry, vertices: Point2D[]): FeatureGeometry => {
+  if (hasSingleVertexList(geometry)) {
+    return { type: geometry.type, coordinates: vertices.map(copyPoint) };
   }
-  const normalized = { type: geometry.type, coordinates } as FeatureGeometry;
+  let index = 0;
+  const take = (count: number) => vertices.slice(index, (index += count)).map(copyPoint);
+  const rebuildPolygon = ({ coordinates, holes }: PolygonPart): PolygonPart =>
+    holes?.length
+      ? { coordinates: take(coordinates.length), holes: holes.map((hole) => take(hole.length)) }
+      : { coordinates: take(coordinates.length) };
+  const rebuild = (part: SimpleGeometry): SimpleGeometry => {
+    switch (part.type) {
+      case "Point":
+        return { type: "Point", coordinates: take(1)[0] };
+      case "MultiPoint":
+      case "LineString":
+        return { type: part.type, coordinates: take(part.coordinates.length) };
+      case "MultiLineString":
+        return { type: "MultiLineString", coordinates: part.coordinates.map((line) => take(line.length)) };
+      case "Polygon":
+        return { type: "Polygon", ...rebuildPolygon(part) };
+      case "MultiPolygon":
+        return { type: "MultiPolygon", polygons: part.polygons.map(rebuildPolygon) };
+    }
+  };
+  return geometry.type === "GeometryCollection"
+    ? { type: "GeometryCollection", geometries: geometry.geometries.map(rebuild) }
+    : rebuild(geometry);
+};
+
+/** A vertex change addressed by `geometryVertices` index. */
+export type VertexEdit =
+  | { type: "move"; index: number; point: Point2D }
+  | { type: "insert"; afterIndex: number; point: Point2D }
+  | { type: "delete"; index: number };
+
+type VertexListKind = "points" | "line" | "ring";
+
+/** Rebuilds `geometry` with every vertex list (point set, line or ring) passed through `edit` in storage order. */
+const mapVertexLists = (
+  geometry: FeatureGeometry,
+  edit: (points: Point2D[], start: number, kind: VertexListKind) => Point2D[]
+): FeatureGeometry => {
+  let start = 0;
+  const apply = (points: Point2D[], kind: VertexListKind) => {
+    const next = edit(points.map(copyPoint), start, kind);
+    start += points.length;
+    return next;
+  };
+  const rebuildPolygon = ({ coordinates, holes }: PolygonPart): PolygonPart => {
+    const exterior = apply(coordinates, "ring");
+    return holes?.length
+      ? { coordinates: exterior, holes: holes.map((hole) => apply(hole, "ring")) }
+      : { coordinates: exterior };
+  };
+  const rebuild = (part: SimpleGeometry): SimpleGeometry => {
+    switch (part.type) {
+      case "Point":
+        return { type: "Point", coordinates: apply([part.coordinates], "points")[0] };
+      case "MultiPoint":
+        return { type: "MultiPoint", coordinates: apply(part.coordinates, "points") };
+      case "LineString":
+        return { type: "LineString", coordinates: apply(part.coordinates, "line") };
+      case "MultiLineString":
+        return { type: "MultiLineString", coordinates: part.coordinates.map((line) => apply(line, "line")) };
+      case "Polygon":
+        return { type: "Polygon", ...rebuildPolygon(part) };
+      case "MultiPolygon":
+        return { type: "MultiPolygon", polygons: part.polygons.map(rebuildPolygon) };
+    }
+  };
+  return geometry.type === "GeometryCollection"
+    ? { type: "GeometryCollection", geometries: geometry.geometries.map(rebuild) }
+    : rebuild(geometry);
+};
+
+/**
+ * Applies one vertex edit. Inserted vertices join the line or ring that contains `afterIndex`, directly after it.
+ * Returns `undefined` when the index does not exist, when inserting into points, or when a deletion would leave a
+ * part below `MINIMUM_VERTEX_COUNT`.
+ */
+export const applyVertexEdit = (geometry: FeatureGeometry, edit: VertexEdit): FeatureGeometry | undefined => {
+  const target = edit.type === "insert" ? edit.afterIndex : edit.index;
+  let applied = false;
+  const edited = mapVertexLists(geometry, (points, start, kind) => {
+    const offset = target - start;
+    if (offset < 0 || offset >= points.length) return points;
+    if (edit.type === "insert" && kind === "points") return points;
+    applied = true;
+    if (edit.type === "move") points[offset] = copyPoint(edit.point);
+    else if (edit.type === "insert") points.splice(offset + 1, 0, copyPoint(edit.point));
+    else points.splice(offset, 1);
+    return points;
+  });
+  return applied && isFeatureGeometry(edited) ? edited : undefined;
+};
+
+const normalizePolygonPart = ({ coordinates, holes }: PolygonPart): PolygonPart =>
+  holes?.length
+    ? { coordinates: openRing(coordinates), holes: holes.map(openRing) }
+    : { coordinates: openRing(coordinates) };
+
+const normalizeSimpleGeometry = (geometry: SimpleGeometry): SimpleGeometry => {
+  switch (geometry.type) {
+    case "Point":
+      return { type: "Point", coordinates: copyPoint(geometry.coordinates) };
+    case "MultiPoint":
+    case "LineString":
+      return { type: geometry.type, coordinates: geometry.coordinates.map(copyPoint) };
+    case "MultiLineString":
+      return { type: "MultiLineString", coordinates: geometry.coordinates.map((line) => line.map(copyPoint)) };
+    case "Polygon":
+      return { type: "Polygon", ...normalizePolygonPart(geometry) };
+    case "MultiPolygon":
+      return { type: "MultiPolygon", polygons: geometry.polygons.map(normalizePolygonPart) };
+  }
+};
+
+const normalizeGeometry = (geometry: FeatureGeometry): FeatureGeometry => {
+  const normalized: FeatureGeometry =
+    geometry.type === "GeometryCollection"
+      ? { type: "GeometryCollection", geometries: geometry.geometries.map(normalizeSimpleGeometry) }
+      : normalizeSimpleGeometry(geometry);
   if (!isFeatureGeometry(normalized)) throw new Error("Invalid feature geometry");
   return normalized;
 };
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { createGeometryFeature, type GeometryFeature } from "./geometryFeature";
+import {
+  applyLayerStyle,
+  categorizeValues,
+  equalIntervalBreaks,
+  interpolateColor,
+  isLayerStyle,
+  rampStops,
+  type ColorRule,
+  type LayerStyle,
+} from "./layerStyle";
+import { toRenderableStroke } from "./renderableStroke";
+
+const square = (size: number, properties: GeometryFeature["properties"] = {}) =>
+  createGeometryFeature({
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [0, 0],
+        [size, 0],
+        [size, size],
+        [0, size],
+      ],
+    },
+    properties,
+    style: { strokeColor: "#222222", strokeWidth: 2, fillColor: "#00ff00", fillOpacity: 0.6 },
+  });
+
+const styled = (feature: GeometryFeature, style: LayerStyle | undefined, unitsPerPixel = 1) =>
+  applyLayerStyle(toRenderableStroke(feature), feature.properties, style, {
+    unitsPerPixel,
+    unit: unitsPerPixel === 1 ? "px" : "m",
+  });
+
+describe("applyLayerStyle", () => {
+  it("ruleが無ければfeatureのfillColorとfillOpacityをそのまま使う", () => {
+    expect(styled(square(10), undefined)).toMatchObject({
+      color: "#222222",
+      width: 2,
+      fillColor: "#00ff00",
+      fillOpacity: 0.6,
+    });
+    expect(
+      toRenderableStroke(createGeometryFeature({ geometry: { type: "Point", coordinates: [0, 0] } }))
+    ).toMatchObject({ fillColor: "#222222", fillOpacity: 0.25 });
+  });
+
+  it("categorized ruleは属性値で色を決め、該当しない値はotherColorかfeatureの色にする", () => {
+    const rule: ColorRule = {
+      type: "categorized",
+      property: "kind",
+      categories: [{ value: "road", color: "#ff0000" }],
+    };
+
+    expect(styled(square(10, { kind: "road" }), { color: rule })).toMatchObject({
+      color: "#ff0000",
+      fillColor: "#ff0000",
+    });
+    expect(styled(square(10, { kind: "river" }), { color: rule })).toMatchObject({
+      color: "#222222",
+      fillColor: "#00ff00",
+    });
+    expect(styled(square(10, { kind: "river" }), { color: { ...rule, otherColor: "#999999" } })).toMatchObject({
+      color: "#999999",
+    });
+  });
+
+  it("graduated ruleは計測した面積を校正単位で分類し、幅と破線も適用する", () => {
+    const style: LayerStyle = {
+      color: {
+        type: "graduated",
+        source: { measure: "area" },
+        stops: [
+          { value: 0, style: "#0000ff" },
+          { value: 50, style: "#ff0000" },
+        ],
+      },
+      width: {
+        type: "graduated",
+        source: { property: "lanes" },
+        stops: [
+          { value: 1, style: 1 },
+          { value: 4, style: 6 },
+        ],
+      },
+      dash: { dashSize: 6, gapSize: 3 },
+    };
+
+    // 10px 四方は 0.1m/px で 1m²、100px 四方は 100m²
+    expect(styled(square(10, { lanes: 2 }), style, 0.1)).toMatchObject({ color: "#0000ff", width: 1 });
+    expect(styled(square(100, { lanes: "4" }), style, 0.1)).toMatchObject({
+      color: "#ff0000",
+      width: 6,
+      dash: { dashSize: 6, gapSize: 3 },
+    });
+    expect(styled(square(100, { lanes: "many" }), style, 0.1).width).toBe(2);
+  });
+});
+
+describe("classification", () => {
+  it("異なる値ごとにpaletteの色を割り当てる", () => {
+    expect(categorizeValues(["b", "a", "b", 2, null])).toEqual([
+      { value: "2", color: "#1f77b4" },
+      { value: "a", color: "#ff7f0e" },
+      { value: "b", color: "#2ca02c" },
+      { value: "null", color: "#d62728" },
+    ]);
+  });
+
+  it("等間隔の区切りと色のrampでstopを作る", () => {
+    const breaks = equalIntervalBreaks([3, 0, 9, Number.NaN], 3);
+
+    expect(breaks).toEqual([0, 3, 6]);
+    expect(equalIntervalBreaks([5, 5], 4)).toEqual([5]);
+    expect(rampStops(breaks, (t) => interpolateColor("#000000", "#ffffff", t))).toEqual([
+      { value: 0, style: "#000000" },
+      { value: 3, style: "#808080" },
+      { value: 6, style: "#ffffff" },
+    ]);
+  });
+
+  it("昇順でないstopや不正な色のstyleを拒否する", () => {
+    expect(isLayerStyle({ dash: { dashSize: 4, gapSize: 2 } })).toBe(true);
+    expect(
+      isLayerStyle({
+        color: {
+          type: "graduated",
+          source: { property: "p" },
+          stops: [
+            { value: 2, style: "#000000" },
+            { value: 1, style: "#ffffff" },
+          ],
+        },
+      })
+    ).toBe(false);
+    expect(
+      isLayerStyle({ color: { type: "categorized", property: "p", categories: [{ value: "a", color: "red" }] } })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import { meterCalibration, toCalibratedArea, toCalibratedLength, type Calibration } from "./calibration";
+import type { JsonValue } from "./geometryFeature";
+import type { RenderableStroke } from "./renderableStroke";
+
+/** Fill opacity of polygons whose feature style does not set one. */
+export const DEFAULT_FILL_OPACITY = 0.25;
+
+/** Colours handed out to new categories, in order; they repeat once exhausted. */
+export const CATEGORY_PALETTE = [
+  "#1f77b4",
+  "#ff7f0e",
+  "#2ca02c",
+  "#d62728",
+  "#9467bd",
+  "#8c564b",
+  "#e377c2",
+  "#7f7f7f",
+  "#bcbd22",
+  "#17becf",
+] as const;
+
+export type StyleMeasure = "area" | "length";
+
+/** Where a graduated rule reads its number: a feature property, or the area or length measured on the canvas. */
+export type StyleSource = { property: string } | { measure: StyleMeasure };
+
+export interface StyleCategory {
+  value: string;
+  color: string;
+}
+
+/** A class of a graduated rule; it applies from `value` up to the next stop. */
+export interface StyleStop<T> {
+  value: number;
+  style: T;
+}
+
+export type ColorRule =
+  | { type: "categorized"; property: string; categories: StyleCategory[]; otherColor?: string }
+  | { type: "graduated"; source: StyleSource; stops: StyleStop<string>[] };
+
+export interface WidthRule {
+  type: "graduated";
+  source: StyleSource;
+  stops: StyleStop<number>[];
+}
+
+/** Dash pattern in model pixels, so that it scales with the geometry like coordinates do. */
+export interface StrokeDash {
+  dashSize: number;
+  gapSize: number;
+}
+
+/**
+ * Styling rules stored on a layer. Each rule overrides the matching part of a feature's own style; features a rule
+ * does not match (a missing property, an unknown category without `otherColor`) keep their own colour or width.
+ */
+export interface LayerStyle {
+  color?: ColorRule;
+  width?: WidthRule;
+  dash?: StrokeDash;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isColor = (value: unknown): value is string => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+const isStyleSource = (value: unknown): value is StyleSource =>
+  isRecord(value) &&
+  ((typeof value.property === "string" && value.property.length > 0 && value.measure === undefined) ||
+    (value.property === undefined && (value.measure === "area" || value.measure === "length")));
+
+const isStopList = <T>(value: unknown, isStyle: (style: unknown) => style is T): value is StyleStop<T>[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((stop) => isRecord(stop) && isFiniteNumber(stop.value) && isStyle(stop.style)) &&
+  value.every((stop, index) => index === 0 || stop.value > value[index - 1].value);
+
+const isWidth = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isColorRule = (value: unknown): value is ColorRule => {
+  if (!isRecord(value)) return false;
+  if (value.type === "categorized") {
+    return (
+      typeof value.property === "string" &&
+      value.property.length > 0 &&
+      Array.isArray(value.categories) &&
+      value.categories.every(
+        (category) => isRecord(category) && typeof category.value === "string" && isColor(category.color)
+      ) &&
+      (value.otherColor === undefined || isColor(value.otherColor))
+    );
+  }
+  return value.type === "graduated" && isStyleSource(value.source) && isStopList(value.stops, isColor);
+};
+
+const isWidthRule = (value: unknown): value is WidthRule =>
+  isRecord(value) && value.type === "graduated" && isStyleSource(value.source) && isStopList(value.stops, isWidth);
+
+const isStrokeDash = (value: unknown): value is StrokeDash =>
+  isRecord(value) && isWidth(value.dashSize) && isWidth(value.gapSize);
+
+/** Graduated stops must be in strictly ascending order; colours are `#rrggbb`. */
+export const isLayerStyle = (value: unknown): value is LayerStyle =>
+  isRecord(value) &&
+  (value.color === undefined || isColorRule(value.color)) &&
+  (value.width === undefined || isWidthRule(value.width)) &&
+  (value.dash === undefined || isStrokeDash(value.dash));
+
+/** Key a property value is categorized by: strings as they are, anything else as JSON. */
+export const categoryKey = (value: JsonValue): string => (typeof value === "string" ? value : JSON.stringify(value));
+
+const numericValue = (value: JsonValue | undefined): number | undefined => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return isFiniteNumber(number) ? number : undefined;
+};
+
+/**
+ * Area or length of a stroke in the unit its measurement label shows: the project unit, or metres (in the project
+ * unit when it is a real-world one) for geodesic measurements. Polygons are measured by their perimeter for length.
+ */
+export const measuredValue = (stroke: RenderableStroke, measure: StyleMeasure, calibration: Calibration) => {
+  const scale = stroke.geodesic ? meterCalibration(calibration) : calibration;
+  if (measure === "area") return stroke.area === undefined ? undefined : toCalibratedArea(stroke.area, scale);
+  const length = stroke.length ?? stroke.perimeter;
+  return length === undefined ? undefined : toCalibratedLength(length, scale);
+};
+
+/** The number a graduated rule classifies a feature by, or undefined when it has none. */
+export const sourceValue = (
+  source: StyleSource,
+  properties: Record<string, JsonValue>,
+  stroke: RenderableStroke,
+  calibration: Calibration
+): number | undefined =>
+  "property" in source ? numericValue(properties[source.property]) : measuredValue(stroke, source.measure, calibration);
+
+// values below the first stop fall into the lowest class
+const stopFor = <T>(stops: StyleStop<T>[], value: number): T =>
+  stops.reduce((current, stop) => (stop.value <= value ? stop : current), stops[0]).style;
+
+/** Applies the layer's rules on top of the colour, fill and width a stroke got from its feature style. */
+export const applyLayerStyle = (
+  stroke: RenderableStroke,
+  properties: Record<string, JsonValue>,
+  style: LayerStyle | undefined,
+  calibration: Calibration
+): RenderableStroke => {
+  if (!style) return stroke;
+  let color: string | undefined;
+  if (style.color?.type === "categorized") {
+    const value = properties[style.color.property];
+    const key = value === undefined ? undefined : categoryKey(value);
+    color = style.color.categories.find((category) => category.value === key)?.color ?? style.color.otherColor;
+  } else if (style.color) {
+    const value = sourceValue(style.color.source, properties, stroke, calibration);
+    color = value === undefined ? undefined : stopFor(style.color.stops, value);
+  }
+  const widthValue = style.width && sourceValue(style.width.source, properties, stroke, calibration);
+  const width = style.width && widthValue !== undefined ? stopFor(style.width.stops, widthValue) : undefined;
+  return {
+    ...stroke,
+    ...(color ? { color, fillColor: color } : {}),
+    ...(width !== undefined ? { width } : {}),
+    ...(style.dash ? { dash: { ...style.dash } } : {}),
+  };
+};
+
+/** One category per distinct value, ordered by key, with colours taken from `CATEGORY_PALETTE`. */
+export const categorizeValues = (values: Iterable<JsonValue>): StyleCategory[] =>
+  [...new Set([...values].map(categoryKey))]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map((value, index) => ({ value, color: CATEGORY_PALETTE[index % CATEGORY_PALETTE.length] }));
+
+/** Lower bounds of `classes` equal-width classes spanning the values; a single class when they are all equal. */
+export const equalIntervalBreaks = (values: Iterable<number>, classes: number): number[] => {
+  const finite = [...values].filter(Number.isFinite);
+  if (finite.length === 0) return [];
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  const count = Math.max(1, Math.floor(classes));
+  if (min === max) return [min];
+  return Array.from({ length: count }, (_, index) => Number((min + ((max - min) * index) / count).toPrecision(12)));
+};
+
+const channel = (color: string, offset: number) => parseInt(color.slice(offset, offset + 2), 16);
+
+/** Linear blend of two `#rrggbb` colours, `t` of the way from `from` to `to`. */
+export const interpolateColor = (from: string, to: string, t: number): string =>
+  `#${[1, 3, 5]
+    .map((offset) =>
+      Math.round(channel(from, offset) + (channel(to, offset) - channel(from, offset)) * t)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`;
+
+/** Stops at `breaks` whose styles follow `ramp` from 0 for the lowest class to 1 for the highest. */
+export const rampStops = <T>(breaks: number[], ramp: (t: number) => T): StyleStop<T>[] =>
+  breaks.map((value, index) => ({ value, style: ramp(breaks.length > 1 ? index / (breaks.length - 1) : 0) }));
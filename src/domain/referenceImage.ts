@@ -0,0 +1,48 @@
+import type { Point2D } from "./geometryFeature";
+
+/**
+ * A raster drawn beneath the features for tracing, such as a scanned plan or a screenshot. The image keeps its
+ * encoded bytes as a data URL; `x`/`y` is the model pixel of its top-left corner and `scale` the model pixels per
+ * image pixel.
+ */
+export interface ReferenceImage {
+  id: string;
+  name: string;
+  dataUrl: string;
+  /** Natural size of the image in image pixels. */
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  scale: number;
+  opacity: number;
+  visible: boolean;
+  createdAt: string;
+}
+
+export type ReferenceImagePlacement = Pick<ReferenceImage, "x" | "y" | "scale" | "opacity" | "visible">;
+
+export const DEFAULT_REFERENCE_OPACITY = 0.5;
+
+/** Places an image of `width` × `height` image pixels at its natural size, centred on the model pixel `center`. */
+export const centeredPlacement = (width: number, height: number, [x, y]: Point2D): ReferenceImagePlacement => ({
+  x: x - width / 2,
+  y: y - height / 2,
+  scale: 1,
+  opacity: DEFAULT_REFERENCE_OPACITY,
+  visible: true,
+});
+
+/** Rejects placements that cannot be drawn: a non-finite offset, a non-positive scale, or opacity outside 0–1. */
+export const validatePlacement = (changes: Partial<ReferenceImagePlacement>): string | undefined => {
+  if (
+    (changes.x !== undefined && !Number.isFinite(changes.x)) ||
+    (changes.y !== undefined && !Number.isFinite(changes.y))
+  )
+    return "Reference image position must be a finite number";
+  if (changes.scale !== undefined && !(Number.isFinite(changes.scale) && changes.scale > 0))
+    return "Reference image scale must be greater than zero";
+  if (changes.opacity !== undefined && !(changes.opacity >= 0 && changes.opacity <= 1))
+    return "Reference image opacity must be between 0 and 1";
+  return undefined;
+};
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { createGeometryFeature, type FeatureGeometry } from "./geometryFeature";
-import { simplifyFeatureGeometry, toRenderableStroke } from "./renderableStroke";
+import { simplifyFeatureGeometry, strokeSegments, toRenderableStroke } from "./renderableStroke";
 
 describe("toRenderableStroke", () => {
   it("canonical Polygonを計測値つきRenderableStrokeへ変換する", () => {
@@ -28,11 +28,112 @@ describe("toRenderableStroke", () => {
       perimeter: 12,
     });
   });
+
+  it("hole付きPolygonのholeを保持しarea/perimeterへ反映する", () => {
+    const stroke = toRenderableStroke(
+      createGeometryFeature({
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [0, 0],
+            [4, 0],
+            [4, 4],
+            [0, 4],
+          ],
+          holes: [
+            [
+              [1, 1],
+              [2, 1],
+              [2, 2],
+              [1, 2],
+            ],
+          ],
+        },
+      })
+    );
+
+    expect(stroke.parts[0].holes).toEqual([
+      [
+        [1, 1],
+        [2, 1],
+        [2, 2],
+        [1, 2],
+      ],
+    ]);
+    expect(stroke.area).toBe(15);
+    expect(stroke.perimeter).toBe(20);
+  });
+
+  it("Pointを計測値なしのpoint strokeへ変換する", () => {
+    const stroke = toRenderableStroke(
+      createGeometryFeature({ id: "point-1", geometry: { type: "Point", coordinates: [3, 4] } })
+    );
+
+    expect(stroke).toMatchObject({ id: "point-1", geomType: "point", ptsPx: [[3, 4]] });
+    expect(stroke.length).toBeUndefined();
+    expect(stroke.area).toBeUndefined();
+  });
+
+  it("GeometryCollectionをpartごとに変換し計測値を合計する", () => {
+    const stroke = toRenderableStroke(
+      createGeometryFeature({
+        id: "collection-1",
+        geometry: {
+          type: "GeometryCollection",
+          geometries: [
+            { type: "Point", coordinates: [9, 9] },
+            {
+              type: "MultiLineString",
+              coordinates: [
+                [
+                  [0, 0],
+                  [3, 4],
+                ],
+                [
+                  [0, 0],
+                  [0, 5],
+                ],
+              ],
+            },
+            {
+              type: "Polygon",
+              coordinates: [
+                [0, 0],
+                [2, 0],
+                [2, 2],
+                [0, 2],
+              ],
+            },
+          ],
+        },
+      })
+    );
+
+    expect(stroke.geomType).toBe("collection");
+    expect(stroke.parts.map(({ geomType }) => geomType)).toEqual(["point", "line", "line", "polygon"]);
+    expect(stroke.ptsPx).toHaveLength(9);
+    expect(stroke.length).toBe(10);
+    expect(stroke.area).toBe(4);
+    expect(stroke.perimeter).toBe(8);
+  });
 });
 
 describe("simplifyFeatureGeometry", () => {
-  it("toleranceが0以下なら座標値のcopyを返す", () => {
+  it("MultiPointは点を削減せずcopyを返す", () => {
     const geometry: FeatureGeometry = {
+      type: "MultiPoint",
+      coordinates: [
+        [0, 0],
+        [0.1, 0],
+        [0.2, 0],
+      ],
+    };
+
+    expect(simplifyFeatureGeometry(geometry, 10)).toEqual(geometry);
+  });
+
+  it("toleranceが0以下なら座標値のcopyを返す", () => {
+    const geometry: Extract<FeatureGeometry, { type: "LineString" }> = {
       type: "LineString",
       coordinates: [
         [0, 0],
@@ -40,7 +141,7 @@ describe("simplifyFeatureGeometry", () => {
       ],
     };
 
-    const simplified = simplifyFeatureGeometry(geometry, 0);
+    const simplified = simplifyFeatureGeometry(geometry, 0) as typeof geometry;
 
     expect(simplified).toEqual(geometry);
     expect(simplified).not.toBe(geometry);
@@ -68,7 +169,7 @@ describe("simplifyFeatureGeometry", () => {
   });
 
   it("Polygonを開いたringのまま最低3点に維持する", () => {
-    const geometry: FeatureGeometry = {
+    const geometry: Extract<FeatureGeometry, { type: "Polygon" }> = {
       type: "Polygon",
       coordinates: [
         [0, 0],
@@ -79,10 +180,59 @@ describe("simplifyFeatureGeometry", () => {
       ],
     };
 
-    const simplified = simplifyFeatureGeometry(geometry, 100);
+    const simplified = simplifyFeatureGeometry(geometry, 100) as typeof geometry;
 
     expect(simplified.type).toBe("Polygon");
     expect(simplified.coordinates).toHaveLength(3);
     expect(simplified.coordinates[0]).not.toEqual(simplified.coordinates.at(-1));
   });
 });
+
+describe("strokeSegments", () => {
+  it("lineは開いたまま、ringは閉じる辺を含めてvertex indexの組を返す", () => {
+    const stroke = toRenderableStroke(
+      createGeometryFeature({
+        geometry: {
+          type: "GeometryCollection",
+          geometries: [
+            { type: "Point", coordinates: [0, 0] },
+            {
+              type: "LineString",
+              coordinates: [
+                [0, 0],
+                [1, 0],
+                [2, 0],
+              ],
+            },
+            {
+              type: "Polygon",
+              coordinates: [
+                [0, 0],
+                [4, 0],
+                [4, 4],
+              ],
+              holes: [
+                [
+                  [1, 1],
+                  [2, 1],
+                  [2, 2],
+                ],
+              ],
+            },
+          ],
+        },
+      })
+    );
+
+    expect(strokeSegments(stroke)).toEqual([
+      [1, 2],
+      [2, 3],
+      [4, 5],
+      [5, 6],
+      [6, 4],
+      [7, 8],
+      [8, 9],
+      [9, 7],
+    ]);
+  });
+});
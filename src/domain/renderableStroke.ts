@@ -1,15 +1,41 @@
-import type { FeatureGeometry, GeometryFeature, Point2D } from "./geometryFeature";
+import {
+  geometryParts,
+  geometryVertices,
+  withGeometryVertices,
+  type FeatureGeometry,
+  type GeometryFeature,
+  type Point2D,
+  type PolygonPart,
+  type SimpleGeometry,
+} from "./geometryFeature";
+import { DEFAULT_FILL_OPACITY, type StrokeDash } from "./layerStyle";
 import { getPolygonArea, getPolygonPerimeter, getPolylineLength } from "../lib/geometry";
 
+export interface RenderableStrokePart {
+  geomType: "point" | "line" | "polygon";
+  /** Part vertices; the open exterior ring for polygons. */
+  ptsPx: Point2D[];
+  holes?: Point2D[][];
+}
+
 export interface RenderableStroke {
   id: string;
+  layerId: string;
   color: string;
   width: number;
+  fillColor: string;
+  fillOpacity: number;
+  /** Set when the layer style draws the stroke dashed. */
+  dash?: StrokeDash;
+  /** Every vertex in `geometryVertices` order, used for editing handles. */
   ptsPx: Point2D[];
-  geomType: "line" | "polygon";
+  parts: RenderableStrokePart[];
+  geomType: "point" | "line" | "polygon" | "collection";
   length?: number;
   area?: number;
   perimeter?: number;
+  /** True when `length`, `area` and `perimeter` are geodesic metres instead of model pixels. */
+  geodesic?: boolean;
 }
 
 const copyPoint = ([x, y]: Point2D): Point2D => [x, y];
@@ -50,42 +76,148 @@ const simplifyDouglasPeucker = (points: Point2D[], tolerance: number): Point2D[]
   return [...left.slice(0, -1), ...right];
 };
 
-export const simplifyFeatureGeometry = (geometry: FeatureGeometry, tolerance: number): FeatureGeometry => {
-  const copied = geometry.coordinates.map(copyPoint);
-  if (tolerance <= 0) return { type: geometry.type, coordinates: copied } as FeatureGeometry;
-
-  const simplified = simplifyDouglasPeucker(copied, tolerance);
-  if (geometry.type === "LineString") {
-    return { type: "LineString", coordinates: simplified };
-  }
-  if (simplified.length >= 3) return { type: "Polygon", coordinates: simplified };
+const simplifyRing = (ring: Point2D[], tolerance: number): Point2D[] => {
+  const simplified = simplifyDouglasPeucker(ring, tolerance);
+  if (simplified.length >= 3) return simplified;
 
   let furthestIndex = 1;
   let furthestDistance = -1;
-  for (let index = 1; index < copied.length - 1; index += 1) {
-    const distance = squaredSegmentDistance(copied[index], copied[0], copied[copied.length - 1]);
+  for (let index = 1; index < ring.length - 1; index += 1) {
+    const distance = squaredSegmentDistance(ring[index], ring[0], ring[ring.length - 1]);
     if (distance > furthestDistance) {
       furthestIndex = index;
       furthestDistance = distance;
     }
   }
-  return {
-    type: "Polygon",
-    coordinates: [copyPoint(copied[0]), copyPoint(copied[furthestIndex]), copyPoint(copied[copied.length - 1])],
-  };
+  return [copyPoint(ring[0]), copyPoint(ring[furthestIndex]), copyPoint(ring[ring.length - 1])];
+};
+
+const simplifyPolygonPart = ({ coordinates, holes }: PolygonPart, tolerance: number): PolygonPart =>
+  holes?.length
+    ? {
+        coordinates: simplifyRing(coordinates, tolerance),
+        holes: holes.map((hole) => simplifyRing(hole, tolerance)),
+      }
+    : { coordinates: simplifyRing(coordinates, tolerance) };
+
+const simplifySimpleGeometry = (geometry: SimpleGeometry, tolerance: number): SimpleGeometry => {
+  switch (geometry.type) {
+    case "Point":
+      return { type: "Point", coordinates: copyPoint(geometry.coordinates) };
+    case "MultiPoint":
+      return { type: "MultiPoint", coordinates: geometry.coordinates.map(copyPoint) };
+    case "LineString":
+      return { type: "LineString", coordinates: simplifyDouglasPeucker(geometry.coordinates, tolerance) };
+    case "MultiLineString":
+      return {
+        type: "MultiLineString",
+        coordinates: geometry.coordinates.map((line) => simplifyDouglasPeucker(line, tolerance)),
+      };
+    case "Polygon":
+      return { type: "Polygon", ...simplifyPolygonPart(geometry, tolerance) };
+    case "MultiPolygon":
+      return {
+        type: "MultiPolygon",
+        polygons: geometry.polygons.map((polygon) => simplifyPolygonPart(polygon, tolerance)),
+      };
+  }
+};
+
+/**
+ * Simplifies every line and ring with Douglas–Peucker, keeping at least three vertices per ring. Points are copied
+ * unchanged, and a non-positive tolerance returns a structural copy.
+ */
+export const simplifyFeatureGeometry = (geometry: FeatureGeometry, tolerance: number): FeatureGeometry => {
+  if (tolerance <= 0) return withGeometryVertices(geometry, geometryVertices(geometry));
+  if (geometry.type === "GeometryCollection") {
+    return {
+      type: "GeometryCollection",
+      geometries: geometry.geometries.map((member) => simplifySimpleGeometry(member, tolerance)),
+    };
+  }
+  return simplifySimpleGeometry(geometry, tolerance);
 };
 
+const strokeGeometryType = (geometry: FeatureGeometry): RenderableStroke["geomType"] => {
+  switch (geometry.type) {
+    case "Point":
+    case "MultiPoint":
+      return "point";
+    case "LineString":
+    case "MultiLineString":
+      return "line";
+    case "Polygon":
+    case "MultiPolygon":
+      return "polygon";
+    case "GeometryCollection":
+      return "collection";
+  }
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
 export const toRenderableStroke = (feature: GeometryFeature): RenderableStroke => {
-  const polygon = feature.geometry.type === "Polygon";
-  const ptsPx = feature.geometry.coordinates;
+  const parts: RenderableStrokePart[] = geometryParts(feature.geometry).map((part) => {
+    if (part.type === "Point") return { geomType: "point", ptsPx: [part.coordinates] };
+    if (part.type === "LineString") return { geomType: "line", ptsPx: part.coordinates };
+    return part.holes?.length
+      ? { geomType: "polygon", ptsPx: part.coordinates, holes: part.holes }
+      : { geomType: "polygon", ptsPx: part.coordinates };
+  });
+  const lines = parts.filter(({ geomType }) => geomType === "line");
+  const polygons = parts.filter(({ geomType }) => geomType === "polygon");
   return {
     id: feature.id,
+    layerId: feature.layerId,
     color: feature.style.strokeColor,
     width: feature.style.strokeWidth,
-    ptsPx,
-    geomType: polygon ? "polygon" : "line",
-    length: polygon ? undefined : getPolylineLength(ptsPx),
-    area: polygon ? getPolygonArea(ptsPx) : undefined,
-    perimeter: polygon ? getPolygonPerimeter(ptsPx) : undefined,
+    fillColor: feature.style.fillColor ?? feature.style.strokeColor,
+    fillOpacity: feature.style.fillOpacity ?? DEFAULT_FILL_OPACITY,
+    ptsPx: geometryVertices(feature.geometry),
+    parts,
+    geomType: strokeGeometryType(feature.geometry),
+    length: lines.length ? sum(lines.map(({ ptsPx }) => getPolylineLength(ptsPx))) : undefined,
+    area: polygons.length ? sum(polygons.map(({ ptsPx, holes }) => getPolygonArea(ptsPx, holes))) : undefined,
+    perimeter: polygons.length ? sum(polygons.map(({ ptsPx, holes }) => getPolygonPerimeter(ptsPx, holes))) : undefined,
+  };
+};
+
+/**
+ * Replaces stroke vertices with a list in `ptsPx` order, rebuilding parts so an edit preview keeps part and ring
+ * boundaries. A single-part stroke takes the whole list, matching `withGeometryVertices`.
+ */
+export const withStrokeVertices = (stroke: RenderableStroke, ptsPx: Point2D[]): RenderableStroke => {
+  if (stroke.parts.length === 1 && !stroke.parts[0].holes?.length) {
+    return { ...stroke, ptsPx, parts: [{ ...stroke.parts[0], ptsPx }] };
+  }
+  let index = 0;
+  const take = (count: number) => ptsPx.slice(index, (index += count));
+  const parts = stroke.parts.map((part) =>
+    part.holes?.length
+      ? { ...part, ptsPx: take(part.ptsPx.length), holes: part.holes.map((hole) => take(hole.length)) }
+      : { ...part, ptsPx: take(part.ptsPx.length) }
+  );
+  return { ...stroke, ptsPx, parts };
+};
+
+/**
+ * Pairs of `ptsPx` indices that form the segments of line parts and polygon rings, including each ring's closing
+ * segment. Point parts have no segments.
+ */
+export const strokeSegments = (stroke: RenderableStroke): Array<[number, number]> => {
+  const segments: Array<[number, number]> = [];
+  let start = 0;
+  const addList = (points: Point2D[], closed: boolean) => {
+    const count = closed ? points.length : points.length - 1;
+    for (let offset = 0; offset < count; offset += 1) {
+      segments.push([start + offset, start + ((offset + 1) % points.length)]);
+    }
+    start += points.length;
   };
+  for (const part of stroke.parts) {
+    if (part.geomType === "point") start += part.ptsPx.length;
+    else if (part.geomType === "line") addList(part.ptsPx, false);
+    else [part.ptsPx, ...(part.holes ?? [])].forEach((ring) => addList(ring, true));
+  }
+  return segments;
 };
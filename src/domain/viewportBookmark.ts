@@ -0,0 +1,33 @@
+import type { Point2D } from "./geometryFeature";
+
+/**
+ * A named view of the canvas. The centre is stored in model pixels rather than camera world units, so a bookmark
+ * shows the same area on any canvas size and lines up with feature coordinates in SQL.
+ */
+export interface ViewportBookmark {
+  id: string;
+  name: string;
+  center: Point2D;
+  zoom: number;
+  createdAt: string;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+export const isViewportBookmark = (value: unknown): value is ViewportBookmark => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const { id, name, center, zoom, createdAt } = value as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    id.length > 0 &&
+    typeof name === "string" &&
+    name.trim().length > 0 &&
+    Array.isArray(center) &&
+    center.length === 2 &&
+    center.every(isFiniteNumber) &&
+    isFiniteNumber(zoom) &&
+    zoom > 0 &&
+    typeof createdAt === "string" &&
+    Number.isFinite(Date.parse(createdAt))
+  );
+};
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import type { GeometryFeature } from "../domain/geometryFeature";
+import type { FeatureRequest, FeatureSource } from "./useGeometryFeatures";
+
+/**
+ * Features for `request`, read from the repository and read again whenever the stored features change. Resolves to
+ * `undefined` until the first read of the current request finishes; a `null` request reads nothing.
+ */
+export function useFeatureRequest(source: FeatureSource, request: FeatureRequest | null) {
+  const [loaded, setLoaded] = useState<{ request: FeatureRequest; features: GeometryFeature[] }>();
+
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+    void source.load(request).then((features) => {
+      if (!cancelled) setLoaded({ request, features });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [request, source]);
+
+  // 別の request の結果は返さない。保存後の読み直し中は同じ request の前回の結果を返す
+  return request && loaded?.request === request ? loaded.features : undefined;
+}
@@ -0,0 +1,33 @@
+import { useCallback, useMemo, useState } from "react";
+import type { GeometryFeature } from "../domain/geometryFeature";
+import { nextSelection, type SelectionMode } from "../lib/featureSelection";
+import { useFeatureRequest } from "./useFeatureRequest";
+import type { FeatureSource } from "./useGeometryFeatures";
+
+const NO_FEATURES: GeometryFeature[] = [];
+
+/** Selected feature IDs shared by the canvas, the SQL results table and the query sandbox. */
+export function useFeatureSelection(source: FeatureSource) {
+  const [requestedIds, setRequestedIds] = useState<string[]>([]);
+  // 選択中の feature は id で repository から読む。canvas の tile に無い feature も選択できる
+  const request = useMemo(() => (requestedIds.length > 0 ? { ids: requestedIds } : null), [requestedIds]);
+  const loaded = useFeatureRequest(source, request);
+  const selectedFeatures = loaded ?? NO_FEATURES;
+
+  // 削除・Clear された feature は選択から外す
+  const selectedIds = useMemo(() => {
+    if (!loaded) return requestedIds;
+    const existing = new Set(loaded.map(({ id }) => id));
+    const retained = requestedIds.filter((id) => existing.has(id));
+    return retained.length === requestedIds.length ? requestedIds : retained;
+  }, [loaded, requestedIds]);
+
+  const select = useCallback(
+    (ids: readonly string[], mode: SelectionMode = "replace") =>
+      setRequestedIds((current) => nextSelection(current, ids, mode)),
+    []
+  );
+  const clearSelection = useCallback(() => setRequestedIds([]), []);
+
+  return { selectedIds, selectedFeatures, select, clearSelection };
+}
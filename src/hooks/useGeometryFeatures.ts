@@ -1,23 +1,47 @@
-import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore, type ChangeEvent } from "react";
 import { createDuckDB, type DuckDBContext, type FeatureStore } from "../db/createDuckDB";
-import { GeometryRepository, PersistenceCheckpointError } from "../db/geometryRepository";
+import { GeometryRepository, PersistenceCheckpointError, type HistoryState } from "../db/geometryRepository";
 import {
   DEFAULT_LAYER_ID,
+  MINIMUM_VERTEX_COUNT,
+  applyVertexEdit,
   createGeometryFeature,
+  geometryVertices,
+  isFeatureGeometry,
   type FeatureGeometry,
   type GeometryFeature,
   type Layer,
   type Point2D,
+  type VertexEdit,
 } from "../domain/geometryFeature";
-import { simplifyFeatureGeometry, toRenderableStroke } from "../domain/renderableStroke";
+import { PIXEL_CALIBRATION, type Calibration } from "../domain/calibration";
+import { isGeographicCrs, withGeodesicMeasures } from "../domain/crs";
+import { applyLayerStyle, type LayerStyle } from "../domain/layerStyle";
+import { simplifyFeatureGeometry, toRenderableStroke, type RenderableStroke } from "../domain/renderableStroke";
+import type { ViewportBookmark } from "../domain/viewportBookmark";
+import { centeredPlacement, type ReferenceImage, type ReferenceImagePlacement } from "../domain/referenceImage";
+import { DEFAULT_GRID_SETTINGS, type GridSettings } from "../lib/adaptiveGrid";
 import { loadExportFeatureCollection } from "../lib/exportGeometryFeatures";
 import { importGeometryFeaturesWithContext } from "../lib/importGeometryFeatures";
+import type { PixelBox } from "../lib/featureSelection";
+import { featureTilesInView, sameFeatureTiles, type FeatureTile } from "../lib/featureTiles";
+import { boxesIntersect } from "../lib/levelOfDetail";
 import { createPromiseQueue } from "../lib/promiseQueue";
 import type { QueryResult } from "../db/queryRuntime";
-import { queryResultFeatures } from "../lib/queryResultGeometry";
+import { queryResultCrs, queryResultFeatures } from "../lib/queryResultGeometry";
 import { createId } from "../lib/id";
+import type { PropertiesUpdate } from "../lib/attributeTable";
+import { geometryCenter, isIdentityTransform, transformGeometry, type FeatureTransform } from "../lib/featureTransform";
+import { createValueStore, type ValueStore } from "../lib/valueStore";
+import { pointBounds, type CanvasFrame, type CanvasView } from "../lib/viewportFit";
 
-export type GeometryType = "line" | "polygon";
+export type GeometryType = "point" | "line" | "polygon";
+
+const GEOMETRY_TYPES: Record<GeometryType, "Point" | "LineString" | "Polygon"> = {
+  point: "Point",
+  line: "LineString",
+  polygon: "Polygon",
+};
 
 export interface StorageStatus {
   opfs: boolean;
@@ -31,15 +55,73 @@ export type QueryPromotionResult =
   | { status: "saved"; count: number; layerName: string }
   | { status: "invalid-name" | "empty" | "failed" };
 
+/** Features to read outside the canvas tiles: by id, one layer's features, or every feature. */
+export type FeatureRequest = { ids: readonly string[] } | { layerId: string } | "all";
+
+/**
+ * Reads features on demand for the panels that need more than the canvas tiles. `revision` changes whenever the
+ * stored features change, so a consumer re-runs its request when the source changes.
+ */
+export interface FeatureSource {
+  revision: number;
+  load: (request: FeatureRequest) => Promise<GeometryFeature[]>;
+}
+
+// 操作で feature が変わった範囲（model pixel）。"all" は範囲を決められない変更（Clear・import など）
+type FeatureChange = readonly PixelBox[] | "all";
+
+const featureBounds = (features: GeometryFeature[]): PixelBox[] =>
+  features.flatMap(({ geometry }) => pointBounds(geometryVertices(geometry)) ?? []);
+
+const EMPTY_HISTORY: HistoryState = { canUndo: false, canRedo: false };
+
 const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
 
-export function useGeometryFeatures(strokeColor: string, strokeWidth: number, simplifyOn: boolean) {
+// 再読込で中身が変わらなかった feature は前の object を使い回し、描画 buffer の書き換えを変更分だけにする
+const reuseUnchangedFeatures = (current: GeometryFeature[], next: GeometryFeature[]): GeometryFeature[] => {
+  const previous = new Map(current.map((feature) => [feature.id, feature]));
+  return next.map((feature) => {
+    const same = previous.get(feature.id);
+    return same && JSON.stringify(same) === JSON.stringify(feature) ? same : feature;
+  });
+};
+
+const readImageFile = async (file: File): Promise<Pick<ReferenceImage, "dataUrl" | "width" | "height">> => {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+  const bitmap = await createImageBitmap(file);
+  try {
+    return { dataUrl, width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export function useGeometryFeatures(
+  strokeColor: string,
+  strokeWidth: number,
+  simplifyOn: boolean,
+  frame: ValueStore<CanvasFrame | null>
+) {
   const repositoryRef = useRef<GeometryRepository | null>(null);
   const generationRef = useRef(0);
   const queueRef = useRef(createPromiseQueue());
-  const [features, setFeatures] = useState<GeometryFeature[]>([]);
   const [layers, setLayers] = useState<Layer[]>([]);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [calibration, setCalibration] = useState<Calibration>(PIXEL_CALIBRATION);
+  const [bookmarks, setBookmarks] = useState<ViewportBookmark[]>([]);
+  const [gridSettings, setGridSettings] = useState<GridSettings>(DEFAULT_GRID_SETTINGS);
+  // 画像本体は大きいので、操作ごとの再読込（loadRepositoryState）には含めない
+  const [referenceImage, setReferenceImage] = useState<ReferenceImage | null>(null);
+  const [preferredLayerId, setActiveLayerId] = useState(DEFAULT_LAYER_ID);
+  const [featureCounts, setFeatureCounts] = useState<Map<string, number>>(() => new Map());
   const [loading, setLoading] = useState(true);
+  // 保存済みの feature が変わるたびに進め、featureSource から読んだ側に読み直させる
+  const [revision, setRevision] = useState(0);
   const [operationNotice, setOperationNotice] = useState<string>();
   const [storageStatus, setStorageStatus] = useState<StorageStatus>({
     opfs: false,
@@ -47,14 +129,125 @@ export function useGeometryFeatures(strokeColor: string, strokeWidth: number, si
     store: "json",
   });
 
-  const loadRepositoryState = useCallback(async (repository: GeometryRepository, generation: number) => {
-    const [nextFeatures, nextLayers] = await Promise.all([repository.listFeatures(), repository.listLayers()]);
-    if (generationRef.current !== generation || repositoryRef.current !== repository) return false;
-    setFeatures(nextFeatures);
-    setLayers(nextLayers);
-    setStorageStatus((current) => ({ ...current, error: undefined }));
-    return true;
-  }, []);
+  // canvas は表示範囲の tile に入る feature だけを読み込む。tile は pan で増減し、zoom が2倍を跨ぐと粒度が変わる
+  const [tileStore] = useState(() => createValueStore<FeatureTile[]>([], sameFeatureTiles));
+  useEffect(() => {
+    const update = () => {
+      const current = frame.get();
+      tileStore.set(current ? featureTilesInView(current) : []);
+    };
+    update();
+    return frame.subscribe(update);
+  }, [frame, tileStore]);
+  const tiles = useSyncExternalStore(tileStore.subscribe, tileStore.get);
+  // 読み込み済みの tile は変更された範囲に掛かるものだけ捨てる
+  const [tileCache] = useState(() => new Map<string, { tile: FeatureTile; features: GeometryFeature[] }>());
+  const [tileFeatures, setTileFeatures] = useState<GeometryFeature[]>([]);
+
+  // queue の中で呼ぶ。表示範囲の tile のうち未読込のものを読み、範囲外の tile は捨てる
+  const loadTileFeatures = useCallback(
+    async (repository: GeometryRepository, isCurrent: () => boolean) => {
+      const inView = tileStore.get();
+      for (const tile of inView) {
+        if (!isCurrent()) return null;
+        if (!tileCache.has(tile.key)) {
+          tileCache.set(tile.key, { tile, features: await repository.listFeaturesInBounds(tile.bounds, tile.zoom) });
+        }
+      }
+      if (!isCurrent()) return null;
+      const keys = new Set(inView.map(({ key }) => key));
+      for (const key of tileCache.keys()) if (!keys.has(key)) tileCache.delete(key);
+      // tile の境界を跨ぐ feature は1つにまとめる
+      const byId = new Map([...tileCache.values()].flatMap(({ features }) => features).map((f) => [f.id, f]));
+      return [...byId.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    [tileCache, tileStore]
+  );
+
+  // tile の読み直しも他の state と一緒に済ませてから反映し、保存直後の canvas に古い feature が残らないようにする
+  const loadRepositoryState = useCallback(
+    async (repository: GeometryRepository, generation: number, change?: FeatureChange) => {
+      const isCurrent = () => generationRef.current === generation && repositoryRef.current === repository;
+      const [nextLayers, nextHistory, nextCalibration, nextBookmarks, nextGridSettings, nextFeatureCounts] =
+        await Promise.all([
+          repository.listLayers(),
+          repository.historyState(),
+          repository.calibration(),
+          repository.listBookmarks(),
+          repository.gridSettings(),
+          repository.featureCounts(),
+        ]);
+      if (!isCurrent()) return false;
+      if (change === "all") tileCache.clear();
+      else if (change) {
+        for (const [key, { tile }] of tileCache) {
+          if (change.some((bounds) => boxesIntersect(bounds, tile.bounds))) tileCache.delete(key);
+        }
+      }
+      const nextTileFeatures = change ? await loadTileFeatures(repository, isCurrent) : null;
+      if (!isCurrent()) return false;
+      setLayers(nextLayers);
+      setHistory(nextHistory);
+      setCalibration(nextCalibration);
+      setBookmarks(nextBookmarks);
+      setGridSettings(nextGridSettings);
+      setFeatureCounts(nextFeatureCounts);
+      setStorageStatus((current) => ({ ...current, error: undefined }));
+      if (nextTileFeatures) {
+        setTileFeatures((current) => reuseUnchangedFeatures(current, nextTileFeatures));
+        setRevision((current) => current + 1);
+      }
+      return true;
+    },
+    [loadTileFeatures, tileCache]
+  );
+
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    void queueRef
+      .current(async () => {
+        const repository = repositoryRef.current;
+        if (!repository) return;
+        const next = await loadTileFeatures(repository, () => !cancelled && repositoryRef.current === repository);
+        if (next) setTileFeatures((current) => reuseUnchangedFeatures(current, next));
+      })
+      .catch((error) => {
+        if (!cancelled) setStorageStatus((current) => ({ ...current, error: errorMessage(error) }));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadTileFeatures, loading, tiles]);
+
+  // 一覧・選択・属性表などは tile とは別に、必要な feature だけを repository から読む
+  const loadFeatures = useCallback(
+    (request: FeatureRequest) =>
+      queueRef.current(async () => {
+        const repository = repositoryRef.current;
+        if (!repository) return [];
+        try {
+          return request === "all"
+            ? await repository.listFeatures()
+            : "ids" in request
+              ? await repository.listFeaturesById(request.ids)
+              : await repository.listLayerFeatures(request.layerId);
+        } catch (error) {
+          if (repositoryRef.current === repository) {
+            setStorageStatus((current) => ({ ...current, error: errorMessage(error) }));
+          }
+          return [];
+        }
+      }),
+    []
+  );
+  const featureSource = useMemo<FeatureSource>(() => ({ revision, load: loadFeatures }), [loadFeatures, revision]);
+
+  const layerExtent = useCallback(
+    (layerIds: readonly string[]) =>
+      queueRef.current(async () => (await repositoryRef.current?.layerExtent(layerIds)) ?? null),
+    []
+  );
 
   useEffect(() => {
     const enqueue = queueRef.current;
@@ -89,7 +282,9 @@ export function useGeometryFeatures(strokeColor: string, strokeWidth: number, si
 
         repositoryRef.current = repository;
         setStorageStatus({ ...context.capabilities, migrationWarning });
-        await loadRepositoryState(repository, generation);
+        await loadRepositoryState(repository, generation, "all");
+        const image = await repository.referenceImage();
+        if (isCurrent()) setReferenceImage(image);
       } catch (error) {
         if (isCurrent()) {
           setStorageStatus((current) => ({ ...current, error: errorMessage(error) }));
@@ -108,21 +303,22 @@ export function useGeometryFeatures(strokeColor: string, strokeWidth: number, si
   }, [loadRepositoryState]);
 
   const runRepositoryAction = useCallback(
-    (action: (repository: GeometryRepository) => Promise<void>, onSuccess?: () => void) =>
+    (action: (repository: GeometryRepository) => Promise<FeatureChange | void>, onSuccess?: () => void) =>
       queueRef.current(async () => {
         const repository = repositoryRef.current;
         const generation = generationRef.current;
         if (!repository) return false;
         setOperationNotice(undefined);
         try {
-          await action(repository);
-          const loaded = await loadRepositoryState(repository, generation);
+          const change = await action(repository);
+          const loaded = await loadRepositoryState(repository, generation, change ?? undefined);
           if (loaded) onSuccess?.();
           return loaded;
         } catch (error) {
           if (generationRef.current === generation && repositoryRef.current === repository) {
             if (error instanceof PersistenceCheckpointError) {
-              await loadRepositoryState(repository, generation);
+              // 変更は保存されているが範囲が分からないので、読み込み済みの tile をすべて読み直す
+              await loadRepositoryState(repository, generation, "all");
               setStorageStatus((current) => ({
                 ...current,
                 migrationWarning: errorMessage(error),
@@ -139,37 +335,208 @@ export function useGeometryFeatures(strokeColor: string, strokeWidth: number, si
   );
 
   const handleRefresh = useCallback(
-    () => runRepositoryAction(async () => undefined).then(() => undefined),
+    () => runRepositoryAction(async () => "all").then(() => undefined),
     [runRepositoryAction]
   );
 
+  // Undo/Redo は DuckDB の operation journal を辿るため、リロード後も同じ履歴を使える
   const handleUndo = useCallback(
-    () => runRepositoryAction((repository) => repository.deleteLatestFeature()),
+    () =>
+      runRepositoryAction(async (repository) => {
+        const changed = await repository.historyFeatureBounds("undo");
+        await repository.undo();
+        return changed;
+      }),
+    [runRepositoryAction]
+  );
+  const handleRedo = useCallback(
+    () =>
+      runRepositoryAction(async (repository) => {
+        const changed = await repository.historyFeatureBounds("redo");
+        await repository.redo();
+        return changed;
+      }),
+    [runRepositoryAction]
+  );
+  const saveCalibration = useCallback(
+    (next: Calibration) => runRepositoryAction((repository) => repository.saveCalibration(next)),
+    [runRepositoryAction]
+  );
+
+  // bookmark は表示位置の保存なので undo 履歴には載せない
+  const createBookmark = useCallback(
+    async (requestedName: string, view: CanvasView) => {
+      const name = requestedName.trim();
+      if (!name) return;
+      const bookmark: ViewportBookmark = {
+        id: createId(),
+        name,
+        center: [view.center[0], view.center[1]],
+        zoom: view.zoom,
+        createdAt: new Date().toISOString(),
+      };
+      await runRepositoryAction((repository) => repository.createBookmark(bookmark));
+    },
+    [runRepositoryAction]
+  );
+
+  const renameBookmark = useCallback(
+    (id: string, name: string) => runRepositoryAction((repository) => repository.renameBookmark(id, name)),
+    [runRepositoryAction]
+  );
+
+  const deleteBookmark = useCallback(
+    (id: string) => runRepositoryAction((repository) => repository.deleteBookmark(id)),
+    [runRepositoryAction]
+  );
+
+  const saveGridSettings = useCallback(
+    (next: GridSettings) => runRepositoryAction((repository) => repository.saveGridSettings(next)),
+    [runRepositoryAction]
+  );
+
+  // 新しい画像は現在の表示の中央に原寸で置く
+  const loadReferenceImage = useCallback(
+    async (file: File, center: Point2D) => {
+      let image: ReferenceImage | undefined;
+      await runRepositoryAction(
+        async (repository) => {
+          const { dataUrl, width, height } = await readImageFile(file);
+          image = {
+            id: createId(),
+            name: file.name,
+            dataUrl,
+            width,
+            height,
+            ...centeredPlacement(width, height, center),
+            createdAt: new Date().toISOString(),
+          };
+          await repository.saveReferenceImage(image);
+        },
+        () => setReferenceImage(image ?? null)
+      );
+    },
     [runRepositoryAction]
   );
+
+  const updateReferenceImage = useCallback(
+    (changes: Partial<ReferenceImagePlacement>) => {
+      const id = referenceImage?.id;
+      if (!id) return Promise.resolve(false);
+      return runRepositoryAction(
+        (repository) => repository.updateReferenceImage(id, changes),
+        () => setReferenceImage((current) => (current?.id === id ? { ...current, ...changes } : current))
+      );
+    },
+    [referenceImage?.id, runRepositoryAction]
+  );
+
+  const removeReferenceImage = useCallback(() => {
+    const id = referenceImage?.id;
+    if (!id) return Promise.resolve(false);
+    return runRepositoryAction(
+      (repository) => repository.deleteReferenceImage(id),
+      () => setReferenceImage(null)
+    );
+  }, [referenceImage?.id, runRepositoryAction]);
+
   const handleClear = useCallback(
-    () => runRepositoryAction((repository) => repository.clearFeatures()),
+    () =>
+      runRepositoryAction(async (repository) => {
+        await repository.clearFeatures();
+        return "all";
+      }),
     [runRepositoryAction]
   );
 
-  const persistStroke = useCallback(
-    async (points: Point2D[], geomType: GeometryType) => {
-      if (points.length < (geomType === "polygon" ? 3 : 2)) return;
-      const geometry: FeatureGeometry = {
-        type: geomType === "polygon" ? "Polygon" : "LineString",
-        coordinates: points,
+  // 削除済みなど存在しない layer が選ばれている場合は Default layer へ書き込む
+  const activeLayerId = layers.some(({ id }) => id === preferredLayerId) ? preferredLayerId : DEFAULT_LAYER_ID;
+
+  const createLayer = useCallback(
+    async (requestedName: string) => {
+      const name = requestedName.trim();
+      if (!name) return;
+      const layer: Layer = {
+        id: createId(),
+        name,
+        visible: true,
+        order: layers.reduce((highest, candidate) => Math.max(highest, candidate.order), -1) + 1,
+        createdAt: new Date().toISOString(),
       };
-      const canonicalGeometry = simplifyOn
-        ? simplifyFeatureGeometry(geometry, Math.max(0, Math.min(strokeWidth * 0.3, 3)))
-        : simplifyFeatureGeometry(geometry, 0);
+      await runRepositoryAction(
+        (repository) => repository.insertLayers([layer]),
+        () => setActiveLayerId(layer.id)
+      );
+    },
+    [layers, runRepositoryAction]
+  );
+
+  const updateLayer = useCallback(
+    (id: string, changes: Partial<Pick<Layer, "name" | "visible">>) =>
+      runRepositoryAction((repository) => repository.updateLayer(id, changes)),
+    [runRepositoryAction]
+  );
+
+  const deleteLayer = useCallback(
+    (id: string) =>
+      runRepositoryAction(async (repository) => {
+        const extent = await repository.layerExtent([id]);
+        await repository.deleteLayer(id);
+        return extent ? [extent] : [];
+      }),
+    [runRepositoryAction]
+  );
+
+  const setLayerStyle = useCallback(
+    (id: string, style: LayerStyle | null) => runRepositoryAction((repository) => repository.setLayerStyle(id, style)),
+    [runRepositoryAction]
+  );
+
+  const reprojectLayer = useCallback(
+    (id: string, targetCrs: string) =>
+      runRepositoryAction(async (repository) => {
+        const before = await repository.layerExtent([id]);
+        await repository.reprojectLayer(id, targetCrs);
+        const after = await repository.layerExtent([id]);
+        return [before, after].flatMap((extent) => extent ?? []);
+      }),
+    [runRepositoryAction]
+  );
+
+  const moveLayer = useCallback(
+    async (id: string, offset: -1 | 1) => {
+      const layerIds = layers.map((layer) => layer.id);
+      const index = layerIds.indexOf(id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= layerIds.length) return;
+      [layerIds[index], layerIds[target]] = [layerIds[target], layerIds[index]];
+      await runRepositoryAction((repository) => repository.reorderLayers(layerIds));
+    },
+    [layers, runRepositoryAction]
+  );
+
+  const persistStroke = useCallback(
+    async (points: Point2D[], geomType: GeometryType, { tolerance }: { tolerance?: number } = {}) => {
+      const type = GEOMETRY_TYPES[geomType];
+      if (points.length < MINIMUM_VERTEX_COUNT[type]) return;
+      const geometry: FeatureGeometry =
+        type === "Point" ? { type, coordinates: points[0] } : { type, coordinates: points };
+      // 呼び出し側の許容誤差（図形ツールは 0、フリーハンドはズーム連動）は Simplify 設定より優先する
+      const canonicalGeometry = simplifyFeatureGeometry(
+        geometry,
+        tolerance ?? (simplifyOn ? Math.max(0, Math.min(strokeWidth * 0.3, 3)) : 0)
+      );
       const feature = createGeometryFeature({
         geometry: canonicalGeometry,
         style: { strokeColor, strokeWidth },
-        layerId: DEFAULT_LAYER_ID,
+        layerId: activeLayerId,
+      });
+      await runRepositoryAction(async (repository) => {
+        await repository.insertFeature(feature);
+        return featureBounds([feature]);
       });
-      await runRepositoryAction((repository) => repository.insertFeature(feature));
     },
-    [runRepositoryAction, simplifyOn, strokeColor, strokeWidth]
+    [activeLayerId, runRepositoryAction, simplifyOn, strokeColor, strokeWidth]
   );
 
   const promoteQueryResult = useCallback(
@@ -179,28 +546,69 @@ export function useGeometryFeatures(strokeColor: string, strokeWidth: number, si
       const layerId = createId();
       const promotedFeatures = queryResultFeatures(result, layerId);
       if (promotedFeatures.length === 0) return { status: "empty" };
+      // 結果がすべて同じ CRS の行なら、保存先の layer もその CRS にする
+      const crs = queryResultCrs(result);
       const layer: Layer = {
         id: layerId,
         name: layerName,
         visible: true,
         order: layers.reduce((highest, candidate) => Math.max(highest, candidate.order), -1) + 1,
         createdAt: new Date().toISOString(),
+        ...(crs ? { crs } : {}),
       };
-      const saved = await runRepositoryAction((repository) => repository.importGeoJSON([layer], promotedFeatures));
+      const saved = await runRepositoryAction(async (repository) => {
+        await repository.importGeoJSON([layer], promotedFeatures);
+        const extent = await repository.layerExtent([layerId]);
+        return extent ? [extent] : [];
+      });
       if (!saved) return { status: "failed" };
       return { status: "saved", count: promotedFeatures.length, layerName };
     },
     [layers, runRepositoryAction]
   );
 
+  // 編集対象は表示範囲の tile に無いこともあるので、保存前に repository から読む
   const updateStroke = useCallback(
-    async (id: string, points: Point2D[]) => {
-      const feature = features.find((candidate) => candidate.id === id);
-      if (!feature || points.length < (feature.geometry.type === "Polygon" ? 3 : 2)) return;
-      const geometry = { type: feature.geometry.type, coordinates: points } as FeatureGeometry;
-      await runRepositoryAction((repository) => repository.updateGeometry(id, geometry));
+    async (id: string, edit: VertexEdit) => {
+      await runRepositoryAction(async (repository) => {
+        const [feature] = await repository.listFeaturesById([id]);
+        if (!feature) return;
+        const geometry = applyVertexEdit(feature.geometry, edit);
+        if (!geometry) {
+          // 最小頂点数（LineString 2点・Polygon 3点）を下回る削除は保存しない
+          if (edit.type === "delete") setOperationNotice("頂点数が最小値のため、この頂点は削除できません。");
+          return;
+        }
+        await repository.updateGeometry(id, geometry);
+        return featureBounds([feature, { ...feature, geometry }]);
+      });
+    },
+    [runRepositoryAction]
+  );
+
+  // 移動・回転・拡大縮小は1回の updateGeometry として保存し、Undo も1ステップで戻る
+  const transformFeature = useCallback(
+    async (id: string, transform: FeatureTransform) => {
+      if (isIdentityTransform(transform)) return;
+      await runRepositoryAction(async (repository) => {
+        const [feature] = await repository.listFeaturesById([id]);
+        if (!feature) return;
+        const geometry = transformGeometry(feature.geometry, geometryCenter(feature.geometry), transform);
+        if (!isFeatureGeometry(geometry)) return;
+        await repository.updateGeometry(id, geometry);
+        return featureBounds([feature, { ...feature, geometry }]);
+      });
     },
-    [features, runRepositoryAction]
+    [runRepositoryAction]
+  );
+
+  const updateProperties = useCallback(
+    (updates: PropertiesUpdate[]) =>
+      runRepositoryAction(async (repository) => {
+        await repository.updateProperties(updates);
+        return featureBounds(await repository.listFeaturesById(updates.map(({ id }) => id)));
+      }),
+    [runRepositoryAction]
   );
 
   const handleImportGeoJSON = useCallback(
@@ -209,19 +617,28 @@ export function useGeometryFeatures(strokeColor: string, strokeWidth: number, si
       event.target.value = "";
       if (!file) return;
       let warnings: string[] = [];
+      let crsWarning: string | undefined;
+      let unprojected = false;
       await runRepositoryAction(
         async (repository) => {
           const imported = await importGeometryFeaturesWithContext(repository, () => file.text());
           warnings = imported.warnings;
+          crsWarning = imported.crsWarning;
+          unprojected = !storageStatus.spatial && imported.layers.some(({ crs }) => isGeographicCrs(crs));
+          return "all";
         },
         () => {
-          if (warnings.length > 0) {
-            setOperationNotice(`GeoJSON import: ${warnings.length}件をスキップしました。`);
-          }
+          // CRS が無い・未対応の場合は、座標を WGS 84 と px のどちらとして取り込んだかを明示する
+          const notices = [
+            warnings.length > 0 && `${warnings.length}件をスキップしました。`,
+            crsWarning && `${crsWarning}.`,
+            unprojected && "Spatial extension が無いため経緯度のまま取り込みました（計測は測地線で行います）。",
+          ].filter(Boolean);
+          if (notices.length > 0) setOperationNotice(`GeoJSON import: ${notices.join(" ")}`);
         }
       );
     },
-    [runRepositoryAction]
+    [runRepositoryAction, storageStatus.spatial]
   );
 
   const handleExportGeoJSON = useCallback(async () => {
@@ -265,21 +682,75 @@ export function useGeometryFeatures(strokeColor: string, strokeWidth: number, si
     }
   }, [loading]);
 
-  const strokes = useMemo(() => features.map(toRenderableStroke), [features]);
+  // 非表示 layer の feature は描画・編集対象から外し、layer order 順（後ろほど手前）に並べる
+  // 経緯度・Web Mercator の layer は計測値を測地線（m）で持つ
+  // layer の style rule は計測値が決まってから適用する（面積・長さで分類できるように）
+  // feature・crs・style・calibration が変わらない stroke は同じ object を返し、Scene が差分だけ描き直せるようにする
+  const [strokeCache] = useState(() => new WeakMap<GeometryFeature, { key: string; stroke: RenderableStroke }>());
+  const strokes = useMemo(() => {
+    const layerOrder = new Map(layers.filter(({ visible }) => visible).map(({ id }, index) => [id, index]));
+    const layerById = new Map(layers.map((layer) => [layer.id, layer]));
+    const layerKeys = new Map(
+      layers.map((layer) => [layer.id, JSON.stringify([layer.crs ?? null, layer.style ?? null, calibration])])
+    );
+    return tileFeatures
+      .filter(({ layerId }) => layerOrder.has(layerId))
+      .sort((a, b) => (layerOrder.get(a.layerId) ?? 0) - (layerOrder.get(b.layerId) ?? 0))
+      .map((feature) => {
+        const key = layerKeys.get(feature.layerId) ?? "";
+        const cached = strokeCache.get(feature);
+        if (cached?.key === key) return cached.stroke;
+        const layer = layerById.get(feature.layerId);
+        const stroke = applyLayerStyle(
+          withGeodesicMeasures(toRenderableStroke(feature), layer?.crs),
+          feature.properties,
+          layer?.style,
+          calibration
+        );
+        strokeCache.set(feature, { key, stroke });
+        return stroke;
+      });
+  }, [calibration, layers, strokeCache, tileFeatures]);
   const canExport = !loading && repositoryRef.current !== null;
 
   return {
-    features,
+    featureSource,
+    featureCounts,
+    layerExtent,
     layers,
+    activeLayerId,
     loading,
     operationNotice,
     canExport,
     storageStatus,
+    history,
+    calibration,
+    saveCalibration,
+    gridSettings,
+    saveGridSettings,
+    referenceImage,
+    loadReferenceImage,
+    updateReferenceImage,
+    removeReferenceImage,
+    bookmarks,
+    createBookmark,
+    renameBookmark,
+    deleteBookmark,
     strokes,
     persistStroke,
+    setActiveLayerId,
+    createLayer,
+    updateLayer,
+    setLayerStyle,
+    deleteLayer,
+    reprojectLayer,
+    moveLayer,
     promoteQueryResult,
     updateStroke,
+    transformFeature,
+    updateProperties,
     handleUndo,
+    handleRedo,
     handleClear,
     handleRefresh,
     handleImportGeoJSON,
@@ -1,45 +1,74 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { createQueryRuntime, type QueryResult, type QueryRuntime } from "../db/queryRuntime";
-import type { GeometryFeature, Layer } from "../domain/geometryFeature";
+import { PIXEL_CALIBRATION, type Calibration } from "../domain/calibration";
+import type { Layer } from "../domain/geometryFeature";
 import type { RenderableStroke } from "../domain/renderableStroke";
+import type { ViewportBookmark } from "../domain/viewportBookmark";
 import { queryResultStrokes } from "../lib/queryResultGeometry";
+import type { FeatureSource } from "./useGeometryFeatures";
 
 export type QueryUiStatus = "initializing" | "ready" | "running" | "cancelled" | "empty" | "success" | "error";
 
 export const SQL_EXAMPLES = [
   {
     label: "Filter features",
-    sql: "SELECT id, geometry_type, geometry_geojson, layer_id FROM geometry_features ORDER BY feature_order",
+    sql: "SELECT id, geometry_type, geometry_geojson, crs, layer_id FROM geometry_features ORDER BY feature_order",
   },
   {
     label: "Measure geometry",
-    sql: "SELECT id, ST_Length(ST_GeomFromGeoJSON(geometry_geojson)) AS length FROM geometry_features",
+    sql: "SELECT id, geometry_type, length, area, perimeter, measurement_unit FROM geometry_features",
+  },
+  {
+    label: "Selected features",
+    sql: "SELECT id, geometry_type, geometry_geojson, crs, layer_id FROM selected_features ORDER BY feature_order",
   },
   {
     label: "Convert geometry",
     sql: "SELECT id, ST_AsText(ST_GeomFromGeoJSON(geometry_geojson)) AS geometry_wkt FROM geometry_features",
   },
+  {
+    label: "Bookmarks",
+    sql: "SELECT name, center_x, center_y, zoom FROM geometry_bookmarks ORDER BY created_at",
+  },
 ] as const;
 
-export function useQueryWorkbench(features: GeometryFeature[], layers: Layer[], storageLoading: boolean) {
+const NO_SELECTION: readonly string[] = [];
+const NO_BOOKMARKS: ViewportBookmark[] = [];
+
+export function useQueryWorkbench(
+  source: FeatureSource,
+  layers: Layer[],
+  storageLoading: boolean,
+  selectedIds: readonly string[] = NO_SELECTION,
+  calibration: Calibration = PIXEL_CALIBRATION,
+  bookmarks: ViewportBookmark[] = NO_BOOKMARKS
+) {
   const runtimeRef = useRef<QueryRuntime | null>(null);
+  const selectedIdsRef = useRef(selectedIds);
   const requestRef = useRef(0);
   const queueRef = useRef(Promise.resolve());
   const [sql, setSql] = useState<string>(SQL_EXAMPLES[0].sql);
+  // editor の内容とは別に、直近に実行した SQL を持つ
+  const [lastRunSql, setLastRunSql] = useState<string>();
   const [history, setHistory] = useState<string[]>([]);
   const [status, setStatus] = useState<QueryUiStatus>("initializing");
   const [result, setResult] = useState<QueryResult | null>(null);
   const [temporaryStrokes, setTemporaryStrokes] = useState<RenderableStroke[]>([]);
   const [error, setError] = useState<string>();
+  // Spatial extension が sandbox 側で読み込めたか。保存先の DuckDB とは別に読み込むので結果も別になる
+  const [spatial, setSpatial] = useState(false);
 
   useEffect(() => {
     if (storageLoading) return;
     setTemporaryStrokes([]);
-    const snapshot = { features, layers };
+    // sandbox へ写す feature は React state に持たず、保存済みの feature が変わるたびに repository から読む
     queueRef.current = queueRef.current.then(async () => {
       try {
+        const features = await source.load("all");
+        const snapshot = { features, layers, selectedIds: selectedIdsRef.current, calibration, bookmarks };
         if (runtimeRef.current) await runtimeRef.current.refresh(snapshot);
         else runtimeRef.current = await createQueryRuntime(snapshot);
+        setSpatial(runtimeRef.current.spatial);
         setStatus("ready");
         setError(undefined);
       } catch (cause) {
@@ -47,7 +76,20 @@ export function useQueryWorkbench(features: GeometryFeature[], layers: Layer[],
         setError(cause instanceof Error ? cause.message : String(cause));
       }
     });
-  }, [features, layers, storageLoading]);
+  }, [bookmarks, calibration, layers, source, storageLoading]);
+
+  // 選択変更は selected_features だけを更新し、実行中の query や temporary strokes は維持する
+  useEffect(() => {
+    if (selectedIdsRef.current === selectedIds) return;
+    selectedIdsRef.current = selectedIds;
+    queueRef.current = queueRef.current.then(async () => {
+      try {
+        await runtimeRef.current?.refreshSelection(selectedIds);
+      } catch (cause) {
+        setError(cause instanceof Error ? cause.message : String(cause));
+      }
+    });
+  }, [selectedIds]);
 
   useEffect(
     () => () => {
@@ -58,18 +100,20 @@ export function useQueryWorkbench(features: GeometryFeature[], layers: Layer[],
     []
   );
 
-  const execute = useCallback(async () => {
+  // 生成した SQL も手書きの query と同じ履歴・結果表示に載せる。editor の入力は書き換えない
+  const run = useCallback(async (text: string) => {
     const request = ++requestRef.current;
+    setLastRunSql(text);
     setStatus("running");
     setTemporaryStrokes([]);
     setError(undefined);
-    setHistory((current) => [sql, ...current.filter((entry) => entry !== sql)].slice(0, 10));
+    setHistory((current) => [text, ...current.filter((entry) => entry !== text)].slice(0, 10));
     try {
       await queueRef.current;
       if (request !== requestRef.current) return;
       const runtime = runtimeRef.current;
       if (!runtime) throw new Error("Query runtime is unavailable.");
-      const next = await runtime.execute(sql);
+      const next = await runtime.execute(text);
       if (request !== requestRef.current || !next) return;
       setResult(next);
       setTemporaryStrokes(queryResultStrokes(next));
@@ -80,7 +124,9 @@ export function useQueryWorkbench(features: GeometryFeature[], layers: Layer[],
       setStatus("error");
       setError(cause instanceof Error ? cause.message : String(cause));
     }
-  }, [sql]);
+  }, []);
+
+  const execute = useCallback(() => run(sql), [run, sql]);
 
   const cancel = useCallback(async () => {
     requestRef.current += 1;
@@ -89,5 +135,5 @@ export function useQueryWorkbench(features: GeometryFeature[], layers: Layer[],
     setStatus("cancelled");
   }, []);
 
-  return { cancel, error, execute, history, result, setSql, sql, status, temporaryStrokes };
+  return { cancel, error, execute, history, lastRunSql, result, run, setSql, spatial, sql, status, temporaryStrokes };
 }
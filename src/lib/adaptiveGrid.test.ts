@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GRID_SETTINGS, adaptiveGridSpacing, gridLines, parseGridSettings } from "./adaptiveGrid";
+
+describe("adaptive grid", () => {
+  it("zoomに応じてmajorEvery倍ずつ細分化・統合し、画面上の間隔を保つ", () => {
+    expect(adaptiveGridSpacing(DEFAULT_GRID_SETTINGS, 1)).toBe(20);
+    expect(adaptiveGridSpacing(DEFAULT_GRID_SETTINGS, 0.6)).toBe(20);
+    expect(adaptiveGridSpacing(DEFAULT_GRID_SETTINGS, 0.5)).toBe(100);
+    expect(adaptiveGridSpacing(DEFAULT_GRID_SETTINGS, 0.1)).toBe(500);
+    expect(adaptiveGridSpacing(DEFAULT_GRID_SETTINGS, 10)).toBe(4);
+  });
+
+  it("表示範囲だけのmajor/minor線を返し、非表示なら何も返さない", () => {
+    const frame = { center: [50, 50] as [number, number], zoom: 1, width: 100, height: 40 };
+    const lines = gridLines(frame, DEFAULT_GRID_SETTINGS);
+
+    expect(lines).toEqual({
+      spacing: 20,
+      minor: { x: [20, 40, 60, 80], y: [40, 60] },
+      major: { x: [0, 100], y: [] },
+    });
+    expect(gridLines(frame, { ...DEFAULT_GRID_SETTINGS, visible: false })).toBeNull();
+  });
+
+  it("保存された設定を検証し、不正な値は既定値へ戻す", () => {
+    expect(parseGridSettings('{"visible":false,"spacing":10,"majorEvery":4}')).toEqual({
+      visible: false,
+      spacing: 10,
+      majorEvery: 4,
+    });
+    expect(parseGridSettings('{"visible":true,"spacing":0,"majorEvery":5}')).toBe(DEFAULT_GRID_SETTINGS);
+    expect(parseGridSettings("not json")).toBe(DEFAULT_GRID_SETTINGS);
+    expect(parseGridSettings(undefined)).toBe(DEFAULT_GRID_SETTINGS);
+  });
+});
@@ -0,0 +1,78 @@
+import type { CanvasFrame } from "./viewportFit";
+
+export interface GridSettings {
+  visible: boolean;
+  /** Base spacing of grid lines in model pixels. */
+  spacing: number;
+  /** Every n-th line is drawn as a major line, and the grid coarsens or refines by this factor when zooming. */
+  majorEvery: number;
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = { visible: true, spacing: 20, majorEvery: 5 };
+
+/** Closest grid lines may come on screen before the grid switches to the next coarser level, in CSS pixels. */
+export const GRID_MIN_SCREEN_SPACING = 12;
+
+/** Upper bound on lines per axis, so a degenerate setting cannot build an enormous geometry. */
+const MAX_LINES_PER_AXIS = 1000;
+
+const isValidSettings = (value: Partial<GridSettings>): value is GridSettings =>
+  typeof value.visible === "boolean" &&
+  typeof value.spacing === "number" &&
+  Number.isFinite(value.spacing) &&
+  value.spacing > 0 &&
+  Number.isInteger(value.majorEvery) &&
+  (value.majorEvery ?? 0) >= 2;
+
+/** Reads stored grid settings, falling back to the defaults for missing or malformed values. */
+export const parseGridSettings = (value: string | undefined): GridSettings => {
+  if (value === undefined) return DEFAULT_GRID_SETTINGS;
+  try {
+    const parsed = JSON.parse(value) as Partial<GridSettings>;
+    return isValidSettings(parsed)
+      ? { visible: parsed.visible, spacing: parsed.spacing, majorEvery: parsed.majorEvery }
+      : DEFAULT_GRID_SETTINGS;
+  } catch {
+    return DEFAULT_GRID_SETTINGS;
+  }
+};
+
+/**
+ * Spacing actually drawn at `zoom`: the base spacing multiplied or divided by whole powers of `majorEvery`, choosing
+ * the finest level whose lines stay at least `minScreenSpacing` apart. Zooming in subdivides the grid and zooming out
+ * merges it, so the density on screen stays roughly constant.
+ */
+export const adaptiveGridSpacing = (
+  { spacing, majorEvery }: GridSettings,
+  zoom: number,
+  minScreenSpacing = GRID_MIN_SCREEN_SPACING
+): number => {
+  const level = Math.ceil(Math.log(minScreenSpacing / (spacing * zoom)) / Math.log(majorEvery) - 1e-9);
+  return spacing * majorEvery ** level;
+};
+
+export interface GridLines {
+  spacing: number;
+  /** Model-pixel x of vertical lines and y of horizontal lines, split into minor and major lines. */
+  minor: { x: number[]; y: number[] };
+  major: { x: number[]; y: number[] };
+}
+
+/** Grid lines covering the visible part of the canvas, or null when the grid is hidden or the frame is unusable. */
+export const gridLines = (frame: CanvasFrame, settings: GridSettings): GridLines | null => {
+  if (!settings.visible || !(frame.zoom > 0) || !isValidSettings(settings)) return null;
+  const spacing = adaptiveGridSpacing(settings, frame.zoom);
+  const majorSpacing = spacing * settings.majorEvery;
+  const lines: GridLines = { spacing, minor: { x: [], y: [] }, major: { x: [], y: [] } };
+  (["x", "y"] as const).forEach((axis, index) => {
+    const half = (axis === "x" ? frame.width : frame.height) / 2 / frame.zoom;
+    const first = Math.ceil((frame.center[index] - half) / spacing);
+    const last = Math.min(Math.floor((frame.center[index] + half) / spacing), first + MAX_LINES_PER_AXIS);
+    for (let step = first; step <= last; step += 1) {
+      const position = step * spacing;
+      const ratio = position / majorSpacing;
+      (Math.abs(ratio - Math.round(ratio)) < 1e-6 ? lines.major : lines.minor)[axis].push(position);
+    }
+  });
+  return lines;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { createGeometryFeature } from "../domain/geometryFeature";
+import {
+  addAttributeColumn,
+  attributeColumnType,
+  attributeColumns,
+  attributeRows,
+  parseAttributeInput,
+  removeAttributeColumn,
+  setAttributeValue,
+} from "./attributeTable";
+
+const feature = (id: string, properties: Parameters<typeof createGeometryFeature>[0]["properties"]) =>
+  createGeometryFeature({ id, properties, geometry: { type: "Point", coordinates: [0, 0] } });
+
+const features = [
+  feature("a", { name: "Oak", height: 12 }),
+  feature("b", { name: "pine", height: 3, note: "damaged" }),
+  feature("c", { name: "Birch" }),
+];
+
+describe("attribute table", () => {
+  it("全featureのproperty keyを初出順に列として返す", () => {
+    expect(attributeColumns(features)).toEqual(["name", "height", "note"]);
+  });
+
+  it("数値は数値順に並べ、値のない行は方向に関係なく末尾に置く", () => {
+    expect(attributeRows(features, "", { column: "height", direction: "asc" }).map(({ id }) => id)).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+    expect(attributeRows(features, "", { column: "height", direction: "desc" }).map(({ id }) => id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("property値とIDを大文字小文字を区別せずfilterする", () => {
+    expect(attributeRows(features, "DAMAGE").map(({ id }) => id)).toEqual(["b"]);
+    expect(attributeRows(features, "12").map(({ id }) => id)).toEqual(["a"]);
+    expect(attributeRows(features, "c").map(({ id }) => id)).toEqual(["c"]);
+  });
+
+  it("編集値をJSONとして解釈し、不正なJSONは文字列として扱う", () => {
+    expect(parseAttributeInput("42")).toBe(42);
+    expect(parseAttributeInput("true")).toBe(true);
+    expect(parseAttributeInput('{"a":[1,null]}')).toEqual({ a: [1, null] });
+    expect(parseAttributeInput("plain text")).toBe("plain text");
+  });
+
+  it("既存の列の型に合わせて編集値を変換する", () => {
+    expect(attributeColumnType(features, "name")).toBe("string");
+    expect(attributeColumnType(features, "height")).toBe("number");
+    expect(attributeColumnType(features, "missing")).toBeUndefined();
+    expect(parseAttributeInput("123", "string")).toBe("123");
+    expect(parseAttributeInput("true", "string")).toBe("true");
+    expect(parseAttributeInput(" 1e3 ", "number")).toBe(1000);
+    expect(parseAttributeInput("false", "boolean")).toBe(false);
+    expect(parseAttributeInput("null", "number")).toBeNull();
+    expect(parseAttributeInput("n/a", "number")).toBe("n/a");
+  });
+
+  it("既存keyの位置を保って値を更新し、列の追加・削除をupdateへ変換する", () => {
+    expect(setAttributeValue(features[0], "name", "Maple")).toEqual({
+      id: "a",
+      properties: { name: "Maple", height: 12 },
+    });
+    expect(Object.keys(setAttributeValue(features[0], "name", "Maple").properties)).toEqual(["name", "height"]);
+    expect(addAttributeColumn(features, "note")).toEqual([
+      { id: "a", properties: { name: "Oak", height: 12, note: null } },
+      { id: "c", properties: { name: "Birch", note: null } },
+    ]);
+    expect(removeAttributeColumn(features, "height")).toEqual([
+      { id: "a", properties: { name: "Oak" } },
+      { id: "b", properties: { name: "pine", note: "damaged" } },
+    ]);
+  });
+
+  it("__proto__ 列も通常のpropertyとして追加する", () => {
+    const [update] = addAttributeColumn([feature("d", {})], "__proto__");
+    expect(Object.hasOwn(update.properties, "__proto__")).toBe(true);
+    expect(JSON.stringify(update.properties)).toBe('{"__proto__":null}');
+  });
+});
@@ -0,0 +1,115 @@
+import type { GeometryFeature, JsonValue } from "../domain/geometryFeature";
+
+export type SortDirection = "asc" | "desc";
+
+export interface AttributeSort {
+  column: string;
+  direction: SortDirection;
+}
+
+export interface PropertiesUpdate {
+  id: string;
+  properties: Record<string, JsonValue>;
+}
+
+/** Property keys of `features` in first-seen order. */
+export const attributeColumns = (features: readonly GeometryFeature[]): string[] => {
+  const columns = new Set<string>();
+  for (const feature of features) for (const key of Object.keys(feature.properties)) columns.add(key);
+  return [...columns];
+};
+
+export const formatAttributeValue = (value: JsonValue | undefined): string =>
+  value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+
+export type AttributeColumnType = "string" | "number" | "boolean";
+
+/** The primitive type every non-null value of `column` shares, or undefined for empty, mixed or JSON columns. */
+export const attributeColumnType = (
+  features: readonly GeometryFeature[],
+  column: string
+): AttributeColumnType | undefined => {
+  let type: AttributeColumnType | undefined;
+  for (const { properties } of features) {
+    const value = properties[column];
+    if (value === undefined || value === null) continue;
+    const valueType = typeof value;
+    if (valueType !== "string" && valueType !== "number" && valueType !== "boolean") return undefined;
+    if (type && type !== valueType) return undefined;
+    type = valueType;
+  }
+  return type;
+};
+
+/**
+ * Reads an edited cell according to the column's existing type: text stays a string in a string column, and a number
+ * or boolean column accepts its own literals. Input that does not fit the type, or a cell in an untyped column, is
+ * read as JSON so numbers, booleans, null, arrays and objects keep their type; text that is not valid JSON is stored
+ * as a string.
+ */
+export const parseAttributeInput = (text: string, type?: AttributeColumnType): JsonValue => {
+  if (type === "string") return text;
+  if (type === "number" && text.trim() !== "" && Number.isFinite(Number(text))) return Number(text);
+  if (type === "boolean" && (text.trim() === "true" || text.trim() === "false")) return text.trim() === "true";
+  try {
+    return JSON.parse(text) as JsonValue;
+  } catch {
+    return text;
+  }
+};
+
+const compareValues = (a: JsonValue | undefined, b: JsonValue | undefined): number => {
+  // 値のない cell は方向に関係なく末尾へ
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return formatAttributeValue(a).localeCompare(formatAttributeValue(b), undefined, { numeric: true });
+};
+
+/** Filters by a case-insensitive substring of any property value or the feature ID, then sorts by one column. */
+export const attributeRows = (
+  features: readonly GeometryFeature[],
+  filter: string,
+  sort?: AttributeSort
+): GeometryFeature[] => {
+  const needle = filter.trim().toLowerCase();
+  const rows = needle
+    ? features.filter(
+        ({ id, properties }) =>
+          id.toLowerCase().includes(needle) ||
+          Object.values(properties).some((value) => formatAttributeValue(value).toLowerCase().includes(needle))
+      )
+    : [...features];
+  if (!sort) return rows;
+  const direction = sort.direction === "asc" ? 1 : -1;
+  return rows.sort((a, b) => {
+    const left = a.properties[sort.column];
+    const right = b.properties[sort.column];
+    if (left === undefined || left === null || right === undefined || right === null) return compareValues(left, right);
+    return compareValues(left, right) * direction;
+  });
+};
+
+const withoutKey = (properties: Record<string, JsonValue>, key: string) =>
+  Object.fromEntries(Object.entries(properties).filter(([candidate]) => candidate !== key));
+
+/** Sets one property, keeping the key's position when it already exists. */
+export const setAttributeValue = (feature: GeometryFeature, column: string, value: JsonValue): PropertiesUpdate => ({
+  id: feature.id,
+  properties: Object.fromEntries(
+    Object.hasOwn(feature.properties, column)
+      ? Object.entries(feature.properties).map(([key, entry]) => [key, key === column ? value : entry])
+      : [...Object.entries(feature.properties), [column, value]]
+  ),
+});
+
+/** Adds `column` with `null` to every feature that does not have it yet. */
+export const addAttributeColumn = (features: readonly GeometryFeature[], column: string): PropertiesUpdate[] =>
+  features
+    .filter(({ properties }) => !Object.hasOwn(properties, column))
+    .map((feature) => setAttributeValue(feature, column, null));
+
+export const removeAttributeColumn = (features: readonly GeometryFeature[], column: string): PropertiesUpdate[] =>
+  features
+    .filter(({ properties }) => Object.hasOwn(properties, column))
+    .map(({ id, properties }) => ({ id, properties: withoutKey(properties, column) }));
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createBatchBuffer } from "./batchBuffer";
+
+const fillWith =
+  (value: number) =>
+  ({ value: values }: Readonly<Record<"value", Float32Array>>, start: number, count = 1) =>
+    values.fill(value, start * 2, (start + count) * 2);
+
+describe("batch buffer", () => {
+  it("keyごとに範囲を割り当て、削除した範囲を0で埋めて再利用する", () => {
+    const buffer = createBatchBuffer({ value: 2 }, 8);
+
+    buffer.write("a", 2, (arrays, start) => fillWith(1)(arrays, start, 2));
+    buffer.write("b", 3, (arrays, start) => fillWith(2)(arrays, start, 3));
+    buffer.write("c", 1, fillWith(3));
+    expect(buffer.size).toBe(6);
+    expect(buffer.takeChanges()).toEqual({
+      reallocated: false,
+      ranges: [
+        { start: 0, count: 2 },
+        { start: 2, count: 3 },
+        { start: 5, count: 1 },
+      ],
+    });
+
+    buffer.remove("b");
+    expect(Array.from(buffer.arrays.value.subarray(4, 10))).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(buffer.takeChanges().ranges).toEqual([{ start: 2, count: 3 }]);
+
+    // 空いた範囲に収まる entry はそこへ入り、size は変わらない
+    buffer.write("d", 2, (arrays, start) => fillWith(4)(arrays, start, 2));
+    expect(Array.from(buffer.arrays.value.subarray(4, 8))).toEqual([4, 4, 4, 4]);
+    expect(buffer.size).toBe(6);
+
+    // 末尾の entry を消すと、手前の空き範囲ごと size が縮む
+    buffer.remove("c");
+    expect(buffer.size).toBe(4);
+    expect(buffer.has("c")).toBe(false);
+  });
+
+  it("同じ要素数の書き換えはその場で行い、容量を超えると配列を広げる", () => {
+    const buffer = createBatchBuffer({ value: 2 }, 2);
+    buffer.write("a", 2, (arrays, start) => fillWith(1)(arrays, start, 2));
+    buffer.takeChanges();
+
+    buffer.write("a", 2, (arrays, start) => fillWith(5)(arrays, start, 2));
+    expect(buffer.takeChanges()).toEqual({ reallocated: false, ranges: [{ start: 0, count: 2 }] });
+
+    const before = buffer.arrays.value;
+    buffer.write("b", 3, (arrays, start) => fillWith(6)(arrays, start, 3));
+    expect(buffer.arrays.value).not.toBe(before);
+    expect(buffer.capacity).toBe(8);
+    expect(Array.from(buffer.arrays.value.subarray(0, 10))).toEqual([5, 5, 5, 5, 6, 6, 6, 6, 6, 6]);
+    expect(buffer.takeChanges().reallocated).toBe(true);
+
+    buffer.write("a", 0, () => undefined);
+    expect(buffer.has("a")).toBe(false);
+    expect(Array.from(buffer.arrays.value.subarray(0, 4))).toEqual([0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,134 @@
+export interface BatchRange {
+  start: number;
+  count: number;
+}
+
+export interface BatchChanges {
+  /** True when the arrays were replaced by larger ones, so everything up to `size` must be uploaded again. */
+  reallocated: boolean;
+  /** Item ranges written or cleared since the last call, in item units. */
+  ranges: BatchRange[];
+}
+
+/**
+ * Parallel float arrays that many keyed entries share, so that one GPU buffer can hold the geometry of many
+ * features. Each entry owns a contiguous range of items; removing an entry zero-fills its range, which degenerate
+ * segments, triangles and instances render as nothing, and the range is reused by later entries.
+ */
+export interface BatchBuffer<K extends string> {
+  readonly arrays: Readonly<Record<K, Float32Array>>;
+  readonly capacity: number;
+  /** Items up to the end of the last range in use; draw calls only need to cover this many. */
+  readonly size: number;
+  has: (key: string) => boolean;
+  /** Gives `key` a range of `count` items, replacing any previous one, and lets `fill` write it at `start`. */
+  write: (key: string, count: number, fill: (arrays: Readonly<Record<K, Float32Array>>, start: number) => void) => void;
+  remove: (key: string) => void;
+  takeChanges: () => BatchChanges;
+}
+
+export const createBatchBuffer = <K extends string>(
+  strides: Readonly<Record<K, number>>,
+  initialCapacity = 64
+): BatchBuffer<K> => {
+  const names = Object.keys(strides) as K[];
+  const allocate = (capacity: number) =>
+    Object.fromEntries(names.map((name) => [name, new Float32Array(capacity * strides[name])])) as Record<
+      K,
+      Float32Array
+    >;
+  let capacity = Math.max(1, initialCapacity);
+  let arrays = allocate(capacity);
+  let size = 0;
+  let reallocated = false;
+  let changed: BatchRange[] = [];
+  const ranges = new Map<string, BatchRange>();
+  // freed ranges, kept sorted by start and merged with their neighbours
+  let free: BatchRange[] = [];
+
+  const clear = ({ start, count }: BatchRange) => {
+    for (const name of names) arrays[name].fill(0, start * strides[name], (start + count) * strides[name]);
+    changed.push({ start, count });
+  };
+
+  const release = (range: BatchRange) => {
+    clear(range);
+    free.push(range);
+    free.sort((a, b) => a.start - b.start);
+    free = free.reduce<BatchRange[]>((merged, next) => {
+      const last = merged.at(-1);
+      if (last && last.start + last.count === next.start) last.count += next.count;
+      else merged.push({ ...next });
+      return merged;
+    }, []);
+    // a free range at the end simply shrinks the used size
+    const tail = free.at(-1);
+    if (tail && tail.start + tail.count >= size) {
+      size = tail.start;
+      free.pop();
+    }
+  };
+
+  const claim = (count: number): number => {
+    const index = free.findIndex((range) => range.count >= count);
+    if (index >= 0) {
+      const range = free[index];
+      const start = range.start;
+      if (range.count === count) free.splice(index, 1);
+      else free[index] = { start: start + count, count: range.count - count };
+      return start;
+    }
+    const start = size;
+    if (start + count > capacity) {
+      while (start + count > capacity) capacity *= 2;
+      const previous = arrays;
+      arrays = allocate(capacity);
+      for (const name of names) arrays[name].set(previous[name].subarray(0, size * strides[name]));
+      reallocated = true;
+    }
+    size = start + count;
+    return start;
+  };
+
+  return {
+    get arrays() {
+      return arrays;
+    },
+    get capacity() {
+      return capacity;
+    },
+    get size() {
+      return size;
+    },
+    has: (key) => ranges.has(key),
+    write: (key, count, fill) => {
+      const previous = ranges.get(key);
+      let start: number;
+      if (previous && previous.count === count) {
+        start = previous.start;
+      } else {
+        if (previous) release(previous);
+        start = count > 0 ? claim(count) : 0;
+      }
+      if (count === 0) {
+        ranges.delete(key);
+        return;
+      }
+      ranges.set(key, { start, count });
+      fill(arrays, start);
+      changed.push({ start, count });
+    },
+    remove: (key) => {
+      const range = ranges.get(key);
+      if (!range) return;
+      ranges.delete(key);
+      release(range);
+    },
+    takeChanges: () => {
+      const changes = { reallocated, ranges: changed };
+      reallocated = false;
+      changed = [];
+      return changes;
+    },
+  };
+};
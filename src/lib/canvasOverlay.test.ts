@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { PIXEL_CALIBRATION } from "../domain/calibration";
+import { formatCursorPosition, niceStep, niceStepBelow, rulerTicks, scaleBar } from "./canvasOverlay";
+
+describe("canvas overlay", () => {
+  it("1-2-5系列で最小・最大のstepを選ぶ", () => {
+    expect(niceStep(64)).toBe(100);
+    expect(niceStep(0.3)).toBe(0.5);
+    expect(niceStep(20)).toBe(20);
+    expect(niceStepBelow(120)).toBe(100);
+    expect(niceStepBelow(0.45)).toBe(0.2);
+  });
+
+  it("rulerは中央のmodel pixelを基準にtickを並べ、zoomに応じて間隔を変える", () => {
+    const ticks = rulerTicks(100, 1, 200, PIXEL_CALIBRATION);
+
+    expect(ticks[0]).toEqual({ value: 0, offset: 0, labelled: true });
+    expect(ticks.filter(({ labelled }) => labelled).map(({ value }) => value)).toEqual([0, 100, 200]);
+    expect(ticks[1]).toEqual({ value: 20, offset: 20, labelled: false });
+    expect(
+      rulerTicks(100, 4, 200, PIXEL_CALIBRATION)
+        .filter(({ labelled }) => labelled)
+        .map(({ value, offset }) => [value, offset])
+    ).toEqual([
+      [80, 20],
+      [100, 100],
+      [120, 180],
+    ]);
+  });
+
+  it("較正済みなら実単位でtick・scale bar・cursor位置を表す", () => {
+    const calibration = { unitsPerPixel: 0.01, unit: "m" as const };
+
+    expect(
+      rulerTicks(0, 1, 200, calibration)
+        .filter(({ labelled }) => labelled)
+        .map(({ value }) => value)
+    ).toEqual([-1, 0, 1]);
+    expect(scaleBar(2, calibration)).toEqual({ width: 100, label: "0.5 m" });
+    expect(scaleBar(1, PIXEL_CALIBRATION)).toEqual({ width: 100, label: "100 px" });
+    expect(formatCursorPosition([150, 25], calibration)).toBe("x 150.0, y 25.0 px (x 1.50, y 0.25 m)");
+    expect(formatCursorPosition([150, 25], PIXEL_CALIBRATION)).toBe("x 150.0, y 25.0 px");
+  });
+});
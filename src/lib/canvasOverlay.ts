@@ -0,0 +1,84 @@
+import { toCalibratedLength, type Calibration } from "../domain/calibration";
+import type { Point2D } from "../domain/geometryFeature";
+
+/** Minimum screen distance between labelled ruler ticks, in CSS pixels. */
+export const RULER_LABEL_SPACING = 64;
+
+/** Longest the scale bar may grow, in CSS pixels. */
+export const SCALE_BAR_MAX_WIDTH = 120;
+
+export interface RulerTick {
+  /** Position along the ruler in calibrated units. */
+  value: number;
+  /** Distance from the start of the ruler in CSS pixels. */
+  offset: number;
+  labelled: boolean;
+}
+
+const leadingDigit = (value: number) => Math.round(value / 10 ** Math.floor(Math.log10(value) + 1e-9));
+
+/** Smallest step of the 1-2-5 series that is at least `minimum`. */
+export const niceStep = (minimum: number): number => {
+  const magnitude = 10 ** Math.floor(Math.log10(minimum));
+  const factor = [1, 2, 5, 10].find((candidate) => candidate * magnitude >= minimum * (1 - 1e-9)) ?? 10;
+  return factor * magnitude;
+};
+
+/** Largest step of the 1-2-5 series that is at most `maximum`. */
+export const niceStepBelow = (maximum: number): number => {
+  const magnitude = 10 ** Math.floor(Math.log10(maximum));
+  const factor = [5, 2, 1].find((candidate) => candidate * magnitude <= maximum * (1 + 1e-9)) ?? 1;
+  return factor * magnitude;
+};
+
+/** Formats a tick or scale value with just enough decimals for `step`. */
+export const formatStepValue = (value: number, step: number): string =>
+  String(Number(value.toFixed(Math.max(0, -Math.floor(Math.log10(step) + 1e-9)))));
+
+/**
+ * Ticks for a ruler `length` CSS pixels long whose middle shows model pixel `center` at `zoom` (screen pixels per
+ * model pixel). Labelled ticks follow the 1-2-5 series in calibrated units and are split into four or five minor
+ * ticks.
+ */
+export const rulerTicks = (center: number, zoom: number, length: number, calibration: Calibration): RulerTick[] => {
+  if (!(zoom > 0) || !(length > 0) || !Number.isFinite(center)) return [];
+  const { unitsPerPixel } = calibration;
+  const labelStep = niceStep((RULER_LABEL_SPACING / zoom) * unitsPerPixel);
+  const subdivisions = leadingDigit(labelStep) === 2 ? 4 : 5;
+  const minorStep = labelStep / subdivisions;
+  const halfSpan = length / 2 / zoom;
+  const first = Math.ceil(toCalibratedLength(center - halfSpan, calibration) / minorStep);
+  const last = Math.floor(toCalibratedLength(center + halfSpan, calibration) / minorStep);
+  const ticks: RulerTick[] = [];
+  for (let index = first; index <= last; index += 1) {
+    const value = Number((index * minorStep).toPrecision(12));
+    ticks.push({
+      value,
+      offset: (value / unitsPerPixel - center) * zoom + length / 2,
+      labelled: index % subdivisions === 0,
+    });
+  }
+  return ticks;
+};
+
+/** A scale bar no longer than `maxWidth` CSS pixels that measures a round number of calibrated units. */
+export const scaleBar = (
+  zoom: number,
+  calibration: Calibration,
+  maxWidth = SCALE_BAR_MAX_WIDTH
+): { width: number; label: string } | null => {
+  if (!(zoom > 0)) return null;
+  const step = niceStepBelow((maxWidth / zoom) * calibration.unitsPerPixel);
+  return {
+    width: (step / calibration.unitsPerPixel) * zoom,
+    label: `${formatStepValue(step, step)} ${calibration.unit}`,
+  };
+};
+
+/** Cursor position for the status bar: model pixels, followed by calibrated units when the project has a scale. */
+export const formatCursorPosition = ([x, y]: Point2D, calibration: Calibration): string => {
+  const pixels = `x ${x.toFixed(1)}, y ${y.toFixed(1)} px`;
+  if (calibration.unit === "px") return pixels;
+  const [realX, realY] = [x, y].map((value) => toCalibratedLength(value, calibration).toFixed(2));
+  return `${pixels} (x ${realX}, y ${realY} ${calibration.unit})`;
+};
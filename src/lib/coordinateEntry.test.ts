@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { parseCoordinateEntry } from "./coordinateEntry";
+
+describe("parseCoordinateEntry", () => {
+  it("絶対座標・相対座標を順に積み上げて LineString にする", () => {
+    expect(parseCoordinateEntry("10,20 @30,0; @0,-5")).toEqual({
+      status: "ok",
+      points: [
+        [10, 20],
+        [40, 20],
+        [40, 15],
+      ],
+      type: "line",
+    });
+  });
+
+  it("@長さ<角度 は画面上で反時計回りの角度として扱う", () => {
+    const result = parseCoordinateEntry("0,0\n@10<90\n@10<0");
+    expect(result.status).toBe("ok");
+    if (result.status !== "ok") return;
+    expect(result.points[1][0]).toBeCloseTo(0);
+    expect(result.points[1][1]).toBeCloseTo(-10);
+    expect(result.points[2][0]).toBeCloseTo(10);
+    expect(result.points[2][1]).toBeCloseTo(-10);
+  });
+
+  it("最初の相対座標は origin から測る", () => {
+    expect(parseCoordinateEntry("@5,5", [100, 100])).toEqual({ status: "ok", points: [[105, 105]], type: "point" });
+  });
+
+  it("末尾の c で閉じた Polygon になり、始点の重複は取り除く", () => {
+    expect(parseCoordinateEntry("0,0 @10,0 @0,10 0,0 c")).toEqual({
+      status: "ok",
+      points: [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+      ],
+      type: "polygon",
+    });
+    expect(parseCoordinateEntry("0,0 10,0 close").status).toBe("invalid");
+  });
+
+  it("読めない入力と空の入力はエラーメッセージを返す", () => {
+    expect(parseCoordinateEntry("10,20 abc")).toEqual({
+      status: "invalid",
+      message: 'Cannot read "abc". Use x,y, @dx,dy or @length<angle.',
+    });
+    expect(parseCoordinateEntry("  ").status).toBe("invalid");
+  });
+});
@@ -0,0 +1,59 @@
+import { MINIMUM_VERTEX_COUNT, type Point2D } from "../domain/geometryFeature";
+import { pointsEqual } from "./geometry";
+
+export type CoordinateEntryResult =
+  | { status: "ok"; points: Point2D[]; type: "point" | "line" | "polygon" }
+  | { status: "invalid"; message: string };
+
+const NUMBER = String.raw`[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?`;
+const CARTESIAN = new RegExp(String.raw`^(@?)(${NUMBER}),(${NUMBER})$`, "i");
+const POLAR = new RegExp(String.raw`^@(${NUMBER})<(${NUMBER})$`, "i");
+
+/**
+ * Parses CAD-style coordinate input in model pixels. Entries are separated by whitespace, `;` or new lines:
+ *
+ * - `x,y` is an absolute point.
+ * - `@dx,dy` is relative to the previous point (or to `origin` for the first entry).
+ * - `@length<angle` is relative by length and angle in degrees, counterclockwise from +x as seen on screen.
+ * - A trailing `c` (or `close`) closes the points into a polygon.
+ *
+ * One point makes a Point and several make a LineString.
+ */
+export const parseCoordinateEntry = (input: string, origin: Point2D = [0, 0]): CoordinateEntryResult => {
+  const tokens = input
+    .split(/[\s;]+/)
+    .map((token) => token.trim())
+    .filter(Boolean);
+  const closed = tokens.length > 0 && /^c(lose)?$/i.test(tokens[tokens.length - 1]);
+  const entries = closed ? tokens.slice(0, -1) : tokens;
+  if (entries.length === 0) return { status: "invalid", message: "Enter at least one coordinate." };
+
+  const points: Point2D[] = [];
+  for (const entry of entries) {
+    const [previousX, previousY] = points[points.length - 1] ?? origin;
+    const cartesian = CARTESIAN.exec(entry);
+    const polar = cartesian ? null : POLAR.exec(entry);
+    if (cartesian) {
+      const x = Number(cartesian[2]);
+      const y = Number(cartesian[3]);
+      points.push(cartesian[1] ? [previousX + x, previousY + y] : [x, y]);
+    } else if (polar) {
+      const length = Number(polar[1]);
+      const radians = (Number(polar[2]) * Math.PI) / 180;
+      // model pixels grow downwards, so a counterclockwise screen angle subtracts from y
+      points.push([previousX + length * Math.cos(radians), previousY - length * Math.sin(radians)]);
+    } else {
+      return { status: "invalid", message: `Cannot read "${entry}". Use x,y, @dx,dy or @length<angle.` };
+    }
+  }
+
+  if (closed) {
+    // the ring is stored open, so a repeated start point is dropped
+    if (points.length > 1 && pointsEqual(points[0], points[points.length - 1])) points.pop();
+    if (points.length < MINIMUM_VERTEX_COUNT.Polygon) {
+      return { status: "invalid", message: `A closed shape needs at least ${MINIMUM_VERTEX_COUNT.Polygon} points.` };
+    }
+    return { status: "ok", points, type: "polygon" };
+  }
+  return { status: "ok", points, type: points.length === 1 ? "point" : "line" };
+};
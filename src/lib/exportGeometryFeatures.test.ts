@@ -12,11 +12,13 @@ const geometry: FeatureGeometry = {
 };
 
 describe("loadExportFeatureCollection", () => {
-  it("React stateではなくrepositoryからfeatureとlayerを読み取る", async () => {
+  it("React stateではなくrepositoryからfeature・layer・bookmarkを読み取る", async () => {
     const fresh = createGeometryFeature({ id: "fresh", geometry });
+    const bookmark = { id: "site", name: "Site", center: [10, 20], zoom: 2, createdAt: "2026-07-18T00:00:00.000Z" };
     const repository = {
       listFeatures: vi.fn().mockResolvedValue([fresh]),
       listLayers: vi.fn().mockResolvedValue([DEFAULT_LAYER]),
+      listBookmarks: vi.fn().mockResolvedValue([bookmark]),
     };
 
     const collection = await loadExportFeatureCollection(repository);
@@ -24,6 +26,7 @@ describe("loadExportFeatureCollection", () => {
     expect(repository.listFeatures).toHaveBeenCalledOnce();
     expect(repository.listLayers).toHaveBeenCalledOnce();
     expect(collection.features[0].id).toBe("fresh");
+    expect(collection.workbench.bookmarks).toEqual([bookmark]);
   });
 
   it("同じqueueのpending mutation完了後のstateをexportする", async () => {
@@ -38,6 +41,7 @@ describe("loadExportFeatureCollection", () => {
     const repository = {
       listFeatures: vi.fn(async () => features),
       listLayers: vi.fn().mockResolvedValue([DEFAULT_LAYER]),
+      listBookmarks: vi.fn().mockResolvedValue([]),
     };
 
     const mutation = enqueue(async () => {
@@ -1,9 +1,13 @@
 import type { GeometryRepository } from "../db/geometryRepository";
 import { exportFeatureCollection } from "./geojson";
 
-type ExportRepository = Pick<GeometryRepository, "listFeatures" | "listLayers">;
+type ExportRepository = Pick<GeometryRepository, "listFeatures" | "listLayers" | "listBookmarks">;
 
 export const loadExportFeatureCollection = async (repository: ExportRepository) => {
-  const [features, layers] = await Promise.all([repository.listFeatures(), repository.listLayers()]);
-  return exportFeatureCollection(features, layers);
+  const [features, layers, bookmarks] = await Promise.all([
+    repository.listFeatures(),
+    repository.listLayers(),
+    repository.listBookmarks(),
+  ]);
+  return exportFeatureCollection(features, layers, bookmarks);
 };
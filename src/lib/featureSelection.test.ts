@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createGeometryFeature } from "../domain/geometryFeature";
+import { toRenderableStroke } from "../domain/renderableStroke";
+import { boxFromCorners, nextSelection, strokeAtPoint, strokesInBox } from "./featureSelection";
+
+const strokes = [
+  createGeometryFeature({
+    id: "parcel",
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [0, 0],
+        [100, 0],
+        [100, 100],
+        [0, 100],
+      ],
+      holes: [
+        [
+          [40, 40],
+          [60, 40],
+          [60, 60],
+          [40, 60],
+        ],
+      ],
+    },
+  }),
+  createGeometryFeature({
+    id: "road",
+    geometry: {
+      type: "LineString",
+      coordinates: [
+        [20, 20],
+        [80, 20],
+      ],
+    },
+  }),
+  createGeometryFeature({ id: "marker", geometry: { type: "Point", coordinates: [200, 200] } }),
+].map(toRenderableStroke);
+
+describe("feature selection", () => {
+  it("replace・add・toggleで選択IDを更新する", () => {
+    expect(nextSelection(["a", "b"], ["c", "c"], "replace")).toEqual(["c"]);
+    expect(nextSelection(["a"], ["a", "b"], "add")).toEqual(["a", "b"]);
+    expect(nextSelection(["a", "b"], ["a", "c"], "toggle")).toEqual(["b", "c"]);
+  });
+
+  it("手前のstrokeを優先してpoint・line・polygon内部をhit testする", () => {
+    expect(strokeAtPoint(strokes, [50, 21], 2)).toBe("road");
+    expect(strokeAtPoint(strokes, [10, 80], 2)).toBe("parcel");
+    expect(strokeAtPoint(strokes, [201, 201], 2)).toBe("marker");
+    expect(strokeAtPoint(strokes, [150, 150], 2)).toBeUndefined();
+  });
+
+  it("polygonのholeの内側はhitしないがholeの境界はhitする", () => {
+    expect(strokeAtPoint(strokes, [50, 50], 2)).toBeUndefined();
+    expect(strokeAtPoint(strokes, [40, 50], 2)).toBe("parcel");
+  });
+
+  it("box内に全頂点が収まるstrokeだけを選択する", () => {
+    expect(strokesInBox(strokes, boxFromCorners([90, 10], [10, 30]))).toEqual(["road"]);
+    expect(strokesInBox(strokes, boxFromCorners([-1, -1], [250, 250]))).toEqual(["parcel", "road", "marker"]);
+  });
+});
@@ -0,0 +1,72 @@
+import type { Point2D } from "../domain/geometryFeature";
+import type { RenderableStroke, RenderableStrokePart } from "../domain/renderableStroke";
+import { getSegmentDistance, isPointInRing } from "./geometry";
+
+export type SelectionMode = "replace" | "add" | "toggle";
+
+export interface PixelBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Applies a selection gesture: replace the selection, add to it, or toggle each of `ids`. */
+export const nextSelection = (current: readonly string[], ids: readonly string[], mode: SelectionMode): string[] => {
+  if (mode === "replace") return [...new Set(ids)];
+  const next = new Set(current);
+  for (const id of ids) {
+    if (mode === "toggle" && next.has(id)) next.delete(id);
+    else next.add(id);
+  }
+  return [...next];
+};
+
+export const boxFromCorners = ([ax, ay]: Point2D, [bx, by]: Point2D): PixelBox => ({
+  minX: Math.min(ax, bx),
+  minY: Math.min(ay, by),
+  maxX: Math.max(ax, bx),
+  maxY: Math.max(ay, by),
+});
+
+const segmentsHit = (points: Point2D[], point: Point2D, tolerance: number, closed: boolean) => {
+  const count = closed ? points.length : points.length - 1;
+  for (let index = 0; index < count; index += 1) {
+    if (getSegmentDistance(point, points[index], points[(index + 1) % points.length]) <= tolerance) return true;
+  }
+  return false;
+};
+
+const partHit = (part: RenderableStrokePart, point: Point2D, tolerance: number) => {
+  if (part.geomType === "point") {
+    return part.ptsPx.some(([x, y]) => Math.hypot(x - point[0], y - point[1]) <= tolerance);
+  }
+  if (part.geomType === "line") return segmentsHit(part.ptsPx, point, tolerance, false);
+  const rings = [part.ptsPx, ...(part.holes ?? [])];
+  if (rings.some((ring) => segmentsHit(ring, point, tolerance, true))) return true;
+  return isPointInRing(point, part.ptsPx) && !(part.holes ?? []).some((hole) => isPointInRing(point, hole));
+};
+
+/**
+ * Returns the ID of the top-most stroke under `point`: points and lines within `tolerance` pixels, polygons by
+ * boundary distance or interior (excluding holes). Later strokes are drawn on top, so they win.
+ */
+export const strokeAtPoint = (
+  strokes: readonly RenderableStroke[],
+  point: Point2D,
+  tolerance: number
+): string | undefined => {
+  for (let index = strokes.length - 1; index >= 0; index -= 1) {
+    if (strokes[index].parts.some((part) => partHit(part, point, tolerance))) return strokes[index].id;
+  }
+  return undefined;
+};
+
+/** Window selection: IDs of strokes whose every vertex lies inside `box`. */
+export const strokesInBox = (strokes: readonly RenderableStroke[], box: PixelBox): string[] =>
+  strokes
+    .filter(
+      ({ ptsPx }) =>
+        ptsPx.length > 0 && ptsPx.every(([x, y]) => x >= box.minX && x <= box.maxX && y >= box.minY && y <= box.maxY)
+    )
+    .map(({ id }) => id);
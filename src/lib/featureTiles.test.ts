@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { featureTileSize, featureTilesInView, sameFeatureTiles } from "./featureTiles";
+
+describe("feature tiles", () => {
+  it("表示範囲と周囲1枚分のtileを2の冪の格子で返す", () => {
+    const frame = { center: [300, 200] as [number, number], zoom: 1, width: 800, height: 600 };
+
+    const tiles = featureTilesInView(frame);
+
+    // 512px の tile で x -100..700 → 列 -1..1、y -100..500 → 行 -1..0、さらに周囲 1 枚ずつ
+    expect(featureTileSize(1)).toBe(512);
+    expect(tiles).toHaveLength(5 * 4);
+    expect(tiles[0]).toEqual({
+      key: "512/-2/-2",
+      bounds: { minX: -1024, minY: -1024, maxX: -512, maxY: -512 },
+      zoom: 1,
+    });
+    expect(tiles.at(-1)?.key).toBe("512/2/1");
+  });
+
+  it("小さなpanやzoomでは同じtile集合になり、zoomが2倍を跨ぐと粒度が変わる", () => {
+    const frame = { center: [300, 200] as [number, number], zoom: 1, width: 800, height: 600 };
+    const tiles = featureTilesInView(frame);
+
+    expect(sameFeatureTiles(tiles, featureTilesInView({ ...frame, center: [310, 220], zoom: 1.1 }))).toBe(true);
+    expect(featureTilesInView({ ...frame, zoom: 0.4 })[0].key).toMatch(/^2048\//);
+    expect(featureTilesInView({ ...frame, zoom: 0.4 })[0].zoom).toBe(0.25);
+    expect(featureTilesInView({ ...frame, height: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import type { PixelBox } from "./featureSelection";
+import type { CanvasFrame } from "./viewportFit";
+
+/** Approximate on-screen edge length of a feature tile; tiles are the smallest power of two at least this wide. */
+export const FEATURE_TILE_SCREEN_SIZE = 512;
+
+/**
+ * A square of model pixels whose features are loaded together. Tile edges are powers of two, so the tile set only
+ * changes when the view pans past a tile edge or the zoom crosses a factor of two, and a tile key identifies the same
+ * region at every view.
+ */
+export interface FeatureTile {
+  key: string;
+  bounds: PixelBox;
+  /** Lowest zoom the tile is used at, which decides the detail its query may leave out. */
+  zoom: number;
+}
+
+export const featureTileSize = (zoom: number): number => 2 ** Math.ceil(Math.log2(FEATURE_TILE_SCREEN_SIZE / zoom));
+
+/** Tiles covering the view and one spare tile on every side, row by row; none when the frame has no area. */
+export const featureTilesInView = ({ center: [x, y], zoom, width, height }: CanvasFrame): FeatureTile[] => {
+  if (!(zoom > 0) || !(width > 0) || !(height > 0) || !Number.isFinite(x) || !Number.isFinite(y)) return [];
+  const size = featureTileSize(zoom);
+  const halfWidth = width / 2 / zoom;
+  const halfHeight = height / 2 / zoom;
+  const firstColumn = Math.floor((x - halfWidth) / size) - 1;
+  const lastColumn = Math.floor((x + halfWidth) / size) + 1;
+  const firstRow = Math.floor((y - halfHeight) / size) - 1;
+  const lastRow = Math.floor((y + halfHeight) / size) + 1;
+  const tiles: FeatureTile[] = [];
+  for (let row = firstRow; row <= lastRow; row += 1) {
+    for (let column = firstColumn; column <= lastColumn; column += 1) {
+      tiles.push({
+        key: `${size}/${column}/${row}`,
+        bounds: { minX: column * size, minY: row * size, maxX: (column + 1) * size, maxY: (row + 1) * size },
+        zoom: FEATURE_TILE_SCREEN_SIZE / size,
+      });
+    }
+  }
+  return tiles;
+};
+
+export const sameFeatureTiles = (a: FeatureTile[], b: FeatureTile[]): boolean =>
+  a === b || (a.length === b.length && a.every((tile, index) => tile.key === b[index].key));
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { FeatureGeometry } from "../domain/geometryFeature";
+import {
+  IDENTITY_TRANSFORM,
+  MIN_SCALE_FACTOR,
+  geometryCenter,
+  isIdentityTransform,
+  rotationAngle,
+  scaleFactor,
+  transformGeometry,
+  transformPoint,
+} from "./featureTransform";
+
+const roundPoint = ([x, y]: [number, number]) => [Math.round(x * 1e6) / 1e6, Math.round(y * 1e6) / 1e6];
+
+describe("feature transform", () => {
+  it("centerを基準にscale・回転してから平行移動する", () => {
+    expect(roundPoint(transformPoint([2, 0], [0, 0], { dx: 0, dy: 0, angle: 90, scale: 1 }))).toEqual([0, 2]);
+    expect(transformPoint([2, 1], [1, 1], { dx: 0, dy: 0, angle: 0, scale: 3 })).toEqual([4, 1]);
+    expect(roundPoint(transformPoint([2, 1], [1, 1], { dx: 10, dy: -5, angle: 180, scale: 2 }))).toEqual([9, -4]);
+  });
+
+  it("geometryの構造を保ったままholeも含めて変換する", () => {
+    const polygon: FeatureGeometry = {
+      type: "Polygon",
+      coordinates: [
+        [0, 0],
+        [4, 0],
+        [4, 4],
+        [0, 4],
+      ],
+      holes: [
+        [
+          [1, 1],
+          [2, 1],
+          [2, 2],
+        ],
+      ],
+    };
+
+    expect(
+      geometryCenter({
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [4, 2],
+        ],
+      })
+    ).toEqual([2, 1]);
+    expect(transformGeometry(polygon, [0, 0], { ...IDENTITY_TRANSFORM, dx: 1, dy: 2 })).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [1, 2],
+        [5, 2],
+        [5, 6],
+        [1, 6],
+      ],
+      holes: [
+        [
+          [2, 3],
+          [3, 3],
+          [3, 4],
+        ],
+      ],
+    });
+  });
+
+  it("ハンドルのドラッグ量から角度と倍率を求める", () => {
+    expect(rotationAngle([0, 0], [1, 0], [0, 1])).toBeCloseTo(90);
+    expect(rotationAngle([0, 0], [-1, 0.001], [-1, -0.001])).toBeCloseTo(0.1146, 3);
+    expect(rotationAngle([0, 0], [1, 0], [-1, 0])).toBeCloseTo(180);
+    expect(scaleFactor([0, 0], [2, 0], [0, 5])).toBe(2.5);
+    expect(scaleFactor([1, 1], [1, 1], [3, 3])).toBe(1);
+    // 中心を通り過ぎるドラッグでも geometry を潰さない
+    expect(scaleFactor([0, 0], [2, 0], [0, 0])).toBe(MIN_SCALE_FACTOR);
+    expect(scaleFactor([0, 0], [200, 0], [0.5, 0])).toBe(MIN_SCALE_FACTOR);
+  });
+
+  it("恒等変換を判定する", () => {
+    expect(isIdentityTransform(IDENTITY_TRANSFORM)).toBe(true);
+    expect(isIdentityTransform({ ...IDENTITY_TRANSFORM, angle: 360 })).toBe(true);
+    expect(isIdentityTransform({ ...IDENTITY_TRANSFORM, scale: 0.5 })).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { geometryVertices, withGeometryVertices, type FeatureGeometry, type Point2D } from "../domain/geometryFeature";
+import { getCentroid } from "./geometry";
+
+/**
+ * A whole-feature transform in model pixels: scale by `scale` and rotate by `angle` degrees around a center, then
+ * translate by `dx`/`dy`. Model pixels grow downwards, so a positive angle turns clockwise on screen.
+ */
+export interface FeatureTransform {
+  dx: number;
+  dy: number;
+  angle: number;
+  scale: number;
+}
+
+export const IDENTITY_TRANSFORM: FeatureTransform = { dx: 0, dy: 0, angle: 0, scale: 1 };
+
+export const isIdentityTransform = ({ dx, dy, angle, scale }: FeatureTransform): boolean =>
+  dx === 0 && dy === 0 && angle % 360 === 0 && scale === 1;
+
+/** Transform center of a geometry: the vertex centroid from `getCentroid`. */
+export const geometryCenter = (geometry: FeatureGeometry): Point2D => getCentroid(geometryVertices(geometry));
+
+export const transformPoint = ([x, y]: Point2D, [cx, cy]: Point2D, transform: FeatureTransform): Point2D => {
+  const radians = (transform.angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const sx = (x - cx) * transform.scale;
+  const sy = (y - cy) * transform.scale;
+  return [cx + sx * cos - sy * sin + transform.dx, cy + sx * sin + sy * cos + transform.dy];
+};
+
+/** Applies `transform` around `center` to every vertex, keeping the geometry's structure. */
+export const transformGeometry = (
+  geometry: FeatureGeometry,
+  center: Point2D,
+  transform: FeatureTransform
+): FeatureGeometry =>
+  withGeometryVertices(
+    geometry,
+    geometryVertices(geometry).map((point) => transformPoint(point, center, transform))
+  );
+
+/** Angle in degrees swept from `from` to `to` around `center`, normalized to (-180, 180]. */
+export const rotationAngle = ([cx, cy]: Point2D, [fx, fy]: Point2D, [tx, ty]: Point2D): number => {
+  const degrees = ((Math.atan2(ty - cy, tx - cx) - Math.atan2(fy - cy, fx - cx)) * 180) / Math.PI;
+  return degrees > 180 ? degrees - 360 : degrees <= -180 ? degrees + 360 : degrees;
+};
+
+/** Smallest factor a scale drag produces, so dragging a handle through the center never collapses the geometry. */
+export const MIN_SCALE_FACTOR = 0.01;
+
+/** Uniform scale factor that moves `from` to the distance of `to` from `center`, at least `MIN_SCALE_FACTOR`. */
+export const scaleFactor = ([cx, cy]: Point2D, [fx, fy]: Point2D, [tx, ty]: Point2D): number => {
+  const initial = Math.hypot(fx - cx, fy - cy);
+  return initial === 0 ? 1 : Math.max(MIN_SCALE_FACTOR, Math.hypot(tx - cx, ty - cy) / initial);
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { appendFreehandSample, finishFreehand, freehandTolerance } from "./freehand";
+
+describe("freehand", () => {
+  it("画面上の間隔より近いサンプルは捨てる（ズームで間隔が変わる）", () => {
+    const samples: Array<[number, number]> = [[0, 0]];
+    expect(appendFreehandSample(samples, [1, 0], 1)).toBe(false);
+    expect(samples).toEqual([[0, 0]]);
+    expect(appendFreehandSample(samples, [1, 0], 4)).toBe(true);
+    expect(samples).toEqual([
+      [0, 0],
+      [1, 0],
+    ]);
+    const empty: Array<[number, number]> = [];
+    expect(appendFreehandSample(empty, [5, 5], 1)).toBe(true);
+    expect(empty).toEqual([[5, 5]]);
+  });
+
+  it("許容誤差は画面px一定になるようズームで割る", () => {
+    expect(freehandTolerance(1)).toBe(1.5);
+    expect(freehandTolerance(3)).toBe(0.5);
+  });
+
+  it("始点付近で終わったストロークは Polygon、それ以外は LineString になる", () => {
+    const loop: Array<[number, number]> = [
+      [0, 0],
+      [100, 0],
+      [100, 100],
+      [5, 5],
+    ];
+    expect(finishFreehand(loop, 1)).toEqual({ points: loop.slice(0, -1), type: "polygon" });
+    // ズームインすると閉じ判定の距離もモデルpxで小さくなる
+    expect(finishFreehand(loop, 4)).toEqual({ points: loop, type: "line" });
+  });
+
+  it("サンプルが2点未満なら保存しない", () => {
+    expect(finishFreehand([[0, 0]], 1)).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import type { Point2D } from "../domain/geometryFeature";
+import { isPolygonCloseCandidate } from "./geometry";
+
+/** Screen-pixel distances for freehand capture; divide by the camera zoom for model pixels. */
+export const FREEHAND_SAMPLE_SPACING_PX = 2;
+export const FREEHAND_TOLERANCE_PX = 1.5;
+export const FREEHAND_CLOSE_PX = 20;
+
+/** Douglas–Peucker tolerance in model pixels: a constant on-screen error, so zoomed-in sketches keep their detail. */
+export const freehandTolerance = (zoom: number) => FREEHAND_TOLERANCE_PX / zoom;
+
+/**
+ * Pushes a pointer sample onto `samples` unless it is closer than the sample spacing to the previous one, and returns
+ * whether it did. The array is extended in place so that a long stroke does not copy every sample on each move.
+ */
+export const appendFreehandSample = (samples: Point2D[], point: Point2D, zoom: number): boolean => {
+  const last = samples[samples.length - 1];
+  if (last && Math.hypot(point[0] - last[0], point[1] - last[1]) < FREEHAND_SAMPLE_SPACING_PX / zoom) return false;
+  samples.push(point);
+  return true;
+};
+
+/**
+ * Turns the samples of one stroke into a LineString, or an open Polygon ring when the stroke ends within
+ * `FREEHAND_CLOSE_PX` screen pixels of where it started. Returns `null` for a stroke with fewer than two samples.
+ */
+export const finishFreehand = (
+  samples: readonly Point2D[],
+  zoom: number
+): { points: Point2D[]; type: "line" | "polygon" } | null => {
+  if (samples.length < 2) return null;
+  if (isPolygonCloseCandidate([...samples], FREEHAND_CLOSE_PX / zoom)) {
+    return { points: samples.slice(0, -1), type: "polygon" };
+  }
+  return { points: [...samples], type: "line" };
+};
@@ -36,7 +36,7 @@ describe("GeoJSON codec", () => {
       },
     });
     const exported = exportFeatureCollection([feature], [DEFAULT_LAYER]);
-    expect(exported.features[0].geometry.coordinates).toEqual([
+    expect(exported.features[0].geometry).toHaveProperty("coordinates", [
       [
         [0, 0],
         [10, 0],
@@ -44,13 +44,292 @@ describe("GeoJSON codec", () => {
         [0, 0],
       ],
     ]);
-    expect(importFeatureCollection(exported).features[0].geometry.coordinates).toEqual([
+    expect(importFeatureCollection(exported).features[0].geometry).toHaveProperty("coordinates", [
       [0, 0],
       [10, 0],
       [0, 10],
     ]);
   });
 
+  it("PointとMultiPointをround-tripする", () => {
+    const point = createGeometryFeature({
+      id: "point-1",
+      geometry: { type: "Point", coordinates: [5, 6] },
+      properties: { label: "sample" },
+      createdAt: "2026-07-18T00:00:00.000Z",
+    });
+    const multiPoint = createGeometryFeature({
+      id: "multi-point-1",
+      geometry: {
+        type: "MultiPoint",
+        coordinates: [
+          [1, 2],
+          [3, 4],
+        ],
+      },
+      createdAt: "2026-07-18T00:00:00.000Z",
+    });
+
+    const exported = exportFeatureCollection([point, multiPoint], [DEFAULT_LAYER]);
+    expect(exported.features.map(({ geometry }) => geometry)).toEqual([
+      { type: "Point", coordinates: [5, 6] },
+      {
+        type: "MultiPoint",
+        coordinates: [
+          [1, 2],
+          [3, 4],
+        ],
+      },
+    ]);
+    const imported = importFeatureCollection(exported);
+    expect(imported.warnings).toEqual([]);
+    expect(imported.features).toEqual([point, multiPoint]);
+  });
+
+  it("3D Pointを2Dへ正規化し、空のMultiPointをwarning付きでskipする", () => {
+    const imported = importFeatureCollection({
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", geometry: { type: "Point", coordinates: [1, 2, 3] }, properties: {} },
+        { type: "Feature", geometry: { type: "MultiPoint", coordinates: [] }, properties: {} },
+      ],
+    });
+
+    expect(imported.features.map(({ geometry }) => geometry)).toEqual([{ type: "Point", coordinates: [1, 2] }]);
+    expect(imported.warnings).toEqual(["Feature 1 has unsupported or invalid geometry"]);
+  });
+
+  it("MultiLineString、MultiPolygon、GeometryCollectionをround-tripする", () => {
+    const features = [
+      createGeometryFeature({
+        id: "multi-line-1",
+        geometry: {
+          type: "MultiLineString",
+          coordinates: [
+            [
+              [0, 0],
+              [1, 1],
+            ],
+            [
+              [2, 2],
+              [3, 3],
+            ],
+          ],
+        },
+        createdAt: "2026-07-18T00:00:00.000Z",
+      }),
+      createGeometryFeature({
+        id: "multi-polygon-1",
+        geometry: {
+          type: "MultiPolygon",
+          polygons: [
+            {
+              coordinates: [
+                [0, 0],
+                [4, 0],
+                [4, 4],
+              ],
+              holes: [
+                [
+                  [1, 1],
+                  [2, 1],
+                  [2, 2],
+                ],
+              ],
+            },
+            {
+              coordinates: [
+                [5, 5],
+                [6, 5],
+                [6, 6],
+              ],
+            },
+          ],
+        },
+        createdAt: "2026-07-18T00:00:00.000Z",
+      }),
+      createGeometryFeature({
+        id: "collection-1",
+        geometry: {
+          type: "GeometryCollection",
+          geometries: [
+            { type: "Point", coordinates: [1, 2] },
+            {
+              type: "LineString",
+              coordinates: [
+                [0, 0],
+                [3, 4],
+              ],
+            },
+          ],
+        },
+        createdAt: "2026-07-18T00:00:00.000Z",
+      }),
+    ];
+
+    const exported = exportFeatureCollection(features, [DEFAULT_LAYER]);
+    expect(exported.features.map(({ geometry }) => geometry)).toEqual([
+      {
+        type: "MultiLineString",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 1],
+          ],
+          [
+            [2, 2],
+            [3, 3],
+          ],
+        ],
+      },
+      {
+        type: "MultiPolygon",
+        coordinates: [
+          [
+            [
+              [0, 0],
+              [4, 0],
+              [4, 4],
+              [0, 0],
+            ],
+            [
+              [1, 1],
+              [2, 1],
+              [2, 2],
+              [1, 1],
+            ],
+          ],
+          [
+            [
+              [5, 5],
+              [6, 5],
+              [6, 6],
+              [5, 5],
+            ],
+          ],
+        ],
+      },
+      {
+        type: "GeometryCollection",
+        geometries: [
+          { type: "Point", coordinates: [1, 2] },
+          {
+            type: "LineString",
+            coordinates: [
+              [0, 0],
+              [3, 4],
+            ],
+          },
+        ],
+      },
+    ]);
+    const imported = importFeatureCollection(exported);
+    expect(imported.warnings).toEqual([]);
+    expect(imported.features).toEqual(features);
+  });
+
+  it("nestedなGeometryCollectionと頂点不足のpartを含むMulti geometryをwarning付きでskipする", () => {
+    const imported = importFeatureCollection({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "GeometryCollection",
+            geometries: [{ type: "GeometryCollection", geometries: [{ type: "Point", coordinates: [1, 2] }] }],
+          },
+          properties: {},
+        },
+        { type: "Feature", geometry: { type: "MultiLineString", coordinates: [[[0, 0]]] }, properties: {} },
+      ],
+    });
+
+    expect(imported.features).toEqual([]);
+    expect(imported.warnings).toEqual([
+      "Feature 0 has unsupported or invalid geometry",
+      "Feature 1 has unsupported or invalid geometry",
+    ]);
+  });
+
+  it("Polygonのholeをround-tripし、各ringをexport時に閉じる", () => {
+    const feature = createGeometryFeature({
+      id: "parcel",
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+        ],
+        holes: [
+          [
+            [2, 2],
+            [4, 2],
+            [4, 4],
+            [2, 2],
+          ],
+        ],
+      },
+      createdAt: "2026-07-18T00:00:00.000Z",
+    });
+    expect(feature.geometry).toMatchObject({
+      holes: [
+        [
+          [2, 2],
+          [4, 2],
+          [4, 4],
+        ],
+      ],
+    });
+
+    const exported = exportFeatureCollection([feature], [DEFAULT_LAYER]);
+    expect(exported.features[0].geometry).toHaveProperty("coordinates", [
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+        [0, 0],
+      ],
+      [
+        [2, 2],
+        [4, 2],
+        [4, 4],
+        [2, 2],
+      ],
+    ]);
+    const imported = importFeatureCollection(exported);
+    expect(imported.warnings).toEqual([]);
+    expect(imported.features[0]).toEqual(feature);
+  });
+
+  it("頂点不足のholeを含むPolygonをwarning付きでskipする", () => {
+    const imported = importFeatureCollection({
+      type: "Feature",
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [4, 0],
+            [4, 4],
+            [0, 0],
+          ],
+          [
+            [1, 1],
+            [2, 1],
+            [1, 1],
+          ],
+        ],
+      },
+      properties: {},
+    });
+
+    expect(imported.features).toEqual([]);
+    expect(imported.warnings).toHaveLength(1);
+  });
+
   it("3D LineString positionを2Dへ正規化する", () => {
     const imported = importFeatureCollection({
       type: "Feature",
@@ -177,7 +456,20 @@ describe("GeoJSON codec", () => {
 
     const imported = importFeatureCollection({
       type: "FeatureCollection",
-      features: [{ type: "Feature", geometry: { type: "Point", coordinates: [0, 0] }, properties: {} }],
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "CircularString",
+            coordinates: [
+              [0, 0],
+              [1, 1],
+              [2, 0],
+            ],
+          },
+          properties: {},
+        },
+      ],
     });
     expect(imported.features).toEqual([]);
     expect(imported.warnings).toHaveLength(1);
@@ -374,4 +666,157 @@ describe("GeoJSON codec", () => {
     expect(Number.isFinite(Date.parse(imported.features[0].createdAt))).toBe(true);
     expect(imported.warnings).toHaveLength(2);
   });
+
+  it("legacy crs memberのCRSで新しいlayerへ取り込み、northingを反転してmodel pixelにする", () => {
+    const imported = importFeatureCollection({
+      type: "FeatureCollection",
+      crs: { type: "name", properties: { name: "urn:ogc:def:crs:EPSG::3857" } },
+      features: [{ type: "Feature", geometry: { type: "Point", coordinates: [1500, 2500] }, properties: {} }],
+    });
+
+    expect(imported.crsWarning).toBeUndefined();
+    expect(imported.layers).toEqual([expect.objectContaining({ name: "Imported EPSG:3857", crs: "EPSG:3857" })]);
+    expect(imported.features[0]).toMatchObject({
+      layerId: imported.layers[0].id,
+      geometry: { type: "Point", coordinates: [1500, -2500] },
+    });
+  });
+
+  it("CRS付きplain GeoJSONのlayerは既存layerより手前のorderにする", () => {
+    const imported = importFeatureCollection(
+      {
+        type: "Feature",
+        crs: { type: "name", properties: { name: "EPSG:3857" } },
+        geometry: { type: "Point", coordinates: [1500, 2500] },
+        properties: {},
+      },
+      new Set(),
+      [DEFAULT_LAYER, { ...DEFAULT_LAYER, id: "roads", order: 4 }]
+    );
+
+    expect(imported.layers[0].order).toBe(5);
+  });
+
+  it("CRSが無いplain GeoJSONは経緯度ならWGS 84のlayerへ取り込み、どちらと見なしたかを必ず警告する", () => {
+    const plain = (coordinates: [number, number], crs?: unknown, properties: Record<string, unknown> = {}) =>
+      importFeatureCollection({
+        type: "Feature",
+        ...(crs === undefined ? {} : { crs }),
+        geometry: { type: "Point", coordinates },
+        properties,
+      });
+
+    const lonLat = plain([139.7, 35.6]);
+    expect(lonLat.crsWarning).toBe("No CRS declared; coordinates were imported as WGS 84 longitude/latitude");
+    expect(lonLat.layers).toEqual([expect.objectContaining({ name: "Imported EPSG:4326", crs: "EPSG:4326" })]);
+    expect(lonLat.features[0]).toMatchObject({
+      layerId: lonLat.layers[0].id,
+      geometry: { type: "Point", coordinates: [139.7, -35.6] },
+    });
+    expect(plain([640, 480])).toMatchObject({
+      layers: [DEFAULT_LAYER],
+      crsWarning: "No CRS declared; coordinates were imported as model pixels",
+    });
+    // 旧形式の pixel export と整数だけの座標は、経緯度の範囲でも pixel のまま取り込む
+    for (const [imported, coordinates] of [
+      [plain([12.5, 30.25], undefined, { color: "#ff0000", width: 3, geomType: "point" }), [12.5, 30.25]],
+      [plain([12, 30]), [12, 30]],
+    ] as const) {
+      expect(imported).toMatchObject({
+        layers: [DEFAULT_LAYER],
+        features: [{ geometry: { type: "Point", coordinates } }],
+        crsWarning: "No CRS declared; coordinates look like longitude/latitude but were imported as model pixels",
+      });
+    }
+    expect(plain([1, 2], { type: "name", properties: { name: "local-grid" } }).crsWarning).toBe(
+      'Unsupported CRS "local-grid"; coordinates were imported as model pixels'
+    );
+  });
+
+  it("workbench exportはlayerごとのCRSをround-tripし、CRS警告を出さない", () => {
+    const layer = { ...DEFAULT_LAYER, id: "mercator", name: "Mercator", crs: "EPSG:3857" };
+    const feature = createGeometryFeature({
+      id: "site",
+      geometry: { type: "Point", coordinates: [10, -20] },
+      layerId: layer.id,
+      createdAt: "2026-07-18T00:00:00.000Z",
+    });
+
+    const exported = exportFeatureCollection([feature], [layer]);
+    const imported = importFeatureCollection(exported);
+
+    expect(exported.crs).toEqual({ type: "name", properties: { name: "urn:ogc:def:crs:EPSG::3857" } });
+    expect(exported.features[0].geometry).toEqual({ type: "Point", coordinates: [10, 20] });
+    expect(imported.layers).toEqual([layer]);
+    expect(imported.features).toEqual([feature]);
+    expect(imported.crsWarning).toBeUndefined();
+  });
+
+  it("CRSの異なるlayerが混在するexportにはcrs memberを書かず、WGS 84はCRS84として書く", () => {
+    const wgs84 = { ...DEFAULT_LAYER, id: "wgs84", name: "WGS 84", crs: "EPSG:4326" };
+    const site = createGeometryFeature({ geometry: { type: "Point", coordinates: [139.7, -35.6] }, layerId: wgs84.id });
+    const sketch = createGeometryFeature({ geometry: { type: "Point", coordinates: [3, 4] } });
+
+    const mixed = exportFeatureCollection([site, sketch], [DEFAULT_LAYER, wgs84]);
+
+    expect(mixed.crs).toBeUndefined();
+    expect(mixed.features.map(({ geometry }) => geometry)).toEqual([
+      { type: "Point", coordinates: [139.7, 35.6] },
+      { type: "Point", coordinates: [3, 4] },
+    ]);
+    expect(exportFeatureCollection([site], [wgs84]).crs?.properties.name).toBe("urn:ogc:def:crs:OGC:1.3:CRS84");
+  });
+
+  it("workbench exportはbookmarkをround-tripし、不正なbookmarkは警告してskipする", () => {
+    const feature = createGeometryFeature({
+      id: "site",
+      geometry: { type: "Point", coordinates: [10, 20] },
+      createdAt: "2026-07-18T00:00:00.000Z",
+    });
+    const bookmark = {
+      id: "overview",
+      name: "Overview",
+      center: [320, 240] as [number, number],
+      zoom: 1.5,
+      createdAt: "2026-07-18T00:00:00.000Z",
+    };
+
+    const exported = exportFeatureCollection([feature], [DEFAULT_LAYER], [bookmark]);
+    expect(exportFeatureCollection([feature], [DEFAULT_LAYER]).workbench).not.toHaveProperty("bookmarks");
+    expect(importFeatureCollection(exported).bookmarks).toEqual([bookmark]);
+
+    const imported = importFeatureCollection({
+      ...exported,
+      workbench: { ...exported.workbench, bookmarks: [bookmark, { ...bookmark, id: "broken", zoom: 0 }] },
+    });
+    expect(imported.bookmarks).toEqual([bookmark]);
+    expect(imported.warnings).toEqual(["Bookmark 1 is invalid and was skipped"]);
+  });
+
+  it("layerのstyle ruleをworkbench metadataでround-tripし、不正なruleは警告して落とす", () => {
+    const layer = {
+      ...DEFAULT_LAYER,
+      style: {
+        color: { type: "categorized" as const, property: "kind", categories: [{ value: "road", color: "#ff0000" }] },
+        dash: { dashSize: 6, gapSize: 3 },
+      },
+    };
+    const feature = createGeometryFeature({
+      id: "site",
+      geometry: { type: "Point", coordinates: [10, 20] },
+      properties: { kind: "road" },
+      createdAt: "2026-07-18T00:00:00.000Z",
+    });
+
+    const exported = exportFeatureCollection([feature], [layer]);
+    expect(exported.workbench.layers[0].style).toEqual(layer.style);
+    expect(importFeatureCollection(exported).layers).toEqual([layer]);
+
+    const imported = importFeatureCollection({
+      ...exported,
+      workbench: { layers: [{ ...layer, style: { dash: { dashSize: -1, gapSize: 3 } } }] },
+    });
+    expect(imported.layers).toEqual([DEFAULT_LAYER]);
+    expect(imported.warnings).toEqual(["Layer 0 has an invalid style; its styling rules were dropped"]);
+  });
 });
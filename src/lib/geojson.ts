@@ -1,33 +1,58 @@
+import { WGS84, flipGeometryNorthing, looksLikeLonLat, normalizeCrs } from "../domain/crs";
+import { isLayerStyle } from "../domain/layerStyle";
 import {
   DEFAULT_LAYER,
   DEFAULT_LAYER_ID,
   createGeometryFeature,
+  geometryVertices,
   isFeatureGeometry,
+  openRing,
   type FeatureGeometry,
+  type PolygonPart,
+  type SimpleGeometry,
   type FeatureStyle,
   type GeometryFeature,
   type JsonValue,
   type Layer,
   type Point2D,
 } from "../domain/geometryFeature";
+import { isViewportBookmark, type ViewportBookmark } from "../domain/viewportBookmark";
 import { createId } from "./id";
 
 export interface ImportedGeoJSON {
   features: GeometryFeature[];
   layers: Layer[];
   warnings: string[];
+  /** Set when plain GeoJSON did not declare a usable CRS; says whether its coordinates were read as WGS 84 or pixels. */
+  crsWarning?: string;
+  /** Viewport bookmarks carried by a workbench export. */
+  bookmarks?: ViewportBookmark[];
 }
 
+export type GeoJSONSimpleGeometry =
+  | { type: "Point"; coordinates: Point2D }
+  | { type: "MultiPoint"; coordinates: Point2D[] }
+  | { type: "LineString"; coordinates: Point2D[] }
+  | { type: "MultiLineString"; coordinates: Point2D[][] }
+  | { type: "Polygon"; coordinates: Point2D[][] }
+  | { type: "MultiPolygon"; coordinates: Point2D[][][] };
+
+export type GeoJSONGeometry =
+  | GeoJSONSimpleGeometry
+  | { type: "GeometryCollection"; geometries: GeoJSONSimpleGeometry[] };
+
 export interface GeoJSONFeatureCollection {
   type: "FeatureCollection";
   features: Array<{
     type: "Feature";
     id: string;
-    geometry: { type: "LineString"; coordinates: Point2D[] } | { type: "Polygon"; coordinates: Point2D[][] };
+    geometry: GeoJSONGeometry;
     properties: Record<string, JsonValue>;
     workbench: { style: FeatureStyle; layerId: string; createdAt: string };
   }>;
-  workbench: { layers: Layer[] };
+  workbench: { layers: Layer[]; bookmarks?: ViewportBookmark[] };
+  /** Legacy named CRS, written when every exported feature is on a layer in the same CRS. */
+  crs?: { type: "name"; properties: { name: string } };
 }
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -47,7 +72,8 @@ const isLayer = (value: unknown): value is Layer =>
   typeof value.visible === "boolean" &&
   typeof value.order === "number" &&
   Number.isFinite(value.order) &&
-  typeof value.createdAt === "string";
+  typeof value.createdAt === "string" &&
+  (value.crs === undefined || typeof value.crs === "string");
 
 const isFiniteDate = (value: unknown): value is string =>
   typeof value === "string" && value.trim().length > 0 && Number.isFinite(Date.parse(value));
@@ -68,25 +94,64 @@ const point2DFromPosition = (value: unknown): Point2D | null => {
   return typeof x === "number" && Number.isFinite(x) && typeof y === "number" && Number.isFinite(y) ? [x, y] : null;
 };
 
-export const exportFeatureCollection = (features: GeometryFeature[], layers: Layer[]): GeoJSONFeatureCollection => {
+const closeRing = (ring: Point2D[]): Point2D[] => [...ring.map(copyPoint), copyPoint(ring[0])];
+
+const polygonRings = ({ coordinates, holes }: PolygonPart): Point2D[][] => [
+  closeRing(coordinates),
+  ...(holes ?? []).map(closeRing),
+];
+
+const toGeoJSONSimpleGeometry = (geometry: SimpleGeometry): GeoJSONSimpleGeometry => {
+  switch (geometry.type) {
+    case "Point":
+      return { type: "Point", coordinates: copyPoint(geometry.coordinates) };
+    case "MultiPoint":
+    case "LineString":
+      return { type: geometry.type, coordinates: geometry.coordinates.map(copyPoint) };
+    case "MultiLineString":
+      return { type: "MultiLineString", coordinates: geometry.coordinates.map((line) => line.map(copyPoint)) };
+    case "Polygon":
+      return { type: "Polygon", coordinates: polygonRings(geometry) };
+    case "MultiPolygon":
+      return { type: "MultiPolygon", coordinates: geometry.polygons.map(polygonRings) };
+  }
+};
+
+/** Converts canonical geometry to standard GeoJSON, closing Polygon rings. */
+export const toGeoJSONGeometry = (geometry: FeatureGeometry): GeoJSONGeometry =>
+  geometry.type === "GeometryCollection"
+    ? { type: "GeometryCollection", geometries: geometry.geometries.map(toGeoJSONSimpleGeometry) }
+    : toGeoJSONSimpleGeometry(geometry);
+
+// WGS 84 is written as CRS84 because the exported axes are longitude then latitude, not EPSG:4326's lat/lon
+const crsMember = (crs: string): NonNullable<GeoJSONFeatureCollection["crs"]> => ({
+  type: "name",
+  properties: { name: crs === WGS84 ? "urn:ogc:def:crs:OGC:1.3:CRS84" : `urn:ogc:def:crs:EPSG::${crs.slice(5)}` },
+});
+
+/**
+ * Features on georeferenced layers are written in their layer's CRS coordinates, with the model-pixel northing
+ * flipped back. Bookmarks are written only when there are some, so exports of projects without bookmarks do not
+ * change.
+ */
+export const exportFeatureCollection = (
+  features: GeometryFeature[],
+  layers: Layer[],
+  bookmarks: ViewportBookmark[] = []
+): GeoJSONFeatureCollection => {
   const referencedLayerIds = new Set(features.map((feature) => feature.layerId));
+  const layerCrs = new Map(layers.map(({ id, crs }) => [id, crs]));
+  const featureCrs = new Set(features.map(({ layerId }) => layerCrs.get(layerId)));
+  const [sharedCrs] = featureCrs.size === 1 ? featureCrs : [];
   return {
     type: "FeatureCollection",
+    ...(sharedCrs ? { crs: crsMember(sharedCrs) } : {}),
     features: features.map((feature) => ({
       type: "Feature",
       id: feature.id,
-      geometry:
-        feature.geometry.type === "Polygon"
-          ? {
-              type: "Polygon",
-              coordinates: [
-                [...feature.geometry.coordinates.map(copyPoint), copyPoint(feature.geometry.coordinates[0])],
-              ],
-            }
-          : {
-              type: "LineString",
-              coordinates: feature.geometry.coordinates.map(copyPoint),
-            },
+      geometry: toGeoJSONGeometry(
+        layerCrs.get(feature.layerId) ? flipGeometryNorthing(feature.geometry) : feature.geometry
+      ),
       properties: { ...feature.properties },
       workbench: {
         style: { ...feature.style },
@@ -94,39 +159,121 @@ export const exportFeatureCollection = (features: GeometryFeature[], layers: Lay
         createdAt: feature.createdAt,
       },
     })),
-    workbench: { layers: layers.filter((layer) => referencedLayerIds.has(layer.id)).map((layer) => ({ ...layer })) },
+    workbench: {
+      layers: layers.filter((layer) => referencedLayerIds.has(layer.id)).map((layer) => ({ ...layer })),
+      ...(bookmarks.length
+        ? { bookmarks: bookmarks.map((bookmark) => ({ ...bookmark, center: copyPoint(bookmark.center) })) }
+        : {}),
+    },
   };
 };
 
-const canonicalGeometry = (value: unknown): FeatureGeometry | null => {
-  if (!isRecord(value) || !Array.isArray(value.coordinates)) return null;
-  if (value.type !== "LineString" && value.type !== "Polygon") return null;
-  if (value.type === "Polygon" && value.coordinates.length !== 1) return null;
-  const positions = value.type === "Polygon" ? value.coordinates[0] : value.coordinates;
-  if (!Array.isArray(positions)) return null;
+const readBookmarks = (value: unknown, warnings: string[]): ViewportBookmark[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    warnings.push("Workbench bookmarks must be an array");
+    return [];
+  }
+  return value.flatMap((bookmark, index) => {
+    if (isViewportBookmark(bookmark)) {
+      return [
+        { ...bookmark, center: copyPoint(bookmark.center), createdAt: new Date(bookmark.createdAt).toISOString() },
+      ];
+    }
+    warnings.push(`Bookmark ${index} is invalid and was skipped`);
+    return [];
+  });
+};
+
+const positionList = (value: unknown): Point2D[] | null => {
+  if (!Array.isArray(value)) return null;
   const coordinates: Point2D[] = [];
-  for (const position of positions) {
+  for (const position of value) {
     const point = point2DFromPosition(position);
     if (!point) return null;
     coordinates.push(point);
   }
-  const candidate = { type: value.type, coordinates } as FeatureGeometry;
-  if (!isFeatureGeometry(candidate)) return null;
-  if (candidate.type === "LineString") return candidate;
-
-  const polygonCoordinates = candidate.coordinates.map(copyPoint);
-  const first = polygonCoordinates[0];
-  const last = polygonCoordinates.at(-1);
-  if (last && first[0] === last[0] && first[1] === last[1]) polygonCoordinates.pop();
-  const normalized = { type: "Polygon", coordinates: polygonCoordinates };
-  return isFeatureGeometry(normalized) ? normalized : null;
+  return coordinates;
+};
+
+const polygonPartFromRings = (value: unknown): PolygonPart | null => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const rings: Point2D[][] = [];
+  for (const rawRing of value) {
+    const ring = positionList(rawRing);
+    if (!ring) return null;
+    rings.push(openRing(ring));
+  }
+  const [coordinates, ...holes] = rings;
+  return holes.length ? { coordinates, holes } : { coordinates };
 };
 
+const listOf = <T>(value: unknown, read: (entry: unknown) => T | null): T[] | null => {
+  if (!Array.isArray(value)) return null;
+  const entries: T[] = [];
+  for (const entry of value) {
+    const parsed = read(entry);
+    if (!parsed) return null;
+    entries.push(parsed);
+  }
+  return entries;
+};
+
+const simpleGeometry = (value: unknown): SimpleGeometry | null => {
+  if (!isRecord(value)) return null;
+  let candidate: SimpleGeometry | null = null;
+  switch (value.type) {
+    case "Point": {
+      const point = point2DFromPosition(value.coordinates);
+      candidate = point && { type: "Point", coordinates: point };
+      break;
+    }
+    case "MultiPoint":
+    case "LineString": {
+      const coordinates = positionList(value.coordinates);
+      candidate = coordinates && { type: value.type, coordinates };
+      break;
+    }
+    case "MultiLineString": {
+      const coordinates = listOf(value.coordinates, positionList);
+      candidate = coordinates && { type: "MultiLineString", coordinates };
+      break;
+    }
+    case "Polygon": {
+      const polygon = polygonPartFromRings(value.coordinates);
+      candidate = polygon && { type: "Polygon", ...polygon };
+      break;
+    }
+    case "MultiPolygon": {
+      const polygons = listOf(value.coordinates, polygonPartFromRings);
+      candidate = polygons && { type: "MultiPolygon", polygons };
+      break;
+    }
+  }
+  return candidate && isFeatureGeometry(candidate) ? candidate : null;
+};
+
+/**
+ * Converts a GeoJSON geometry object to canonical geometry, dropping Z/M values and the closing position of each
+ * Polygon ring. GeometryCollection members must be non-collection geometries. Returns null for unsupported types
+ * and for geometry that is invalid after normalization.
+ */
+export const canonicalGeometry = (value: unknown): FeatureGeometry | null => {
+  if (!isRecord(value) || value.type !== "GeometryCollection") return simpleGeometry(value);
+  const geometries = listOf(value.geometries, simpleGeometry);
+  if (!geometries) return null;
+  const collection: FeatureGeometry = { type: "GeometryCollection", geometries };
+  return isFeatureGeometry(collection) ? collection : null;
+};
+
+/** Properties the pre-workbench pixel export wrote onto every feature. */
+const LEGACY_TRANSPORT_FIELDS = ["id", "color", "width", "geomType"];
+
 const readProperties = (value: unknown, stripLegacyTransportFields: boolean): Record<string, JsonValue> => {
   if (!isRecord(value)) return {};
   const properties: Record<string, JsonValue> = {};
   for (const [key, entry] of Object.entries(value)) {
-    if ((!stripLegacyTransportFields || !["id", "color", "width", "geomType"].includes(key)) && isJsonValue(entry)) {
+    if ((!stripLegacyTransportFields || !LEGACY_TRANSPORT_FIELDS.includes(key)) && isJsonValue(entry)) {
       Object.defineProperty(properties, key, {
         value: entry,
         enumerable: true,
@@ -138,6 +285,21 @@ const readProperties = (value: unknown, stripLegacyTransportFields: boolean): Re
   return properties;
 };
 
+/** The legacy (GeoJSON 2008) named `crs` member; RFC 7946 dropped it, but many GIS exports still write it. */
+const declaredCrsName = (input: Record<string, unknown>): unknown =>
+  isRecord(input.crs) && input.crs.type === "name" && isRecord(input.crs.properties)
+    ? input.crs.properties.name
+    : undefined;
+
+// The legacy export is always in model pixels; `id` alone is too common in other GeoJSON to tell them apart
+const isLegacyPixelExport = (rawFeatures: unknown[]): boolean =>
+  rawFeatures.some(
+    (rawFeature) =>
+      isRecord(rawFeature) &&
+      isRecord(rawFeature.properties) &&
+      LEGACY_TRANSPORT_FIELDS.some((field) => field !== "id" && Object.hasOwn(rawFeature.properties as object, field))
+  );
+
 const uniqueId = (requested: unknown, usedIds: Set<string>): string => {
   let id = typeof requested === "string" && requested.length > 0 ? requested : createId();
   while (usedIds.has(id)) id = createId();
@@ -145,9 +307,14 @@ const uniqueId = (requested: unknown, usedIds: Set<string>): string => {
   return id;
 };
 
+/**
+ * Reads a GeoJSON Feature or FeatureCollection. `existingIds` are renamed on collision, and `existingLayers` place a
+ * layer created for plain GeoJSON above every layer already in the project.
+ */
 export const importFeatureCollection = (
   input: unknown,
-  existingIds: ReadonlySet<string> = new Set()
+  existingIds: ReadonlySet<string> = new Set(),
+  existingLayers: readonly Layer[] = []
 ): ImportedGeoJSON => {
   const warnings: string[] = [];
   if (!isRecord(input)) {
@@ -171,9 +338,15 @@ export const importFeatureCollection = (
   const layers: Layer[] =
     Array.isArray(rawLayers) && rawLayers.length > 0 && rawLayers.every(isLayer)
       ? rawLayers.map((layer, index) => {
-          if (isFiniteDate(layer.createdAt)) return { ...layer, createdAt: new Date(layer.createdAt).toISOString() };
+          const { style, ...rest } =
+            layer.crs === undefined ? layer : { ...layer, crs: normalizeCrs(layer.crs) ?? layer.crs };
+          const validStyle = style === undefined || isLayerStyle(style);
+          if (!validStyle) warnings.push(`Layer ${index} has an invalid style; its styling rules were dropped`);
+          const normalized: Layer = validStyle && style ? { ...rest, style } : rest;
+          if (isFiniteDate(layer.createdAt))
+            return { ...normalized, createdAt: new Date(layer.createdAt).toISOString() };
           warnings.push(`Layer ${index} has invalid createdAt; using the default timestamp`);
-          return { ...layer, createdAt: DEFAULT_LAYER.createdAt };
+          return { ...normalized, createdAt: DEFAULT_LAYER.createdAt };
         })
       : [DEFAULT_LAYER];
   const layerIds = new Set(layers.map((layer) => layer.id));
@@ -223,5 +396,54 @@ export const importFeatureCollection = (
     );
   });
 
-  return { features, layers, warnings };
+  // Workbench exports carry a CRS per layer; plain GeoJSON is placed on a new layer in its declared CRS
+  if (isRecord(input.workbench)) {
+    const bookmarks = readBookmarks(input.workbench.bookmarks, warnings);
+    const georeferenced = new Set(layers.flatMap(({ id, crs }) => (crs ? [id] : [])));
+    const modelFeatures = features.map((feature) =>
+      georeferenced.has(feature.layerId) ? { ...feature, geometry: flipGeometryNorthing(feature.geometry) } : feature
+    );
+    return bookmarks.length
+      ? { features: modelFeatures, layers, warnings, bookmarks }
+      : { features: modelFeatures, layers, warnings };
+  }
+  if (features.length === 0) return { features, layers, warnings };
+  const crsName = declaredCrsName(input);
+  const vertices = features.flatMap(({ geometry }) => geometryVertices(geometry));
+  const lonLat = looksLikeLonLat(vertices);
+  // RFC 7946 GeoJSON without a `crs` member is WGS 84. Legacy pixel exports, and whole-number coordinates that read
+  // as a pixel drawing rather than degrees, stay model pixels; either way the assumption is reported
+  const assumeWgs84 =
+    crsName === undefined &&
+    lonLat &&
+    !isLegacyPixelExport(rawFeatures) &&
+    vertices.some((point) => !point.every(Number.isInteger));
+  const crs = assumeWgs84 ? WGS84 : normalizeCrs(crsName);
+  if (!crs) {
+    const crsWarning =
+      crsName !== undefined
+        ? `Unsupported CRS ${JSON.stringify(crsName)}; coordinates were imported as model pixels`
+        : lonLat
+          ? "No CRS declared; coordinates look like longitude/latitude but were imported as model pixels"
+          : "No CRS declared; coordinates were imported as model pixels";
+    return { features, layers, warnings, crsWarning };
+  }
+  const layer: Layer = {
+    id: createId(),
+    name: `Imported ${crs}`,
+    visible: true,
+    order: existingLayers.reduce((highest, candidate) => Math.max(highest, candidate.order), -1) + 1,
+    createdAt: new Date().toISOString(),
+    crs,
+  };
+  return {
+    features: features.map((feature) => ({
+      ...feature,
+      geometry: flipGeometryNorthing(feature.geometry),
+      layerId: layer.id,
+    })),
+    layers: [layer],
+    warnings,
+    ...(assumeWgs84 ? { crsWarning: "No CRS declared; coordinates were imported as WGS 84 longitude/latitude" } : {}),
+  };
 };
@@ -4,6 +4,8 @@ import {
   getPolygonArea,
   getPolygonPerimeter,
   getPolylineLength,
+  getSegmentDistance,
+  isPointInRing,
   isPolygonCloseCandidate,
 } from "./geometry";
 
@@ -28,6 +30,23 @@ describe("geometry helpers", () => {
     expect(getPolygonPerimeter(points)).toBe(12);
   });
 
+  it("holeを除いたpolygon areaと全ringのperimeterを計算する", () => {
+    const exterior: [number, number][] = [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+    ];
+    const hole: [number, number][] = [
+      [2, 2],
+      [4, 2],
+      [4, 4],
+      [2, 4],
+    ];
+    expect(getPolygonArea(exterior, [hole])).toBe(96);
+    expect(getPolygonPerimeter(exterior, [hole])).toBe(48);
+  });
+
   it("点群のcentroidを計算する", () => {
     expect(
       getCentroid([
@@ -62,4 +81,21 @@ describe("geometry helpers", () => {
       )
     ).toBe(false);
   });
+
+  it("点と線分の最短距離を端点でclampして計算する", () => {
+    expect(getSegmentDistance([5, 3], [0, 0], [10, 0])).toBe(3);
+    expect(getSegmentDistance([13, 4], [0, 0], [10, 0])).toBe(5);
+    expect(getSegmentDistance([3, 4], [0, 0], [0, 0])).toBe(5);
+  });
+
+  it("開いたringに対する点の内外を判定する", () => {
+    const ring: [number, number][] = [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+    ];
+    expect(isPointInRing([5, 5], ring)).toBe(true);
+    expect(isPointInRing([15, 5], ring)).toBe(false);
+  });
 });
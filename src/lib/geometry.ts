@@ -13,7 +13,7 @@ export const getPolylineLength = (points: Point2D[]) => {
   return length;
 };
 
-export const getPolygonArea = (points: Point2D[]) => {
+const getRingArea = (points: Point2D[]) => {
   let area = 0;
   for (let i = 0; i < points.length; i++) {
     const [x1, y1] = points[i];
@@ -23,11 +23,22 @@ export const getPolygonArea = (points: Point2D[]) => {
   return Math.abs(area) / 2;
 };
 
-export const getPolygonPerimeter = (points: Point2D[]) => {
+/** Area of the exterior ring net of any interior rings (holes). */
+export const getPolygonArea = (points: Point2D[], holes: Point2D[][] = []) =>
+  Math.max(
+    0,
+    holes.reduce((area, hole) => area - getRingArea(hole), getRingArea(points))
+  );
+
+const getRingPerimeter = (points: Point2D[]) => {
   if (points.length < 2) return 0;
   return getPolylineLength([...points, points[0]]);
 };
 
+/** Perimeter of every ring, matching `ST_Perimeter` for polygons with holes. */
+export const getPolygonPerimeter = (points: Point2D[], holes: Point2D[][] = []) =>
+  holes.reduce((perimeter, hole) => perimeter + getRingPerimeter(hole), getRingPerimeter(points));
+
 export const getCentroid = (points: Point2D[]): Point2D => {
   if (points.length === 0) return [0, 0];
   return [
@@ -42,3 +53,23 @@ export const isPolygonCloseCandidate = (points: Point2D[], thresholdPx = 20) =>
   const [endX, endY] = points[points.length - 1];
   return Math.hypot(endX - startX, endY - startY) <= thresholdPx;
 };
+
+/** Shortest distance from `point` to the segment `start`–`end`. */
+export const getSegmentDistance = ([x, y]: Point2D, [x1, y1]: Point2D, [x2, y2]: Point2D) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+  return Math.hypot(x - (x1 + dx * t), y - (y1 + dy * t));
+};
+
+/** Even-odd point-in-ring test for an open ring. */
+export const isPointInRing = ([x, y]: Point2D, ring: Point2D[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
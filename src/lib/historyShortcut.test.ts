@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { historyShortcut } from "./historyShortcut";
+
+const keyEvent = (key: string, modifiers: Partial<KeyboardEvent> = {}, target: unknown = null) => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...modifiers,
+  target: target as EventTarget | null,
+});
+
+describe("historyShortcut", () => {
+  it("Ctrl/Cmd+ZをUndo、Shift付きをRedoにする", () => {
+    expect(historyShortcut(keyEvent("z", { ctrlKey: true }))).toBe("undo");
+    expect(historyShortcut(keyEvent("z", { metaKey: true }))).toBe("undo");
+    expect(historyShortcut(keyEvent("Z", { ctrlKey: true, shiftKey: true }))).toBe("redo");
+  });
+
+  it("修飾キーなし・Alt付き・他のキーは無視する", () => {
+    expect(historyShortcut(keyEvent("z"))).toBeUndefined();
+    expect(historyShortcut(keyEvent("z", { ctrlKey: true, altKey: true }))).toBeUndefined();
+    expect(historyShortcut(keyEvent("y", { ctrlKey: true }))).toBeUndefined();
+  });
+
+  it("入力欄でのキー操作はブラウザに任せる", () => {
+    for (const tagName of ["INPUT", "TEXTAREA", "SELECT"]) {
+      expect(historyShortcut(keyEvent("z", { ctrlKey: true }, { tagName }))).toBeUndefined();
+    }
+    expect(historyShortcut(keyEvent("z", { ctrlKey: true }, { tagName: "DIV", isContentEditable: true }))).toBe(
+      undefined
+    );
+    expect(historyShortcut(keyEvent("z", { ctrlKey: true }, { tagName: "CANVAS" }))).toBe("undo");
+  });
+});
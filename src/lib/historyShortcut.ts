@@ -0,0 +1,22 @@
+type ShortcutEvent = Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "shiftKey" | "altKey"> & {
+  target: EventTarget | null;
+};
+
+const EDITABLE_TAGS = new Set(["INPUT", "TEXTAREA", "SELECT"]);
+
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  const element = target as { tagName?: unknown; isContentEditable?: unknown } | null;
+  return (
+    typeof element?.tagName === "string" && (EDITABLE_TAGS.has(element.tagName) || element.isContentEditable === true)
+  );
+};
+
+/**
+ * Maps Ctrl+Z / Cmd+Z to Undo and Ctrl+Shift+Z / Cmd+Shift+Z to Redo. Keystrokes in text fields are left to the
+ * browser so typing in the SQL editor or attribute cells keeps its native undo.
+ */
+export const historyShortcut = (event: ShortcutEvent): "undo" | "redo" | undefined => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "z") return undefined;
+  if (isEditableTarget(event.target)) return undefined;
+  return event.shiftKey ? "redo" : "undo";
+};
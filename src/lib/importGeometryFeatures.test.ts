@@ -30,6 +30,10 @@ class FakeImportRepository {
     return [...this.features];
   }
 
+  async listLayers(): Promise<Layer[]> {
+    return [];
+  }
+
   async importGeoJSON(_layers: Layer[], features: GeometryFeature[]) {
     this.features.push(...features);
   }
@@ -98,6 +102,7 @@ describe("importGeometryFeatures", () => {
     const checkpointError = new PersistenceCheckpointError(new Error("quota exceeded"));
     const repository = {
       listFeatures: vi.fn().mockResolvedValue([]),
+      listLayers: vi.fn().mockResolvedValue([]),
       importGeoJSON: vi.fn().mockRejectedValue(checkpointError),
     };
 
@@ -109,6 +114,7 @@ describe("importGeometryFeatures", () => {
   it("parse errorにはGeoJSON import contextを付ける", async () => {
     const repository = {
       listFeatures: vi.fn().mockResolvedValue([]),
+      listLayers: vi.fn().mockResolvedValue([]),
       importGeoJSON: vi.fn(),
     };
 
@@ -1,7 +1,7 @@
 import { PersistenceCheckpointError, type GeometryRepository } from "../db/geometryRepository";
 import { importFeatureCollection, type ImportedGeoJSON } from "./geojson";
 
-type ImportRepository = Pick<GeometryRepository, "listFeatures" | "importGeoJSON">;
+type ImportRepository = Pick<GeometryRepository, "listFeatures" | "listLayers" | "importGeoJSON">;
 
 export const importGeometryFeatures = async (
   repository: ImportRepository,
@@ -9,8 +9,12 @@ export const importGeometryFeatures = async (
 ): Promise<ImportedGeoJSON> => {
   const contents = await readText();
   const existingFeatures = await repository.listFeatures();
-  const imported = importFeatureCollection(JSON.parse(contents), new Set(existingFeatures.map(({ id }) => id)));
-  await repository.importGeoJSON(imported.layers, imported.features);
+  const imported = importFeatureCollection(
+    JSON.parse(contents),
+    new Set(existingFeatures.map(({ id }) => id)),
+    await repository.listLayers()
+  );
+  await repository.importGeoJSON(imported.layers, imported.features, imported.bookmarks);
   return imported;
 };
 
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { createGeometryFeature, type FeatureGeometry } from "../domain/geometryFeature";
+import { toRenderableStroke } from "../domain/renderableStroke";
+import { createLevelOfDetail, cullWindow, sameCullWindow, simplifyStrokeParts } from "./levelOfDetail";
+
+const stroke = (id: string, geometry: FeatureGeometry) => toRenderableStroke(createGeometryFeature({ id, geometry }));
+
+// ほぼ直線上に並んだ 0.1px の揺れを持つ線
+const wobblyLine = stroke("wobbly", {
+  type: "LineString",
+  coordinates: Array.from({ length: 11 }, (_, index): [number, number] => [index * 10, index % 2 ? 0.1 : 0]),
+});
+
+describe("cullWindow", () => {
+  it("表示範囲を2の冪のcellへ広げ、小さなpanやzoomでは同じwindowを返す", () => {
+    const frame = { center: [300, 300] as [number, number], zoom: 1.1, width: 800, height: 600 };
+    const window = cullWindow(frame);
+
+    // 半画面 364px → cell 512。表示範囲 -64..664 × 27..573 を cell 境界へ広げ、さらに 1 cell の余白を足す
+    expect(window).toEqual({ bounds: { minX: -1024, minY: -512, maxX: 1536, maxY: 1536 }, tolerance: 0.25 });
+    expect(sameCullWindow(window, cullWindow({ ...frame, center: [320, 310], zoom: 1.2 }))).toBe(true);
+    expect(sameCullWindow(window, cullWindow({ ...frame, center: [1000, 300] }))).toBe(false);
+    expect(cullWindow({ ...frame, zoom: 4 })?.tolerance).toBe(0.125);
+    expect(cullWindow({ ...frame, width: 0 })).toBeNull();
+  });
+});
+
+describe("level of detail", () => {
+  it("windowの外のstrokeを除き、ズームに応じて線を簡略化する", () => {
+    const far = stroke("far", { type: "Point", coordinates: [5000, 5000] });
+    const levelOfDetail = createLevelOfDetail();
+    const window = { bounds: { minX: -100, minY: -100, maxX: 200, maxY: 200 }, tolerance: 0.5 };
+
+    const [visible, ...rest] = levelOfDetail([wobblyLine, far], window);
+
+    expect(rest).toEqual([]);
+    expect(visible.parts[0].ptsPx).toEqual([
+      [0, 0],
+      [100, 0],
+    ]);
+    expect(visible.ptsPx).toBe(wobblyLine.ptsPx);
+    expect(levelOfDetail([wobblyLine, far], window)[0]).toBe(visible);
+    expect(levelOfDetail([wobblyLine, far], null)).toEqual([wobblyLine, far]);
+  });
+
+  it("polygonの穴と点のpartは構造を保ったまま簡略化する", () => {
+    const collection = stroke("mixed", {
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Point", coordinates: [1, 1] },
+        {
+          type: "Polygon",
+          coordinates: [
+            [0, 0],
+            [50, 0.05],
+            [100, 0],
+            [100, 100],
+            [0, 100],
+          ],
+          holes: [
+            [
+              [10, 10],
+              [20, 10],
+              [20, 20],
+            ],
+          ],
+        },
+      ],
+    });
+
+    const simplified = simplifyStrokeParts(collection, 1);
+
+    expect(simplified.parts[0]).toBe(collection.parts[0]);
+    expect(simplified.parts[1].ptsPx).toHaveLength(4);
+    expect(simplified.parts[1].holes).toEqual(collection.parts[1].holes);
+    expect(simplified.area).toBe(collection.area);
+  });
+});
@@ -0,0 +1,108 @@
+import type { SimpleGeometry } from "../domain/geometryFeature";
+import { simplifyFeatureGeometry, type RenderableStroke, type RenderableStrokePart } from "../domain/renderableStroke";
+import type { PixelBox } from "./featureSelection";
+import { pointBounds, type CanvasFrame } from "./viewportFit";
+
+/** Largest deviation, in screen pixels, that simplifying for the current zoom may introduce. */
+export const LOD_SCREEN_TOLERANCE = 0.5;
+
+/**
+ * The model-pixel region geometry is culled against, and the simplification tolerance for the zoom. Both snap to
+ * powers of two, so panning by less than half a view or zooming within a factor of two keeps the same window and
+ * the scene does not rebuild on every camera frame.
+ */
+export interface CullWindow {
+  bounds: PixelBox;
+  tolerance: number;
+}
+
+export const cullWindow = ({ center: [x, y], zoom, width, height }: CanvasFrame): CullWindow | null => {
+  if (!(zoom > 0) || !(width > 0) || !(height > 0) || !Number.isFinite(x) || !Number.isFinite(y)) return null;
+  const halfWidth = width / 2 / zoom;
+  const halfHeight = height / 2 / zoom;
+  // cells are at least half a view wide, and the window keeps one spare cell on every side of the view
+  const cell = 2 ** Math.ceil(Math.log2(Math.max(halfWidth, halfHeight)));
+  const snapDown = (value: number) => Math.floor(value / cell) * cell;
+  const snapUp = (value: number) => Math.ceil(value / cell) * cell;
+  return {
+    bounds: {
+      minX: snapDown(x - halfWidth) - cell,
+      minY: snapDown(y - halfHeight) - cell,
+      maxX: snapUp(x + halfWidth) + cell,
+      maxY: snapUp(y + halfHeight) + cell,
+    },
+    tolerance: 2 ** Math.floor(Math.log2(LOD_SCREEN_TOLERANCE / zoom)),
+  };
+};
+
+export const sameCullWindow = (a: CullWindow | null, b: CullWindow | null): boolean =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.tolerance === b.tolerance &&
+    a.bounds.minX === b.bounds.minX &&
+    a.bounds.minY === b.bounds.minY &&
+    a.bounds.maxX === b.bounds.maxX &&
+    a.bounds.maxY === b.bounds.maxY);
+
+export const boxesIntersect = (a: PixelBox, b: PixelBox): boolean =>
+  a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+const partGeometry = ({ geomType, ptsPx, holes }: RenderableStrokePart): SimpleGeometry => {
+  if (geomType === "point") return { type: "MultiPoint", coordinates: ptsPx };
+  if (geomType === "line") return { type: "LineString", coordinates: ptsPx };
+  return holes?.length ? { type: "Polygon", coordinates: ptsPx, holes } : { type: "Polygon", coordinates: ptsPx };
+};
+
+/**
+ * Simplifies the line and polygon parts of a stroke with `simplifyFeatureGeometry`. Only `parts` change: `ptsPx`
+ * and the measurements still describe the stored geometry, so edit handles and labels are unaffected.
+ */
+export const simplifyStrokeParts = (stroke: RenderableStroke, tolerance: number): RenderableStroke => {
+  if (stroke.parts.every(({ geomType }) => geomType === "point")) return stroke;
+  const simplified = simplifyFeatureGeometry(
+    { type: "GeometryCollection", geometries: stroke.parts.map(partGeometry) },
+    tolerance
+  );
+  // a collection keeps one member per part, in part order
+  const members = simplified.type === "GeometryCollection" ? simplified.geometries : [simplified];
+  return {
+    ...stroke,
+    parts: stroke.parts.map((part, index) => {
+      const member = members[index];
+      if (member.type === "LineString") return { ...part, ptsPx: member.coordinates };
+      if (member.type !== "Polygon") return part;
+      return member.holes?.length
+        ? { ...part, ptsPx: member.coordinates, holes: member.holes }
+        : { ...part, ptsPx: member.coordinates };
+    }),
+  };
+};
+
+/**
+ * Returns a function that keeps the strokes whose bounds meet a cull window and simplifies them for its zoom.
+ * Bounds and simplified parts are memoised per stroke object, so a pan or zoom only simplifies strokes that come
+ * into view or change detail level; without a window every stroke is returned as it is.
+ */
+export const createLevelOfDetail = () => {
+  const bounds = new WeakMap<RenderableStroke, PixelBox | null>();
+  const simplified = new WeakMap<RenderableStroke, { tolerance: number; stroke: RenderableStroke }>();
+  const boundsOf = (stroke: RenderableStroke) => {
+    if (!bounds.has(stroke)) bounds.set(stroke, pointBounds(stroke.ptsPx));
+    return bounds.get(stroke) ?? null;
+  };
+  const simplify = (stroke: RenderableStroke, tolerance: number) => {
+    const cached = simplified.get(stroke);
+    if (cached?.tolerance === tolerance) return cached.stroke;
+    const next = simplifyStrokeParts(stroke, tolerance);
+    simplified.set(stroke, { tolerance, stroke: next });
+    return next;
+  };
+  return (strokes: RenderableStroke[], window: CullWindow | null): RenderableStroke[] =>
+    window
+      ? strokes.flatMap((stroke) => {
+          const box = boundsOf(stroke);
+          return box && boxesIntersect(box, window.bounds) ? [simplify(stroke, window.tolerance)] : [];
+        })
+      : strokes;
+};
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import type { QueryResult } from "../db/queryRuntime";
-import { queryResultFeatures, queryResultStrokes } from "./queryResultGeometry";
+import { queryResultCrs, queryResultFeatures, queryResultStrokes } from "./queryResultGeometry";
 
 const result = (values: unknown[]): QueryResult => ({
   status: "success",
@@ -37,12 +37,99 @@ describe("query result geometry", () => {
     ]);
   });
 
+  it("PointとMultiPointをpoint strokeへ変換する", () => {
+    const strokes = queryResultStrokes(
+      result(['{"type":"Point","coordinates":[1,2]}', '{"type":"MultiPoint","coordinates":[[0,0],[3,4]]}'])
+    );
+    expect(strokes.map(({ geomType, ptsPx }) => ({ geomType, ptsPx }))).toEqual([
+      { geomType: "point", ptsPx: [[1, 2]] },
+      {
+        geomType: "point",
+        ptsPx: [
+          [0, 0],
+          [3, 4],
+        ],
+      },
+    ]);
+  });
+
+  it("MultiPolygonとGeometryCollectionを複数partを持つ1つのstrokeへ変換する", () => {
+    const strokes = queryResultStrokes(
+      result([
+        '{"type":"MultiPolygon","coordinates":[[[[0,0],[2,0],[2,2],[0,0]]],[[[5,5],[7,5],[7,7],[5,5]]]]}',
+        '{"type":"GeometryCollection","geometries":[{"type":"Point","coordinates":[1,2]},{"type":"LineString","coordinates":[[0,0],[3,4]]}]}',
+      ])
+    );
+
+    expect(strokes.map(({ geomType, parts }) => ({ geomType, parts }))).toEqual([
+      {
+        geomType: "polygon",
+        parts: [
+          {
+            geomType: "polygon",
+            ptsPx: [
+              [0, 0],
+              [2, 0],
+              [2, 2],
+            ],
+          },
+          {
+            geomType: "polygon",
+            ptsPx: [
+              [5, 5],
+              [7, 5],
+              [7, 7],
+            ],
+          },
+        ],
+      },
+      {
+        geomType: "collection",
+        parts: [
+          { geomType: "point", ptsPx: [[1, 2]] },
+          {
+            geomType: "line",
+            ptsPx: [
+              [0, 0],
+              [3, 4],
+            ],
+          },
+        ],
+      },
+    ]);
+    expect(strokes[0].area).toBe(4);
+    expect(strokes[1].length).toBe(5);
+  });
+
   it("NULL、invalid、unsupported geometryをskipしrows自体は変更しない", () => {
-    const queryResult = result([null, "not-json", '{"type":"Point","coordinates":[1,2]}']);
+    const queryResult = result([null, "not-json", '{"type":"CircularString","coordinates":[[0,0],[1,1],[2,0]]}']);
     expect(queryResultStrokes(queryResult)).toEqual([]);
     expect(queryResult.rows).toHaveLength(3);
   });
 
+  it("crs列のある行はnorthingを反転してmodel pixelへ戻し、crs列はpropertiesに含めない", () => {
+    const queryResult: QueryResult = {
+      ...result([]),
+      columns: [
+        { name: "crs", type: "VARCHAR" },
+        { name: "geometry_geojson", type: "VARCHAR", geometryRole: "geojson" },
+      ],
+      rows: [
+        { crs: "EPSG:3857", geometry_geojson: '{"type":"Point","coordinates":[10,20]}' },
+        { crs: null, geometry_geojson: '{"type":"Point","coordinates":[3,4]}' },
+      ],
+    };
+
+    expect(
+      queryResultFeatures(queryResult, "analysis-layer").map(({ geometry, properties }) => [geometry, properties])
+    ).toEqual([
+      [{ type: "Point", coordinates: [10, -20] }, {}],
+      [{ type: "Point", coordinates: [3, 4] }, {}],
+    ]);
+    expect(queryResultCrs(queryResult)).toBeUndefined();
+    expect(queryResultCrs({ ...queryResult, rows: queryResult.rows.slice(0, 1) })).toBe("EPSG:3857");
+  });
+
   it("geometry role列がなければ描画しない", () => {
     expect(queryResultStrokes({ ...result([]), columns: [{ name: "id", type: "VARCHAR" }] })).toEqual([]);
   });
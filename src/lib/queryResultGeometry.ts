@@ -1,13 +1,13 @@
 import type { QueryResult } from "../db/queryRuntime";
+import { flipGeometryNorthing, normalizeCrs } from "../domain/crs";
 import {
   createGeometryFeature,
-  isFeatureGeometry,
   type FeatureGeometry,
   type GeometryFeature,
   type JsonValue,
-  type Point2D,
 } from "../domain/geometryFeature";
 import { toRenderableStroke, type RenderableStroke } from "../domain/renderableStroke";
+import { canonicalGeometry } from "./geojson";
 
 export const QUERY_RESULT_STYLE = {
   strokeColor: "#ec4899",
@@ -19,21 +19,7 @@ export const QUERY_RESULT_STYLE = {
 const parseGeometry = (value: unknown): FeatureGeometry | null => {
   if (typeof value !== "string") return null;
   try {
-    const parsed = JSON.parse(value) as { type?: unknown; coordinates?: unknown };
-    if (parsed.type !== "LineString" && parsed.type !== "Polygon") return null;
-    const coordinates =
-      parsed.type === "Polygon" && Array.isArray(parsed.coordinates) ? parsed.coordinates[0] : parsed.coordinates;
-    if (!Array.isArray(coordinates)) return null;
-    const open = coordinates.map((point) => point as Point2D);
-    if (
-      parsed.type === "Polygon" &&
-      open.length > 1 &&
-      open[0][0] === open.at(-1)?.[0] &&
-      open[0][1] === open.at(-1)?.[1]
-    )
-      open.pop();
-    const geometry = { type: parsed.type, coordinates: open } as FeatureGeometry;
-    return isFeatureGeometry(geometry) ? geometry : null;
+    return canonicalGeometry(JSON.parse(value));
   } catch {
     return null;
   }
@@ -51,25 +37,43 @@ const toJsonValue = (value: unknown): JsonValue => {
 
 export interface QueryResultGeometry {
   rowIndex: number;
+  /** Model pixels, with the northing flipped when the row names its CRS. */
   geometry: FeatureGeometry;
   properties: Record<string, JsonValue>;
+  crs?: string;
 }
 
+/** Name of the optional result column that gives each row's geometry CRS, as the `crs` column of `geometry_layers`. */
+export const QUERY_RESULT_CRS_COLUMN = "crs";
+
+/**
+ * Reads the GeoJSON geometry column of a result. The SQL views hand georeferenced features out in their layer's CRS
+ * coordinates, so a row whose `crs` column names a CRS is flipped back into model pixels to line up with its source.
+ */
 export const queryResultGeometries = (result: QueryResult): QueryResultGeometry[] => {
   const geometryColumn = result.columns.find((column) => column.geometryRole === "geojson");
   if (!geometryColumn) return [];
   return result.rows.flatMap((row, rowIndex) => {
     const geometry = parseGeometry(row[geometryColumn.name]);
     if (!geometry) return [];
+    const crs = normalizeCrs(row[QUERY_RESULT_CRS_COLUMN]);
     const properties = Object.fromEntries(
       result.columns
-        .filter((column) => column.name !== geometryColumn.name)
+        .filter((column) => column.name !== geometryColumn.name && column.name !== QUERY_RESULT_CRS_COLUMN)
         .map((column) => [column.name, toJsonValue(row[column.name])])
     );
-    return [{ rowIndex, geometry, properties }];
+    return crs
+      ? [{ rowIndex, geometry: flipGeometryNorthing(geometry), properties, crs }]
+      : [{ rowIndex, geometry, properties }];
   });
 };
 
+/** The CRS shared by every result geometry, or undefined when they are model pixels or mix CRSs. */
+export const queryResultCrs = (result: QueryResult): string | undefined => {
+  const crss = new Set(queryResultGeometries(result).map(({ crs }) => crs));
+  return crss.size === 1 ? [...crss][0] : undefined;
+};
+
 export const queryResultFeatures = (result: QueryResult, layerId: string): GeometryFeature[] =>
   queryResultGeometries(result).map(({ geometry, properties }) =>
     createGeometryFeature({
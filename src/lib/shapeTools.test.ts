@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { getPolygonArea, getPolygonPerimeter } from "./geometry";
+import { shapeRing } from "./shapeTools";
+
+describe("shapeRing", () => {
+  it("矩形はドラッグした2点を対角とする4頂点の open ring になる", () => {
+    expect(shapeRing("rectangle", [10, 20], [40, 0])).toEqual([
+      [10, 20],
+      [40, 20],
+      [40, 0],
+      [10, 0],
+    ]);
+  });
+
+  it("Shift で矩形は正方形、楕円は円に制約される", () => {
+    const square = shapeRing("rectangle", [0, 0], [30, -10], undefined, true);
+    expect(square).toEqual([
+      [0, 0],
+      [30, 0],
+      [30, -30],
+      [0, -30],
+    ]);
+    const circle = shapeRing("ellipse", [0, 0], [20, 10], { segments: 8, sides: 6 }, true)!;
+    for (const [x, y] of circle) expect(Math.hypot(x - 10, y - 10)).toBeCloseTo(10);
+  });
+
+  it("円は始点を中心にセグメント数ぶんの頂点を作る", () => {
+    const ring = shapeRing("circle", [100, 100], [100, 150], { segments: 90, sides: 6 })!;
+    expect(ring).toHaveLength(90);
+    for (const [x, y] of ring) expect(Math.hypot(x - 100, y - 100)).toBeCloseTo(50);
+    expect(getPolygonArea(ring)).toBeCloseTo(Math.PI * 50 * 50, -2);
+    expect(getPolygonPerimeter(ring)).toBeCloseTo(Math.PI * 100, 0);
+  });
+
+  it("楕円は bbox に内接し、セグメント数を範囲内に丸める", () => {
+    const ring = shapeRing("ellipse", [0, 0], [40, 20], { segments: 2, sides: 6 })!;
+    expect(ring).toHaveLength(8);
+    expect(Math.min(...ring.map(([x]) => x))).toBeCloseTo(0);
+    expect(Math.max(...ring.map(([x]) => x))).toBeCloseTo(40);
+    expect(Math.max(...ring.map(([, y]) => y))).toBeCloseTo(20);
+  });
+
+  it("正多角形は終点を最初の頂点とし、Shift で回転を15°刻みにする", () => {
+    const ring = shapeRing("regular-polygon", [0, 0], [10, 0], { segments: 64, sides: 4 })!;
+    expect(ring).toHaveLength(4);
+    expect(ring[0]).toEqual([10, 0]);
+    expect(ring[1][0]).toBeCloseTo(0);
+    expect(ring[1][1]).toBeCloseTo(10);
+
+    const [[x, y]] = shapeRing("regular-polygon", [0, 0], [10, 1], { segments: 64, sides: 3 }, true)!;
+    expect(x).toBeCloseTo(Math.hypot(10, 1));
+    expect(y).toBeCloseTo(0);
+  });
+
+  it("面積のないドラッグは null を返す", () => {
+    expect(shapeRing("rectangle", [5, 5], [5, 30])).toBeNull();
+    expect(shapeRing("circle", [5, 5], [5, 5])).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import type { Point2D } from "../domain/geometryFeature";
+
+export type ShapeKind = "rectangle" | "circle" | "ellipse" | "regular-polygon";
+
+export interface ShapeOptions {
+  /** Vertex count used to approximate circles and ellipses. */
+  segments: number;
+  /** Side count of a regular polygon. */
+  sides: number;
+}
+
+export const DEFAULT_SHAPE_OPTIONS: ShapeOptions = { segments: 64, sides: 6 };
+
+export const SHAPE_SEGMENT_RANGE = { min: 8, max: 360 } as const;
+export const SHAPE_SIDE_RANGE = { min: 3, max: 64 } as const;
+
+const clampCount = (value: number, { min, max }: { min: number; max: number }) =>
+  Math.min(max, Math.max(min, Math.round(Number.isFinite(value) ? value : min)));
+
+const ellipseRing = ([cx, cy]: Point2D, rx: number, ry: number, count: number, startAngle = 0): Point2D[] =>
+  Array.from({ length: count }, (_, index) => {
+    const angle = startAngle + (index / count) * Math.PI * 2;
+    return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)];
+  });
+
+/**
+ * Builds the open exterior ring of a shape dragged from `start` to `end` in model pixels.
+ *
+ * Rectangles and ellipses fill the box between the two points; circles and regular polygons are centred on `start`
+ * with `end` on the outline. `constrain` (Shift while dragging) turns rectangles into squares and ellipses into
+ * circles, and snaps the rotation of regular polygons to 15° steps. Returns `null` for a drag without area.
+ */
+export const shapeRing = (
+  kind: ShapeKind,
+  start: Point2D,
+  end: Point2D,
+  options: ShapeOptions = DEFAULT_SHAPE_OPTIONS,
+  constrain = false
+): Point2D[] | null => {
+  let dx = end[0] - start[0];
+  let dy = end[1] - start[1];
+  if (constrain && (kind === "rectangle" || kind === "ellipse")) {
+    const side = Math.max(Math.abs(dx), Math.abs(dy));
+    dx = Math.sign(dx || 1) * side;
+    dy = Math.sign(dy || 1) * side;
+  }
+  const segments = clampCount(options.segments, SHAPE_SEGMENT_RANGE);
+
+  if (kind === "rectangle") {
+    if (dx === 0 || dy === 0) return null;
+    const [x, y] = start;
+    return [
+      [x, y],
+      [x + dx, y],
+      [x + dx, y + dy],
+      [x, y + dy],
+    ];
+  }
+  if (kind === "ellipse") {
+    if (dx === 0 || dy === 0) return null;
+    const center: Point2D = [start[0] + dx / 2, start[1] + dy / 2];
+    return ellipseRing(center, Math.abs(dx) / 2, Math.abs(dy) / 2, segments);
+  }
+
+  const radius = Math.hypot(dx, dy);
+  if (radius === 0) return null;
+  if (kind === "circle") return ellipseRing(start, radius, radius, segments);
+
+  const step = Math.PI / 12;
+  const angle = Math.atan2(dy, dx);
+  return ellipseRing(
+    start,
+    radius,
+    radius,
+    clampCount(options.sides, SHAPE_SIDE_RANGE),
+    constrain ? Math.round(angle / step) * step : angle
+  );
+};
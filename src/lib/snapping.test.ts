@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { createGeometryFeature } from "../domain/geometryFeature";
+import { toRenderableStroke } from "../domain/renderableStroke";
+import { DEFAULT_SNAP_SETTINGS, createSnapIndex, snapToGrid } from "./snapping";
+
+const strokes = [
+  createGeometryFeature({
+    id: "parcel",
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [0, 0],
+        [100, 0],
+        [100, 100],
+        [0, 100],
+      ],
+    },
+  }),
+  createGeometryFeature({
+    id: "road",
+    geometry: {
+      type: "LineString",
+      coordinates: [
+        [300, 0],
+        [300, 400],
+      ],
+    },
+  }),
+].map(toRenderableStroke);
+
+const gridOn = { ...DEFAULT_SNAP_SETTINGS, grid: true, gridSize: 25 };
+
+describe("snapping", () => {
+  const index = createSnapIndex(strokes, 32);
+
+  it("許容範囲内ではedgeよりvertexを優先する", () => {
+    expect(index.snap([104, 3], DEFAULT_SNAP_SETTINGS, 8)).toEqual({ point: [100, 0], kind: "vertex" });
+    expect(index.snap([50, 4], DEFAULT_SNAP_SETTINGS, 8)).toEqual({ point: [50, 0], kind: "edge" });
+  });
+
+  it("複数cellにまたがる長いsegmentにもsnapする", () => {
+    expect(index.snap([305, 250], DEFAULT_SNAP_SETTINGS, 8)).toEqual({ point: [300, 250], kind: "edge" });
+  });
+
+  it("斜めのsegmentは通過するcellだけに登録し、どの位置でもsnapする", () => {
+    const diagonal = createSnapIndex(
+      [
+        toRenderableStroke(
+          createGeometryFeature({
+            id: "diagonal",
+            geometry: {
+              type: "LineString",
+              coordinates: [
+                [5, 3],
+                [1000, 700],
+              ],
+            },
+          })
+        ),
+      ],
+      32
+    );
+    for (const t of [0.1, 0.37, 0.5, 0.81, 0.99]) {
+      const x = 5 + 995 * t;
+      const y = 3 + 697 * t;
+      const { point, kind } = diagonal.snap([x + 3, y - 4], DEFAULT_SNAP_SETTINGS, 8);
+      expect(kind).toBe("edge");
+      expect(Math.hypot(point[0] - x, point[1] - y)).toBeLessThan(5);
+    }
+  });
+
+  it("EPSG:3857 のような巨大な座標の長いsegmentでも索引を爆発させずにsnapする", () => {
+    const mercator = createSnapIndex([
+      toRenderableStroke(
+        createGeometryFeature({
+          id: "coast",
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [-2e7, -1.5e7],
+              [2e7, 1.5e7],
+            ],
+          },
+        })
+      ),
+    ]);
+    expect(mercator.snap([-3, 4], DEFAULT_SNAP_SETTINGS, 8)).toEqual({ point: [0, 0], kind: "edge" });
+  });
+
+  it("大きく縮小して許容範囲が膨大なcell数に及んでも、登録済みのcellだけを調べてsnapする", () => {
+    // 範囲内の cell を1つずつ辿ると (2 × 1e12 / 32)² 回になる
+    expect(index.snap([120, 40], DEFAULT_SNAP_SETTINGS, 1e12)).toEqual({ point: [100, 0], kind: "vertex" });
+    expect(index.snap([120, 40], { ...DEFAULT_SNAP_SETTINGS, vertices: false }, 1e12)).toEqual({
+      point: [100, 40],
+      kind: "edge",
+    });
+  });
+
+  it("対象がなければgrid、grid無効なら入力点をそのまま返す", () => {
+    expect(index.snap([160, 212], gridOn, 8)).toEqual({ point: [150, 200], kind: "grid" });
+    expect(index.snap([160, 212], DEFAULT_SNAP_SETTINGS, 8)).toEqual({ point: [160, 212], kind: null });
+    expect(index.snap([104, 3], { ...gridOn, vertices: false, edges: false }, 8)).toEqual({
+      point: [100, 0],
+      kind: "grid",
+    });
+  });
+
+  it("ドラッグ中のvertexと隣接segmentを除外する", () => {
+    const exclude = { strokeId: "parcel", vertexIndex: 1 };
+    expect(index.snap([104, 3], DEFAULT_SNAP_SETTINGS, 8, exclude)).toEqual({ point: [104, 3], kind: null });
+    expect(index.snap([97, 50], DEFAULT_SNAP_SETTINGS, 8, { strokeId: "parcel", vertexIndex: 0 })).toEqual({
+      point: [100, 50],
+      kind: "edge",
+    });
+  });
+
+  it("gridへ丸める", () => {
+    expect(snapToGrid([12.4, -13], 10)).toEqual([10, -10]);
+  });
+});
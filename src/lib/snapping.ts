@@ -0,0 +1,194 @@
+import type { Point2D } from "../domain/geometryFeature";
+import { strokeSegments, type RenderableStroke } from "../domain/renderableStroke";
+
+export type SnapKind = "vertex" | "edge" | "grid";
+
+export interface SnapSettings {
+  vertices: boolean;
+  edges: boolean;
+  grid: boolean;
+  /** Grid spacing in model pixels. */
+  gridSize: number;
+}
+
+/** Snap search radius in screen pixels; divide by the camera zoom for model pixels. */
+export const SNAP_TOLERANCE_PX = 10;
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { vertices: true, edges: true, grid: false, gridSize: 20 };
+
+export interface SnapResult {
+  point: Point2D;
+  kind: SnapKind | null;
+}
+
+/** A stroke vertex that must not attract the pointer, typically the vertex being dragged. */
+export interface SnapExclusion {
+  strokeId: string;
+  vertexIndex: number;
+}
+
+interface VertexEntry {
+  strokeId: string;
+  index: number;
+  point: Point2D;
+}
+
+interface SegmentEntry {
+  strokeId: string;
+  startIndex: number;
+  endIndex: number;
+  start: Point2D;
+  end: Point2D;
+}
+
+export interface SnapIndex {
+  /**
+   * Snaps `point` to the nearest vertex within `tolerance`, else the nearest point on a segment within `tolerance`,
+   * else the grid when it is enabled. Returns the input point with `kind: null` when nothing applies.
+   */
+  snap(point: Point2D, settings: SnapSettings, tolerance: number, exclude?: SnapExclusion): SnapResult;
+}
+
+const closestPointOnSegment = ([x, y]: Point2D, [x1, y1]: Point2D, [x2, y2]: Point2D): Point2D => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return [x1, y1];
+  const t = Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+  return [x1 + dx * t, y1 + dy * t];
+};
+
+export const snapToGrid = ([x, y]: Point2D, gridSize: number): Point2D => [
+  Math.round(x / gridSize) * gridSize,
+  Math.round(y / gridSize) * gridSize,
+];
+
+/** Segments crossing more cells than this are kept in one list that every query checks, instead of in cells. */
+const MAX_SEGMENT_CELLS = 256;
+
+interface SnapCell<T> {
+  cx: number;
+  cy: number;
+  entries: T[];
+}
+
+/**
+ * Buckets stroke vertices and segments into a uniform grid of `cellSize` model pixels, so a snap query only visits
+ * the cells around the pointer instead of every feature. A segment is added to the cells it passes through, found by
+ * walking the grid along it, so the index grows with segment length rather than with the area of its bounds. When
+ * the tolerance spans more cells than are occupied (zoomed far out), a query scans the occupied cells instead.
+ */
+export const createSnapIndex = (strokes: readonly RenderableStroke[], cellSize = 64): SnapIndex => {
+  const vertexCells = new Map<string, SnapCell<VertexEntry>>();
+  const segmentCells = new Map<string, SnapCell<SegmentEntry>>();
+  const longSegments: SegmentEntry[] = [];
+  const cell = (value: number) => Math.floor(value / cellSize);
+  const add = <T>(cells: Map<string, SnapCell<T>>, cx: number, cy: number, entry: T) => {
+    const key = `${cx},${cy}`;
+    const bucket = cells.get(key);
+    if (bucket) bucket.entries.push(entry);
+    else cells.set(key, { cx, cy, entries: [entry] });
+  };
+
+  // Amanatides–Woo traversal: step into whichever neighbouring column or row the segment reaches first
+  const addSegment = (entry: SegmentEntry) => {
+    const [x0, y0] = entry.start;
+    const [x1, y1] = entry.end;
+    let cx = cell(x0);
+    let cy = cell(y0);
+    const endX = cell(x1);
+    const endY = cell(y1);
+    const crossings = Math.abs(endX - cx) + Math.abs(endY - cy);
+    if (crossings >= MAX_SEGMENT_CELLS) {
+      longSegments.push(entry);
+      return;
+    }
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    const stepX = Math.sign(dx);
+    const stepY = Math.sign(dy);
+    const deltaX = dx === 0 ? Infinity : cellSize / Math.abs(dx);
+    const deltaY = dy === 0 ? Infinity : cellSize / Math.abs(dy);
+    let nextX = dx === 0 ? Infinity : ((dx > 0 ? cx + 1 : cx) * cellSize - x0) / dx;
+    let nextY = dy === 0 ? Infinity : ((dy > 0 ? cy + 1 : cy) * cellSize - y0) / dy;
+    add(segmentCells, cx, cy, entry);
+    // every step moves one column or row closer to the end cell, so the walk takes exactly `crossings` steps
+    for (let step = 0; step < crossings; step += 1) {
+      if (cx !== endX && (cy === endY || nextX <= nextY)) {
+        cx += stepX;
+        nextX += deltaX;
+      } else {
+        cy += stepY;
+        nextY += deltaY;
+      }
+      add(segmentCells, cx, cy, entry);
+    }
+  };
+
+  for (const stroke of strokes) {
+    stroke.ptsPx.forEach((point, index) => {
+      if (!point.every(Number.isFinite)) return;
+      add(vertexCells, cell(point[0]), cell(point[1]), { strokeId: stroke.id, index, point });
+    });
+    for (const [startIndex, endIndex] of strokeSegments(stroke)) {
+      const start = stroke.ptsPx[startIndex];
+      const end = stroke.ptsPx[endIndex];
+      if (!start.every(Number.isFinite) || !end.every(Number.isFinite)) continue;
+      addSegment({ strokeId: stroke.id, startIndex, endIndex, start, end });
+    }
+  }
+
+  const nearby = <T>(
+    cells: Map<string, SnapCell<T>>,
+    [x, y]: Point2D,
+    tolerance: number,
+    always: readonly T[] = []
+  ) => {
+    const found = new Set<T>(always);
+    const [minX, maxX, minY, maxY] = [
+      cell(x - tolerance),
+      cell(x + tolerance),
+      cell(y - tolerance),
+      cell(y + tolerance),
+    ];
+    if ((maxX - minX + 1) * (maxY - minY + 1) > cells.size) {
+      for (const { cx, cy, entries } of cells.values()) {
+        if (cx >= minX && cx <= maxX && cy >= minY && cy <= maxY) for (const entry of entries) found.add(entry);
+      }
+      return found;
+    }
+    for (let cx = minX; cx <= maxX; cx += 1) {
+      for (let cy = minY; cy <= maxY; cy += 1) {
+        for (const entry of cells.get(`${cx},${cy}`)?.entries ?? []) found.add(entry);
+      }
+    }
+    return found;
+  };
+
+  return {
+    snap(point, settings, tolerance, exclude) {
+      const isExcluded = (strokeId: string, ...indices: number[]) =>
+        exclude !== undefined && strokeId === exclude.strokeId && indices.includes(exclude.vertexIndex);
+      let best: { point: Point2D; distance: number } | null = null;
+      if (settings.vertices) {
+        for (const entry of nearby(vertexCells, point, tolerance)) {
+          if (isExcluded(entry.strokeId, entry.index)) continue;
+          const distance = Math.hypot(entry.point[0] - point[0], entry.point[1] - point[1]);
+          if (distance <= tolerance && (!best || distance < best.distance)) best = { point: entry.point, distance };
+        }
+        if (best) return { point: [best.point[0], best.point[1]], kind: "vertex" };
+      }
+      if (settings.edges) {
+        for (const entry of nearby(segmentCells, point, tolerance, longSegments)) {
+          if (isExcluded(entry.strokeId, entry.startIndex, entry.endIndex)) continue;
+          const candidate = closestPointOnSegment(point, entry.start, entry.end);
+          const distance = Math.hypot(candidate[0] - point[0], candidate[1] - point[1]);
+          if (distance <= tolerance && (!best || distance < best.distance)) best = { point: candidate, distance };
+        }
+        if (best) return { point: best.point, kind: "edge" };
+      }
+      if (settings.grid && settings.gridSize > 0) return { point: snapToGrid(point, settings.gridSize), kind: "grid" };
+      return { point, kind: null };
+    },
+  };
+};
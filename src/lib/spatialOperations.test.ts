@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { validateReadOnlySql } from "../db/queryRuntime";
+import { SPATIAL_OPERATIONS, spatialOperationSql } from "./spatialOperations";
+
+const sqlOf = (request: Parameters<typeof spatialOperationSql>[0]) => {
+  const generated = spatialOperationSql(request);
+  if (generated.status !== "ok") throw new Error(generated.message);
+  return generated.sql;
+};
+
+describe("spatialOperationSql", () => {
+  it("選択中のfeatureをfeatureごとにbufferするSQLを作る", () => {
+    const sql = sqlOf({ operation: "buffer", source: { kind: "selection" }, parameter: 12.5 });
+
+    expect(sql).toContain("FROM selected_features AS feature LEFT JOIN geometry_layers AS layer");
+    expect(sql).toContain("SELECT id AS source_id, crs, ST_Buffer(geom, 12.5) AS geom FROM source");
+    expect(sql).toContain("CAST(ST_AsGeoJSON(geom) AS VARCHAR) AS geometry_geojson");
+  });
+
+  it("layerを対象にするときはlayer_idの引用符をescapeし、combineでは1つのgeometryにまとめる", () => {
+    const sql = sqlOf({ operation: "convexHull", source: { kind: "layer", layerId: "it's" }, combine: true });
+
+    expect(sql).toContain("WHERE feature.layer_id = 'it''s'");
+    expect(sql).toContain("ST_ConvexHull(ST_Collect(list(geom)))");
+    expect(sql).toContain("HAVING count(*) > 0");
+  });
+
+  it("CRSの異なるfeatureはcombineせず、featureごとの処理なら受け付ける", () => {
+    const mixed = { operation: "buffer", source: { kind: "selection" }, sourceCrs: ["EPSG:3857", undefined] } as const;
+
+    expect(spatialOperationSql({ ...mixed, combine: true })).toEqual({
+      status: "invalid",
+      message: "Combine needs source features in one CRS.",
+    });
+    expect(spatialOperationSql(mixed).status).toBe("ok");
+    expect(spatialOperationSql({ ...mixed, combine: true, sourceCrs: ["EPSG:3857", "EPSG:3857"] }).status).toBe("ok");
+  });
+
+  it("生成したSQLはすべて読み取り専用の検査を通る", () => {
+    for (const { id } of SPATIAL_OPERATIONS) {
+      for (const combine of [false, true]) {
+        const sql = sqlOf({
+          operation: id,
+          source: { kind: "layer", layerId: "x'; DROP TABLE features; --" },
+          combine,
+        });
+        expect(() => validateReadOnlySql(sql)).not.toThrow();
+      }
+    }
+  });
+
+  it("parameterを省略すると既定値を使い、範囲外や数値でない値は拒否する", () => {
+    expect(sqlOf({ operation: "simplify", source: { kind: "selection" } })).toContain(
+      "ST_SimplifyPreserveTopology(geom, 2)"
+    );
+    expect(sqlOf({ operation: "buffer", source: { kind: "selection" }, parameter: -3 })).toContain(
+      "ST_Buffer(geom, -3)"
+    );
+    expect(spatialOperationSql({ operation: "simplify", source: { kind: "selection" }, parameter: -1 })).toEqual({
+      status: "invalid",
+      message: "Tolerance must be at least 0.",
+    });
+    expect(spatialOperationSql({ operation: "buffer", source: { kind: "selection" }, parameter: Number.NaN })).toEqual({
+      status: "invalid",
+      message: "Distance must be a number.",
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { QUERY_FEATURES_VIEW, QUERY_LAYERS_VIEW, QUERY_SELECTED_FEATURES_VIEW } from "../db/queryViews";
+
+export type SpatialOperationId = "buffer" | "simplify" | "centroid" | "envelope" | "convexHull";
+
+export interface SpatialOperationParameter {
+  label: string;
+  defaultValue: number;
+  /** Smallest accepted value; omitted when negative values are meaningful. */
+  min?: number;
+}
+
+/**
+ * One toolbox operation. The form and the generated SQL are both driven by this table, so adding an operation that
+ * maps to a single DuckDB Spatial function only needs a new entry.
+ */
+export interface SpatialOperation {
+  id: SpatialOperationId;
+  label: string;
+  sqlFunction: string;
+  parameter?: SpatialOperationParameter;
+}
+
+export const SPATIAL_OPERATIONS: readonly SpatialOperation[] = [
+  {
+    id: "buffer",
+    label: "Buffer",
+    sqlFunction: "ST_Buffer",
+    // a negative distance shrinks polygons
+    parameter: { label: "Distance", defaultValue: 10 },
+  },
+  {
+    id: "simplify",
+    label: "Simplify",
+    sqlFunction: "ST_SimplifyPreserveTopology",
+    parameter: { label: "Tolerance", defaultValue: 2, min: 0 },
+  },
+  { id: "centroid", label: "Centroid", sqlFunction: "ST_Centroid" },
+  { id: "envelope", label: "Envelope", sqlFunction: "ST_Envelope" },
+  { id: "convexHull", label: "Convex hull", sqlFunction: "ST_ConvexHull" },
+];
+
+export type SpatialOperationSource = { kind: "selection" } | { kind: "layer"; layerId: string };
+
+export interface SpatialOperationRequest {
+  operation: SpatialOperationId;
+  source: SpatialOperationSource;
+  /** Value of the operation's parameter, in the units of the source coordinates. */
+  parameter?: number;
+  /** Collects every source geometry into one before the operation, giving a single output row. */
+  combine?: boolean;
+  /**
+   * CRS of each source feature's layer, undefined for model pixels. Combining is refused when they differ, because the
+   * collected geometry would mix coordinate systems under one `crs` label.
+   */
+  sourceCrs?: ReadonlyArray<string | undefined>;
+}
+
+export type SpatialOperationSql = { status: "ok"; sql: string } | { status: "invalid"; message: string };
+
+export const spatialOperation = (id: SpatialOperationId): SpatialOperation => {
+  const operation = SPATIAL_OPERATIONS.find((candidate) => candidate.id === id);
+  if (!operation) throw new Error(`Unknown spatial operation: ${id}`);
+  return operation;
+};
+
+const sqlString = (value: string) => `'${value.replaceAll("'", "''")}'`;
+
+/**
+ * Builds the read-only query for a toolbox operation against the SQL sandbox views. The result has a
+ * `geometry_geojson` column, so it previews and saves like any SQL result, a `crs` column carrying the source layer's
+ * CRS, plus `source_id` (NULL when combined) and `operation` columns that become the properties of saved features.
+ */
+export const spatialOperationSql = ({
+  operation: id,
+  source,
+  parameter,
+  combine = false,
+  sourceCrs = [],
+}: SpatialOperationRequest): SpatialOperationSql => {
+  const operation = spatialOperation(id);
+  if (combine && new Set(sourceCrs).size > 1) {
+    return { status: "invalid", message: "Combine needs source features in one CRS." };
+  }
+  const value = parameter ?? operation.parameter?.defaultValue;
+  if (operation.parameter) {
+    if (value === undefined || !Number.isFinite(value)) {
+      return { status: "invalid", message: `${operation.parameter.label} must be a number.` };
+    }
+    if (operation.parameter.min !== undefined && value < operation.parameter.min) {
+      return {
+        status: "invalid",
+        message: `${operation.parameter.label} must be at least ${operation.parameter.min}.`,
+      };
+    }
+  }
+  const input =
+    source.kind === "selection"
+      ? `FROM ${QUERY_SELECTED_FEATURES_VIEW} AS feature`
+      : `FROM ${QUERY_FEATURES_VIEW} AS feature`;
+  const filter = source.kind === "layer" ? ` WHERE feature.layer_id = ${sqlString(source.layerId)}` : "";
+  const inner = combine ? "ST_Collect(list(geom))" : "geom";
+  const call = operation.parameter
+    ? `${operation.sqlFunction}(${inner}, ${value})`
+    : `${operation.sqlFunction}(${inner})`;
+  const result = combine
+    ? `SELECT NULL AS source_id, min(crs) AS crs, ${call} AS geom FROM source HAVING count(*) > 0`
+    : `SELECT id AS source_id, crs, ${call} AS geom FROM source`;
+  return {
+    status: "ok",
+    sql: [
+      "WITH source AS (",
+      "  SELECT feature.id, layer.crs, ST_GeomFromGeoJSON(feature.geometry_geojson) AS geom",
+      `  ${input} LEFT JOIN ${QUERY_LAYERS_VIEW} AS layer ON layer.id = feature.layer_id${filter}`,
+      "), result AS (",
+      `  ${result}`,
+      ")",
+      `SELECT source_id, ${sqlString(id)} AS operation, crs, CAST(ST_AsGeoJSON(geom) AS VARCHAR) AS geometry_geojson`,
+      "FROM result",
+      "WHERE geom IS NOT NULL AND NOT ST_IsEmpty(geom)",
+    ].join("\n"),
+  };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultStyle, createGeometryFeature, type FeatureGeometry } from "../domain/geometryFeature";
+import { toRenderableStroke } from "../domain/renderableStroke";
+import { createStrokeBatcher, strokeOutlines, strokeTriangles } from "./strokeBatches";
+
+const stroke = (id: string, geometry: FeatureGeometry, { layerId = "base", strokeWidth = 4 } = {}) =>
+  toRenderableStroke(
+    createGeometryFeature({ id, geometry, layerId, style: createDefaultStyle("#222222", strokeWidth) })
+  );
+
+const square = stroke("square", {
+  type: "Polygon",
+  coordinates: [
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+  ],
+  holes: [
+    [
+      [4, 4],
+      [6, 4],
+      [6, 6],
+      [4, 6],
+    ],
+  ],
+});
+
+describe("stroke geometry", () => {
+  it("polygonの外周と穴を閉じた輪郭にし、穴を除いて三角形分割する", () => {
+    expect(strokeOutlines(square).map(({ points, closed }) => [points.length, closed])).toEqual([
+      [4, true],
+      [4, true],
+    ]);
+    const triangles = strokeTriangles(square);
+    const area = triangles.reduce(
+      (total, [x0, y0, x1, y1, x2, y2]) => total + Math.abs((x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0)) / 2,
+      0
+    );
+    expect(area).toBeCloseTo(96);
+  });
+});
+
+describe("stroke batcher", () => {
+  it("layerごとに塗り・線・点をまとめ、layerの順に返す", () => {
+    const line = stroke(
+      "line",
+      {
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [3, 4],
+          [3, 8],
+        ],
+      },
+      { layerId: "b" }
+    );
+    const point = stroke("point", { type: "Point", coordinates: [5, 5] }, { layerId: "b" });
+    const wide = stroke(
+      "wide",
+      {
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [1, 0],
+        ],
+      },
+      { layerId: "b", strokeWidth: 9 }
+    );
+
+    const batches = createStrokeBatcher().sync([square, line, point, wide]);
+
+    expect(batches.map(({ kind, layerId, order, buffer }) => [kind, layerId, order, buffer.size])).toEqual([
+      ["fills", "base", 0, strokeTriangles(square).length],
+      ["lines", "base", 0, 8],
+      ["lines", "b", 1, 2],
+      ["points", "b", 1, 1],
+      ["lines", "b", 1, 1],
+    ]);
+    // 破線用の距離は stroke の始点からの累積長
+    const lines = batches[2];
+    expect(lines.kind === "lines" && Array.from(lines.buffer.arrays.distance.subarray(0, 4))).toEqual([0, 5, 5, 9]);
+  });
+
+  it("変わったstrokeだけを書き換え、消えたstrokeの範囲と空のbatchを片付ける", () => {
+    const batcher = createStrokeBatcher();
+    const first = stroke("first", {
+      type: "LineString",
+      coordinates: [
+        [0, 0],
+        [1, 0],
+      ],
+    });
+    const second = stroke("second", {
+      type: "LineString",
+      coordinates: [
+        [0, 1],
+        [1, 1],
+      ],
+    });
+    const [lines] = batcher.sync([first, second]);
+    lines.buffer.takeChanges();
+
+    const moved = stroke("second", {
+      type: "LineString",
+      coordinates: [
+        [0, 2],
+        [1, 2],
+      ],
+    });
+    expect(batcher.sync([first, moved])).toEqual([lines]);
+    expect(lines.buffer.takeChanges().ranges).toEqual([{ start: 1, count: 1 }]);
+
+    expect(batcher.sync([first, moved])).toEqual([lines]);
+    expect(lines.buffer.takeChanges().ranges).toEqual([]);
+
+    batcher.sync([moved]);
+    expect(lines.buffer.takeChanges().ranges).toEqual([{ start: 0, count: 1 }]);
+    expect(batcher.sync([])).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { Color, ShapeUtils, Vector2 } from "three";
+import type { Point2D } from "../domain/geometryFeature";
+import type { StrokeDash } from "../domain/layerStyle";
+import type { RenderableStroke } from "../domain/renderableStroke";
+import { createBatchBuffer, type BatchBuffer } from "./batchBuffer";
+
+/** Floats per line segment: start and end position (xyz), colour (rgb) and distance along the stroke for dashes. */
+export const SEGMENT_STRIDES = { position: 6, color: 6, distance: 2 } as const;
+/** Floats per fill triangle: three positions (xyz) and three colours (rgba, with the fill opacity as alpha). */
+export const TRIANGLE_STRIDES = { position: 9, color: 12 } as const;
+/** Floats per point instance: a column-major 4×4 matrix placing a unit circle, and its colour (rgb). */
+export const POINT_STRIDES = { matrix: 16, color: 3 } as const;
+
+export type StrokeBatch =
+  | {
+      kind: "lines";
+      key: string;
+      layerId: string;
+      order: number;
+      width: number;
+      dash?: StrokeDash;
+      buffer: BatchBuffer<keyof typeof SEGMENT_STRIDES>;
+    }
+  | { kind: "fills"; key: string; layerId: string; order: number; buffer: BatchBuffer<keyof typeof TRIANGLE_STRIDES> }
+  | { kind: "points"; key: string; layerId: string; order: number; buffer: BatchBuffer<keyof typeof POINT_STRIDES> };
+
+const isFinitePoint = ([x, y]: Point2D) => Number.isFinite(x) && Number.isFinite(y);
+
+/** Polylines a stroke draws: open line parts and closed polygon rings, without non-finite vertices. */
+export const strokeOutlines = (stroke: RenderableStroke): Array<{ points: Point2D[]; closed: boolean }> =>
+  stroke.parts.flatMap((part) => {
+    if (part.geomType === "point") return [];
+    const rings = part.geomType === "line" ? [part.ptsPx] : [part.ptsPx, ...(part.holes ?? [])];
+    return rings
+      .map((ring) => ({ points: ring.filter(isFinitePoint), closed: part.geomType === "polygon" }))
+      .filter(({ points, closed }) => points.length >= (closed ? 3 : 2));
+  });
+
+/** Triangles of every polygon part, holes cut out, as flat `[x0, y0, x1, y1, x2, y2]` model-pixel lists. */
+export const strokeTriangles = (stroke: RenderableStroke): number[][] =>
+  stroke.parts.flatMap((part) => {
+    if (part.geomType !== "polygon") return [];
+    const contour = part.ptsPx.filter(isFinitePoint);
+    if (contour.length < 3) return [];
+    const holes = (part.holes ?? []).map((hole) => hole.filter(isFinitePoint)).filter((hole) => hole.length >= 3);
+    const vertices = [contour, ...holes].flat();
+    const toVector = ([x, y]: Point2D) => new Vector2(x, y);
+    return ShapeUtils.triangulateShape(
+      contour.map(toVector),
+      holes.map((hole) => hole.map(toVector))
+    ).map((face) => face.flatMap((index) => vertices[index]));
+  });
+
+const strokePoints = (stroke: RenderableStroke): Point2D[] =>
+  stroke.parts.flatMap((part) => (part.geomType === "point" ? part.ptsPx.filter(isFinitePoint) : []));
+
+// vertex colours are in three's working colour space, which is linear
+const linearColor = (hex: string) => {
+  const { r, g, b } = new Color(hex);
+  return [r, g, b];
+};
+
+const lineKey = ({ layerId, width, dash }: RenderableStroke) =>
+  `lines:${layerId}:${width}:${dash ? `${dash.dashSize},${dash.gapSize}` : ""}`;
+
+const writeSegments = (buffer: BatchBuffer<keyof typeof SEGMENT_STRIDES>, stroke: RenderableStroke) => {
+  const outlines = strokeOutlines(stroke);
+  const count = outlines.reduce((total, { points, closed }) => total + (closed ? points.length : points.length - 1), 0);
+  const [r, g, b] = linearColor(stroke.color);
+  buffer.write(stroke.id, count, ({ position, color, distance }, start) => {
+    let index = start;
+    let travelled = 0;
+    for (const { points, closed } of outlines) {
+      const segments = closed ? points.length : points.length - 1;
+      for (let offset = 0; offset < segments; offset += 1) {
+        const [x0, y0] = points[offset];
+        const [x1, y1] = points[(offset + 1) % points.length];
+        position.set([x0, y0, 0, x1, y1, 0], index * 6);
+        color.set([r, g, b, r, g, b], index * 6);
+        const length = Math.hypot(x1 - x0, y1 - y0);
+        distance.set([travelled, travelled + length], index * 2);
+        travelled += length;
+        index += 1;
+      }
+    }
+  });
+};
+
+const writeTriangles = (buffer: BatchBuffer<keyof typeof TRIANGLE_STRIDES>, stroke: RenderableStroke) => {
+  const triangles = strokeTriangles(stroke);
+  const rgba = [...linearColor(stroke.fillColor), stroke.fillOpacity];
+  buffer.write(stroke.id, triangles.length, ({ position, color }, start) => {
+    triangles.forEach(([x0, y0, x1, y1, x2, y2], offset) => {
+      position.set([x0, y0, 0, x1, y1, 0, x2, y2, 0], (start + offset) * 9);
+      color.set([...rgba, ...rgba, ...rgba], (start + offset) * 12);
+    });
+  });
+};
+
+const writePoints = (buffer: BatchBuffer<keyof typeof POINT_STRIDES>, stroke: RenderableStroke) => {
+  const points = strokePoints(stroke);
+  const rgb = linearColor(stroke.color);
+  // points draw as circles whose radius is the stroke width, in model pixels
+  const radius = Math.max(0.01, stroke.width);
+  buffer.write(stroke.id, points.length, ({ matrix, color }, start) => {
+    points.forEach(([x, y], offset) => {
+      matrix.set([radius, 0, 0, 0, 0, radius, 0, 0, 0, 0, 1, 0, x, y, 0, 1], (start + offset) * 16);
+      color.set(rgb, (start + offset) * 3);
+    });
+  });
+};
+
+/**
+ * Keeps the strokes packed into a few shared buffers: per layer one fill batch and one point batch, and one line
+ * batch per stroke width and dash pattern because line materials have a single width. `sync` compares strokes by
+ * object identity with the previous call, so only added, replaced and removed strokes touch the buffers.
+ */
+export const createStrokeBatcher = () => {
+  const batches = new Map<string, StrokeBatch>();
+  let written = new Map<string, { stroke: RenderableStroke; keys: string[] }>();
+
+  const batchFor = (kind: StrokeBatch["kind"], stroke: RenderableStroke): StrokeBatch => {
+    const key = kind === "lines" ? lineKey(stroke) : `${kind}:${stroke.layerId}`;
+    let batch = batches.get(key);
+    if (!batch) {
+      const base = { key, layerId: stroke.layerId, order: 0 };
+      batch =
+        kind === "lines"
+          ? {
+              ...base,
+              kind,
+              width: stroke.width,
+              ...(stroke.dash ? { dash: { ...stroke.dash } } : {}),
+              buffer: createBatchBuffer(SEGMENT_STRIDES),
+            }
+          : kind === "fills"
+            ? { ...base, kind, buffer: createBatchBuffer(TRIANGLE_STRIDES) }
+            : { ...base, kind, buffer: createBatchBuffer(POINT_STRIDES) };
+      batches.set(key, batch);
+    }
+    return batch;
+  };
+
+  const write = (stroke: RenderableStroke): string[] => {
+    const keys: string[] = [];
+    for (const kind of ["fills", "lines", "points"] as const) {
+      const batch = batchFor(kind, stroke);
+      if (batch.kind === "lines") writeSegments(batch.buffer, stroke);
+      else if (batch.kind === "fills") writeTriangles(batch.buffer, stroke);
+      else writePoints(batch.buffer, stroke);
+      if (batch.buffer.has(stroke.id)) keys.push(batch.key);
+    }
+    return keys;
+  };
+
+  /** Brings the buffers in line with `strokes` and returns the batches in draw order (layer order, as given). */
+  const sync = (strokes: readonly RenderableStroke[]): StrokeBatch[] => {
+    const next = new Map<string, { stroke: RenderableStroke; keys: string[] }>();
+    const layerOrder = new Map<string, number>();
+    for (const stroke of strokes) {
+      if (!layerOrder.has(stroke.layerId)) layerOrder.set(stroke.layerId, layerOrder.size);
+      const previous = written.get(stroke.id);
+      if (previous?.stroke === stroke) {
+        next.set(stroke.id, previous);
+        continue;
+      }
+      const keys = write(stroke);
+      // a changed width, dash or geometry type moves the stroke out of batches it used to be in
+      for (const key of previous?.keys ?? []) {
+        if (!keys.includes(key)) batches.get(key)?.buffer.remove(stroke.id);
+      }
+      next.set(stroke.id, { stroke, keys });
+    }
+    for (const [id, { keys }] of written) {
+      if (!next.has(id)) for (const key of keys) batches.get(key)?.buffer.remove(id);
+    }
+    written = next;
+    for (const [key, batch] of batches) {
+      if (batch.buffer.size === 0) batches.delete(key);
+      else batch.order = layerOrder.get(batch.layerId) ?? 0;
+    }
+    return [...batches.values()].sort((a, b) => a.order - b.order);
+  };
+
+  return { sync };
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from "vitest";
+import { createValueStore } from "./valueStore";
+
+describe("createValueStore", () => {
+  it("値が変わったときだけ購読者へ通知し、解除後は通知しない", () => {
+    const store = createValueStore<[number, number] | null>(null, (a, b) => a?.[0] === b?.[0] && a?.[1] === b?.[1]);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.set([1, 2]);
+    store.set([1, 2]);
+    expect(listener).toHaveBeenCalledOnce();
+    expect(store.get()).toEqual([1, 2]);
+
+    unsubscribe();
+    store.set(null);
+    expect(listener).toHaveBeenCalledOnce();
+    expect(store.get()).toBeNull();
+  });
+});
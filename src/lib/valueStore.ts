@@ -0,0 +1,26 @@
+/**
+ * A single observable value for state that changes on every pointer move or camera frame. Components read it with
+ * `useSyncExternalStore`, so only the readouts re-render instead of the whole canvas tree.
+ */
+export interface ValueStore<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createValueStore = <T>(initial: T, equals: (a: T, b: T) => boolean = Object.is): ValueStore<T> => {
+  let current = initial;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => current,
+    set: (value) => {
+      if (equals(current, value)) return;
+      current = value;
+      for (const listener of listeners) listener();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  FIT_MAX_ZOOM,
+  fitViewportToBounds,
+  interpolateViewport,
+  pointBounds,
+  viewFromViewport,
+  viewportForView,
+} from "./viewportFit";
+
+const size = { width: 800, height: 600 };
+
+describe("viewport fit", () => {
+  it("有限な点だけから範囲を求め、点が無ければnullを返す", () => {
+    expect(
+      pointBounds([
+        [10, 40],
+        [-5, 20],
+        [Number.NaN, 0],
+      ])
+    ).toEqual({ minX: -5, minY: 20, maxX: 10, maxY: 40 });
+    expect(pointBounds([])).toBeNull();
+  });
+
+  it("範囲の中心へcameraとtargetを移し、余白を残して収まるzoomを選ぶ", () => {
+    const fitted = fitViewportToBounds({ minX: 100, minY: 100, maxX: 300, maxY: 200 }, size, size, 1);
+
+    expect(fitted).toMatchObject({ cameraX: -200, cameraY: 150, targetX: -200, targetY: 150 });
+    // 幅 200px・高さ 100px は幅で決まる: 800 * 0.9 / 200
+    expect(fitted.zoom).toBeCloseTo(3.6);
+  });
+
+  it("幅も高さも無い範囲は現在のzoomを保ち、上限を超えない", () => {
+    expect(fitViewportToBounds({ minX: 400, minY: 300, maxX: 400, maxY: 300 }, size, size, 2).zoom).toBe(2);
+    expect(fitViewportToBounds({ minX: 0, minY: 0, maxX: 1, maxY: 1 }, size, size, 1).zoom).toBe(FIT_MAX_ZOOM);
+  });
+
+  it("アニメーション中のzoomは幾何的に補間し、端点では目標と一致する", () => {
+    const from = { cameraX: 0, cameraY: 0, targetX: 0, targetY: 0, zoom: 1 };
+    const to = { cameraX: 100, cameraY: -50, targetX: 100, targetY: -50, zoom: 4 };
+
+    expect(interpolateViewport(from, to, 0)).toEqual(from);
+    expect(interpolateViewport(from, to, 1)).toEqual(to);
+    expect(interpolateViewport(from, to, 0.5)).toEqual({
+      cameraX: 50,
+      cameraY: -25,
+      targetX: 50,
+      targetY: -25,
+      zoom: 2,
+    });
+  });
+
+  it("canvasの大きさに依存しないview（中心のmodel pixelとzoom）とcamera stateを相互に変換する", () => {
+    const viewport = viewportForView({ center: [500, 100], zoom: 2 }, size, size);
+
+    expect(viewport).toEqual({ cameraX: 100, cameraY: 200, targetX: 100, targetY: 200, zoom: 2 });
+    expect(viewFromViewport(viewport, size, size)).toEqual({ center: [500, 100], zoom: 2 });
+  });
+});
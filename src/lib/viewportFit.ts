@@ -0,0 +1,112 @@
+import type { Point2D } from "../domain/geometryFeature";
+import type { PixelBox } from "./featureSelection";
+import type { ViewportState } from "./viewportState";
+
+interface Size2D {
+  width: number;
+  height: number;
+}
+
+/** Share of the canvas left empty around a fitted extent, split between both sides. */
+export const FIT_PADDING = 0.1;
+
+/** Highest zoom a fit may choose, so a single point or a tiny feature does not fill the screen. */
+export const FIT_MAX_ZOOM = 20;
+
+export const FIT_ANIMATION_MS = 400;
+
+/** What the canvas shows, independent of the canvas size: the model pixel at its centre and the camera zoom. */
+export interface CanvasView {
+  center: Point2D;
+  zoom: number;
+}
+
+/** A canvas view together with the CSS pixel size of the canvas it is shown on, for overlays such as rulers. */
+export interface CanvasFrame extends CanvasView {
+  width: number;
+  height: number;
+}
+
+/** Camera state that puts the model pixel `center` in the middle of the canvas at `zoom`. */
+export const viewportForView = (
+  { center: [x, y], zoom }: CanvasView,
+  size: Size2D,
+  viewport: Size2D
+): ViewportState => {
+  // the same model-pixel to world mapping as pxToWorld in the canvas components
+  const worldX = (x * viewport.width) / size.width - viewport.width / 2;
+  const worldY = viewport.height / 2 - (y * viewport.height) / size.height;
+  return { cameraX: worldX, cameraY: worldY, targetX: worldX, targetY: worldY, zoom };
+};
+
+/** Inverse of `viewportForView`: the model pixel the camera target is looking at. */
+export const viewFromViewport = (
+  { targetX, targetY, zoom }: ViewportState,
+  size: Size2D,
+  viewport: Size2D
+): CanvasView => ({
+  center: [
+    ((targetX + viewport.width / 2) * size.width) / viewport.width,
+    ((viewport.height / 2 - targetY) * size.height) / viewport.height,
+  ],
+  zoom,
+});
+
+/** Bounding box of the finite points, or null when there are none. */
+export const pointBounds = (points: Iterable<Point2D>): PixelBox | null => {
+  let bounds: PixelBox | null = null;
+  for (const [x, y] of points) {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+    bounds = bounds
+      ? {
+          minX: Math.min(bounds.minX, x),
+          minY: Math.min(bounds.minY, y),
+          maxX: Math.max(bounds.maxX, x),
+          maxY: Math.max(bounds.maxY, y),
+        }
+      : { minX: x, minY: y, maxX: x, maxY: y };
+  }
+  return bounds;
+};
+
+/**
+ * Camera state that centres `bounds` (model pixels) on a canvas of `size` and zooms so that it fills the canvas less
+ * `padding`. An extent without width or height keeps `currentZoom`, clamped to `maxZoom`.
+ */
+export const fitViewportToBounds = (
+  bounds: PixelBox,
+  size: Size2D,
+  viewport: Size2D,
+  currentZoom: number,
+  { padding = FIT_PADDING, maxZoom = FIT_MAX_ZOOM }: { padding?: number; maxZoom?: number } = {}
+): ViewportState => {
+  const worldWidth = ((bounds.maxX - bounds.minX) * viewport.width) / size.width;
+  const worldHeight = ((bounds.maxY - bounds.minY) * viewport.height) / size.height;
+  const fill = 1 - padding;
+  const zooms = [
+    worldWidth > 0 ? (viewport.width * fill) / worldWidth : Infinity,
+    worldHeight > 0 ? (viewport.height * fill) / worldHeight : Infinity,
+  ];
+  const fitted = Math.min(...zooms);
+  const zoom = Math.min(Number.isFinite(fitted) ? fitted : currentZoom, maxZoom);
+  const center: Point2D = [(bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2];
+  return viewportForView({ center, zoom }, size, viewport);
+};
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+/**
+ * Camera state `t` (0–1) of the way from `from` to `to`. Zoom moves geometrically so that zooming in and out feel
+ * equally fast.
+ */
+export const interpolateViewport = (from: ViewportState, to: ViewportState, t: number): ViewportState => {
+  const eased = easeInOutCubic(Math.min(1, Math.max(0, t)));
+  const mix = (a: number, b: number) => a + (b - a) * eased;
+  return {
+    cameraX: mix(from.cameraX, to.cameraX),
+    cameraY: mix(from.cameraY, to.cameraY),
+    targetX: mix(from.targetX, to.targetX),
+    targetY: mix(from.targetY, to.targetY),
+    zoom: from.zoom * (to.zoom / from.zoom) ** eased,
+  };
+};